@@ -1106,10 +1106,57 @@ program
   .command('trigger <incident-id>')
   .description('Trigger Kestra workflow for an incident')
   .option('--kestra-url <url>', 'Kestra server URL', process.env.KESTRA_URL || 'http://localhost:8080')
+  .option('--app-url <url>', 'IncidentScribe URL; with --webhook-key the run is started (and recorded) by the app', process.env.INCIDENTSCRIBE_URL)
+  .option('--webhook-key <key>', 'Organization webhook key for --app-url', process.env.INCIDENTSCRIBE_WEBHOOK_KEY)
   .action(async (incidentId, options) => {
     const spinner = ora('Triggering Kestra workflow...').start();
 
     try {
+      // Through the app: the incident is loaded from the database and the run shows in its execution history
+      if (options.appUrl && options.webhookKey) {
+        spinner.text = `Triggering workflow through ${options.appUrl}...`;
+
+        try {
+          const response = await retryWithBackoff(
+            async () => axios.post(
+              `${options.appUrl.replace(/\/+$/, '')}/api/webhooks/trigger`,
+              { incident_id: incidentId },
+              {
+                headers: {
+                  'Content-Type': 'application/json',
+                  'X-Webhook-Key': options.webhookKey,
+                },
+                timeout: 30000,
+              }
+            ),
+            {
+              maxRetries: 3,
+              baseDelay: 1000,
+              onRetry: (attempt, maxRetries, delay) => {
+                spinner.text = chalk.yellow(
+                  `Connection failed (attempt ${attempt}/${maxRetries}), retrying in ${Math.round(delay/1000)}s...`
+                );
+              },
+            }
+          );
+
+          spinner.succeed(chalk.green('Kestra workflow triggered!'));
+          console.log(chalk.bold.cyan('\n╔════════════════════════════════════════╗'));
+          console.log(chalk.bold.cyan('║      KESTRA WORKFLOW TRIGGERED         ║'));
+          console.log(chalk.bold.cyan('╚════════════════════════════════════════╝\n'));
+          console.log(chalk.white(`Execution ID: ${response.data.executionId || 'N/A'}`));
+          console.log(chalk.white(`Status: ${response.data.status || 'RUNNING'}`));
+          console.log(chalk.gray(`\nView execution: ${response.data.url}`));
+          console.log();
+        } catch (error) {
+          spinner.fail(chalk.red('Workflow could not be triggered'));
+          console.log(chalk.gray(`Error: ${error.response?.data?.error || error.message}`));
+          console.log();
+          process.exit(1);
+        }
+        return;
+      }
+
       const incident = await loadIncident(incidentId);
       if (!incident) {
         spinner.fail(chalk.red(`Incident ${incidentId} not found`));
@@ -1157,6 +1204,7 @@ program
         console.log(chalk.white(`Status: ${response.data.state?.current || 'RUNNING'}`));
         console.log(chalk.white(`Flow: ${flowId}`));
         console.log(chalk.gray(`\nView execution: ${kestraUrl}/executions/${response.data.id || ''}`));
+        console.log(chalk.gray('Not recorded in the app\'s execution history; use --app-url and --webhook-key for that'));
         console.log();
 
       } catch (error) {
@@ -51,13 +51,33 @@ CREATE TABLE IF NOT EXISTS incidents (
   status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'investigating', 'resolved', 'closed')),
   title TEXT NOT NULL,
   description TEXT,
+  -- Preview only: the first lines of the incident's logs; the full log lives in incident_logs
   logs JSONB DEFAULT '[]'::jsonb,
+  log_count INTEGER NOT NULL DEFAULT 0,
   metrics JSONB DEFAULT '{}'::jsonb,
   context JSONB DEFAULT '{}'::jsonb,
   organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID REFERENCES users(id) ON DELETE SET NULL,
   resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- Alert grouping: repeated alerts with the same fingerprint fold into one incident
+  fingerprint VARCHAR(64),
+  occurrence_count INTEGER NOT NULL DEFAULT 1,
+  last_occurrence_at TIMESTAMP WITH TIME ZONE,
+  -- Set when the source reports recovery but the org requires a human to confirm the resolve
+  recovered_at TIMESTAMP WITH TIME ZONE,
+  -- What ingest redaction replaced: [{ rule, action, count, fields }], never the values
+  redactions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- AI analysis run: pending while a failed trigger waits for a retry, running once
+  -- triggered, then completed/failed by the Kestra callback (or failed when retries run out)
+  analysis_status VARCHAR(20) CHECK (analysis_status IN ('pending', 'running', 'completed', 'failed')),
+  analysis_execution_id VARCHAR(255),
+  analysis_updated_at TIMESTAMP WITH TIME ZONE,
   UNIQUE(external_id, organization_id)
 );
 
@@ -114,6 +134,200 @@ CREATE TABLE IF NOT EXISTS audit_log (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Incident timeline events (ingestion, workflow runs, status changes, notifications)
+CREATE TABLE IF NOT EXISTS incident_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  title TEXT NOT NULL,
+  details JSONB DEFAULT '{}'::jsonb,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  dedupe_key VARCHAR(255) UNIQUE,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Incident log lines, one row per line (incidents.logs keeps only a preview)
+CREATE TABLE IF NOT EXISTS incident_logs (
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  -- Parsed from the line when recognisable: FATAL, ERROR, WARN, INFO, DEBUG, TRACE
+  level VARCHAR(10),
+  logged_at TIMESTAMP WITH TIME ZONE,
+  message TEXT NOT NULL,
+  PRIMARY KEY (incident_id, line_number)
+);
+
+-- Kestra runs per incident: one row for every trigger, kept in sync from Kestra
+-- and the completion callback (ai_analyses only holds the latest result)
+CREATE TABLE IF NOT EXISTS workflow_executions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- NULL when the trigger itself failed
+  execution_id VARCHAR(255),
+  -- What started the run: ingestion, manual, cli, rerun
+  trigger VARCHAR(20) NOT NULL,
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  rerun_of UUID REFERENCES workflow_executions(id) ON DELETE SET NULL,
+  namespace VARCHAR(255) NOT NULL,
+  flow_id VARCHAR(255) NOT NULL,
+  -- Kestra execution state (CREATED, RUNNING, SUCCESS, FAILED, KILLED, ...) or TRIGGER_FAILED
+  state VARCHAR(30) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  duration_seconds NUMERIC(10, 3),
+  -- [{ task_id, state, duration_seconds }] in execution order
+  task_runs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  -- ID signed into the execution's callback token; the callback is only accepted for this row's execution
+  callback_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(organization_id, execution_id),
+  UNIQUE(organization_id, callback_id)
+);
+
+-- Incident assignments (one incident commander plus any number of responders)
+CREATE TABLE IF NOT EXISTS incident_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('commander', 'responder')),
+  assigned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(incident_id, user_id)
+);
+
+-- Incident notes (responder investigation thread, markdown)
+CREATE TABLE IF NOT EXISTS incident_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  mentions UUID[] DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Custom webhook sources (per-org declarative payload mappings, used at ?source=<name>)
+CREATE TABLE IF NOT EXISTS webhook_sources (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  description TEXT,
+  mapping JSONB NOT NULL,
+  sample_payload JSONB,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(organization_id, name)
+);
+
+-- Webhook signing secrets ('*' applies to every source without its own secret)
+CREATE TABLE IF NOT EXISTS webhook_signing_secrets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  source VARCHAR(50) NOT NULL DEFAULT '*',
+  secret VARCHAR(255) NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(organization_id, source)
+);
+
+-- Recently accepted webhook signatures, to reject replays
+CREATE TABLE IF NOT EXISTS webhook_nonces (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  nonce VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (organization_id, nonce)
+);
+
+-- Webhook ingestion keys (the primary key is mirrored to organizations.webhook_key)
+CREATE TABLE IF NOT EXISTS webhook_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key VARCHAR(255) UNIQUE NOT NULL,
+  source VARCHAR(50),
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Fixed-window request counters for rate limiting (per org and bucket)
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  bucket VARCHAR(50) NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (organization_id, bucket, window_start)
+);
+
+-- Raw webhook deliveries (headers redacted), kept for inspection and replay
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  request_id VARCHAR(100) NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  webhook_key_id UUID REFERENCES webhook_keys(id) ON DELETE SET NULL,
+  headers JSONB DEFAULT '{}',
+  body TEXT,
+  body_truncated BOOLEAN DEFAULT false,
+  status_code INTEGER NOT NULL,
+  outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('accepted', 'rejected', 'failed')),
+  error TEXT,
+  incident_ids UUID[] DEFAULT '{}',
+  response JSONB,
+  replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  -- Bulk (backfill) import: body is NDJSON or a JSON array, not replayable
+  bulk BOOLEAN DEFAULT false,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Outbound work (Kestra triggers, Slack messages, outbound webhooks), retried with
+-- exponential backoff until delivered or out of attempts (dead)
+CREATE TABLE IF NOT EXISTS outbox (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  incident_id UUID REFERENCES incidents(id) ON DELETE CASCADE,
+  kind VARCHAR(30) NOT NULL CHECK (kind IN ('kestra_trigger', 'slack_notification', 'webhook')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'dead', 'discarded')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- A worker holds an entry while processing; an expired lock means it crashed
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Deployed Kestra flow sources saved before the setup page replaced them
+-- (upgrade to the bundled flow, or rollback), so a change can be undone
+CREATE TABLE IF NOT EXISTS kestra_flow_backups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  namespace VARCHAR(150) NOT NULL,
+  flow_id VARCHAR(100) NOT NULL,
+  tenant VARCHAR(100) NOT NULL,
+  -- Kestra's revision number of the saved source
+  revision INTEGER NOT NULL,
+  source TEXT NOT NULL,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('upgrade', 'rollback')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- ============================================================================
 -- PART 2: INDEXES
 -- ============================================================================
@@ -130,6 +344,28 @@ CREATE INDEX IF NOT EXISTS idx_invite_codes_org ON invite_codes(organization_id)
 CREATE INDEX IF NOT EXISTS idx_invite_codes_code ON invite_codes(code);
 CREATE INDEX IF NOT EXISTS idx_audit_organization ON audit_log(organization_id);
 CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_incident_events_incident ON incident_events(incident_id, occurred_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_incident_events_organization ON incident_events(organization_id);
+CREATE INDEX IF NOT EXISTS idx_incident_logs_level ON incident_logs(incident_id, level, line_number);
+CREATE INDEX IF NOT EXISTS idx_incident_logs_organization ON incident_logs(organization_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_incident ON workflow_executions(incident_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_organization ON workflow_executions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_incident_assignments_incident ON incident_assignments(incident_id);
+CREATE INDEX IF NOT EXISTS idx_incident_assignments_user ON incident_assignments(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incident_assignments_one_commander
+  ON incident_assignments(incident_id) WHERE role = 'commander';
+CREATE INDEX IF NOT EXISTS idx_incident_notes_incident ON incident_notes(incident_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_incidents_fingerprint ON incidents(organization_id, fingerprint)
+  WHERE status IN ('open', 'investigating');
+CREATE INDEX IF NOT EXISTS idx_webhook_nonces_expires ON webhook_nonces(organization_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_keys_organization ON webhook_keys(organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_keys_one_primary
+  ON webhook_keys(organization_id) WHERE is_primary;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_organization ON webhook_deliveries(organization_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox(next_attempt_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_outbox_organization ON outbox(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_outbox_incident ON outbox(incident_id);
+CREATE INDEX IF NOT EXISTS idx_kestra_flow_backups_flow ON kestra_flow_backups(tenant, namespace, flow_id, created_at DESC);
 
 -- ============================================================================
 -- PART 3: TRIGGERS
@@ -155,6 +391,44 @@ DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_incident_notes_updated_at ON incident_notes;
+CREATE TRIGGER update_incident_notes_updated_at BEFORE UPDATE ON incident_notes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_webhook_sources_updated_at ON webhook_sources;
+CREATE TRIGGER update_webhook_sources_updated_at BEFORE UPDATE ON webhook_sources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_workflow_executions_updated_at ON workflow_executions;
+CREATE TRIGGER update_workflow_executions_updated_at BEFORE UPDATE ON workflow_executions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_outbox_updated_at ON outbox;
+CREATE TRIGGER update_outbox_updated_at BEFORE UPDATE ON outbox
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Every organization starts with its webhook_key as the primary ingestion key
+CREATE OR REPLACE FUNCTION create_primary_webhook_key()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO webhook_keys (organization_id, name, key, is_primary)
+  VALUES (NEW.id, 'Default', NEW.webhook_key, true)
+  ON CONFLICT (key) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_organization_webhook_key ON organizations;
+CREATE TRIGGER create_organization_webhook_key AFTER INSERT ON organizations
+  FOR EACH ROW EXECUTE FUNCTION create_primary_webhook_key();
+
+-- Backfill organizations created before webhook_keys existed
+INSERT INTO webhook_keys (organization_id, name, key, is_primary)
+SELECT o.id, 'Default', o.webhook_key, true
+FROM organizations o
+WHERE NOT EXISTS (SELECT 1 FROM webhook_keys k WHERE k.organization_id = o.id)
+ON CONFLICT (key) DO NOTHING;
+
 -- ============================================================================
 -- PART 4: SECURITY DEFINER FUNCTIONS (bypass RLS for policy checks)
 -- ============================================================================
@@ -244,6 +518,293 @@ $$;
 GRANT EXECUTE ON FUNCTION public.use_invite_code(TEXT) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.use_invite_code(TEXT) TO anon;
 
+-- Atomic occurrence counter for alert grouping (webhook ingestion only)
+CREATE OR REPLACE FUNCTION public.record_incident_occurrence(p_incident_id UUID, p_occurred_at TIMESTAMPTZ)
+RETURNS SETOF incidents
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE incidents
+  SET
+    occurrence_count = occurrence_count + 1,
+    last_occurrence_at = GREATEST(COALESCE(last_occurrence_at, timestamp), p_occurred_at),
+    -- A re-fire cancels a pending recovery
+    recovered_at = NULL
+  WHERE id = p_incident_id
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_incident_occurrence(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_incident_occurrence(UUID, TIMESTAMPTZ) TO service_role;
+
+-- Fold a repeated alert into a matching incident, or insert it as a new one.
+-- The lookup and the insert run under an advisory lock on the organization and
+-- fingerprint, so concurrent re-fires of one alert can't both miss the lookup
+-- and create two incidents. p_incident holds the new incident's columns,
+-- including organization_id, fingerprint and last_occurrence_at (the occurrence
+-- time); a NULL p_window_minutes skips grouping.
+CREATE OR REPLACE FUNCTION public.group_or_create_incident(
+  p_incident JSONB,
+  p_statuses TEXT[],
+  p_window_minutes INTEGER
+)
+RETURNS TABLE (grouped BOOLEAN, incident JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := (p_incident->>'organization_id')::UUID;
+  v_fingerprint TEXT := p_incident->>'fingerprint';
+  v_occurred_at TIMESTAMPTZ := (p_incident->>'last_occurrence_at')::TIMESTAMPTZ;
+  v_match UUID;
+  v_columns TEXT;
+  v_row incidents;
+BEGIN
+  IF p_window_minutes IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_organization_id::TEXT || ':' || COALESCE(v_fingerprint, ''), 0));
+
+    -- Within the window of the incident's occurrences, on either side for late deliveries
+    SELECT i.id INTO v_match
+    FROM incidents i
+    WHERE i.organization_id = v_organization_id
+      AND i.fingerprint = v_fingerprint
+      AND i.status = ANY(p_statuses)
+      AND i.last_occurrence_at >= v_occurred_at - make_interval(mins => p_window_minutes)
+      AND i.timestamp <= v_occurred_at + make_interval(mins => p_window_minutes)
+    ORDER BY i.last_occurrence_at DESC
+    LIMIT 1;
+
+    IF v_match IS NOT NULL THEN
+      SELECT * INTO v_row FROM public.record_incident_occurrence(v_match, v_occurred_at);
+      RETURN QUERY SELECT true, to_jsonb(v_row);
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Insert only the given columns, so the others keep their defaults
+  SELECT string_agg(quote_ident(a.attname), ', ')
+  INTO v_columns
+  FROM pg_attribute a
+  WHERE a.attrelid = 'public.incidents'::regclass
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+    AND p_incident ? a.attname;
+
+  EXECUTE format('INSERT INTO incidents (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::incidents, $1) RETURNING *', v_columns)
+  INTO v_row
+  USING p_incident;
+
+  RETURN QUERY SELECT false, to_jsonb(v_row);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.group_or_create_incident(JSONB, TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.group_or_create_incident(JSONB, TEXT[], INTEGER) TO service_role;
+
+-- Replace an incident's assignments in one transaction. Rows are locked per
+-- incident, so concurrent updates apply one after the other. Returns whether
+-- the set changed and the assignments it replaced. Called by the API after it
+-- has checked the caller and the assignees belong to the incident's organization.
+CREATE OR REPLACE FUNCTION public.set_incident_assignments(
+  p_incident_id UUID,
+  p_commander_id UUID,
+  p_responder_ids UUID[],
+  p_assigned_by UUID
+)
+RETURNS TABLE (changed BOOLEAN, previous JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_previous JSONB;
+  v_desired JSONB;
+BEGIN
+  SELECT organization_id INTO v_organization_id FROM incidents WHERE id = p_incident_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('user_id', a.user_id, 'role', a.role) ORDER BY a.user_id), '[]'::jsonb)
+  INTO v_previous
+  FROM incident_assignments a
+  WHERE a.incident_id = p_incident_id;
+
+  -- The commander is implicitly a responder
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('user_id', d.user_id, 'role', d.role) ORDER BY d.user_id), '[]'::jsonb)
+  INTO v_desired
+  FROM (
+    SELECT p_commander_id AS user_id, 'commander' AS role WHERE p_commander_id IS NOT NULL
+    UNION
+    SELECT r, 'responder' FROM unnest(COALESCE(p_responder_ids, '{}')) r WHERE r IS DISTINCT FROM p_commander_id
+  ) d;
+
+  IF v_desired = v_previous THEN
+    RETURN QUERY SELECT false, v_previous;
+    RETURN;
+  END IF;
+
+  -- Dropped users and role changes first, so the one-commander index never conflicts
+  DELETE FROM incident_assignments a
+  WHERE a.incident_id = p_incident_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_to_recordset(v_desired) d(user_id UUID, role TEXT)
+      WHERE d.user_id = a.user_id AND d.role = a.role
+    );
+
+  INSERT INTO incident_assignments (incident_id, organization_id, user_id, role, assigned_by)
+  SELECT p_incident_id, v_organization_id, d.user_id, d.role, p_assigned_by
+  FROM jsonb_to_recordset(v_desired) d(user_id UUID, role TEXT)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM incident_assignments a
+    WHERE a.incident_id = p_incident_id AND a.user_id = d.user_id
+  );
+
+  RETURN QUERY SELECT true, v_previous;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_incident_assignments(UUID, UUID, UUID[], UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_incident_assignments(UUID, UUID, UUID[], UUID) TO service_role;
+
+-- Store an incident's parsed log lines and set its log_count in one transaction,
+-- so log_count never reports lines that failed to store
+CREATE OR REPLACE FUNCTION public.store_incident_logs(p_incident_id UUID, p_lines JSONB, p_log_count INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE incidents SET log_count = p_log_count WHERE id = p_incident_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found';
+  END IF;
+
+  INSERT INTO incident_logs (incident_id, organization_id, line_number, level, logged_at, message)
+  SELECT i.id, i.organization_id, l.line_number, l.level, l.logged_at, l.message
+  FROM incidents i
+  CROSS JOIN jsonb_to_recordset(p_lines) AS l(line_number INTEGER, level VARCHAR, logged_at TIMESTAMPTZ, message TEXT)
+  WHERE i.id = p_incident_id
+  ON CONFLICT (incident_id, line_number) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.store_incident_logs(UUID, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.store_incident_logs(UUID, JSONB, INTEGER) TO service_role;
+
+-- Merge top-level keys into an organization's settings in one statement, so
+-- concurrent updates of different keys don't overwrite each other
+CREATE OR REPLACE FUNCTION public.merge_organization_settings(p_organization_id UUID, p_patch JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+BEGIN
+  UPDATE organizations
+  SET settings = COALESCE(settings, '{}'::jsonb) || p_patch
+  WHERE id = p_organization_id
+  RETURNING settings INTO v_settings;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Organization not found';
+  END IF;
+
+  RETURN v_settings;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_organization_settings(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_organization_settings(UUID, JSONB) TO service_role;
+
+-- Count a request against a rate limit window; the first request of a new
+-- window also drops the bucket's finished windows
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_organization_id UUID,
+  p_bucket TEXT,
+  p_limit INTEGER,
+  p_window_seconds INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ := to_timestamp(floor(extract(epoch FROM NOW()) / p_window_seconds) * p_window_seconds);
+  v_count INTEGER;
+BEGIN
+  INSERT INTO rate_limit_counters AS c (organization_id, bucket, window_start, count)
+  VALUES (p_organization_id, p_bucket, v_window_start, 1)
+  ON CONFLICT (organization_id, bucket, window_start)
+  DO UPDATE SET count = c.count + 1
+  RETURNING c.count INTO v_count;
+
+  IF v_count = 1 THEN
+    DELETE FROM rate_limit_counters
+    WHERE organization_id = p_organization_id
+      AND bucket = p_bucket
+      AND window_start < v_window_start;
+  END IF;
+
+  RETURN QUERY SELECT
+    v_count <= p_limit,
+    GREATEST(p_limit - v_count, 0),
+    v_window_start + make_interval(secs => p_window_seconds);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Rotate a webhook key: issue a replacement with the same name and source, keep
+-- the old key valid for the grace period and move primary status (and the
+-- organizations.webhook_key mirror) to the replacement. Called by the API
+-- after it has checked the caller is an admin of the key's organization.
+CREATE OR REPLACE FUNCTION public.rotate_webhook_key(p_key_id UUID, p_new_key TEXT, p_grace_seconds INTEGER, p_created_by UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_key webhook_keys%ROWTYPE;
+  new_id UUID;
+BEGIN
+  SELECT * INTO old_key FROM webhook_keys WHERE id = p_key_id FOR UPDATE;
+
+  IF NOT FOUND OR old_key.revoked_at IS NOT NULL OR (old_key.expires_at IS NOT NULL AND old_key.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Webhook key is not active';
+  END IF;
+
+  UPDATE webhook_keys
+  SET is_primary = false,
+      expires_at = LEAST(COALESCE(expires_at, 'infinity'), NOW() + make_interval(secs => p_grace_seconds))
+  WHERE id = p_key_id;
+
+  INSERT INTO webhook_keys (organization_id, name, key, source, is_primary, created_by)
+  VALUES (old_key.organization_id, old_key.name, p_new_key, old_key.source, old_key.is_primary, p_created_by)
+  RETURNING id INTO new_id;
+
+  IF old_key.is_primary THEN
+    UPDATE organizations SET webhook_key = p_new_key WHERE id = old_key.organization_id;
+  END IF;
+
+  RETURN new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_webhook_key(UUID, TEXT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rotate_webhook_key(UUID, TEXT, INTEGER, UUID) TO service_role;
+
 -- ============================================================================
 -- PART 5: ROW LEVEL SECURITY (RLS)
 -- ============================================================================
@@ -256,6 +817,19 @@ ALTER TABLE ai_analyses ENABLE ROW LEVEL SECURITY;
 ALTER TABLE invite_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE system_config ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_signing_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_executions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kestra_flow_backups ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies if any
 DROP POLICY IF EXISTS users_self ON users;
@@ -264,6 +838,7 @@ DROP POLICY IF EXISTS users_platform_admin ON users;
 DROP POLICY IF EXISTS organizations_own_org ON organizations;
 DROP POLICY IF EXISTS organizations_platform_admin ON organizations;
 DROP POLICY IF EXISTS incidents_org_users ON incidents;
+DROP POLICY IF EXISTS incidents_org_responders ON incidents;
 DROP POLICY IF EXISTS incidents_platform_admin ON incidents;
 DROP POLICY IF EXISTS ai_analyses_org_users ON ai_analyses;
 DROP POLICY IF EXISTS ai_analyses_platform_admin ON ai_analyses;
@@ -297,12 +872,20 @@ CREATE POLICY "organizations_own_org" ON organizations FOR SELECT
 CREATE POLICY "incidents_platform_admin" ON incidents FOR ALL
   USING (public.is_platform_admin() = true);
 
-CREATE POLICY "incidents_org_users" ON incidents FOR ALL
+CREATE POLICY "incidents_org_users" ON incidents FOR SELECT
   USING (
     organization_id IS NOT NULL 
     AND organization_id = public.get_user_organization_id()
   );
 
+-- Viewers are read-only; admins and members can transition incidents
+CREATE POLICY "incidents_org_responders" ON incidents FOR UPDATE
+  USING (
+    organization_id IS NOT NULL 
+    AND organization_id = public.get_user_organization_id()
+    AND public.get_user_role() IN ('admin', 'member')
+  );
+
 -- AI Analyses policies
 CREATE POLICY "ai_analyses_platform_admin" ON ai_analyses FOR ALL
   USING (public.is_platform_admin() = true);
@@ -330,8 +913,9 @@ CREATE POLICY "invite_codes_signup_validation" ON invite_codes FOR SELECT
 CREATE POLICY "system_config_platform_admin" ON system_config FOR ALL
   USING (public.is_platform_admin() = true);
 
+-- Secrets (API keys, callback and redaction signing secrets) are only read by the server with the service role
 CREATE POLICY "system_config_read_authenticated" ON system_config FOR SELECT
-  USING (auth.uid() IS NOT NULL);
+  USING (auth.uid() IS NOT NULL AND is_secret = false);
 
 -- Audit log policies
 DROP POLICY IF EXISTS audit_log_org_users ON audit_log;
@@ -343,6 +927,178 @@ CREATE POLICY "audit_log_platform_admin" ON audit_log FOR ALL
 CREATE POLICY "audit_log_org_users" ON audit_log FOR SELECT
   USING (organization_id = public.get_user_organization_id());
 
+-- Incident events policies (written by the server with the service role)
+DROP POLICY IF EXISTS incident_events_org_users ON incident_events;
+DROP POLICY IF EXISTS incident_events_platform_admin ON incident_events;
+
+CREATE POLICY "incident_events_platform_admin" ON incident_events FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "incident_events_org_users" ON incident_events FOR SELECT
+  USING (organization_id = public.get_user_organization_id());
+
+-- Incident log policies (written by the server with the service role)
+DROP POLICY IF EXISTS incident_logs_platform_admin ON incident_logs;
+DROP POLICY IF EXISTS incident_logs_org_users ON incident_logs;
+
+CREATE POLICY "incident_logs_platform_admin" ON incident_logs FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "incident_logs_org_users" ON incident_logs FOR SELECT
+  USING (organization_id = public.get_user_organization_id());
+
+-- Workflow execution policies (written by the server with the service role)
+DROP POLICY IF EXISTS workflow_executions_platform_admin ON workflow_executions;
+DROP POLICY IF EXISTS workflow_executions_org_users ON workflow_executions;
+
+CREATE POLICY "workflow_executions_platform_admin" ON workflow_executions FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "workflow_executions_org_users" ON workflow_executions FOR SELECT
+  USING (organization_id = public.get_user_organization_id());
+
+-- Incident assignments policies (viewers can see but not change assignments)
+DROP POLICY IF EXISTS incident_assignments_platform_admin ON incident_assignments;
+DROP POLICY IF EXISTS incident_assignments_org_users ON incident_assignments;
+DROP POLICY IF EXISTS incident_assignments_org_responders ON incident_assignments;
+
+CREATE POLICY "incident_assignments_platform_admin" ON incident_assignments FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "incident_assignments_org_users" ON incident_assignments FOR SELECT
+  USING (organization_id = public.get_user_organization_id());
+
+CREATE POLICY "incident_assignments_org_responders" ON incident_assignments FOR ALL
+  USING (
+    organization_id = public.get_user_organization_id()
+    AND public.get_user_role() IN ('admin', 'member')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id()
+    AND public.get_user_role() IN ('admin', 'member')
+  );
+
+-- Incident notes policies (same org scoping as incidents; authors edit their own notes, admins moderate)
+DROP POLICY IF EXISTS incident_notes_platform_admin ON incident_notes;
+DROP POLICY IF EXISTS incident_notes_org_users ON incident_notes;
+DROP POLICY IF EXISTS incident_notes_org_insert ON incident_notes;
+DROP POLICY IF EXISTS incident_notes_author_update ON incident_notes;
+DROP POLICY IF EXISTS incident_notes_author_delete ON incident_notes;
+
+CREATE POLICY "incident_notes_platform_admin" ON incident_notes FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "incident_notes_org_users" ON incident_notes FOR SELECT
+  USING (organization_id = public.get_user_organization_id());
+
+CREATE POLICY "incident_notes_org_insert" ON incident_notes FOR INSERT
+  WITH CHECK (
+    organization_id = public.get_user_organization_id()
+    AND author_id = auth.uid()
+    AND public.get_user_role() IN ('admin', 'member')
+  );
+
+CREATE POLICY "incident_notes_author_update" ON incident_notes FOR UPDATE
+  USING (organization_id = public.get_user_organization_id() AND author_id = auth.uid())
+  WITH CHECK (organization_id = public.get_user_organization_id() AND author_id = auth.uid());
+
+CREATE POLICY "incident_notes_author_delete" ON incident_notes FOR DELETE
+  USING (
+    organization_id = public.get_user_organization_id()
+    AND (author_id = auth.uid() OR public.get_user_role() = 'admin')
+  );
+
+-- Webhook source policies (everyone in the org can read mappings, admins manage them)
+DROP POLICY IF EXISTS webhook_sources_platform_admin ON webhook_sources;
+DROP POLICY IF EXISTS webhook_sources_org_users ON webhook_sources;
+DROP POLICY IF EXISTS webhook_sources_org_admins ON webhook_sources;
+
+CREATE POLICY "webhook_sources_platform_admin" ON webhook_sources FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "webhook_sources_org_users" ON webhook_sources FOR SELECT
+  USING (organization_id = public.get_user_organization_id());
+
+CREATE POLICY "webhook_sources_org_admins" ON webhook_sources FOR ALL
+  USING (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin')
+  WITH CHECK (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin');
+
+-- Signing secrets are visible to org admins only; nonces are service-role only
+DROP POLICY IF EXISTS webhook_signing_secrets_platform_admin ON webhook_signing_secrets;
+DROP POLICY IF EXISTS webhook_signing_secrets_org_admins ON webhook_signing_secrets;
+DROP POLICY IF EXISTS webhook_nonces_platform_admin ON webhook_nonces;
+
+CREATE POLICY "webhook_signing_secrets_platform_admin" ON webhook_signing_secrets FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "webhook_signing_secrets_org_admins" ON webhook_signing_secrets FOR ALL
+  USING (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin')
+  WITH CHECK (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin');
+
+CREATE POLICY "webhook_nonces_platform_admin" ON webhook_nonces FOR ALL
+  USING (public.is_platform_admin() = true);
+
+-- Webhook key policies (org admins manage ingestion keys)
+DROP POLICY IF EXISTS webhook_keys_platform_admin ON webhook_keys;
+DROP POLICY IF EXISTS webhook_keys_org_admins ON webhook_keys;
+
+CREATE POLICY "webhook_keys_platform_admin" ON webhook_keys FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "webhook_keys_org_admins" ON webhook_keys FOR ALL
+  USING (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin')
+  WITH CHECK (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin');
+
+-- Rate limit counters are service-role only
+DROP POLICY IF EXISTS rate_limit_counters_platform_admin ON rate_limit_counters;
+
+CREATE POLICY "rate_limit_counters_platform_admin" ON rate_limit_counters FOR ALL
+  USING (public.is_platform_admin() = true);
+
+-- Delivery log: written by ingestion (service role), readable by org admins
+DROP POLICY IF EXISTS webhook_deliveries_platform_admin ON webhook_deliveries;
+DROP POLICY IF EXISTS webhook_deliveries_org_admins ON webhook_deliveries;
+
+CREATE POLICY "webhook_deliveries_platform_admin" ON webhook_deliveries FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "webhook_deliveries_org_admins" ON webhook_deliveries FOR SELECT
+  USING (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin');
+
+-- Outbox: written by the server (service role), readable by org admins
+DROP POLICY IF EXISTS outbox_platform_admin ON outbox;
+DROP POLICY IF EXISTS outbox_org_admins ON outbox;
+
+CREATE POLICY "outbox_platform_admin" ON outbox FOR ALL
+  USING (public.is_platform_admin() = true);
+
+CREATE POLICY "outbox_org_admins" ON outbox FOR SELECT
+  USING (organization_id = public.get_user_organization_id() AND public.get_user_role() = 'admin');
+
+-- Flow backups are platform-wide, for platform admins only
+DROP POLICY IF EXISTS kestra_flow_backups_platform_admin ON kestra_flow_backups;
+
+CREATE POLICY "kestra_flow_backups_platform_admin" ON kestra_flow_backups FOR ALL
+  USING (public.is_platform_admin() = true);
+
+-- Realtime: the incident page subscribes to incident changes, new timeline
+-- events and workflow runs (RLS still applies to what each subscriber receives)
+DO $$
+DECLARE
+  realtime_table TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH realtime_table IN ARRAY ARRAY['incidents', 'incident_events', 'workflow_executions'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = realtime_table
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
+
 -- ============================================================================
 -- PART 6: INITIAL SYSTEM CONFIGURATION
 -- ============================================================================
@@ -351,9 +1107,22 @@ INSERT INTO system_config (key, value, description, is_secret) VALUES
   ('KESTRA_URL', 'http://localhost:8080', 'Kestra server URL', false),
   ('KESTRA_USERNAME', '', 'Kestra username (leave empty if no auth)', true),
   ('KESTRA_PASSWORD', '', 'Kestra password (leave empty if no auth)', true),
-  ('GEMINI_API_KEY', '', 'Google Gemini API key for AI analysis', true)
+  ('KESTRA_NAMESPACE', '', 'Namespace of the incident flow (empty: incident.response)', false),
+  ('KESTRA_FLOW_ID', '', 'Incident flow ID (empty: incident-handler)', false),
+  ('KESTRA_WEBHOOK_KEY', '', 'Key of the incident flow''s webhook trigger (empty: incident-webhook-key)', true),
+  ('KESTRA_TENANT', '', 'Kestra tenant in API paths (empty: main, none: no tenant)', false),
+  ('KESTRA_CALLBACK_URL', '', 'URL Kestra posts results to (empty: NEXT_PUBLIC_APP_URL/api/kestra/callback)', false),
+  ('KESTRA_CALLBACK_SECRET', replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''), 'Signs the per-incident Kestra callback tokens', true),
+  ('GEMINI_API_KEY', '', 'Google Gemini API key for AI analysis', true),
+  ('ANALYSIS_LLM', '', 'LLM for the built-in analysis engine (empty: gemini, stub: canned responses for testing)', false),
+  ('REDACTION_HASH_SECRET', replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''), 'Keys hash-mode PII redaction; changing it changes every new hash', true)
 ON CONFLICT (key) DO NOTHING;
 
+-- Rows kept from an earlier setup may predate the secret flag
+UPDATE system_config SET is_secret = true
+WHERE key IN ('KESTRA_USERNAME', 'KESTRA_PASSWORD', 'KESTRA_WEBHOOK_KEY', 'KESTRA_CALLBACK_SECRET', 'GEMINI_API_KEY', 'REDACTION_HASH_SECRET')
+  AND is_secret IS DISTINCT FROM true;
+
 -- ============================================================================
 -- PART 7: DEMO ORGANIZATION
 -- ============================================================================
@@ -427,6 +1196,30 @@ BEGIN
   END IF;
 END $$;
 
+-- Move logs stored inline on incidents (created before incident_logs existed, and the samples above)
+-- into incident_logs, keeping the first 20 lines as the preview
+INSERT INTO incident_logs (incident_id, organization_id, line_number, level, message)
+SELECT i.id, i.organization_id, l.line_number::INTEGER,
+  CASE substring(lower(l.message) from '\m(fatal|critical|crit|emerg|error|err|warning|warn|info|notice|debug|trace)\M')
+    WHEN 'fatal' THEN 'FATAL' WHEN 'critical' THEN 'FATAL' WHEN 'crit' THEN 'FATAL' WHEN 'emerg' THEN 'FATAL'
+    WHEN 'error' THEN 'ERROR' WHEN 'err' THEN 'ERROR'
+    WHEN 'warning' THEN 'WARN' WHEN 'warn' THEN 'WARN'
+    WHEN 'info' THEN 'INFO' WHEN 'notice' THEN 'INFO'
+    WHEN 'debug' THEN 'DEBUG' WHEN 'trace' THEN 'TRACE'
+  END,
+  l.message
+FROM incidents i
+CROSS JOIN LATERAL jsonb_array_elements_text(i.logs) WITH ORDINALITY AS l(message, line_number)
+WHERE i.log_count = 0 AND jsonb_typeof(i.logs) = 'array' AND jsonb_array_length(i.logs) > 0
+ON CONFLICT (incident_id, line_number) DO NOTHING;
+
+UPDATE incidents i
+SET log_count = jsonb_array_length(i.logs),
+    logs = (SELECT COALESCE(jsonb_agg(value ORDER BY n), '[]'::jsonb)
+            FROM jsonb_array_elements(i.logs) WITH ORDINALITY AS e(value, n)
+            WHERE n <= 20)
+WHERE i.log_count = 0 AND jsonb_typeof(i.logs) = 'array' AND jsonb_array_length(i.logs) > 0;
+
 -- ============================================================================
 -- SETUP COMPLETE!
 -- ============================================================================
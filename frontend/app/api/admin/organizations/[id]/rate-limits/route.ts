@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrganizationSettings, updateOrganizationSettings } from '@/lib/organizations';
+import { getRateLimitConfig, parseRateLimitConfig } from '@/lib/rate-limit';
+
+async function requirePlatformAdmin(): Promise<NextResponse | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('is_platform_admin')
+    .eq('id', user.id)
+    .single();
+
+  if (!userData?.is_platform_admin) {
+    return NextResponse.json({ error: 'Forbidden - platform admin required' }, { status: 403 });
+  }
+
+  return null;
+}
+
+/**
+ * Effective rate limits for an organization (defaults applied)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const response = await requirePlatformAdmin();
+    if (response) return response;
+
+    const { id } = await params;
+    const settings = await getOrganizationSettings(id);
+    return NextResponse.json({ rate_limits: getRateLimitConfig(settings) });
+  } catch (error) {
+    console.error('Error fetching rate limits:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+/**
+ * Set an organization's quotas; quotas are not editable by org admins
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const response = await requirePlatformAdmin();
+    if (response) return response;
+
+    const { id } = await params;
+    const body = await req.json();
+    const current = await getOrganizationSettings(id);
+
+    let rateLimits;
+    try {
+      rateLimits = parseRateLimitConfig(body.rate_limits, getRateLimitConfig(current));
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    const settings = await updateOrganizationSettings(id, { rate_limits: rateLimits });
+    return NextResponse.json({ rate_limits: getRateLimitConfig(settings) });
+  } catch (error) {
+    console.error('Error updating rate limits:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { recordIncidentEvent } from '@/lib/incident-events';
 
 export async function POST(req: NextRequest) {
   try {
@@ -91,6 +92,15 @@ export async function POST(req: NextRequest) {
       result = data;
     }
 
+    await recordIncidentEvent({
+      incidentId,
+      organizationId: userData.organization_id,
+      type: 'analysis_saved',
+      title: existingAnalysis ? 'AI analysis updated' : 'AI analysis saved',
+      details: { execution_id: executionId, analysis_id: result.id },
+      actorId: user.id
+    });
+
     return NextResponse.json({ success: true, analysis: result });
   } catch (error: any) {
     console.error('Error saving analysis:', error);
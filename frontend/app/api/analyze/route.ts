@@ -3,30 +3,12 @@ import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedOrganizationId } from '@/lib/supabase/server';
 import { getConfig } from '@/lib/system-config';
+import { getOrganizationSettings } from '@/lib/organizations';
+import { consumeRateLimit, getRateLimitConfig, rateLimitHeaders } from '@/lib/rate-limit';
 
 // Use Node.js runtime for better compatibility with environment variables
 export const runtime = 'nodejs';
 
-// Simple in-memory rate limiter
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function rateLimit(identifier: string, maxRequests = 10, windowMs = 60000): boolean {
-  const now = Date.now();
-  const record = rateLimitMap.get(identifier);
-
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(identifier, { count: 1, resetTime: now + windowMs });
-    return true;
-  }
-
-  if (record.count >= maxRequests) {
-    return false;
-  }
-
-  record.count++;
-  return true;
-}
-
 export async function POST(req: NextRequest) {
   try {
     // SECURITY: Verify user is authenticated
@@ -39,11 +21,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Rate limiting based on organization
-    if (!rateLimit(organizationId, 20, 60000)) {
+    // Rate limiting based on organization (separate budget from ingestion)
+    const settings = await getOrganizationSettings(organizationId);
+    const rateLimit = await consumeRateLimit(organizationId, 'analyze', getRateLimitConfig(settings).analyze);
+
+    if (!rateLimit.allowed) {
       return NextResponse.json(
-        { error: 'Rate limit exceeded. Please try again in a minute.' },
-        { status: 429 }
+        { error: `Rate limit exceeded. Please try again in ${rateLimit.reset} seconds.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
       );
     }
 
@@ -111,7 +96,7 @@ Be specific, technical, and actionable. Format your response clearly with header
 
     // streamText returns helpers; use toTextStreamResponse for streaming
     if (typeof result.toTextStreamResponse === 'function') {
-      return result.toTextStreamResponse();
+      return result.toTextStreamResponse({ headers: rateLimitHeaders(rateLimit) });
     }
 
     // Fallback: return plain text response
@@ -120,6 +105,7 @@ Be specific, technical, and actionable. Format your response clearly with header
       status: 200,
       headers: {
         'Content-Type': 'text/plain; charset=utf-8',
+        ...rateLimitHeaders(rateLimit),
       },
     });
   } catch (error: any) {
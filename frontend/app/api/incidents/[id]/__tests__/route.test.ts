@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { isIncidentAction } from '@/lib/incident-lifecycle';
+import { PATCH } from '../route';
+
+const supabase = vi.hoisted(() => ({
+  auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+  // Only the caller's user row is read before the action is validated
+  from: (table: string) => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      single: async () => table === 'users'
+        ? { data: { organization_id: 'org-1', role: 'member', is_platform_admin: false }, error: null }
+        : { data: null, error: { message: `unexpected ${table} query` } }
+    };
+    return query;
+  }
+}));
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: async () => supabase }));
+vi.mock('@/lib/supabase-admin', () => ({ getAdminClient: () => { throw new Error('not used'); } }));
+
+function patch(body: string) {
+  return PATCH(
+    new NextRequest('http://localhost/api/incidents/INC-1', { method: 'PATCH', body }),
+    { params: Promise.resolve({ id: 'INC-1' }) }
+  );
+}
+
+describe('isIncidentAction', () => {
+  it('accepts the lifecycle actions', () => {
+    expect(['acknowledge', 'investigate', 'resolve', 'close', 'reopen'].every(isIncidentAction)).toBe(true);
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    for (const name of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+      expect(isIncidentAction(name)).toBe(false);
+    }
+  });
+});
+
+describe('PATCH /api/incidents/[id]', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('returns 400 for an inherited property name as the action', async () => {
+    const response = await patch(JSON.stringify({ action: 'toString' }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Invalid action/);
+  });
+
+  it('returns 400 for a malformed body', async () => {
+    const response = await patch('{"action":');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid JSON body' });
+  });
+});
@@ -0,0 +1,284 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getAdminClient } from '@/lib/supabase-admin';
+import { listOrganizationUsers } from '@/lib/organizations';
+import { recordIncidentEvent } from '@/lib/incident-events';
+import { ASSIGNMENT_SELECT, toIncidentAssignees, getAssigneeLabel } from '@/lib/incident-assignments';
+import { notifyAssignmentChanged } from '@/lib/slack';
+import { Incident } from '@/types/incident';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Users that can be assigned to an incident (viewers are read-only)
+ */
+async function getAssignableUsers(organizationId: string) {
+  const users = await listOrganizationUsers(organizationId);
+  return users
+    .filter(user => user.role !== 'viewer')
+    .map(user => ({ id: user.id, name: user.name, email: user.email, role: user.role }));
+}
+
+async function getAssignments(supabase: ServerClient, incidentId: string) {
+  const { data, error } = await supabase
+    .from('incident_assignments')
+    .select(ASSIGNMENT_SELECT)
+    .eq('incident_id', incidentId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return toIncidentAssignees(data);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    const { id } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('id, organization_id')
+      .eq('external_id', id);
+
+    // For non-platform admins, explicitly filter by organization (fail closed)
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const [assignees, users] = await Promise.all([
+      getAssignments(supabase, incident.id),
+      getAssignableUsers(incident.organization_id)
+    ]);
+
+    return NextResponse.json({ assignees, users });
+  } catch (error) {
+    console.error('Error fetching incident assignees:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch incident assignees', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, role, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    // Viewers are read-only (also enforced by RLS on incident_assignments)
+    if (!userData.is_platform_admin && userData.role === 'viewer') {
+      return NextResponse.json(
+        { error: 'Forbidden - viewers cannot change incident assignees' },
+        { status: 403 }
+      );
+    }
+
+    let body: { commander_id?: string | null; responder_ids?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const commanderId: string | null = body?.commander_id || null;
+    const responderIds: unknown = body?.responder_ids ?? [];
+
+    if (
+      (commanderId !== null && typeof commanderId !== 'string') ||
+      !Array.isArray(responderIds) ||
+      !responderIds.every(rid => typeof rid === 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'commander_id must be a user ID or null, responder_ids must be an array of user IDs' },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('*')
+      .eq('external_id', id);
+
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    // Assignees must be responders in the incident's organization
+    const assignable = await getAssignableUsers(incident.organization_id);
+    const assignableById = new Map(assignable.map(u => [u.id, u]));
+
+    // The commander is implicitly a responder, so drop them from the responder list
+    const responders = [...new Set(responderIds as string[])].filter(rid => rid !== commanderId);
+    const requested = [...(commanderId ? [commanderId] : []), ...responders];
+    const unknown = requested.filter(uid => !assignableById.has(uid));
+
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: 'Assignees must be admins or members of the incident organization', invalid_user_ids: unknown },
+        { status: 400 }
+      );
+    }
+
+    // Names of users that are no longer assignable still come from their assignment
+    const current = await getAssignments(supabase, incident.id);
+
+    // Swap the set in one transaction; unchanged sets are not written or announced
+    const { data: swap, error: swapError } = await getAdminClient()
+      .rpc('set_incident_assignments', {
+        p_incident_id: incident.id,
+        p_commander_id: commanderId,
+        p_responder_ids: responders,
+        p_assigned_by: user.id
+      })
+      .single<{ changed: boolean; previous: { user_id: string; role: 'commander' | 'responder' }[] }>();
+
+    if (swapError || !swap) {
+      console.error('Error updating incident assignees:', swapError);
+      return NextResponse.json(
+        { error: 'Failed to update incident assignees', details: swapError?.message },
+        { status: 500 }
+      );
+    }
+
+    const assignees = await getAssignments(supabase, incident.id);
+
+    if (!swap.changed) {
+      return NextResponse.json({ success: true, assignees });
+    }
+
+    const label = (uid: string) => {
+      const known = assignableById.get(uid) || current.find(a => a.user_id === uid);
+      return known ? getAssigneeLabel(known) : uid;
+    };
+    const previous = new Map(swap.previous.map(a => [a.user_id, a.role]));
+    const previousCommander = swap.previous.find(a => a.role === 'commander') || null;
+    const commander = assignees.find(a => a.role === 'commander') || null;
+    const change = {
+      commander: commander ? getAssigneeLabel(commander) : null,
+      previous_commander: previousCommander ? label(previousCommander.user_id) : null,
+      added: requested.filter(uid => !previous.has(uid)).map(label),
+      removed: swap.previous.filter(a => !requested.includes(a.user_id)).map(a => label(a.user_id))
+    };
+
+    // Audit log (using admin client - audit_log is read-only for org users)
+    await getAdminClient().from('audit_log').insert([{
+      incident_id: incident.id,
+      organization_id: incident.organization_id,
+      user_id: user.id,
+      action: 'assignment_changed',
+      details: { commander_id: commanderId, responder_ids: responders },
+      user_agent: request.headers.get('user-agent')
+    }]);
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: incident.organization_id,
+      type: 'assignment_changed',
+      title: commander?.user_id !== previousCommander?.user_id
+        ? (change.commander ? `Incident commander: ${change.commander}` : 'Incident commander unassigned')
+        : 'Responders updated',
+      details: change,
+      actorId: user.id
+    });
+
+    const slackIncident: Incident = {
+      id: incident.external_id,
+      internal_id: incident.id,
+      organization_id: incident.organization_id,
+      timestamp: incident.timestamp,
+      service: incident.service,
+      severity: incident.severity,
+      status: incident.status,
+      title: incident.title,
+      logs: incident.logs || [],
+      metrics: incident.metrics || {},
+      context: incident.context || {},
+      assignees
+    };
+    await notifyAssignmentChanged(slackIncident, change);
+
+    return NextResponse.json({ success: true, assignees });
+  } catch (error) {
+    console.error('Error updating incident assignees:', error);
+    return NextResponse.json(
+      { error: 'Failed to update incident assignees', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Cursor: `<occurred_at>|<id>` of the last event on the previous page. Events
+// written in the same request share a timestamp, so the id breaks ties.
+function parseCursor(cursor: string): { occurredAt: string; id: string } | null {
+  const separator = cursor.lastIndexOf('|');
+  const occurredAt = cursor.slice(0, separator);
+  const id = cursor.slice(separator + 1);
+
+  if (separator < 0 || isNaN(Date.parse(occurredAt)) || !UUID_PATTERN.test(id)) {
+    return null;
+  }
+  return { occurredAt, id };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    const { id } = await params;
+
+    let incidentQuery = supabase
+      .from('incidents')
+      .select('id')
+      .eq('external_id', id);
+
+    // For non-platform admins, explicitly filter by organization (fail closed)
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      incidentQuery = incidentQuery.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await incidentQuery.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '', 10) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    );
+    const before = searchParams.get('before');
+    const cursor = before ? parseCursor(before) : null;
+
+    if (before && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    let query = supabase
+      .from('incident_events')
+      .select('id, event_type, title, details, actor_id, occurred_at, actor:actor_id (name, email)')
+      .eq('incident_id', incident.id)
+      .order('occurred_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      query = query.or(
+        `occurred_at.lt."${cursor.occurredAt}",and(occurred_at.eq."${cursor.occurredAt}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data: events, error: eventsError } = await query;
+
+    if (eventsError) {
+      console.error('Error fetching incident events:', eventsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch incident events', details: eventsError.message },
+        { status: 500 }
+      );
+    }
+
+    const page = (events || []).slice(0, limit);
+    const hasMore = (events || []).length > limit;
+
+    return NextResponse.json({
+      events: page.map(event => {
+        const actor = Array.isArray(event.actor) ? event.actor[0] : event.actor;
+        return {
+          id: event.id,
+          type: event.event_type,
+          title: event.title,
+          details: event.details || {},
+          actor: actor ? { id: event.actor_id, name: actor.name, email: actor.email } : null,
+          occurred_at: event.occurred_at
+        };
+      }),
+      next_cursor: hasMore ? `${page[page.length - 1].occurred_at}|${page[page.length - 1].id}` : null
+    });
+  } catch (error) {
+    console.error('Error fetching incident events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch incident events', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
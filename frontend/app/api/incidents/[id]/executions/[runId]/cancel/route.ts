@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { killKestraExecution } from '@/lib/kestra';
+import { isBuiltinRun } from '@/lib/builtin-analysis';
+import { setAnalysisStatus } from '@/lib/kestra-callback';
+import { recordIncidentEvent } from '@/lib/incident-events';
+import { WORKFLOW_EXECUTION_SELECT, isTerminalState, updateWorkflowExecution } from '@/lib/workflow-executions';
+
+/**
+ * Kill a running workflow execution in Kestra, or stop a built-in run
+ * Killed executions do not report back, so if the incident was waiting for
+ * this run its analysis is marked as failed here.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, role, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    if (!userData.is_platform_admin && userData.role === 'viewer') {
+      return NextResponse.json(
+        { error: 'Forbidden - viewers cannot cancel workflow runs' },
+        { status: 403 }
+      );
+    }
+
+    const { id, runId } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('id, external_id, organization_id, analysis_execution_id')
+      .eq('external_id', id);
+
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const { data: run } = await supabase
+      .from('workflow_executions')
+      .select(WORKFLOW_EXECUTION_SELECT)
+      .eq('id', runId)
+      .eq('incident_id', incident.id)
+      .maybeSingle();
+
+    if (!run) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404 });
+    }
+
+    if (!run.execution_id || isTerminalState(run.state)) {
+      return NextResponse.json({ error: 'This run has already finished' }, { status: 400 });
+    }
+
+    // Built-in runs check for KILLING before each step and stop there
+    if (!isBuiltinRun(run)) {
+      try {
+        await killKestraExecution(run.execution_id, incident.organization_id);
+      } catch (error) {
+        console.error('Error killing Kestra execution:', error);
+        return NextResponse.json(
+          { error: 'Kestra did not accept the cancellation', details: (error as Error).message },
+          { status: 502 }
+        );
+      }
+    }
+
+    // The run moves to KILLED shortly; the runs list picks that up
+    await updateWorkflowExecution(incident.organization_id, run.execution_id, { state: 'KILLING' });
+
+    if (incident.analysis_execution_id === run.execution_id) {
+      await setAnalysisStatus(incident.organization_id, incident.external_id, 'failed');
+    }
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: incident.organization_id,
+      type: 'kestra_cancelled',
+      title: 'AI analysis workflow cancelled',
+      details: { execution_id: run.execution_id, run_id: run.id },
+      actorId: user.id
+    });
+
+    return NextResponse.json({ run: { ...run, state: 'KILLING' } });
+  } catch (error) {
+    console.error('Error cancelling workflow run:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel workflow run', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { toKestraIncidentData, triggerAnalysisWorkflow } from '@/lib/kestra';
+import { recordIncidentEvent } from '@/lib/incident-events';
+import { getNotesForPostmortem } from '@/lib/incident-notes';
+
+/**
+ * Start a new run of the incident's workflow, linked to an earlier one
+ * The new run uses the incident as it is now, not the earlier run's inputs.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, role, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    if (!userData.is_platform_admin && userData.role === 'viewer') {
+      return NextResponse.json(
+        { error: 'Forbidden - viewers cannot re-run workflows' },
+        { status: 403 }
+      );
+    }
+
+    const { id, runId } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('*')
+      .eq('external_id', id);
+
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const { data: original } = await supabase
+      .from('workflow_executions')
+      .select('id, execution_id')
+      .eq('id', runId)
+      .eq('incident_id', incident.id)
+      .maybeSingle();
+
+    if (!original) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404 });
+    }
+
+    const result = await triggerAnalysisWorkflow(
+      {
+        ...toKestraIncidentData(incident),
+        responder_notes: await getNotesForPostmortem(incident.external_id, incident.organization_id) || ''
+      },
+      { trigger: 'rerun', triggeredBy: user.id, rerunOf: original.id }
+    );
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: incident.organization_id,
+      type: result.success ? 'kestra_triggered' : 'kestra_trigger_failed',
+      title: result.success ? 'AI analysis workflow re-run' : 'AI analysis workflow failed to start',
+      details: {
+        execution_id: result.executionId,
+        trigger: 'rerun',
+        rerun_of: original.execution_id,
+        engine: result.engine,
+        error: result.error
+      },
+      actorId: user.id
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to trigger Kestra workflow', run_id: result.runId },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json({ executionId: result.executionId, status: result.status, run_id: result.runId });
+  } catch (error) {
+    console.error('Error re-running workflow:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-run workflow', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
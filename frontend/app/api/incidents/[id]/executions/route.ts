@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getKestraClient, syncWorkflowExecution } from '@/lib/kestra';
+import { expireBuiltinRun, isBuiltinRun } from '@/lib/builtin-analysis';
+import { WORKFLOW_EXECUTION_SELECT, WorkflowExecution, isTerminalState } from '@/lib/workflow-executions';
+
+const MAX_RUNS = 50;
+// Unfinished runs refreshed from Kestra per request
+const MAX_SYNCED_RUNS = 5;
+
+/**
+ * List an incident's workflow runs, newest first
+ * Runs that have not finished are refreshed from Kestra first; built-in runs
+ * that outlived their timeout are marked as failed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    const { id } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('id, organization_id')
+      .eq('external_id', id);
+
+    // For non-platform admins, explicitly filter by organization (fail closed)
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const { data, error: runsError } = await supabase
+      .from('workflow_executions')
+      .select(`${WORKFLOW_EXECUTION_SELECT}, triggered_by_user:triggered_by (name, email)`)
+      .eq('incident_id', incident.id)
+      .order('created_at', { ascending: false })
+      .limit(MAX_RUNS);
+
+    if (runsError) {
+      throw runsError;
+    }
+
+    const runs = (data || []) as unknown as Array<WorkflowExecution & {
+      triggered_by_user: { name: string | null; email: string } | { name: string | null; email: string }[] | null;
+    }>;
+
+    const unfinished = runs.filter(run => run.execution_id && !isTerminalState(run.state)).slice(0, MAX_SYNCED_RUNS);
+    await Promise.all(unfinished.map(async run => {
+      Object.assign(run, isBuiltinRun(run)
+        ? await expireBuiltinRun(run)
+        : await syncWorkflowExecution(incident.organization_id, run.execution_id!));
+    }));
+
+    const client = await getKestraClient(incident.organization_id);
+
+    return NextResponse.json({
+      runs: runs.map(({ triggered_by_user, ...run }) => {
+        const triggeredBy = Array.isArray(triggered_by_user) ? triggered_by_user[0] : triggered_by_user;
+        return {
+          ...run,
+          triggered_by_user: triggeredBy || null,
+          url: run.execution_id && !isBuiltinRun(run)
+            ? client.uiUrl(`/executions/${run.namespace}/${run.flow_id}/${run.execution_id}`)
+            : null
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching workflow executions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow executions', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
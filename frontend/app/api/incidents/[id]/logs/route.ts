@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { LOG_LEVELS, LogLevel, queryIncidentLogs } from '@/lib/incident-logs';
+
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+const MAX_SEARCH_LENGTH = 200;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    const { id } = await params;
+
+    let incidentQuery = supabase
+      .from('incidents')
+      .select('id, log_count')
+      .eq('external_id', id);
+
+    // For non-platform admins, explicitly filter by organization (fail closed)
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      incidentQuery = incidentQuery.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await incidentQuery.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '', 10) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    );
+    // Cursor: line_number of the last line on the previous page (oldest first)
+    const after = parseInt(searchParams.get('after') || '', 10) || undefined;
+    const search = (searchParams.get('q') || '').trim();
+
+    if (search.length > MAX_SEARCH_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be at most ${MAX_SEARCH_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // level=ERROR,WARN
+    const level = (searchParams.get('level') || '')
+      .split(',')
+      .map(value => value.trim().toUpperCase())
+      .filter(Boolean);
+    const unknownLevel = level.find(value => !(LOG_LEVELS as readonly string[]).includes(value));
+
+    if (unknownLevel) {
+      return NextResponse.json(
+        { error: `Unknown log level: ${unknownLevel}. Expected one of ${LOG_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const page = await queryIncidentLogs(supabase, incident.id, {
+      level: level as LogLevel[],
+      search,
+      after,
+      limit
+    });
+
+    return NextResponse.json({
+      ...page,
+      total: incident.log_count
+    });
+  } catch (error) {
+    console.error('Error fetching incident logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch incident logs', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listOrganizationUsers } from '@/lib/organizations';
+import { NOTE_SELECT, extractMentions, toIncidentNote } from '@/lib/incident-notes';
+
+const MAX_NOTE_LENGTH = 20000;
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Load a note with its incident, scoped to the caller's organization (fail closed)
+ */
+async function getScopedNote(
+  supabase: ServerClient,
+  userData: { organization_id: string | null; is_platform_admin: boolean },
+  externalId: string,
+  noteId: string
+) {
+  let query = supabase
+    .from('incidents')
+    .select('id, organization_id')
+    .eq('external_id', externalId);
+
+  if (!userData.is_platform_admin) {
+    query = query.eq('organization_id', userData.organization_id);
+  }
+
+  const { data: incident } = await query.maybeSingle();
+
+  if (!incident) {
+    return null;
+  }
+
+  const { data: note } = await supabase
+    .from('incident_notes')
+    .select('id, author_id, organization_id')
+    .eq('id', noteId)
+    .eq('incident_id', incident.id)
+    .maybeSingle();
+
+  return note ? { incident, note } : null;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, role, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    if (!userData.is_platform_admin && !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+    }
+
+    let payload: { body?: unknown };
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const body = payload?.body;
+
+    if (typeof body !== 'string' || !body.trim()) {
+      return NextResponse.json({ error: 'Note body is required' }, { status: 400 });
+    }
+
+    if (body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note body must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { id, noteId } = await params;
+    const scoped = await getScopedNote(supabase, userData, id, noteId);
+
+    if (!scoped) {
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 });
+    }
+
+    // Only the author can edit a note (also enforced by RLS on incident_notes)
+    if (scoped.note.author_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden - only the author can edit this note' },
+        { status: 403 }
+      );
+    }
+
+    const users = await listOrganizationUsers(scoped.incident.organization_id);
+
+    const { data: note, error: updateError } = await supabase
+      .from('incident_notes')
+      .update({ body: body.trim(), mentions: extractMentions(body, users) })
+      .eq('id', noteId)
+      .select(NOTE_SELECT)
+      .single();
+
+    if (updateError || !note) {
+      console.error('Error updating incident note:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update note', details: updateError?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, note: toIncidentNote(note, users) });
+  } catch (error) {
+    console.error('Error updating incident note:', error);
+    return NextResponse.json(
+      { error: 'Failed to update note', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, role, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    if (!userData.is_platform_admin && !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+    }
+
+    const { id, noteId } = await params;
+    const scoped = await getScopedNote(supabase, userData, id, noteId);
+
+    if (!scoped) {
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 });
+    }
+
+    // Authors delete their own notes; org admins can remove any note
+    const canDelete = userData.is_platform_admin
+      || scoped.note.author_id === user.id
+      || userData.role === 'admin';
+
+    if (!canDelete) {
+      return NextResponse.json(
+        { error: 'Forbidden - only the author or an admin can delete this note' },
+        { status: 403 }
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from('incident_notes')
+      .delete()
+      .eq('id', noteId);
+
+    if (deleteError) {
+      console.error('Error deleting incident note:', deleteError);
+      return NextResponse.json(
+        { error: 'Failed to delete note', details: deleteError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting incident note:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete note', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
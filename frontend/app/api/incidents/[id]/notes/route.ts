@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listOrganizationUsers } from '@/lib/organizations';
+import { recordIncidentEvent } from '@/lib/incident-events';
+import { NOTE_SELECT, extractMentions, toIncidentNote } from '@/lib/incident-notes';
+
+const MAX_NOTE_LENGTH = 20000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    const { id } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('id, organization_id')
+      .eq('external_id', id);
+
+    // For non-platform admins, explicitly filter by organization (fail closed)
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const { data: notes, error: notesError } = await supabase
+      .from('incident_notes')
+      .select(NOTE_SELECT)
+      .eq('incident_id', incident.id)
+      .order('created_at', { ascending: true });
+
+    if (notesError) {
+      console.error('Error fetching incident notes:', notesError);
+      return NextResponse.json(
+        { error: 'Failed to fetch incident notes', details: notesError.message },
+        { status: 500 }
+      );
+    }
+
+    const users = await listOrganizationUsers(incident.organization_id);
+
+    return NextResponse.json({
+      notes: (notes || []).map(note => toIncidentNote(note, users)),
+      // Mention candidates for the composer
+      users: users.map(u => ({ id: u.id, name: u.name, email: u.email, role: u.role }))
+    });
+  } catch (error) {
+    console.error('Error fetching incident notes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch incident notes', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, role, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    // Viewers are read-only (also enforced by RLS on incident_notes)
+    if (!userData.is_platform_admin && userData.role === 'viewer') {
+      return NextResponse.json(
+        { error: 'Forbidden - viewers cannot add notes' },
+        { status: 403 }
+      );
+    }
+
+    let payload: { body?: unknown };
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const body = payload?.body;
+
+    if (typeof body !== 'string' || !body.trim()) {
+      return NextResponse.json({ error: 'Note body is required' }, { status: 400 });
+    }
+
+    if (body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note body must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('id, organization_id')
+      .eq('external_id', id);
+
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const users = await listOrganizationUsers(incident.organization_id);
+    const mentions = extractMentions(body, users);
+
+    const { data: note, error: insertError } = await supabase
+      .from('incident_notes')
+      .insert([{
+        incident_id: incident.id,
+        organization_id: incident.organization_id,
+        author_id: user.id,
+        body: body.trim(),
+        mentions
+      }])
+      .select(NOTE_SELECT)
+      .single();
+
+    if (insertError || !note) {
+      console.error('Error creating incident note:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to create note', details: insertError?.message },
+        { status: 500 }
+      );
+    }
+
+    const result = toIncidentNote(note, users);
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: incident.organization_id,
+      type: 'note_added',
+      title: result.mentions.length > 0
+        ? `Note added, mentioning ${result.mentions.map(m => m.name || m.email).join(', ')}`
+        : 'Note added',
+      details: { note_id: result.id, mentions },
+      actorId: user.id
+    });
+
+    return NextResponse.json({ success: true, note: result }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating incident note:', error);
+    return NextResponse.json(
+      { error: 'Failed to create note', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getAdminClient } from '@/lib/supabase-admin';
+import { isIncidentAction, planTransition, INCIDENT_ACTIONS } from '@/lib/incident-lifecycle';
+import { recordIncidentEvent } from '@/lib/incident-events';
+import { ASSIGNMENT_SELECT, toIncidentAssignees } from '@/lib/incident-assignments';
 
 export async function GET(
   request: NextRequest,
@@ -69,6 +73,11 @@ export async function GET(
       aiAnalysis = analysisData;
     }
 
+    const { data: assignments } = await supabase
+      .from('incident_assignments')
+      .select(ASSIGNMENT_SELECT)
+      .eq('incident_id', incident.id);
+
     // Transform to match frontend interface
     const transformedIncident = {
       id: incident.external_id,
@@ -81,11 +90,21 @@ export async function GET(
       title: incident.title,
       description: incident.description,
       logs: incident.logs || [],
+      log_count: incident.log_count,
       metrics: incident.metrics || {},
       context: incident.context || {},
       created_at: incident.created_at,
       updated_at: incident.updated_at,
+      acknowledged_at: incident.acknowledged_at,
       resolved_at: incident.resolved_at,
+      closed_at: incident.closed_at,
+      occurrence_count: incident.occurrence_count,
+      last_occurrence_at: incident.last_occurrence_at,
+      recovered_at: incident.recovered_at,
+      redactions: incident.redactions || [],
+      assignees: toIncidentAssignees(assignments),
+      analysis_status: incident.analysis_status,
+      analysis_execution_id: incident.analysis_execution_id,
       ai_analysis: aiAnalysis ? {
         analysis: aiAnalysis.analysis,
         remediation: aiAnalysis.remediation,
@@ -105,3 +124,158 @@ export async function GET(
     );
   }
 }
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('organization_id, role, is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.error('Error fetching user:', userError);
+      return NextResponse.json(
+        { error: 'Failed to fetch user data' },
+        { status: 500 }
+      );
+    }
+
+    // Viewers are read-only (also enforced by RLS on incidents)
+    if (!userData.is_platform_admin && userData.role === 'viewer') {
+      return NextResponse.json(
+        { error: 'Forbidden - viewers cannot change incident status' },
+        { status: 403 }
+      );
+    }
+
+    let body: { action?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const action = body?.action;
+
+    if (!isIncidentAction(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${INCIDENT_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+
+    let query = supabase
+      .from('incidents')
+      .select('id, external_id, organization_id, status, acknowledged_at')
+      .eq('external_id', id);
+
+    if (!userData.is_platform_admin) {
+      if (!userData.organization_id) {
+        return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+      }
+      query = query.eq('organization_id', userData.organization_id);
+    }
+
+    const { data: incident, error: incError } = await query.single();
+
+    if (incError || !incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    let transition;
+    try {
+      transition = planTransition(incident, action, user.id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid status transition', details: (error as Error).message, status: incident.status },
+        { status: 409 }
+      );
+    }
+
+    // Guard on the current status so concurrent transitions can't both apply
+    const { data: updated, error: updateError } = await supabase
+      .from('incidents')
+      .update(transition.updates)
+      .eq('id', incident.id)
+      .eq('status', incident.status)
+      .select('id, external_id, organization_id, status, acknowledged_at, acknowledged_by, resolved_at, resolved_by, closed_at, closed_by, recovered_at, updated_at')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating incident status:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update incident', details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Incident was modified concurrently, please reload and try again' },
+        { status: 409 }
+      );
+    }
+
+    // Audit log (using admin client - audit_log is read-only for org users)
+    await getAdminClient().from('audit_log').insert([{
+      incident_id: incident.id,
+      organization_id: incident.organization_id,
+      user_id: user.id,
+      action: 'status_changed',
+      details: { action, old_status: incident.status, new_status: transition.status },
+      user_agent: request.headers.get('user-agent')
+    }]);
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: incident.organization_id,
+      type: 'status_changed',
+      title: action === 'acknowledge'
+        ? 'Incident acknowledged'
+        : `Status changed: ${incident.status} → ${transition.status}`,
+      details: { action, old_status: incident.status, new_status: transition.status },
+      actorId: user.id
+    });
+
+    return NextResponse.json({
+      success: true,
+      incident: {
+        id: updated.external_id,
+        internal_id: updated.id,
+        status: updated.status,
+        acknowledged_at: updated.acknowledged_at,
+        acknowledged_by: updated.acknowledged_by,
+        resolved_at: updated.resolved_at,
+        resolved_by: updated.resolved_by,
+        closed_at: updated.closed_at,
+        closed_by: updated.closed_by,
+        recovered_at: updated.recovered_at,
+        updated_at: updated.updated_at
+      }
+    });
+  } catch (error) {
+    console.error('Error transitioning incident:', error);
+    return NextResponse.json(
+      { error: 'Failed to update incident', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
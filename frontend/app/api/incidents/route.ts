@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { ASSIGNMENT_SELECT, toIncidentAssignees } from '@/lib/incident-assignments';
 
 export async function GET(req: NextRequest) {
   try {
@@ -34,11 +35,12 @@ export async function GET(req: NextRequest) {
     const status = searchParams.get('status') || undefined;
     const severity = searchParams.get('severity') || undefined;
     const service = searchParams.get('service') || undefined;
+    const assigned = searchParams.get('assigned') || undefined;
 
     // Build query - RLS will automatically filter by organization
     let query = supabase
       .from('incidents')
-      .select('*')
+      .select(`*, incident_assignments (${ASSIGNMENT_SELECT})`)
       .order('timestamp', { ascending: false })
       .limit(100);
 
@@ -59,6 +61,25 @@ export async function GET(req: NextRequest) {
     if (service) {
       query = query.eq('service', service);
     }
+    if (assigned === 'me') {
+      const { data: assignments, error: assignError } = await supabase
+        .from('incident_assignments')
+        .select('incident_id')
+        .eq('user_id', user.id);
+
+      if (assignError) {
+        console.error('Error fetching assignments:', assignError);
+        return NextResponse.json(
+          { error: 'Failed to fetch incidents', details: assignError.message },
+          { status: 500 }
+        );
+      }
+
+      if (!assignments || assignments.length === 0) {
+        return NextResponse.json([]);
+      }
+      query = query.in('id', assignments.map(a => a.incident_id));
+    }
 
     const { data: incidents, error: incError } = await query;
 
@@ -79,7 +100,16 @@ export async function GET(req: NextRequest) {
       severity: inc.severity,
       status: inc.status,
       title: inc.title,
+      acknowledged_at: inc.acknowledged_at,
+      resolved_at: inc.resolved_at,
+      closed_at: inc.closed_at,
+      occurrence_count: inc.occurrence_count,
+      last_occurrence_at: inc.last_occurrence_at,
+      recovered_at: inc.recovered_at,
+      assignees: toIncidentAssignees(inc.incident_assignments),
+      analysis_status: inc.analysis_status,
       logs: inc.logs || [],
+      log_count: inc.log_count,
       metrics: inc.metrics || {},
       context: inc.context || {}
     }));
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminClient } from '@/lib/supabase-admin';
+import { getKestraClient, syncWorkflowExecution } from '@/lib/kestra';
+import { parseKestraCallback, recordAnalysisResult, setAnalysisStatus, verifyKestraCallback } from '@/lib/kestra-callback';
+
+/**
+ * Completion callback from the incident-handler flow
+ * Authenticated with the per-execution bearer token passed in `incident_data.callback`.
+ * Safe to retry: the analysis is replaced and timeline events are deduplicated.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    if (!token) {
+      return NextResponse.json({ error: 'Missing callback token' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { payload, error: parseError } = parseKestraCallback(body);
+    if (!payload) {
+      return NextResponse.json({ error: parseError }, { status: 400 });
+    }
+
+    // Signed for this incident, unexpired and bound to this execution
+    const tokenError = await verifyKestraCallback(token, payload);
+    if (tokenError) {
+      return NextResponse.json({ error: tokenError }, { status: 401 });
+    }
+
+    const { data: incident, error: incidentError } = await getAdminClient()
+      .from('incidents')
+      .select('id, analysis_execution_id')
+      .eq('external_id', payload.incident_id)
+      .eq('organization_id', payload.organization_id)
+      .maybeSingle();
+
+    if (incidentError) {
+      throw incidentError;
+    }
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    // A later run was started for this incident; its result wins
+    if (incident.analysis_execution_id && incident.analysis_execution_id !== payload.execution_id) {
+      return NextResponse.json({ success: true, ignored: 'superseded by a later execution' });
+    }
+
+    const client = await getKestraClient(payload.organization_id);
+
+    const analysisId = await recordAnalysisResult(incident.id, payload, {
+      url: client.uiUrl(`/executions/${client.flow.namespace}/${client.flow.flow_id}/${payload.execution_id}`)
+    });
+
+    // Kestra still reports the execution as running while this task posts
+    await syncWorkflowExecution(payload.organization_id, payload.execution_id, {
+      state: payload.state,
+      ended_at: new Date().toISOString()
+    });
+
+    // Last, so subscribers that reload on this change see the saved analysis
+    await setAnalysisStatus(
+      payload.organization_id,
+      payload.incident_id,
+      payload.state === 'SUCCESS' ? 'completed' : 'failed'
+    );
+
+    return NextResponse.json({ success: true, analysis_id: analysisId });
+  } catch (error) {
+    console.error('Error handling Kestra callback:', error);
+    return NextResponse.json(
+      { error: 'Failed to process callback', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
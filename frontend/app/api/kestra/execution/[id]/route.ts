@@ -1,38 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import axios from 'axios';
-import { getConfig } from '@/lib/system-config';
+import { getKestraClient, getKestraExecution } from '@/lib/kestra';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { recordIncidentEventByExternalId } from '@/lib/incident-events';
+import { summarizeExecution, updateWorkflowExecution } from '@/lib/workflow-executions';
+
+const TERMINAL_STATES = ['SUCCESS', 'FAILED', 'KILLED', 'WARNING'];
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id: executionId } = await params;
-    
-    // Get Kestra config from system config (with env fallback)
-    const kestraUrl = await getConfig('KESTRA_URL') || 'http://localhost:8080';
-    const kestraUsername = await getConfig('KESTRA_USERNAME');
-    const kestraPassword = await getConfig('KESTRA_PASSWORD');
-    
-    const tenant = 'main';
+  // Resolved before the try so the error response can link to the right Kestra UI
+  const authUser = await getAuthenticatedUser();
+  const organizationId = authUser?.organizationId;
 
-    // Use simple execution ID endpoint (works with any flow)
-    let url = `${kestraUrl}/api/v1/${tenant}/executions/${executionId}`;
+  if (!authUser || !organizationId) {
+    return NextResponse.json(
+      { error: 'Unauthorized - please log in' },
+      { status: 401 }
+    );
+  }
 
-    console.log('Fetching execution status:', { url, executionId });
+  try {
+    const { id: executionId } = await params;
 
-    // Build auth if credentials are provided
-    const auth = kestraUsername && kestraPassword ? {
-      username: kestraUsername,
-      password: kestraPassword
-    } : undefined;
+    console.log('Fetching execution status:', { executionId, organizationId });
 
-    const response = await axios.get(url, {
-      ...(auth && { auth }),
-      timeout: 5000
-    });
+    // Simple execution ID endpoint (works with any flow), in the organization's tenant
+    const { execution, client } = await getKestraExecution(executionId, organizationId);
 
-    const execution = response.data;
+    // Executions carry the organization they were triggered for; don't expose other orgs' runs
+    const incidentData = execution.inputs?.incident_data;
+    if (incidentData?.organization_id && incidentData.organization_id !== organizationId) {
+      return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+    }
 
     // Helper function to parse Gemini response
     const parseGeminiResponse = (output: any): string | null => {
@@ -66,8 +67,29 @@ export async function GET(
       return match ? parseFloat(match[1]) : null;
     };
 
-    // Construct proper Kestra UI URL using the same base URL
-    const kestraUiUrl = `${kestraUrl}/ui/${tenant}/executions/${execution.namespace}/${execution.flowId}/${execution.id}`;
+    // Kestra UI URL on the same server and tenant
+    const kestraUiUrl = client.uiUrl(`/executions/${execution.namespace}/${execution.flowId}/${execution.id}`);
+
+    // Keep the incident's run history current while we have the execution
+    await updateWorkflowExecution(organizationId, execution.id, summarizeExecution(execution));
+
+    // Record completion on the incident timeline (deduped, this endpoint is polled)
+    const state = execution.state?.current;
+    if (TERMINAL_STATES.includes(state) && incidentData?.id && incidentData?.organization_id) {
+      await recordIncidentEventByExternalId(incidentData.id, {
+        organizationId: incidentData.organization_id,
+        type: 'kestra_finished',
+        title: `AI analysis workflow finished: ${state}`,
+        details: {
+          execution_id: execution.id,
+          state,
+          duration_seconds: parseDuration(execution.state?.duration),
+          url: kestraUiUrl
+        },
+        occurredAt: execution.state?.endDate,
+        dedupeKey: `kestra_finished:${execution.id}`
+      });
+    }
 
     return NextResponse.json({
       executionId: execution.id,
@@ -89,15 +111,15 @@ export async function GET(
 
     const is401 = error.response?.status === 401;
     
-    // Try to get kestraUrl for error response
-    const fallbackKestraUrl = await getConfig('KESTRA_URL') || 'http://localhost:8080';
+    // Link to the Kestra UI for the organization's tenant in the error response
+    const client = await getKestraClient(organizationId);
 
     return NextResponse.json({
       error: is401
         ? 'Kestra authentication required'
         : 'Failed to fetch execution status',
       details: is401
-        ? `Please view execution details in Kestra UI at ${fallbackKestraUrl}`
+        ? `Please view execution details in Kestra UI at ${client.baseUrl}`
         : error.message,
       executionId: executionId,
       status: 'PENDING',
@@ -106,7 +128,7 @@ export async function GET(
         remediation: null,
         documentation: null
       },
-      url: `${fallbackKestraUrl}/ui/executions/${executionId}`
+      url: client.uiUrl(`/executions/${executionId}`)
     }, { status: is401 ? 200 : (error.response?.status || 500) });
   }
 }
@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { triggerKestraWorkflowDirect } from '@/lib/kestra';
-import { getAuthenticatedOrganizationId } from '@/lib/supabase/server';
+import { triggerAnalysisWorkflow } from '@/lib/kestra';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { recordIncidentEventByExternalId } from '@/lib/incident-events';
+import { getNotesForPostmortem } from '@/lib/incident-notes';
 
 export async function POST(req: NextRequest) {
   try {
     // SECURITY: Verify user is authenticated and get their organization
-    const organizationId = await getAuthenticatedOrganizationId();
+    const authUser = await getAuthenticatedUser();
+    const organizationId = authUser?.organizationId;
     
-    if (!organizationId) {
+    if (!authUser || !organizationId) {
       return NextResponse.json(
         { error: 'Unauthorized - please log in' },
         { status: 401 }
@@ -45,16 +48,31 @@ export async function POST(req: NextRequest) {
         deployment: 'unknown'
       },
       // SECURITY: Use authenticated user's organization, not from request
-      organization_id: organizationId
+      organization_id: organizationId,
+      // Responder notes feed the postmortem; loaded server-side so they're always org-scoped
+      responder_notes: await getNotesForPostmortem(incident_data.id, organizationId) || ''
     };
 
-    const result = await triggerKestraWorkflowDirect(completeIncidentData);
+    const result = await triggerAnalysisWorkflow(completeIncidentData, {
+      trigger: 'manual',
+      triggeredBy: authUser.userId
+    });
+
+    await recordIncidentEventByExternalId(completeIncidentData.id, {
+      organizationId,
+      type: result.success ? 'kestra_triggered' : 'kestra_trigger_failed',
+      title: result.success ? 'AI analysis workflow triggered' : 'AI analysis workflow failed to start',
+      details: { execution_id: result.executionId, trigger: 'manual', engine: result.engine, error: result.error },
+      actorId: authUser.userId
+    });
 
     if (!result.success) {
       return NextResponse.json({
         success: false,
         error: result.error || 'Failed to trigger Kestra workflow',
-        message: 'Kestra may not be accessible. Check KESTRA_URL environment variable.'
+        message: result.engine === 'builtin'
+          ? 'The built-in analysis could not start. Check GEMINI_API_KEY.'
+          : 'Kestra may not be accessible. Check KESTRA_URL environment variable.'
       }, { status: 503 });
     }
 
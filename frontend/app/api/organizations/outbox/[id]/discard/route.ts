@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { OUTBOX_SELECT, OutboxEntry } from '@/lib/outbox';
+import { ACTIONABLE_OUTBOX_STATUSES, discardOutboxEntry } from '@/lib/outbox-worker';
+
+/**
+ * Stop retrying a pending or dead outbox entry
+ * For an analysis trigger the incident's analysis is marked as failed.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const { data: entry } = await supabase
+      .from('outbox')
+      .select(OUTBOX_SELECT)
+      .eq('id', id)
+      .eq('organization_id', userData.organization_id)
+      .maybeSingle<OutboxEntry>();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Outbox entry not found' }, { status: 404 });
+    }
+
+    if (!ACTIONABLE_OUTBOX_STATUSES.includes(entry.status)) {
+      return NextResponse.json({ error: `A ${entry.status} entry cannot be discarded` }, { status: 400 });
+    }
+
+    const discarded = await discardOutboxEntry(entry);
+    if (!discarded) {
+      return NextResponse.json({ error: 'The entry is already being processed' }, { status: 409 });
+    }
+
+    return NextResponse.json({ entry: discarded });
+  } catch (error) {
+    console.error('Error discarding outbox entry:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { OUTBOX_SELECT } from '@/lib/outbox';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * List outbox entries, newest first, with the incident they belong to
+ * Filters: ?status=pending|processing|delivered|dead|discarded, ?kind=, ?before=<created_at> for paging
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const limit = Math.min(Number(searchParams.get('limit')) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    let query = supabase
+      .from('outbox')
+      .select(`${OUTBOX_SELECT}, incident:incidents(external_id, title)`)
+      .eq('organization_id', userData.organization_id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    const status = searchParams.get('status');
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const kind = searchParams.get('kind');
+    if (kind) {
+      query = query.eq('kind', kind);
+    }
+
+    const before = searchParams.get('before');
+    if (before) {
+      query = query.lt('created_at', before);
+    }
+
+    const { data: entries, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ entries: entries || [] });
+  } catch (error) {
+    console.error('Error listing outbox entries:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
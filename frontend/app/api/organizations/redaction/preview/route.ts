@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrganizationSettings } from '@/lib/organizations';
+import { getRedactionConfig, getRedactionHashKey, parseRedactionConfig, redactIncidentFields } from '@/lib/redaction';
+
+/**
+ * Try redaction rules against sample log lines without storing anything
+ * An unsaved `redaction` config is merged over the saved one, so rules can be tested before saving.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    if (typeof body.text !== 'string') {
+      return NextResponse.json({ error: 'text must be a string' }, { status: 400 });
+    }
+
+    const saved = getRedactionConfig(await getOrganizationSettings(userData.organization_id));
+
+    let config;
+    try {
+      config = body.redaction === undefined ? saved : parseRedactionConfig(body.redaction, saved);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    const { incident, redactions } = redactIncidentFields(
+      { logs: body.text.split('\n') },
+      config,
+      await getRedactionHashKey(userData.organization_id)
+    );
+
+    return NextResponse.json({ text: incident.logs.join('\n'), redactions });
+  } catch (error) {
+    console.error('Error previewing redaction:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOrganizationSettings, updateOrganizationSettings } from '@/lib/organizations';
+import { getAlertGroupingConfig, parseAlertGroupingConfig } from '@/lib/alert-grouping';
+import { getAutoResolveConfig, parseAutoResolveConfig } from '@/lib/incident-recovery';
+import { getRedactionConfig, parseRedactionConfig } from '@/lib/redaction';
+import { getRoutingConfig, parseRoutingConfig } from '@/lib/routing-policy';
+import { getKestraOverrides, parseKestraOverrides } from '@/lib/kestra';
+import { getAnalysisEngine, parseAnalysisEngine } from '@/lib/builtin-analysis';
+
+/**
+ * Resolve stored settings into the effective values (defaults applied)
+ */
+function toSettingsResponse(settings: Record<string, unknown>) {
+  return {
+    alert_grouping: getAlertGroupingConfig(settings),
+    auto_resolve: getAutoResolveConfig(settings),
+    redaction: getRedactionConfig(settings),
+    routing: getRoutingConfig(settings),
+    analysis_engine: getAnalysisEngine(settings),
+    // Only the organization's overrides; unset fields use the global Kestra config
+    kestra: getKestraOverrides(settings)
+  };
+}
+
+async function getAdminOrganizationId(): Promise<{ organizationId?: string; response?: NextResponse }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+    return { response: NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 }) };
+  }
+
+  return { organizationId: userData.organization_id };
+}
+
+export async function GET() {
+  try {
+    const { organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const settings = await getOrganizationSettings(organizationId!);
+    return NextResponse.json(toSettingsResponse(settings));
+  } catch (error) {
+    console.error('Error fetching organization settings:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const { organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    let body: Record<string, unknown>;
+    try {
+      body = (await req.json()) || {};
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const current = await getOrganizationSettings(organizationId!);
+    const updates: Record<string, unknown> = {};
+
+    try {
+      if (body.alert_grouping !== undefined) {
+        updates.alert_grouping = parseAlertGroupingConfig(body.alert_grouping, getAlertGroupingConfig(current));
+      }
+      if (body.auto_resolve !== undefined) {
+        updates.auto_resolve = parseAutoResolveConfig(body.auto_resolve, getAutoResolveConfig(current));
+      }
+      if (body.redaction !== undefined) {
+        updates.redaction = parseRedactionConfig(body.redaction, getRedactionConfig(current));
+      }
+      if (body.routing !== undefined) {
+        updates.routing = parseRoutingConfig(body.routing, getRoutingConfig(current));
+      }
+      if (body.analysis_engine !== undefined) {
+        updates.analysis_engine = parseAnalysisEngine(body.analysis_engine);
+      }
+      if (body.kestra !== undefined) {
+        updates.kestra = parseKestraOverrides(body.kestra, getKestraOverrides(current));
+      }
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No supported settings provided' }, { status: 400 });
+    }
+
+    const settings = await updateOrganizationSettings(organizationId!, updates);
+    return NextResponse.json(toSettingsResponse(settings));
+  } catch (error) {
+    console.error('Error updating organization settings:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { DEFAULT_SECRET_SOURCE, generateSigningSecret } from '@/lib/webhook-signatures';
+
+const MIN_SECRET_LENGTH = 16;
+
+async function getAdminOrganizationId() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { supabase, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+    return { supabase, response: NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 }) };
+  }
+
+  return { supabase, userId: user.id, organizationId: userData.organization_id as string };
+}
+
+function isValidSource(source: unknown): source is string {
+  return typeof source === 'string' && (source === DEFAULT_SECRET_SOURCE || /^[a-z0-9][a-z0-9_-]{1,49}$/.test(source));
+}
+
+/**
+ * List configured secrets (only the last characters are returned)
+ */
+export async function GET() {
+  try {
+    const { supabase, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const { data, error } = await supabase
+      .from('webhook_signing_secrets')
+      .select('source, secret, created_at')
+      .eq('organization_id', organizationId)
+      .order('source');
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({
+      secrets: (data || []).map(row => ({
+        source: row.source,
+        hint: `…${row.secret.slice(-4)}`,
+        created_at: row.created_at
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing signing secrets:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+/**
+ * Set the secret for a source ('*' for all); generated when not provided
+ * Senders that issue their own secret (Sentry, PagerDuty) need it pasted in.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { supabase, userId, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const body = await req.json();
+    const source = body.source ?? DEFAULT_SECRET_SOURCE;
+
+    if (!isValidSource(source)) {
+      return NextResponse.json({ error: 'source must be "*" or a source name' }, { status: 400 });
+    }
+
+    if (body.secret !== undefined && (typeof body.secret !== 'string' || body.secret.length < MIN_SECRET_LENGTH)) {
+      return NextResponse.json(
+        { error: `secret must be at least ${MIN_SECRET_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const secret = body.secret ?? generateSigningSecret();
+
+    const { data, error } = await supabase
+      .from('webhook_signing_secrets')
+      .upsert([{
+        organization_id: organizationId,
+        source,
+        secret,
+        created_by: userId,
+        created_at: new Date().toISOString()
+      }], { onConflict: 'organization_id,source' })
+      .select('source, created_at')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    // The full secret is only returned once
+    return NextResponse.json({ source: data.source, secret, created_at: data.created_at });
+  } catch (error) {
+    console.error('Error saving signing secret:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+/**
+ * Remove the secret for ?source= (signatures stop being required for it)
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const { supabase, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const source = req.nextUrl.searchParams.get('source') || DEFAULT_SECRET_SOURCE;
+
+    const { error } = await supabase
+      .from('webhook_signing_secrets')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('source', source);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting signing secret:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { WEBHOOK_SOURCE_SELECT, parseMapping } from '@/lib/webhook-sources';
+
+async function getAdminOrganizationId() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { supabase, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+    return { supabase, response: NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 }) };
+  }
+
+  return { supabase, organizationId: userData.organization_id as string };
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { supabase, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const { id } = await params;
+    const body = await req.json();
+    const updates: Record<string, unknown> = {};
+
+    try {
+      if (body.mapping !== undefined) {
+        updates.mapping = parseMapping(body.mapping);
+      }
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    if (body.description !== undefined) {
+      updates.description = typeof body.description === 'string' ? body.description : null;
+    }
+    if (body.sample_payload !== undefined) {
+      updates.sample_payload = body.sample_payload;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No supported fields provided' }, { status: 400 });
+    }
+
+    const { data: source, error } = await supabase
+      .from('webhook_sources')
+      .update(updates)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select(WEBHOOK_SOURCE_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!source) {
+      return NextResponse.json({ error: 'Source not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ source });
+  } catch (error) {
+    console.error('Error updating webhook source:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { supabase, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const { id } = await params;
+
+    const { data: deleted, error } = await supabase
+      .from('webhook_sources')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (!deleted?.length) {
+      return NextResponse.json({ error: 'Source not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook source:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
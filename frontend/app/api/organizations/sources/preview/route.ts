@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { applyMapping, parseMapping } from '@/lib/webhook-sources';
+
+/**
+ * Dry-run a mapping against a sample payload; nothing is stored
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const { name, mapping, payload } = await req.json();
+
+    try {
+      const { is_recovery: isRecovery, ...incident } = applyMapping(
+        typeof name === 'string' && name ? name : 'custom',
+        parseMapping(mapping),
+        payload
+      );
+      return NextResponse.json({ incident, is_recovery: isRecovery });
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error previewing webhook source:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { WEBHOOK_SOURCE_SELECT, parseMapping, validateSourceName } from '@/lib/webhook-sources';
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData?.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - no organization assigned' }, { status: 403 });
+    }
+
+    const { data: sources, error } = await supabase
+      .from('webhook_sources')
+      .select(WEBHOOK_SOURCE_SELECT)
+      .eq('organization_id', userData.organization_id)
+      .order('name');
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ sources: sources || [], can_manage: userData.role === 'admin' });
+  } catch (error) {
+    console.error('Error listing webhook sources:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const body = await req.json();
+
+    let name;
+    let mapping;
+    try {
+      name = validateSourceName(body.name);
+      mapping = parseMapping(body.mapping);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    const { data: source, error } = await supabase
+      .from('webhook_sources')
+      .insert([{
+        organization_id: userData.organization_id,
+        name,
+        description: typeof body.description === 'string' ? body.description : null,
+        mapping,
+        sample_payload: body.sample_payload ?? null,
+        created_by: user.id
+      }])
+      .select(WEBHOOK_SOURCE_SELECT)
+      .single();
+
+    if (error) {
+      // Unique (organization_id, name)
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `A source named "${name}" already exists` }, { status: 409 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ source }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook source:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
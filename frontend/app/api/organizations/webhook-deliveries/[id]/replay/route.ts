@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ingestPayload } from '@/lib/webhook-ingest';
+import { WEBHOOK_DELIVERY_DETAIL_SELECT, WEBHOOK_DELIVERY_SELECT, recordDelivery } from '@/lib/webhook-deliveries';
+
+/**
+ * Re-run normalization and ingestion for a stored delivery
+ * Signatures and rate limits are not re-checked: the caller is an org admin
+ * and the payload was already received. Idempotency still applies, so an
+ * accepted delivery replays as a duplicate. The stored body is the redacted
+ * one, so values the redaction rules replaced stay replaced.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const { data: original } = await supabase
+      .from('webhook_deliveries')
+      .select(WEBHOOK_DELIVERY_DETAIL_SELECT)
+      .eq('id', id)
+      .eq('organization_id', userData.organization_id)
+      .maybeSingle();
+
+    if (!original) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    if (original.bulk) {
+      return NextResponse.json({ error: 'Bulk imports cannot be replayed; send the import again' }, { status: 400 });
+    }
+
+    if (original.body_truncated) {
+      return NextResponse.json({ error: 'The stored payload was truncated and cannot be replayed' }, { status: 400 });
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(original.body || '');
+    } catch {
+      return NextResponse.json({ error: 'The stored payload is not valid JSON' }, { status: 400 });
+    }
+
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('id', userData.organization_id)
+      .single();
+
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const requestId = `replay-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const result = await ingestPayload(organization, original.source, payload, requestId);
+
+    const deliveryId = await recordDelivery({
+      organizationId: organization.id,
+      requestId,
+      source: original.source,
+      webhookKeyId: original.webhook_key_id,
+      headers: (original.headers || {}) as Record<string, string>,
+      body: original.body || '',
+      statusCode: result.status,
+      response: result.body,
+      replayOf: original.id
+    });
+
+    const { data: delivery } = deliveryId
+      ? await supabase.from('webhook_deliveries').select(WEBHOOK_DELIVERY_SELECT).eq('id', deliveryId).maybeSingle()
+      : { data: null };
+
+    return NextResponse.json({ status: result.status, response: result.body, delivery });
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { WEBHOOK_DELIVERY_DETAIL_SELECT } from '@/lib/webhook-deliveries';
+
+/**
+ * A single delivery with its raw body, redacted headers and response
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const { data: delivery, error } = await supabase
+      .from('webhook_deliveries')
+      .select(WEBHOOK_DELIVERY_DETAIL_SELECT)
+      .eq('id', id)
+      .eq('organization_id', userData.organization_id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error('Error fetching webhook delivery:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
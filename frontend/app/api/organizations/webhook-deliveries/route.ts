@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { WEBHOOK_DELIVERY_SELECT } from '@/lib/webhook-deliveries';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * List recent webhook deliveries, newest first
+ * Filters: ?source=, ?outcome=accepted|rejected|failed, ?before=<received_at> for paging
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const limit = Math.min(Number(searchParams.get('limit')) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    let query = supabase
+      .from('webhook_deliveries')
+      .select(WEBHOOK_DELIVERY_SELECT)
+      .eq('organization_id', userData.organization_id)
+      .order('received_at', { ascending: false })
+      .limit(limit);
+
+    const source = searchParams.get('source');
+    if (source) {
+      query = query.eq('source', source);
+    }
+
+    const outcome = searchParams.get('outcome');
+    if (outcome) {
+      query = query.eq('outcome', outcome);
+    }
+
+    const before = searchParams.get('before');
+    if (before) {
+      query = query.lt('received_at', before);
+    }
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ deliveries: deliveries || [] });
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
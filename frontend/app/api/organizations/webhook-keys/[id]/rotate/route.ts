@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getAdminClient } from '@/lib/supabase-admin';
+import { generateWebhookKey } from '@/lib/organizations';
+import {
+  DEFAULT_GRACE_PERIOD_HOURS,
+  MAX_GRACE_PERIOD_HOURS,
+  WEBHOOK_KEY_SELECT,
+  isWebhookKeyActive
+} from '@/lib/webhook-keys';
+
+/**
+ * Rotate a key: the replacement takes over its name, source and primary
+ * status, and the old key keeps working for grace_period_hours.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const gracePeriodHours = body.grace_period_hours ?? DEFAULT_GRACE_PERIOD_HOURS;
+
+    if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > MAX_GRACE_PERIOD_HOURS) {
+      return NextResponse.json(
+        { error: `grace_period_hours must be between 0 and ${MAX_GRACE_PERIOD_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing } = await supabase
+      .from('webhook_keys')
+      .select(WEBHOOK_KEY_SELECT)
+      .eq('id', id)
+      .eq('organization_id', userData.organization_id)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook key not found' }, { status: 404 });
+    }
+
+    if (!isWebhookKeyActive(existing)) {
+      return NextResponse.json({ error: 'Only active keys can be rotated' }, { status: 400 });
+    }
+
+    // Swapping the primary key and updating organizations.webhook_key must be atomic
+    const adminClient = getAdminClient();
+    const { data: newId, error: rotateError } = await adminClient.rpc('rotate_webhook_key', {
+      p_key_id: id,
+      p_new_key: generateWebhookKey(),
+      p_grace_seconds: Math.round(gracePeriodHours * 3600),
+      p_created_by: user.id
+    });
+
+    if (rotateError) {
+      throw rotateError;
+    }
+
+    const { data: keys, error } = await adminClient
+      .from('webhook_keys')
+      .select(WEBHOOK_KEY_SELECT)
+      .in('id', [newId, id]);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({
+      key: keys?.find(k => k.id === newId),
+      previous: keys?.find(k => k.id === id)
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error rotating webhook key:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { WEBHOOK_KEY_SELECT } from '@/lib/webhook-keys';
+
+async function getAdminOrganizationId() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { supabase, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+    return { supabase, response: NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 }) };
+  }
+
+  return { supabase, organizationId: userData.organization_id as string };
+}
+
+/**
+ * Revoke a key immediately (rotate the primary key instead of revoking it)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { supabase, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const { id } = await params;
+
+    const { data: existing } = await supabase
+      .from('webhook_keys')
+      .select('id, is_primary, revoked_at')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook key not found' }, { status: 404 });
+    }
+
+    if (existing.is_primary) {
+      return NextResponse.json(
+        { error: 'The primary key cannot be revoked; rotate it with a grace period of 0 instead' },
+        { status: 400 }
+      );
+    }
+
+    const { data: key, error } = await supabase
+      .from('webhook_keys')
+      .update({ revoked_at: existing.revoked_at || new Date().toISOString() })
+      .eq('id', id)
+      .select(WEBHOOK_KEY_SELECT)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ key });
+  } catch (error) {
+    console.error('Error revoking webhook key:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { generateWebhookKey } from '@/lib/organizations';
+import { WEBHOOK_KEY_SELECT } from '@/lib/webhook-keys';
+
+async function getAdminOrganizationId() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { supabase, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (!userData || userData.role !== 'admin' || !userData.organization_id) {
+    return { supabase, response: NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 }) };
+  }
+
+  return { supabase, userId: user.id, organizationId: userData.organization_id as string };
+}
+
+/**
+ * List ingestion keys, including revoked and expired ones
+ */
+export async function GET() {
+  try {
+    const { supabase, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    const { data: keys, error } = await supabase
+      .from('webhook_keys')
+      .select(WEBHOOK_KEY_SELECT)
+      .eq('organization_id', organizationId)
+      .order('is_primary', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ keys: keys || [] });
+  } catch (error) {
+    console.error('Error listing webhook keys:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+/**
+ * Create an additional named key, optionally limited to one source
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { supabase, userId, organizationId, response } = await getAdminOrganizationId();
+    if (response) return response;
+
+    let body: { name?: unknown; source?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    const source = body?.source || null;
+
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: 'name is required (max 100 characters)' }, { status: 400 });
+    }
+
+    if (source !== null && (typeof source !== 'string' || !/^[a-z0-9][a-z0-9_-]{1,49}$/.test(source))) {
+      return NextResponse.json({ error: 'source must be a source name' }, { status: 400 });
+    }
+
+    const { data: key, error } = await supabase
+      .from('webhook_keys')
+      .insert([{
+        organization_id: organizationId,
+        name,
+        key: generateWebhookKey(),
+        source,
+        created_by: userId
+      }])
+      .select(WEBHOOK_KEY_SELECT)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ key }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook key:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
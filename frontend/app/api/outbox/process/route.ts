@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { DEFAULT_BATCH_SIZE, processOutbox } from '@/lib/outbox-worker';
+
+const MAX_BATCH_SIZE = 100;
+
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`, 'utf8');
+  const provided = Buffer.from(req.headers.get('authorization') || '', 'utf8');
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+/**
+ * Retry due outbox entries
+ * Called on a schedule with `Authorization: Bearer <CRON_SECRET>` (Vercel Cron
+ * sends a GET with this header). Optional ?limit= caps the batch.
+ */
+async function handle(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const limit = Math.min(Number(req.nextUrl.searchParams.get('limit')) || DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE);
+    const attempts = await processOutbox(limit);
+
+    return NextResponse.json({
+      processed: attempts.length,
+      delivered: attempts.filter(a => a.delivered).length,
+      attempts
+    });
+  } catch (error) {
+    console.error('Error processing outbox:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
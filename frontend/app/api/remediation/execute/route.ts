@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { notifyRemediationAction } from '@/lib/slack';
 import { getIncident } from '@/lib/api';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { recordIncidentEventByExternalId } from '@/lib/incident-events';
 
 // Allowlisted safe commands that can be executed
 const SAFE_COMMANDS = [
@@ -28,6 +30,7 @@ const executionLogs: ExecutionLog[] = [];
 export async function POST(req: NextRequest) {
   try {
     const { incidentId, action, risk, dryRun } = await req.json();
+    const authUser = await getAuthenticatedUser();
 
     if (!incidentId || !action || !risk) {
       return NextResponse.json(
@@ -61,7 +64,7 @@ export async function POST(req: NextRequest) {
       risk,
       dryRun: dryRun || false,
       result: 'pending',
-      user: 'system' // In production, use actual user from auth
+      user: authUser?.email || 'system'
     };
 
     executionLogs.push(log);
@@ -100,6 +103,16 @@ export async function POST(req: NextRequest) {
     // Update log
     log.result = 'success';
 
+    if (authUser?.organizationId) {
+      await recordIncidentEventByExternalId(incidentId, {
+        organizationId: authUser.organizationId,
+        type: 'remediation_executed',
+        title: `Remediation executed: ${action}`,
+        details: { action, risk, execution_id: result.executionId, success: result.success },
+        actorId: authUser.userId
+      });
+    }
+
     // Send Slack notification (non-blocking)
     try {
       const incident = await getIncident(incidentId);
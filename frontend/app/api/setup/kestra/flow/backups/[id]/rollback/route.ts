@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { rollbackFlow } from '@/lib/kestra-flow-versions';
+
+/**
+ * Deploy a saved flow backup
+ * Body: `{ revision }`, the deployed revision that was compared. The deployed
+ * source is backed up first, so a rollback can be undone too.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData?.is_platform_admin) {
+      return NextResponse.json({ error: 'Platform admin access required' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body.revision !== null && !Number.isInteger(body.revision)) {
+      return NextResponse.json({ error: 'revision must be the compared revision number or null' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const result = await rollbackFlow(id, body.revision, user.id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Backup not found' }, { status: 404 });
+    }
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to roll back the flow', backup_id: result.backup_id },
+        { status: result.conflict ? 409 : 502 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error rolling back Kestra flow:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back the flow', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getFlowBackupDiff } from '@/lib/kestra-flow-versions';
+
+/**
+ * A saved flow backup and the diff from the deployed flow to it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData?.is_platform_admin) {
+      return NextResponse.json({ error: 'Platform admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const result = await getFlowBackupDiff(id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Backup not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error loading Kestra flow backup:', error);
+    return NextResponse.json(
+      { error: 'Failed to load the flow backup', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
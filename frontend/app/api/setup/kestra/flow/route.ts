@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getFlowVersionReport } from '@/lib/kestra-flow-versions';
+
+/**
+ * Deployed vs. bundled incident flow, with the diff and saved backups
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('is_platform_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData?.is_platform_admin) {
+      return NextResponse.json({ error: 'Platform admin access required' }, { status: 403 });
+    }
+
+    return NextResponse.json(await getFlowVersionReport());
+  } catch (error) {
+    console.error('Error comparing Kestra flow versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare Kestra flow versions', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -32,7 +32,7 @@ export async function GET() {
       });
     }
     
-    const workflowExists = await checkFlowExists('incident.response', 'incident-handler');
+    const workflowExists = await checkFlowExists();
     
     return NextResponse.json({
       connected: true,
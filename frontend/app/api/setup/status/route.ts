@@ -43,7 +43,7 @@ export async function GET() {
     // Check Kestra status
     const kestraConnection = await checkKestraConnection();
     const workflowExists = kestraConnection.connected 
-      ? await checkFlowExists('incident.response', 'incident-handler')
+      ? await checkFlowExists()
       : false;
     
     const isComplete = 
@@ -0,0 +1,252 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveWebhookKey } from '@/lib/webhook-keys';
+import { checkRequestSignature, releaseNonce } from '@/lib/webhook-signatures';
+import { consumeRateLimit, getRateLimitConfig, rateLimitHeaders } from '@/lib/rate-limit';
+import { ingestPayload } from '@/lib/webhook-ingest';
+import { recordDelivery, redactHeaders } from '@/lib/webhook-deliveries';
+import { getRedactionConfig, getRedactionHashKey, redactText } from '@/lib/redaction';
+
+// Backfills are imported in chunks; larger imports should be split client-side
+const MAX_BULK_BYTES = 10 * 1024 * 1024;
+const MAX_BULK_RECORDS = 5000;
+
+type BulkRecord = { line: number; payload?: unknown; error?: string };
+
+/**
+ * Split the body into records: a JSON array, or NDJSON (one payload per line)
+ * NDJSON lines that fail to parse are reported per line rather than failing the import.
+ */
+function parseRecords(rawBody: string): BulkRecord[] {
+  if (rawBody.trimStart().startsWith('[')) {
+    const items = JSON.parse(rawBody);
+    if (!Array.isArray(items)) {
+      throw new Error('Expected a JSON array');
+    }
+    return items.map((payload, index) => ({ line: index + 1, payload }));
+  }
+
+  return rawBody.split('\n').flatMap((text, index): BulkRecord[] => {
+    if (!text.trim()) return [];
+    try {
+      return [{ line: index + 1, payload: JSON.parse(text) }];
+    } catch (error) {
+      return [{ line: index + 1, error: `Invalid JSON: ${(error as Error).message}` }];
+    }
+  });
+}
+
+/**
+ * Bulk ingestion for backfills
+ *
+ * Accepts NDJSON (`application/x-ndjson`) or a JSON array of payloads for one
+ * source and runs each through the same normalizers and createIncident path
+ * as /api/webhooks/ingest as a backfill: incidents are stored resolved and
+ * nothing is routed. The report is streamed back as NDJSON: one result per
+ * record, then a summary line. The request is logged as one delivery.
+ */
+export async function POST(req: NextRequest) {
+  const requestId = `bulk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  // Set once the organization and body are known; responses from then on are logged
+  let delivery: Omit<Parameters<typeof recordDelivery>[0], 'statusCode' | 'response'> | null = null;
+
+  async function respond(body: Record<string, unknown>, init: { status: number; headers?: Record<string, string> }) {
+    if (delivery) {
+      await recordDelivery({ ...delivery, statusCode: init.status, response: body });
+    }
+    return NextResponse.json(body, init);
+  }
+
+  try {
+    const webhookKey = req.headers.get('x-webhook-key') || req.nextUrl.searchParams.get('key');
+
+    if (!webhookKey) {
+      return NextResponse.json(
+        {
+          error: 'Missing webhook key',
+          details: 'Include X-Webhook-Key header or ?key= parameter',
+          request_id: requestId
+        },
+        { status: 401 }
+      );
+    }
+
+    const resolved = await resolveWebhookKey(webhookKey).catch(() => null);
+
+    if (!resolved) {
+      return NextResponse.json(
+        {
+          error: 'Invalid webhook key',
+          details: 'Webhook key not found, revoked or expired',
+          request_id: requestId
+        },
+        { status: 401 }
+      );
+    }
+
+    const { organization, webhookKey: keyRecord } = resolved;
+    // Source names are case-insensitive
+    const source = (req.nextUrl.searchParams.get('source') || keyRecord.source || 'generic').toLowerCase();
+
+    if (Number(req.headers.get('content-length')) > MAX_BULK_BYTES) {
+      return NextResponse.json(
+        { error: 'Payload too large', details: `Maximum ${MAX_BULK_BYTES} bytes per request`, request_id: requestId },
+        { status: 413 }
+      );
+    }
+
+    const rawBody = await req.text();
+
+    if (rawBody.length > MAX_BULK_BYTES) {
+      return NextResponse.json(
+        { error: 'Payload too large', details: `Maximum ${MAX_BULK_BYTES} bytes per request`, request_id: requestId },
+        { status: 413 }
+      );
+    }
+
+    delivery = {
+      organizationId: organization.id,
+      requestId,
+      source,
+      webhookKeyId: keyRecord.id,
+      headers: redactHeaders(req.headers),
+      // Stored bodies get the same PII redaction as incidents
+      body: redactText(rawBody, getRedactionConfig(organization.settings), await getRedactionHashKey(organization.id)),
+      bulk: true
+    };
+
+    if (keyRecord.source && keyRecord.source.toLowerCase() !== source) {
+      return respond(
+        {
+          error: 'Webhook key not valid for this source',
+          details: `Key "${keyRecord.name}" only accepts source=${keyRecord.source}`,
+          request_id: requestId
+        },
+        { status: 403 }
+      );
+    }
+
+    // Before the rate limit, so unsigned requests cannot use up the key's quota
+    const signature = await checkRequestSignature(organization.id, source, req.headers, rawBody);
+    if (!signature.ok) {
+      return respond(
+        { error: signature.error, details: signature.details, request_id: requestId },
+        { status: signature.status }
+      );
+    }
+
+    // A bulk request counts as one request against the ingestion quota
+    const rateLimit = await consumeRateLimit(
+      organization.id,
+      'ingest',
+      getRateLimitConfig(organization.settings).ingest
+    );
+    const limitHeaders = rateLimitHeaders(rateLimit);
+
+    if (!rateLimit.allowed) {
+      // The sender may retry the same signed import once the window resets
+      if (signature.claimed) {
+        await releaseNonce(signature.claimed.organizationId, signature.claimed.nonce);
+      }
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          details: `Maximum ${rateLimit.limit} requests per ${rateLimit.window_seconds}s`,
+          request_id: requestId
+        },
+        { status: 429, headers: limitHeaders }
+      );
+    }
+
+    let records;
+    try {
+      records = parseRecords(rawBody);
+    } catch (error) {
+      return respond(
+        { error: 'Invalid JSON payload', details: (error as Error).message, request_id: requestId },
+        { status: 400, headers: limitHeaders }
+      );
+    }
+
+    if (records.length > MAX_BULK_RECORDS) {
+      return respond(
+        { error: 'Too many records', details: `Maximum ${MAX_BULK_RECORDS} records per request`, request_id: requestId },
+        { status: 400, headers: limitHeaders }
+      );
+    }
+
+    console.log(`[${requestId}] Bulk import of ${records.length} ${source} records for ${organization.name}`);
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const summary = { records: records.length, created: 0, duplicates: 0, recoveries: 0, failed: 0 };
+        // Per-alert outcomes for the delivery log, tagged with their record's line
+        const logged: Record<string, unknown>[] = [];
+
+        // Sequential, so grouping and idempotency see earlier records
+        for (const record of records) {
+          let result: Record<string, unknown>;
+
+          if (record.error) {
+            result = { line: record.line, status: 400, error: record.error };
+          } else {
+            try {
+              const { status, body } = await ingestPayload(
+                organization,
+                source,
+                record.payload,
+                `${requestId}-${record.line}`,
+                { backfill: true }
+              );
+              result = { line: record.line, status, ...body };
+            } catch (error) {
+              result = { line: record.line, status: 500, error: (error as Error).message };
+            }
+          }
+
+          const outcomes = (result.results || []) as Array<{ success: boolean; recovery?: boolean; is_duplicate?: boolean }>;
+          if ((result.status as number) >= 400) {
+            summary.failed++;
+          }
+          logged.push(...(outcomes.length > 0
+            ? outcomes.map(outcome => ({ line: record.line, ...outcome }))
+            : [{ line: record.line, success: (result.status as number) < 400, status: result.status, error: result.error }]));
+          for (const outcome of outcomes.filter(o => o.success)) {
+            if (outcome.recovery) summary.recoveries++;
+            else if (outcome.is_duplicate) summary.duplicates++;
+            else summary.created++;
+          }
+
+          controller.enqueue(encoder.encode(JSON.stringify(result) + '\n'));
+        }
+
+        controller.enqueue(encoder.encode(JSON.stringify({ summary, request_id: requestId }) + '\n'));
+        controller.close();
+
+        await recordDelivery({
+          ...delivery!,
+          statusCode: 200,
+          response: { summary, request_id: requestId, results: logged }
+        });
+      }
+    });
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        ...limitHeaders
+      }
+    });
+  } catch (error) {
+    console.error(`[${requestId}] Bulk ingestion error:`, error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+        request_id: requestId
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminClient } from '@/lib/supabase-admin';
+import { resolveWebhookKey } from '@/lib/webhook-keys';
+import { consumeRateLimit, getRateLimitConfig, rateLimitHeaders } from '@/lib/rate-limit';
+import { getKestraClient, toKestraIncidentData, triggerAnalysisWorkflow } from '@/lib/kestra';
+import { recordIncidentEvent } from '@/lib/incident-events';
+import { getNotesForPostmortem } from '@/lib/incident-notes';
+
+/**
+ * Start the analysis workflow for a stored incident, for the CLI `trigger` command
+ * Authenticated with one of the organization's webhook keys and counted
+ * against the analysis rate limit. The run is recorded like any other.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const webhookKey = req.headers.get('x-webhook-key') || req.nextUrl.searchParams.get('key');
+
+    if (!webhookKey) {
+      return NextResponse.json(
+        { error: 'Missing webhook key', details: 'Include X-Webhook-Key header or ?key= parameter' },
+        { status: 401 }
+      );
+    }
+
+    const resolved = await resolveWebhookKey(webhookKey).catch(() => null);
+
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'Invalid webhook key', details: 'Webhook key not found, revoked or expired' },
+        { status: 401 }
+      );
+    }
+
+    const { organization } = resolved;
+
+    const rateLimit = await consumeRateLimit(
+      organization.id,
+      'analyze',
+      getRateLimitConfig(organization.settings).analyze
+    );
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: `Rate limit exceeded. Please try again in ${rateLimit.reset} seconds.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    let body: { incident_id?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    if (typeof body.incident_id !== 'string' || !body.incident_id) {
+      return NextResponse.json({ error: 'incident_id is required' }, { status: 400 });
+    }
+
+    const { data: incident, error: incidentError } = await getAdminClient()
+      .from('incidents')
+      .select('*')
+      .eq('external_id', body.incident_id)
+      .eq('organization_id', organization.id)
+      .maybeSingle();
+
+    if (incidentError) {
+      throw incidentError;
+    }
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const result = await triggerAnalysisWorkflow(
+      {
+        ...toKestraIncidentData(incident),
+        responder_notes: await getNotesForPostmortem(incident.external_id, organization.id) || ''
+      },
+      { trigger: 'cli' }
+    );
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: organization.id,
+      type: result.success ? 'kestra_triggered' : 'kestra_trigger_failed',
+      title: result.success ? 'AI analysis workflow triggered' : 'AI analysis workflow failed to start',
+      details: { execution_id: result.executionId, trigger: 'cli', engine: result.engine, error: result.error }
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to trigger Kestra workflow', run_id: result.runId },
+        { status: 503, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    // Built-in runs have no Kestra execution to link to
+    const client = result.engine === 'kestra' ? await getKestraClient(organization.id) : null;
+
+    return NextResponse.json(
+      {
+        executionId: result.executionId,
+        status: result.status,
+        run_id: result.runId,
+        engine: result.engine,
+        url: client
+          ? client.uiUrl(`/executions/${client.flow.namespace}/${client.flow.flow_id}/${result.executionId}`)
+          : null
+      },
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('Error triggering workflow from the CLI:', error);
+    return NextResponse.json(
+      { error: 'Failed to trigger Kestra workflow', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
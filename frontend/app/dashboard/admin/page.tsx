@@ -14,8 +14,10 @@ import {
   CheckCircle,
   AlertCircle,
   Copy,
-  Check
+  Check,
+  Gauge
 } from 'lucide-react';
+import { OrganizationQuotas } from '@/components/OrganizationQuotas';
 
 interface Organization {
   id: string;
@@ -40,6 +42,7 @@ export default function AdminDashboardPage() {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState<{ orgName: string; inviteCode: string } | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [quotaOrgId, setQuotaOrgId] = useState<string | null>(null);
 
   useEffect(() => {
     async function checkAdminAndLoad() {
@@ -336,45 +339,61 @@ export default function AdminDashboardPage() {
               organizations.map((org) => (
                 <div
                   key={org.id}
-                  className="flex items-center justify-between p-4 rounded-lg"
+                  className="p-4 rounded-lg"
                   style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)' }}
                 >
-                  <div className="flex items-center gap-4">
-                    <div className="w-12 h-12 rounded-xl flex items-center justify-center"
-                      style={{ background: 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))' }}>
-                      <Building2 className="w-6 h-6 text-white" />
-                    </div>
-                    <div>
-                      <h3 className="font-semibold" style={{ color: 'var(--text-primary)' }}>
-                        {org.name}
-                      </h3>
-                      <p className="font-mono text-xs" style={{ color: 'var(--text-tertiary)' }}>
-                        {org.slug}
-                      </p>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                      <div className="w-12 h-12 rounded-xl flex items-center justify-center"
+                        style={{ background: 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))' }}>
+                        <Building2 className="w-6 h-6 text-white" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold" style={{ color: 'var(--text-primary)' }}>
+                          {org.name}
+                        </h3>
+                        <p className="font-mono text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                          {org.slug}
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex items-center gap-6">
-                    <div className="text-right">
+                    <div className="flex items-center gap-6">
+                      <div className="text-right">
+                        <div className="font-mono text-xs" style={{ color: 'var(--text-muted)' }}>
+                          WEBHOOK KEY
+                        </div>
+                        <button
+                          onClick={() => copyToClipboard(org.webhook_key, `webhook-${org.id}`)}
+                          className="flex items-center gap-1 font-mono text-xs"
+                          style={{ color: 'var(--text-secondary)' }}
+                        >
+                          {org.webhook_key.substring(0, 20)}...
+                          {copiedField === `webhook-${org.id}` ? (
+                            <Check className="w-3 h-3" style={{ color: 'var(--accent-emerald)' }} />
+                          ) : (
+                            <Copy className="w-3 h-3" />
+                          )}
+                        </button>
+                      </div>
                       <div className="font-mono text-xs" style={{ color: 'var(--text-muted)' }}>
-                        WEBHOOK KEY
+                        {new Date(org.created_at).toLocaleDateString()}
                       </div>
                       <button
-                        onClick={() => copyToClipboard(org.webhook_key, `webhook-${org.id}`)}
+                        onClick={() => setQuotaOrgId(quotaOrgId === org.id ? null : org.id)}
                         className="flex items-center gap-1 font-mono text-xs"
-                        style={{ color: 'var(--text-secondary)' }}
+                        style={{ color: quotaOrgId === org.id ? 'var(--accent-cyan)' : 'var(--text-secondary)' }}
+                        title="Rate limits"
                       >
-                        {org.webhook_key.substring(0, 20)}...
-                        {copiedField === `webhook-${org.id}` ? (
-                          <Check className="w-3 h-3" style={{ color: 'var(--accent-emerald)' }} />
-                        ) : (
-                          <Copy className="w-3 h-3" />
-                        )}
+                        <Gauge className="w-4 h-4" />
+                        QUOTAS
                       </button>
                     </div>
-                    <div className="font-mono text-xs" style={{ color: 'var(--text-muted)' }}>
-                      {new Date(org.created_at).toLocaleDateString()}
-                    </div>
                   </div>
+                  {quotaOrgId === org.id && (
+                    <div className="mt-4 pt-4" style={{ borderTop: '1px solid var(--glass-border)' }}>
+                      <OrganizationQuotas organizationId={org.id} />
+                    </div>
+                  )}
                 </div>
               ))
             )}
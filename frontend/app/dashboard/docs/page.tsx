@@ -20,18 +20,23 @@ import {
   Sparkles,
   Lock,
   Eye,
-  Settings
+  Settings,
+  FileJson
 } from 'lucide-react';
+import { WebhookSchemaFields } from '@/components/WebhookSchemaFields';
+import { WEBHOOK_SCHEMAS } from '@/lib/webhook-schemas';
 
-type Section = 'overview' | 'lifecycle' | 'features' | 'getting-started';
+type Section = 'overview' | 'lifecycle' | 'features' | 'payloads' | 'getting-started';
 
 export default function DocsPage() {
   const [activeSection, setActiveSection] = useState<Section>('overview');
+  const [payloadSource, setPayloadSource] = useState('generic');
 
   const sections: { id: Section; name: string; icon: React.ReactNode }[] = [
     { id: 'overview', name: 'System Overview', icon: <BookOpen className="w-4 h-4" /> },
     { id: 'lifecycle', name: 'Incident Lifecycle', icon: <Workflow className="w-4 h-4" /> },
     { id: 'features', name: 'Features', icon: <Sparkles className="w-4 h-4" /> },
+    { id: 'payloads', name: 'Webhook Payloads', icon: <FileJson className="w-4 h-4" /> },
     { id: 'getting-started', name: 'Getting Started', icon: <Zap className="w-4 h-4" /> }
   ];
 
@@ -202,7 +207,7 @@ export default function DocsPage() {
                         <h4 className="font-medium" style={{ color: 'var(--text-primary)' }}>Webhook Ingestion</h4>
                       </div>
                       <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
-                        Receive incidents from any monitoring tool via webhooks. Supports Datadog, PagerDuty, CloudWatch, Prometheus, and custom sources.
+                        Receive incidents from any monitoring tool via webhooks. Supports Datadog, PagerDuty, CloudWatch, Prometheus, Grafana, Opsgenie, Sentry, and custom sources.
                       </p>
                     </div>
                     <div className="p-4 rounded-lg" style={{ background: 'var(--bg-card)' }}>
@@ -560,6 +565,52 @@ export default function DocsPage() {
               </div>
             )}
 
+            {/* Webhook Payloads */}
+            {activeSection === 'payloads' && (
+              <div className="glass-card p-6">
+                <h2 className="text-xl font-bold mb-4" style={{ color: 'var(--text-primary)' }}>
+                  Webhook Payloads
+                </h2>
+                <p className="mb-6" style={{ color: 'var(--text-secondary)' }}>
+                  Each source&apos;s payload is validated before it is turned into an incident. Payloads that do not
+                  match are rejected with <code>400</code> and an <code>errors</code> list giving the JSON pointer,
+                  expected and actual value, and a hint for every problem.
+                </p>
+
+                <div className="flex flex-wrap gap-2 mb-6">
+                  {Object.values(WEBHOOK_SCHEMAS).map(schema => (
+                    <button
+                      key={schema.source}
+                      onClick={() => setPayloadSource(schema.source)}
+                      className="px-3 py-1.5 rounded-lg text-sm transition-all"
+                      style={{
+                        background: payloadSource === schema.source ? 'rgba(6, 182, 212, 0.2)' : 'var(--bg-card)',
+                        border: payloadSource === schema.source ? '1px solid var(--accent-cyan)' : '1px solid var(--glass-border)',
+                        color: payloadSource === schema.source ? 'var(--accent-cyan)' : 'var(--text-secondary)'
+                      }}
+                    >
+                      {schema.name}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="text-xs p-3 rounded-lg font-mono mb-4"
+                  style={{ background: 'var(--bg-card)', color: 'var(--text-muted)' }}>
+                  POST /api/webhooks/ingest?source={payloadSource}&key=YOUR_KEY
+                </div>
+
+                <WebhookSchemaFields schema={WEBHOOK_SCHEMAS[payloadSource]} />
+
+                <h3 className="text-sm font-medium mt-6 mb-3" style={{ color: 'var(--text-secondary)' }}>
+                  Example
+                </h3>
+                <pre className="p-4 rounded-lg overflow-x-auto text-xs"
+                  style={{ background: 'var(--bg-card)', color: 'var(--text-primary)' }}>
+                  {JSON.stringify(WEBHOOK_SCHEMAS[payloadSource].example, null, 2)}
+                </pre>
+              </div>
+            )}
+
             {/* Getting Started */}
             {activeSection === 'getting-started' && (
               <div className="glass-card p-6">
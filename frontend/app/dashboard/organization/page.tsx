@@ -4,6 +4,10 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import Link from 'next/link';
+import { RedactionSettings } from '@/components/RedactionSettings';
+import { RoutingPolicySettings } from '@/components/RoutingPolicySettings';
+import { AnalysisEngineSettings } from '@/components/AnalysisEngineSettings';
+import { KestraFlowSettings } from '@/components/KestraFlowSettings';
 import {
   ArrowLeft,
   Users,
@@ -45,6 +49,23 @@ interface Organization {
   webhook_key: string;
 }
 
+interface AlertGroupingSettings {
+  enabled: boolean;
+  window_minutes: number;
+  fingerprint_labels: string[];
+}
+
+interface SigningSecret {
+  source: string;
+  hint: string;
+  created_at: string;
+}
+
+interface AutoResolveSettings {
+  enabled: boolean;
+  require_confirmation: boolean;
+}
+
 export default function OrganizationSettingsPage() {
   const router = useRouter();
   const supabase = createClient();
@@ -57,6 +78,19 @@ export default function OrganizationSettingsPage() {
   const [newCodeMaxUses, setNewCodeMaxUses] = useState<number | ''>('');
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [error, setError] = useState('');
+  const [grouping, setGrouping] = useState<AlertGroupingSettings | null>(null);
+  const [groupingLabels, setGroupingLabels] = useState('');
+  const [savingGrouping, setSavingGrouping] = useState(false);
+  const [groupingMessage, setGroupingMessage] = useState('');
+  const [autoResolve, setAutoResolve] = useState<AutoResolveSettings | null>(null);
+  const [savingAutoResolve, setSavingAutoResolve] = useState(false);
+  const [autoResolveMessage, setAutoResolveMessage] = useState('');
+  const [signingSecrets, setSigningSecrets] = useState<SigningSecret[]>([]);
+  const [secretSource, setSecretSource] = useState('*');
+  const [secretValue, setSecretValue] = useState('');
+  const [revealedSecret, setRevealedSecret] = useState<{ source: string; secret: string } | null>(null);
+  const [savingSecret, setSavingSecret] = useState(false);
+  const [secretMessage, setSecretMessage] = useState('');
 
   useEffect(() => {
     async function loadData() {
@@ -116,6 +150,22 @@ export default function OrganizationSettingsPage() {
         if (codes) {
           setInviteCodes(codes);
         }
+
+        // Load alert grouping and auto-resolve settings
+        const settingsResponse = await fetch('/api/organizations/settings');
+        if (settingsResponse.ok) {
+          const settings = await settingsResponse.json();
+          setGrouping(settings.alert_grouping);
+          setGroupingLabels(settings.alert_grouping.fingerprint_labels.join(', '));
+          setAutoResolve(settings.auto_resolve);
+        }
+
+        // Load webhook signing secrets
+        const secretsResponse = await fetch('/api/organizations/signing-secrets');
+        if (secretsResponse.ok) {
+          const { secrets } = await secretsResponse.json();
+          setSigningSecrets(secrets);
+        }
       }
 
       setLoading(false);
@@ -166,6 +216,119 @@ export default function OrganizationSettingsPage() {
     }
   }
 
+  async function saveGrouping() {
+    if (!grouping) return;
+
+    setSavingGrouping(true);
+    setGroupingMessage('');
+
+    try {
+      const response = await fetch('/api/organizations/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          alert_grouping: {
+            enabled: grouping.enabled,
+            window_minutes: grouping.window_minutes,
+            fingerprint_labels: groupingLabels.split(',').map(l => l.trim()).filter(Boolean)
+          }
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setGroupingMessage(data.error || 'Failed to save alert grouping');
+        return;
+      }
+
+      setGrouping(data.alert_grouping);
+      setGroupingLabels(data.alert_grouping.fingerprint_labels.join(', '));
+      setGroupingMessage('Saved');
+    } catch (err) {
+      setGroupingMessage((err as Error).message);
+    } finally {
+      setSavingGrouping(false);
+    }
+  }
+
+  async function saveAutoResolve() {
+    if (!autoResolve) return;
+
+    setSavingAutoResolve(true);
+    setAutoResolveMessage('');
+
+    try {
+      const response = await fetch('/api/organizations/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auto_resolve: autoResolve })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setAutoResolveMessage(data.error || 'Failed to save recovery settings');
+        return;
+      }
+
+      setAutoResolve(data.auto_resolve);
+      setAutoResolveMessage('Saved');
+    } catch (err) {
+      setAutoResolveMessage((err as Error).message);
+    } finally {
+      setSavingAutoResolve(false);
+    }
+  }
+
+  async function saveSigningSecret() {
+    setSavingSecret(true);
+    setSecretMessage('');
+    setRevealedSecret(null);
+
+    try {
+      const response = await fetch('/api/organizations/signing-secrets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source: secretSource.trim() || '*',
+          secret: secretValue || undefined
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSecretMessage(data.error || 'Failed to save signing secret');
+        return;
+      }
+
+      setSigningSecrets(prev => [
+        ...prev.filter(s => s.source !== data.source),
+        { source: data.source, hint: `…${data.secret.slice(-4)}`, created_at: data.created_at }
+      ].sort((a, b) => a.source.localeCompare(b.source)));
+      // Only show secrets we generated; pasted ones are already known to the sender
+      if (!secretValue) {
+        setRevealedSecret({ source: data.source, secret: data.secret });
+      }
+      setSecretValue('');
+      setSecretMessage('Saved');
+    } catch (err) {
+      setSecretMessage((err as Error).message);
+    } finally {
+      setSavingSecret(false);
+    }
+  }
+
+  async function deleteSigningSecret(source: string) {
+    if (!confirm(`Remove the signing secret for ${source === '*' ? 'all sources' : source}? Unsigned webhooks will be accepted again.`)) return;
+
+    const response = await fetch(`/api/organizations/signing-secrets?source=${encodeURIComponent(source)}`, { method: 'DELETE' });
+    if (response.ok) {
+      setSigningSecrets(prev => prev.filter(s => s.source !== source));
+    }
+  }
+
   async function deactivateCode(codeId: string) {
     const { error } = await supabase
       .from('invite_codes')
@@ -272,6 +435,255 @@ export default function OrganizationSettingsPage() {
           </div>
         </div>
 
+        {/* Webhook Signing */}
+        <div className="glass-card p-6">
+          <h2 className="text-xl font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
+            Webhook Signing
+          </h2>
+          <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+            When a signing secret applies to a source, webhooks must carry a valid HMAC-SHA256 signature
+            (<code className="font-mono">X-Signature</code> with <code className="font-mono">X-Signature-Timestamp</code>,
+            or the Sentry, PagerDuty and Grafana native headers). Timestamps older than 5 minutes and replayed
+            signatures are rejected. Paste the secret issued by Sentry or PagerDuty; leave it blank to generate one.
+          </p>
+
+          {signingSecrets.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {signingSecrets.map(s => (
+                <div key={s.source} className="flex items-center justify-between p-3 rounded-lg" style={{ background: 'var(--bg-card)' }}>
+                  <div className="flex items-center gap-4">
+                    <code className="font-mono text-sm" style={{ color: 'var(--accent-magenta)' }}>
+                      {s.source === '*' ? 'all sources' : s.source}
+                    </code>
+                    <span className="font-mono text-xs" style={{ color: 'var(--text-muted)' }}>{s.hint}</span>
+                    <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                      {new Date(s.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => deleteSigningSecret(s.source)}
+                    className="p-2 rounded-lg hover:opacity-80"
+                    style={{ background: 'rgba(239, 68, 68, 0.1)' }}
+                  >
+                    <Trash2 className="w-4 h-4" style={{ color: 'var(--status-critical)' }} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>
+                Source (* for all)
+              </label>
+              <input
+                type="text"
+                value={secretSource}
+                onChange={(e) => setSecretSource(e.target.value)}
+                placeholder="*"
+                className="px-4 py-2 rounded-lg w-40 font-mono text-sm"
+                style={{
+                  background: 'var(--bg-card)',
+                  border: '1px solid var(--glass-border)',
+                  color: 'var(--text-primary)'
+                }}
+              />
+            </div>
+            <div className="flex-1 min-w-64">
+              <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>
+                Secret (optional)
+              </label>
+              <input
+                type="password"
+                value={secretValue}
+                onChange={(e) => setSecretValue(e.target.value)}
+                placeholder="Generate a new secret"
+                className="px-4 py-2 rounded-lg w-full font-mono text-sm"
+                style={{
+                  background: 'var(--bg-card)',
+                  border: '1px solid var(--glass-border)',
+                  color: 'var(--text-primary)'
+                }}
+              />
+            </div>
+            <button
+              onClick={saveSigningSecret}
+              disabled={savingSecret}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium"
+              style={{
+                background: savingSecret ? 'var(--bg-card)' : 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))',
+                color: savingSecret ? 'var(--text-muted)' : 'white'
+              }}
+            >
+              {savingSecret && <Loader2 className="w-5 h-5 animate-spin" />}
+              Save
+            </button>
+          </div>
+
+          {revealedSecret && (
+            <div className="flex items-center gap-3 p-4 rounded-lg mt-4" style={{ background: 'rgba(245, 158, 11, 0.1)', border: '1px solid rgba(245, 158, 11, 0.3)' }}>
+              <code className="flex-1 font-mono text-xs break-all" style={{ color: 'var(--text-primary)' }}>
+                {revealedSecret.secret}
+              </code>
+              <button
+                onClick={() => copyToClipboard(revealedSecret.secret, 'secret')}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg"
+                style={{ background: 'var(--bg-primary)' }}
+              >
+                {copiedField === 'secret' ? (
+                  <Check className="w-4 h-4" style={{ color: 'var(--accent-emerald)' }} />
+                ) : (
+                  <Copy className="w-4 h-4" style={{ color: 'var(--text-secondary)' }} />
+                )}
+              </button>
+            </div>
+          )}
+          {revealedSecret && (
+            <p className="text-xs mt-2" style={{ color: 'var(--accent-amber)' }}>
+              Copy this secret now - it will not be shown again.
+            </p>
+          )}
+          {secretMessage && (
+            <p className="text-sm mt-3 font-mono" style={{ color: secretMessage === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+              {secretMessage}
+            </p>
+          )}
+        </div>
+
+        {/* Alert Grouping */}
+        {grouping && (
+          <div className="glass-card p-6">
+            <h2 className="text-xl font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
+              Alert Grouping
+            </h2>
+            <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+              Repeated alerts with the same source, service and fingerprint labels are added to the open incident
+              as occurrences instead of opening a new incident and starting another AI analysis.
+            </p>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-secondary)' }}>
+                <input
+                  type="checkbox"
+                  checked={grouping.enabled}
+                  onChange={(e) => setGrouping({ ...grouping, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              <div>
+                <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>
+                  Window (minutes)
+                </label>
+                <input
+                  type="number"
+                  value={grouping.window_minutes}
+                  onChange={(e) => setGrouping({ ...grouping, window_minutes: parseInt(e.target.value) || 1 })}
+                  min="1"
+                  className="px-4 py-2 rounded-lg w-32"
+                  style={{
+                    background: 'var(--bg-card)',
+                    border: '1px solid var(--glass-border)',
+                    color: 'var(--text-primary)'
+                  }}
+                />
+              </div>
+              <div className="flex-1 min-w-64">
+                <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>
+                  Fingerprint labels (comma separated)
+                </label>
+                <input
+                  type="text"
+                  value={groupingLabels}
+                  onChange={(e) => setGroupingLabels(e.target.value)}
+                  placeholder="alertname, instance"
+                  className="px-4 py-2 rounded-lg w-full font-mono text-sm"
+                  style={{
+                    background: 'var(--bg-card)',
+                    border: '1px solid var(--glass-border)',
+                    color: 'var(--text-primary)'
+                  }}
+                />
+              </div>
+              <button
+                onClick={saveGrouping}
+                disabled={savingGrouping}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium"
+                style={{
+                  background: savingGrouping ? 'var(--bg-card)' : 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))',
+                  color: savingGrouping ? 'var(--text-muted)' : 'white'
+                }}
+              >
+                {savingGrouping && <Loader2 className="w-5 h-5 animate-spin" />}
+                Save
+              </button>
+            </div>
+            {groupingMessage && (
+              <p className="text-sm mt-3 font-mono" style={{ color: groupingMessage === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+                {groupingMessage}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Recovery Notifications */}
+        {autoResolve && (
+          <div className="glass-card p-6">
+            <h2 className="text-xl font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
+              Recovery Notifications
+            </h2>
+            <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+              When a monitoring tool reports that an alert has recovered, the matching open incident is resolved
+              automatically. Require confirmation to only flag the incident as recovered and let a responder resolve it.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-secondary)' }}>
+                <input
+                  type="checkbox"
+                  checked={autoResolve.enabled}
+                  onChange={(e) => setAutoResolve({ ...autoResolve, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-secondary)' }}>
+                <input
+                  type="checkbox"
+                  checked={autoResolve.require_confirmation}
+                  disabled={!autoResolve.enabled}
+                  onChange={(e) => setAutoResolve({ ...autoResolve, require_confirmation: e.target.checked })}
+                />
+                Require confirmation
+              </label>
+              <button
+                onClick={saveAutoResolve}
+                disabled={savingAutoResolve}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium"
+                style={{
+                  background: savingAutoResolve ? 'var(--bg-card)' : 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))',
+                  color: savingAutoResolve ? 'var(--text-muted)' : 'white'
+                }}
+              >
+                {savingAutoResolve && <Loader2 className="w-5 h-5 animate-spin" />}
+                Save
+              </button>
+            </div>
+            {autoResolveMessage && (
+              <p className="text-sm mt-3 font-mono" style={{ color: autoResolveMessage === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+                {autoResolveMessage}
+              </p>
+            )}
+          </div>
+        )}
+
+        <RoutingPolicySettings />
+
+        <RedactionSettings />
+
+        <AnalysisEngineSettings />
+
+        <KestraFlowSettings />
+
         {/* Generate Invite Code */}
         <div className="glass-card p-6">
           <h2 className="text-xl font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
@@ -6,6 +6,7 @@ import { Incident } from '@/types/incident';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { UserMenu } from '@/components/UserMenu';
 import { getIncidents } from '@/lib/api';
+import { getAssigneeLabel } from '@/lib/incident-assignments';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import Link from 'next/link';
@@ -25,9 +26,12 @@ import {
   BookOpen,
   Webhook,
   HelpCircle,
-  ChevronDown
+  ChevronDown,
+  Crown,
+  UserCheck
 } from 'lucide-react';
 import { QuickStartGuide } from '@/components/QuickStartGuide';
+import { IncidentStatusControls } from '@/components/IncidentStatusControls';
 
 interface UserInfo {
   email: string;
@@ -46,6 +50,7 @@ export default function DashboardPage() {
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<'all' | 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW'>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [assignedToMe, setAssignedToMe] = useState(false);
   const [user, setUser] = useState<UserInfo | null>(null);
   const [authChecked, setAuthChecked] = useState(false);
   const [showDocsMenu, setShowDocsMenu] = useState(false);
@@ -141,7 +146,7 @@ export default function DashboardPage() {
 
     async function loadIncidents() {
       try {
-        const data = await getIncidents();
+        const data = await getIncidents(assignedToMe ? { assigned: 'me' } : {});
         setIncidents(data);
       } catch (err: any) {
         // Handle 401 - redirect to login
@@ -160,7 +165,7 @@ export default function DashboardPage() {
     // Auto-refresh every 30 seconds
     const interval = setInterval(loadIncidents, 30000);
     return () => clearInterval(interval);
-  }, [authChecked, router]);
+  }, [authChecked, router, assignedToMe]);
 
   if (loading) {
     return (
@@ -218,6 +223,14 @@ export default function DashboardPage() {
       );
     });
 
+  const canTransition = user?.isPlatformAdmin || (!!user?.role && user.role !== 'viewer');
+
+  const commanderOf = (incident: Incident) => incident.assignees?.find(a => a.role === 'commander');
+
+  const handleTransition = (updated: Partial<Incident> & { id: string }) => {
+    setIncidents(prev => prev.map(inc => inc.id === updated.id ? { ...inc, ...updated } : inc));
+  };
+
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
@@ -499,6 +512,19 @@ export default function DashboardPage() {
               </span>
             </button>
           ))}
+          <button
+            onClick={() => setAssignedToMe(!assignedToMe)}
+            className="ml-auto px-4 py-2 rounded font-mono text-xs tracking-wider transition-all whitespace-nowrap flex items-center gap-2"
+            style={{
+              background: assignedToMe ? 'var(--accent-cyan)' : 'var(--bg-card)',
+              color: assignedToMe ? 'var(--bg-primary)' : 'var(--text-secondary)',
+              border: `1px solid ${assignedToMe ? 'var(--accent-cyan)' : 'var(--glass-border)'}`,
+              fontWeight: assignedToMe ? 700 : 500
+            }}
+          >
+            <UserCheck className="w-3 h-3" />
+            ASSIGNED TO ME
+          </button>
         </div>
 
         {/* Incidents List */}
@@ -534,6 +560,28 @@ export default function DashboardPage() {
                       <span className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>
                         {formatTimestamp(incident.timestamp)}
                       </span>
+                      {(incident.occurrence_count || 1) > 1 && (
+                        <span className="font-mono text-xs px-2 py-0.5 rounded" title="Repeated alerts grouped into this incident" style={{
+                          background: 'rgba(245, 158, 11, 0.1)',
+                          color: 'var(--accent-amber)'
+                        }}>
+                          ×{incident.occurrence_count}
+                        </span>
+                      )}
+                      {incident.recovered_at && (incident.status === 'open' || incident.status === 'investigating') && (
+                        <span className="font-mono text-xs px-2 py-0.5 rounded" title="Recovery reported, awaiting confirmation" style={{
+                          background: 'rgba(16, 185, 129, 0.1)',
+                          color: 'var(--accent-emerald)'
+                        }}>
+                          RECOVERED
+                        </span>
+                      )}
+                      {commanderOf(incident) && (
+                        <span className="font-mono text-xs flex items-center gap-1" style={{color: 'var(--accent-amber)'}}>
+                          <Crown className="w-3 h-3" />
+                          {getAssigneeLabel(commanderOf(incident)!)}
+                        </span>
+                      )}
                     </div>
 
                     <h3 className="text-lg font-semibold mb-2 group-hover:glow-text-cyan transition-all" style={{
@@ -567,6 +615,9 @@ export default function DashboardPage() {
                   </div>
 
                   <div className="flex items-center gap-2">
+                    {canTransition && (
+                      <IncidentStatusControls incident={incident} onTransition={handleTransition} compact />
+                    )}
                     <span className={`status-badge ${
                       incident.status === 'resolved' ? 'status-resolved' : 'status-low'
                     }`} style={{fontSize: '0.625rem'}}>
@@ -15,40 +15,36 @@ import {
   Loader2,
   AlertCircle,
   Key,
-  Shield
+  Shield,
+  RotateCcw
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
+import { WebhookSources } from '@/components/WebhookSources';
+import { WebhookKeys } from '@/components/WebhookKeys';
+import { WebhookDeliveries } from '@/components/WebhookDeliveries';
+import { OutboxEntries } from '@/components/OutboxEntries';
+import { WebhookSchemaFields } from '@/components/WebhookSchemaFields';
+import { ValidationIssue, WEBHOOK_SCHEMAS, validatePayload } from '@/lib/webhook-schemas';
 
-type SourceType = 'datadog' | 'pagerduty' | 'cloudwatch' | 'prometheus' | 'generic';
+type SourceType = 'datadog' | 'pagerduty' | 'cloudwatch' | 'prometheus' | 'grafana' | 'opsgenie' | 'sentry' | 'generic';
 
+// Names and example payloads come from the payload schemas
 const SOURCE_CONFIGS: Record<SourceType, {
-  name: string;
   color: string;
   setupSteps: string[];
-  examplePayload: object;
 }> = {
   datadog: {
-    name: 'Datadog',
     color: '#632CA6',
     setupSteps: [
       'Go to your Datadog dashboard',
       'Navigate to Integrations → Webhooks',
       'Click "New Webhook"',
       'Set the URL to the webhook endpoint shown above',
-      'Configure the payload template (optional)',
+      'Set the payload template; id, title and date are required (see Payload Fields below)',
       'Save and test the webhook'
-    ],
-    examplePayload: {
-      title: 'High CPU Usage Alert',
-      body: 'CPU usage exceeded 90% on prod-server-1',
-      priority: 'P2',
-      tags: ['service:api', 'env:production'],
-      alert_type: 'error',
-      host: 'prod-server-1'
-    }
+    ]
   },
   pagerduty: {
-    name: 'PagerDuty',
     color: '#06AC38',
     setupSteps: [
       'Go to your PagerDuty dashboard',
@@ -57,26 +53,9 @@ const SOURCE_CONFIGS: Record<SourceType, {
       'Add a new "Generic Webhook" integration',
       'Set the URL to the webhook endpoint shown above',
       'Configure event rules as needed'
-    ],
-    examplePayload: {
-      event: {
-        routing_key: 'your-routing-key',
-        event_action: 'trigger',
-        payload: {
-          summary: 'Database connection failure',
-          severity: 'critical',
-          source: 'db-primary',
-          component: 'database',
-          custom_details: {
-            error_count: 150,
-            affected_users: 1200
-          }
-        }
-      }
-    }
+    ]
   },
   cloudwatch: {
-    name: 'CloudWatch',
     color: '#FF9900',
     setupSteps: [
       'Create an SNS topic in AWS Console',
@@ -84,23 +63,9 @@ const SOURCE_CONFIGS: Record<SourceType, {
       'Subscribe the Lambda to your SNS topic',
       'Create CloudWatch alarms that publish to the SNS topic',
       'The Lambda should POST to the webhook endpoint with the alarm data'
-    ],
-    examplePayload: {
-      AlarmName: 'High-Error-Rate-API',
-      AlarmDescription: 'Error rate exceeded 5% threshold',
-      NewStateValue: 'ALARM',
-      StateChangeTime: '2024-01-15T10:30:00.000Z',
-      Region: 'us-east-1',
-      Trigger: {
-        MetricName: 'ErrorRate',
-        Namespace: 'AWS/ApplicationELB',
-        Threshold: 5.0,
-        EvaluationPeriods: 1
-      }
-    }
+    ]
   },
   prometheus: {
-    name: 'Prometheus Alertmanager',
     color: '#E6522C',
     setupSteps: [
       'Edit your alertmanager.yml configuration',
@@ -108,50 +73,49 @@ const SOURCE_CONFIGS: Record<SourceType, {
       'Configure routes to send alerts to the new receiver',
       'Reload Alertmanager configuration',
       'Test with a sample alert'
-    ],
-    examplePayload: {
-      status: 'firing',
-      alerts: [
-        {
-          status: 'firing',
-          labels: {
-            alertname: 'HighMemoryUsage',
-            severity: 'warning',
-            instance: 'prod-api-1:9090'
-          },
-          annotations: {
-            summary: 'High memory usage detected',
-            description: 'Memory usage is above 85%'
-          },
-          startsAt: '2024-01-15T10:30:00.000Z'
-        }
-      ]
-    }
+    ]
+  },
+  grafana: {
+    color: '#F46800',
+    setupSteps: [
+      'In Grafana, go to Alerting → Contact points',
+      'Click "Add contact point" and choose the Webhook integration',
+      'Set the URL to the webhook endpoint shown above',
+      'Leave the HTTP method as POST and save the contact point',
+      'Route alerts to it from a notification policy',
+      'Add a "severity" label to alert rules to control incident severity'
+    ]
+  },
+  opsgenie: {
+    color: '#2684FF',
+    setupSteps: [
+      'Go to Settings → Integrations in Opsgenie',
+      'Add a new "Webhook" integration',
+      'Set the Webhook URL to the endpoint shown above',
+      'Enable "Add Alert Description to Payload" and "Add Alert Details to Payload"',
+      'Select the Create and Close actions under alert actions',
+      'Save the integration'
+    ]
+  },
+  sentry: {
+    color: '#362D59',
+    setupSteps: [
+      'In Sentry, go to Settings → Developer Settings',
+      'Create an internal integration with the webhook endpoint shown above',
+      'Enable the "Alert Rule Action" option, and the "issue" webhook to auto-resolve',
+      'Open Alerts → Create Alert → Issues for your project',
+      'Add the action "Send a notification via" your internal integration',
+      'Save the alert rule'
+    ]
   },
   generic: {
-    name: 'Generic / Custom',
     color: '#6B7280',
     setupSteps: [
       'Use any HTTP client (curl, Postman, your application)',
       'Send a POST request to the webhook endpoint',
       'Include the JSON payload in the request body',
       'Set Content-Type header to application/json'
-    ],
-    examplePayload: {
-      title: 'Custom Alert',
-      description: 'A custom incident from your monitoring system',
-      severity: 'HIGH',
-      service: 'my-service',
-      logs: ['Error: Connection timeout', 'Retrying...'],
-      metrics: {
-        error_rate: 0.15,
-        latency_ms: 500
-      },
-      context: {
-        host: 'server-1',
-        region: 'us-east-1'
-      }
-    }
+    ]
   }
 };
 
@@ -163,6 +127,8 @@ export default function WebhooksPage() {
   const [expandedGuide, setExpandedGuide] = useState<SourceType | null>('generic');
   const [testing, setTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [testPayload, setTestPayload] = useState(() => JSON.stringify(WEBHOOK_SCHEMAS.generic.example, null, 2));
+  const [testIssues, setTestIssues] = useState<ValidationIssue[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -207,14 +173,49 @@ export default function WebhooksPage() {
   const webhookEndpoint = `${baseUrl}/api/webhooks/ingest`;
   const fullUrl = webhookKey ? `${webhookEndpoint}?source=${selectedSource}&key=${webhookKey}` : '';
 
+  function selectSource(source: SourceType) {
+    setSelectedSource(source);
+    setExpandedGuide(source);
+    setTestPayload(JSON.stringify(WEBHOOK_SCHEMAS[source].example, null, 2));
+    setTestIssues([]);
+    setTestResult(null);
+  }
+
+  // Check the test payload against the source schema, as the ingest endpoint will
+  function validateTestPayload(): unknown | null {
+    setTestResult(null);
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(testPayload);
+    } catch (error) {
+      setTestIssues([]);
+      setTestResult({ success: false, message: `Invalid JSON: ${(error as Error).message}` });
+      return null;
+    }
+
+    const issues = validatePayload(WEBHOOK_SCHEMAS[selectedSource], payload);
+    setTestIssues(issues);
+    if (issues.length > 0) {
+      setTestResult({
+        success: false,
+        message: `${issues.length} schema error${issues.length === 1 ? '' : 's'}; fix before sending`
+      });
+      return null;
+    }
+
+    return payload;
+  }
+
   async function testWebhook() {
     if (!webhookKey) return;
+
+    const payload = validateTestPayload();
+    if (payload === null) return;
     
     setTesting(true);
-    setTestResult(null);
     
     try {
-      const payload = SOURCE_CONFIGS[selectedSource].examplePayload;
       const response = await fetch(
         `${webhookEndpoint}?source=${selectedSource}&key=${webhookKey}`,
         {
@@ -229,12 +230,17 @@ export default function WebhooksPage() {
       if (response.ok) {
         setTestResult({
           success: true,
-          message: `Incident created successfully! ID: ${data.incidentId}`
+          message: data.recovery
+            ? `Recovery processed (${data.outcome})`
+            : data.is_duplicate
+              ? `Matched existing incident ${data.incident_id}`
+              : `Incident created successfully! ID: ${data.incident_id}`
         });
       } else {
+        setTestIssues(data.errors || []);
         setTestResult({
           success: false,
-          message: data.error || 'Failed to create incident'
+          message: data.details || data.error || 'Failed to create incident'
         });
       }
     } catch (error: any) {
@@ -338,6 +344,8 @@ export default function WebhooksPage() {
               </div>
             </div>
 
+            <WebhookKeys onPrimaryKeyChange={setWebhookKey} />
+
             {/* Endpoint Section */}
             <div className="glass-card p-6 mb-8">
               <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
@@ -374,7 +382,7 @@ export default function WebhooksPage() {
                     <div className="p-4 rounded-lg" style={{ background: 'var(--bg-card)' }}>
                       <code className="text-sm" style={{ color: 'var(--accent-magenta)' }}>source</code>
                       <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
-                        One of: datadog, pagerduty, cloudwatch, prometheus, generic
+                        One of: datadog, pagerduty, cloudwatch, prometheus, grafana, opsgenie, sentry, generic, or a custom source name
                       </p>
                     </div>
                     <div className="p-4 rounded-lg" style={{ background: 'var(--bg-card)' }}>
@@ -405,14 +413,11 @@ export default function WebhooksPage() {
               <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
                 Choose Your Monitoring Tool
               </h2>
-              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                 {(Object.keys(SOURCE_CONFIGS) as SourceType[]).map(source => (
                   <button
                     key={source}
-                    onClick={() => {
-                      setSelectedSource(source);
-                      setExpandedGuide(source);
-                    }}
+                    onClick={() => selectSource(source)}
                     className="p-4 rounded-lg text-center transition-all"
                     style={{
                       background: selectedSource === source ? 'rgba(6, 182, 212, 0.2)' : 'var(--bg-card)',
@@ -424,7 +429,7 @@ export default function WebhooksPage() {
                       style={{ background: SOURCE_CONFIGS[source].color }}
                     />
                     <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
-                      {SOURCE_CONFIGS[source].name}
+                      {WEBHOOK_SCHEMAS[source].name}
                     </span>
                   </button>
                 ))}
@@ -434,7 +439,7 @@ export default function WebhooksPage() {
             {/* Setup Guide */}
             <div className="glass-card p-6 mb-8">
               <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
-                Setup Guide: {SOURCE_CONFIGS[selectedSource].name}
+                Setup Guide: {WEBHOOK_SCHEMAS[selectedSource].name}
               </h2>
               
               {/* Full URL */}
@@ -485,28 +490,64 @@ export default function WebhooksPage() {
                 </ol>
               </div>
 
-              {/* Example Payload */}
+              {/* Payload Fields */}
+              <div className="mb-6">
+                <h3 className="text-sm font-medium mb-3" style={{ color: 'var(--text-secondary)' }}>
+                  Payload Fields
+                </h3>
+                <WebhookSchemaFields schema={WEBHOOK_SCHEMAS[selectedSource]} />
+              </div>
+
+              {/* Test Payload */}
               <div className="mb-6">
                 <div className="flex items-center justify-between mb-3">
                   <h3 className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>
-                    Example Payload
+                    Test Payload
                   </h3>
-                  <button
-                    onClick={() => copyToClipboard(
-                      JSON.stringify(SOURCE_CONFIGS[selectedSource].examplePayload, null, 2),
-                      'payload'
-                    )}
-                    className="flex items-center gap-2 text-xs px-3 py-1 rounded transition-all"
-                    style={{ background: 'var(--bg-card)', color: 'var(--text-muted)' }}
-                  >
-                    {copiedField === 'payload' ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
-                    Copy
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => selectSource(selectedSource)}
+                      className="flex items-center gap-2 text-xs px-3 py-1 rounded transition-all"
+                      style={{ background: 'var(--bg-card)', color: 'var(--text-muted)' }}
+                      title="Reset to the example payload"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Reset
+                    </button>
+                    <button
+                      onClick={() => copyToClipboard(testPayload, 'payload')}
+                      className="flex items-center gap-2 text-xs px-3 py-1 rounded transition-all"
+                      style={{ background: 'var(--bg-card)', color: 'var(--text-muted)' }}
+                    >
+                      {copiedField === 'payload' ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                      Copy
+                    </button>
+                  </div>
                 </div>
-                <pre className="p-4 rounded-lg overflow-x-auto text-xs"
-                  style={{ background: 'var(--bg-card)', color: 'var(--text-primary)' }}>
-                  {JSON.stringify(SOURCE_CONFIGS[selectedSource].examplePayload, null, 2)}
-                </pre>
+                <textarea
+                  value={testPayload}
+                  onChange={(e) => setTestPayload(e.target.value)}
+                  rows={14}
+                  spellCheck={false}
+                  className="w-full p-4 rounded-lg font-mono text-xs"
+                  style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-primary)' }}
+                />
+                {testIssues.length > 0 && (
+                  <ul className="mt-3 space-y-2">
+                    {testIssues.map((issue, index) => (
+                      <li key={index} className="p-3 rounded-lg text-xs"
+                        style={{ background: 'rgba(239, 68, 68, 0.1)', border: '1px solid rgba(239, 68, 68, 0.3)' }}>
+                        <code style={{ color: 'var(--status-critical)' }}>{issue.pointer || '/'}</code>
+                        <span className="ml-2" style={{ color: 'var(--text-primary)' }}>
+                          expected {issue.expected}, got {issue.actual}
+                        </span>
+                        {issue.hint && (
+                          <p className="mt-1" style={{ color: 'var(--text-muted)' }}>{issue.hint}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
 
               {/* Curl Example */}
@@ -519,11 +560,11 @@ export default function WebhooksPage() {
                     style={{ background: 'var(--bg-card)', color: 'var(--accent-emerald)' }}>
 {`curl -X POST "${fullUrl || '<YOUR_WEBHOOK_URL>'}" \\
   -H "Content-Type: application/json" \\
-  -d '${JSON.stringify(SOURCE_CONFIGS[selectedSource].examplePayload)}'`}
+  -d '${JSON.stringify(WEBHOOK_SCHEMAS[selectedSource].example)}'`}
                   </pre>
                   <button
                     onClick={() => copyToClipboard(
-                      `curl -X POST "${fullUrl}" -H "Content-Type: application/json" -d '${JSON.stringify(SOURCE_CONFIGS[selectedSource].examplePayload)}'`,
+                      `curl -X POST "${fullUrl}" -H "Content-Type: application/json" -d '${JSON.stringify(WEBHOOK_SCHEMAS[selectedSource].example)}'`,
                       'curl'
                     )}
                     className="absolute top-2 right-2 p-2 rounded transition-all"
@@ -536,6 +577,14 @@ export default function WebhooksPage() {
 
               {/* Test Button */}
               <div className="flex items-center gap-4">
+                <button
+                  onClick={validateTestPayload}
+                  className="flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all"
+                  style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-primary)' }}
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Validate
+                </button>
                 <button
                   onClick={testWebhook}
                   disabled={testing || !webhookKey}
@@ -574,6 +623,13 @@ export default function WebhooksPage() {
               </div>
             </div>
 
+            {/* Custom Sources */}
+            <WebhookSources webhookEndpoint={webhookEndpoint} webhookKey={webhookKey} />
+
+            <WebhookDeliveries />
+
+            <OutboxEntries />
+
             {/* Troubleshooting */}
             <div className="glass-card p-6">
               <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
@@ -601,7 +657,7 @@ export default function WebhooksPage() {
                     400 Bad Request
                   </h3>
                   <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
-                    The request body is malformed. Ensure you&apos;re sending valid JSON with the Content-Type header set to <code className="px-1 rounded" style={{ background: 'var(--bg-primary)' }}>application/json</code>.
+                    The request body is malformed or does not match the source&apos;s schema. The response lists each problem under <code className="px-1 rounded" style={{ background: 'var(--bg-primary)' }}>errors</code> with a JSON pointer, the expected and actual value, and a hint. Paste the payload into the test console above to check it before sending.
                   </p>
                 </div>
                 <div className="p-4 rounded-lg" style={{ background: 'var(--bg-card)' }}>
@@ -14,7 +14,6 @@ import {
   Clock,
   Activity,
   Zap,
-  Terminal,
   TrendingUp,
   ArrowUpRight,
   Sparkles,
@@ -22,9 +21,17 @@ import {
   Code,
   FileText,
   AlertTriangle,
-  Play
+  HeartPulse,
+  Play,
+  EyeOff
 } from 'lucide-react';
 import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { IncidentStatusControls } from '@/components/IncidentStatusControls';
+import { IncidentTimeline } from '@/components/IncidentTimeline';
+import { IncidentAssignees } from '@/components/IncidentAssignees';
+import { IncidentNotes } from '@/components/IncidentNotes';
+import { IncidentLogViewer } from '@/components/IncidentLogViewer';
+import { WorkflowRuns } from '@/components/WorkflowRuns';
 
 export default function IncidentDetailPage() {
   const params = useParams();
@@ -35,10 +42,12 @@ export default function IncidentDetailPage() {
   const [incident, setIncident] = useState<Incident | null>(null);
   const [loading, setLoading] = useState(true);
   const [authChecked, setAuthChecked] = useState(false);
+  const [canTransition, setCanTransition] = useState(false);
+  const [currentUser, setCurrentUser] = useState<{ id: string; role: string; isPlatformAdmin: boolean } | null>(null);
+  const [timelineVersion, setTimelineVersion] = useState(0);
+  const [runsVersion, setRunsVersion] = useState(0);
   const [triggeringKestra, setTriggeringKestra] = useState(false);
-  const [kestraExecutionId, setKestraExecutionId] = useState<string | null>(null);
   const [kestraStatus, setKestraStatus] = useState<any>(null);
-  const [pollingExecution, setPollingExecution] = useState(false);
 
   // Check authentication first
   useEffect(() => {
@@ -48,6 +57,17 @@ export default function IncidentDetailPage() {
         router.push('/login');
         return;
       }
+
+      const { data: userData } = await supabase
+        .from('users')
+        .select('role, is_platform_admin')
+        .eq('id', user.id)
+        .single();
+      setCanTransition(!!userData && (userData.is_platform_admin || userData.role !== 'viewer'));
+      if (userData) {
+        setCurrentUser({ id: user.id, role: userData.role, isPlatformAdmin: !!userData.is_platform_admin });
+      }
+
       setAuthChecked(true);
     }
     checkAuth();
@@ -86,70 +106,66 @@ export default function IncidentDetailPage() {
     setTriggeringKestra(true);
     try {
       const result = await triggerKestraWorkflow(incident);
-      setKestraExecutionId(result.executionId || result.id || null);
-      setPollingExecution(true);
+      const executionId = result.executionId || result.id || null;
+      setKestraStatus({ executionId, status: 'RUNNING' });
+      setIncident(prev => prev ? { ...prev, analysis_status: 'running', analysis_execution_id: executionId } : prev);
     } catch (error) {
       console.error('Error triggering Kestra:', error);
     } finally {
       setTriggeringKestra(false);
+      setTimelineVersion(v => v + 1);
+      setRunsVersion(v => v + 1);
     }
   };
 
-  // Poll for execution status and save results when complete
-  useEffect(() => {
-    if (!kestraExecutionId || !pollingExecution) return;
+  const internalId = incident?.internal_id;
 
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/kestra/execution/${kestraExecutionId}`);
-        const data = await response.json();
-        setKestraStatus(data);
-
-        if (data.status === 'SUCCESS' || data.status === 'FAILED' || data.status === 'KILLED') {
-          setPollingExecution(false);
-          
-          // Save results to database when Kestra completes successfully
-          if (data.status === 'SUCCESS' && data.aiResults && incident) {
-            try {
-              await fetch('/api/analysis/save', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  incidentId: incident.internal_id || incident.id,
-                  executionId: kestraExecutionId,
-                  analysis: data.aiResults.analysis,
-                  remediation: data.aiResults.remediation,
-                  documentation: data.aiResults.documentation,
-                })
-              });
-              
-              // Reload incident data to get persisted analysis
-              const updatedData = await getIncident(incidentId);
-              if (updatedData) {
-                setIncident(updatedData);
-              }
-            } catch (saveError) {
-              console.error('Error saving analysis:', saveError);
-            }
+  // Live updates over Supabase Realtime: the Kestra callback stores results server-side,
+  // which shows up here as a new timeline event, a run update and a change to the incident row
+  useEffect(() => {
+    if (!internalId) return;
+
+    const channel = supabase
+      .channel(`incident:${internalId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'incident_events', filter: `incident_id=eq.${internalId}` },
+        (payload) => {
+          setTimelineVersion(v => v + 1);
+
+          const event = payload.new as { event_type: string; details: Record<string, unknown> };
+          if (event.event_type === 'kestra_finished') {
+            setKestraStatus({
+              executionId: event.details.execution_id,
+              status: event.details.state,
+              duration: event.details.duration_seconds,
+              url: event.details.url
+            });
           }
         }
-      } catch (error) {
-        console.error('Error polling execution:', error);
-      }
-    }, 2000);
-
-    return () => clearInterval(pollInterval);
-  }, [kestraExecutionId, pollingExecution, incident, incidentId]);
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'workflow_executions', filter: `incident_id=eq.${internalId}` },
+        () => setRunsVersion(v => v + 1)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'incidents', filter: `id=eq.${internalId}` },
+        async () => {
+          // Reload rather than merge the row, to pick up the saved analysis
+          const updated = await getIncident(incidentId);
+          if (updated) {
+            setIncident(updated);
+          }
+        }
+      )
+      .subscribe();
 
-  // Parse AI analysis from Gemini response format
-  const parseAIAnalysis = (analysis: any): string | null => {
-    if (!analysis) return null;
-    if (typeof analysis === 'string') return analysis;
-    if (analysis.candidates && analysis.candidates[0]?.content?.parts?.[0]?.text) {
-      return analysis.candidates[0].content.parts[0].text;
-    }
-    return JSON.stringify(analysis);
-  };
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, internalId, incidentId]);
 
   if (loading) {
     return (
@@ -183,20 +199,18 @@ export default function IncidentDetailPage() {
     );
   }
 
-  // Check saved analysis first, then fall back to live Kestra results
-  const savedAnalysis = (incident as any)?.ai_analysis;
-  
-  const aiAnalysisText = savedAnalysis?.analysis 
-    || (kestraStatus?.aiResults?.analysis ? parseAIAnalysis(kestraStatus.aiResults.analysis) : null);
-
-  const aiRemediationText = savedAnalysis?.remediation
-    || (kestraStatus?.aiResults?.remediation ? parseAIAnalysis(kestraStatus.aiResults.remediation) : null);
+  // Results are saved by the Kestra callback and arrive with the incident
+  const aiAnalysisText = incident.ai_analysis?.analysis;
+  const aiRemediationText = incident.ai_analysis?.remediation;
+  const aiDocumentationText = incident.ai_analysis?.documentation;
 
-  const aiDocumentationText = savedAnalysis?.documentation
-    || (kestraStatus?.aiResults?.documentation ? parseAIAnalysis(kestraStatus.aiResults.documentation) : null);
-  
   const hasAnyAnalysis = aiAnalysisText || aiRemediationText || aiDocumentationText;
 
+  // A run started elsewhere (routing, another tab) still shows as executing
+  const analyzing = incident.analysis_status === 'running';
+  const workflowStatus = kestraStatus
+    || (analyzing ? { executionId: incident.analysis_execution_id, status: 'RUNNING' } : null);
+
   return (
     <div className="min-h-screen relative" style={{background: 'var(--bg-primary)'}}>
       {/* Header */}
@@ -251,18 +265,62 @@ export default function IncidentDetailPage() {
                 }`} style={{fontSize: '0.625rem'}}>
                   {incident.status.toUpperCase()}
                 </span>
+                {incident.acknowledged_at && (
+                  <span className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>
+                    ACK {formatDate(incident.acknowledged_at)}
+                  </span>
+                )}
+                {incident.resolved_at && (
+                  <span className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>
+                    RESOLVED {formatDate(incident.resolved_at)}
+                  </span>
+                )}
+                {(incident.occurrence_count || 1) > 1 && (
+                  <span className="font-mono text-xs" style={{color: 'var(--accent-amber)'}}>
+                    {incident.occurrence_count}× FIRED
+                    {incident.last_occurrence_at && ` · LAST ${formatDate(incident.last_occurrence_at)}`}
+                  </span>
+                )}
+                {incident.recovered_at && (incident.status === 'open' || incident.status === 'investigating') && (
+                  <span className="flex items-center gap-1 font-mono text-xs" style={{color: 'var(--accent-emerald)'}}>
+                    <HeartPulse className="w-3.5 h-3.5" />
+                    RECOVERED {formatDate(incident.recovered_at)} · AWAITING CONFIRMATION
+                  </span>
+                )}
+                {incident.redactions && incident.redactions.length > 0 && (
+                  <span
+                    className="flex items-center gap-1 font-mono text-xs"
+                    style={{color: 'var(--text-muted)'}}
+                    title={incident.redactions.map(r => `${r.rule}: ${r.fields.join(', ')}`).join('\n')}
+                  >
+                    <EyeOff className="w-3.5 h-3.5" />
+                    REDACTED {incident.redactions.map(r => `${r.rule.toUpperCase()} ×${r.count}`).join(' · ')}
+                  </span>
+                )}
               </div>
+
+              {canTransition && (
+                <div className="mt-4">
+                  <IncidentStatusControls
+                    incident={incident}
+                    onTransition={(updated) => {
+                      setIncident(prev => prev ? { ...prev, ...updated } : prev);
+                      setTimelineVersion(v => v + 1);
+                    }}
+                  />
+                </div>
+              )}
             </div>
 
             <button
               onClick={handleTriggerKestra}
-              disabled={triggeringKestra || pollingExecution}
+              disabled={triggeringKestra || analyzing}
               className="btn-primary flex items-center gap-2"
             >
-              {triggeringKestra || pollingExecution ? (
+              {triggeringKestra || analyzing ? (
                 <>
                   <Loader2 className="w-5 h-5 animate-spin" />
-                  {pollingExecution ? 'EXECUTING...' : 'INITIALIZING...'}
+                  {analyzing ? 'EXECUTING...' : 'INITIALIZING...'}
                 </>
               ) : (
                 <>
@@ -281,7 +339,7 @@ export default function IncidentDetailPage() {
           {/* Main Column */}
           <div className="lg:col-span-2 space-y-6">
             {/* Workflow Status */}
-            {kestraStatus && (
+            {workflowStatus && (
               <div className="glass-card p-6 animate-data-stream">
                 <div className="flex items-center justify-between mb-5">
                   <div className="flex items-center gap-3">
@@ -291,21 +349,21 @@ export default function IncidentDetailPage() {
                     </h2>
                   </div>
                   <div className="flex items-center gap-2">
-                    {kestraStatus.status === 'SUCCESS' && (
+                    {workflowStatus.status === 'SUCCESS' && (
                       <CheckCircle2 className="w-5 h-5" style={{color: 'var(--status-resolved)'}} />
                     )}
-                    {kestraStatus.status === 'FAILED' && (
+                    {workflowStatus.status === 'FAILED' && (
                       <XCircle className="w-5 h-5" style={{color: 'var(--status-critical)'}} />
                     )}
-                    {kestraStatus.status === 'RUNNING' && (
+                    {workflowStatus.status === 'RUNNING' && (
                       <Loader2 className="w-5 h-5 animate-spin" style={{color: 'var(--accent-cyan)'}} />
                     )}
                     <span className={`status-badge ${
-                      kestraStatus.status === 'SUCCESS' ? 'status-resolved' :
-                      kestraStatus.status === 'FAILED' ? 'status-critical' :
+                      workflowStatus.status === 'SUCCESS' ? 'status-resolved' :
+                      workflowStatus.status === 'FAILED' ? 'status-critical' :
                       'status-low'
                     }`}>
-                      {kestraStatus.status}
+                      {workflowStatus.status}
                     </span>
                   </div>
                 </div>
@@ -316,7 +374,7 @@ export default function IncidentDetailPage() {
                       EXECUTION ID
                     </div>
                     <div className="font-mono text-sm" style={{color: 'var(--accent-cyan-glow)'}}>
-                      {kestraStatus.executionId}
+                      {workflowStatus.executionId}
                     </div>
                   </div>
                   <div className="metric-card">
@@ -324,14 +382,14 @@ export default function IncidentDetailPage() {
                       DURATION
                     </div>
                     <div className="font-mono text-sm" style={{color: 'var(--accent-cyan-glow)'}}>
-                      {kestraStatus.duration ? `${kestraStatus.duration.toFixed(2)}s` : '—'}
+                      {workflowStatus.duration ? `${workflowStatus.duration.toFixed(2)}s` : '—'}
                     </div>
                   </div>
                 </div>
 
-                {kestraStatus.url && (
+                {workflowStatus.url && (
                   <a
-                    href={kestraStatus.url}
+                    href={workflowStatus.url}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-flex items-center gap-2 font-mono text-sm transition-all hover:gap-3"
@@ -344,6 +402,14 @@ export default function IncidentDetailPage() {
               </div>
             )}
 
+            {/* Every run for this incident */}
+            <WorkflowRuns
+              incidentId={incident.id}
+              refreshKey={runsVersion}
+              canControl={canTransition}
+              onChange={() => setTimelineVersion(v => v + 1)}
+            />
+
             {/* AI Analysis */}
             {aiAnalysisText && (
               <div className="glass-card p-6 animate-data-stream" style={{
@@ -392,24 +458,15 @@ export default function IncidentDetailPage() {
               </div>
             )}
 
+            {/* Investigation Notes */}
+            <IncidentNotes
+              incidentId={incident.id}
+              currentUser={currentUser}
+              onNoteAdded={() => setTimelineVersion(v => v + 1)}
+            />
+
             {/* Logs */}
-            {incident.logs && incident.logs.length > 0 && (
-              <div className="glass-card p-6">
-                <div className="flex items-center gap-3 mb-4">
-                  <Terminal className="w-5 h-5" style={{color: 'var(--accent-cyan)'}} />
-                  <h2 className="text-lg font-bold font-mono tracking-wider" style={{color: 'var(--text-primary)'}}>
-                    SYSTEM LOGS
-                  </h2>
-                </div>
-                <div className="terminal-block">
-                  {incident.logs.map((log, i) => (
-                    <code key={i} className="block mb-1" style={{color: 'var(--accent-cyan-glow)'}}>
-                      [{String(i + 1).padStart(3, '0')}] {log}
-                    </code>
-                  ))}
-                </div>
-              </div>
-            )}
+            <IncidentLogViewer incidentId={incident.id} logCount={incident.log_count ?? 0} />
           </div>
 
           {/* Sidebar */}
@@ -458,6 +515,20 @@ export default function IncidentDetailPage() {
               </div>
             )}
 
+            {/* Assignees */}
+            <IncidentAssignees
+              incidentId={incident.id}
+              assignees={incident.assignees || []}
+              canEdit={canTransition}
+              onChange={(assignees) => {
+                setIncident(prev => prev ? { ...prev, assignees } : prev);
+                setTimelineVersion(v => v + 1);
+              }}
+            />
+
+            {/* Timeline */}
+            <IncidentTimeline incidentId={incident.id} refreshKey={timelineVersion} />
+
             {/* Impact Summary */}
             <div className="glass-card p-5">
               <div className="flex items-center gap-3 mb-4">
@@ -15,6 +15,7 @@ import {
   Check,
   AlertCircle
 } from 'lucide-react';
+import { KestraFlowVersion } from '@/components/KestraFlowVersion';
 
 interface SetupStatus {
   isComplete: boolean;
@@ -262,6 +263,9 @@ GEMINI_API_KEY=your-gemini-key`}
           ) : null}
         </div>
 
+        {/* Deployed vs. bundled incident flow */}
+        {status?.kestra?.connected && <KestraFlowVersion />}
+
         {/* Important Note about Schema */}
         {status && !status.supabase.schemaExists && (
           <div className="glass-card p-6 mb-8" style={{ 
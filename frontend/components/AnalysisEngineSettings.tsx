@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+type AnalysisEngine = 'kestra' | 'builtin';
+
+const ENGINES: { value: AnalysisEngine; label: string; description: string }[] = [
+  {
+    value: 'kestra',
+    label: 'Kestra',
+    description: 'Analyses run on the incident-handler flow in Kestra (configured below).'
+  },
+  {
+    value: 'builtin',
+    label: 'Built-in',
+    description: 'Analyses run inside the app with the same steps as the Kestra flow. No Kestra server needed, only a Gemini API key.'
+  }
+];
+
+export function AnalysisEngineSettings() {
+  const [engine, setEngine] = useState<AnalysisEngine | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    async function loadSettings() {
+      const response = await fetch('/api/organizations/settings');
+      if (response.ok) {
+        const settings = await response.json();
+        setEngine(settings.analysis_engine);
+      }
+    }
+
+    loadSettings();
+  }, []);
+
+  if (!engine) {
+    return null;
+  }
+
+  async function save() {
+    setSaving(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/organizations/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ analysis_engine: engine })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to save analysis engine');
+        return;
+      }
+
+      setEngine(data.analysis_engine);
+      setMessage('Saved');
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="glass-card p-6">
+      <h2 className="text-xl font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
+        Analysis Engine
+      </h2>
+      <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Where AI analyses for new and re-run incidents are executed. Runs already in progress finish on their engine.
+      </p>
+
+      <div className="space-y-3 mb-6">
+        {ENGINES.map(({ value, label, description }) => (
+          <label
+            key={value}
+            className="flex items-start gap-3 p-3 rounded-lg cursor-pointer"
+            style={{
+              background: 'var(--bg-card)',
+              border: engine === value ? '1px solid var(--accent-cyan)' : '1px solid var(--glass-border)'
+            }}
+          >
+            <input
+              type="radio"
+              name="analysis_engine"
+              value={value}
+              checked={engine === value}
+              onChange={() => setEngine(value)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-sm font-medium" style={{ color: 'var(--text-primary)' }}>{label}</span>
+              <span className="block text-sm" style={{ color: 'var(--text-secondary)' }}>{description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={save}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium"
+        style={{
+          background: saving ? 'var(--bg-card)' : 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))',
+          color: saving ? 'var(--text-muted)' : 'white'
+        }}
+      >
+        {saving && <Loader2 className="w-5 h-5 animate-spin" />}
+        Save
+      </button>
+      {message && (
+        <p className="text-sm mt-3 font-mono" style={{ color: message === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
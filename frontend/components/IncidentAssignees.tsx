@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { Crown, Loader2, UserPlus, Users } from 'lucide-react';
+import { AssignableUser, IncidentAssignee } from '@/types/incident';
+import { getIncidentAssignees, updateIncidentAssignees } from '@/lib/api';
+import { getAssigneeLabel } from '@/lib/incident-assignments';
+
+interface IncidentAssigneesProps {
+  incidentId: string;
+  assignees: IncidentAssignee[];
+  canEdit: boolean;
+  onChange: (assignees: IncidentAssignee[]) => void;
+}
+
+export function IncidentAssignees({ incidentId, assignees, canEdit, onChange }: IncidentAssigneesProps) {
+  const [editing, setEditing] = useState(false);
+  const [users, setUsers] = useState<AssignableUser[]>([]);
+  const [commanderId, setCommanderId] = useState<string>('');
+  const [responderIds, setResponderIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const commander = assignees.find(a => a.role === 'commander');
+  const responders = assignees.filter(a => a.role === 'responder');
+
+  const handleEdit = async () => {
+    setEditing(true);
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getIncidentAssignees(incidentId);
+      setUsers(data.users);
+      setCommanderId(data.assignees.find(a => a.role === 'commander')?.user_id || '');
+      setResponderIds(data.assignees.filter(a => a.role === 'responder').map(a => a.user_id));
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleResponder = (userId: string) => {
+    setResponderIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateIncidentAssignees(
+        incidentId,
+        commanderId || null,
+        responderIds.filter(id => id !== commanderId)
+      );
+      onChange(updated);
+      setEditing(false);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to update assignees');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Users className="w-5 h-5" style={{color: 'var(--accent-cyan)'}} />
+          <h3 className="text-sm font-bold font-mono tracking-wider" style={{color: 'var(--text-primary)'}}>
+            RESPONDERS
+          </h3>
+        </div>
+        {canEdit && !editing && (
+          <button
+            onClick={handleEdit}
+            className="flex items-center gap-1 font-mono text-xs tracking-wider transition-all hover:opacity-80"
+            style={{color: 'var(--accent-cyan)'}}
+          >
+            <UserPlus className="w-3 h-3" />
+            ASSIGN
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin" style={{color: 'var(--accent-cyan)'}} />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block font-mono text-xs mb-2" style={{color: 'var(--text-muted)'}}>
+                INCIDENT COMMANDER
+              </label>
+              <select
+                value={commanderId}
+                onChange={(e) => setCommanderId(e.target.value)}
+                className="w-full px-3 py-2 rounded font-mono text-sm"
+                style={{background: 'var(--bg-card)', color: 'var(--text-primary)', border: '1px solid var(--glass-border)'}}
+              >
+                <option value="">Unassigned</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>{getAssigneeLabel(user)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block font-mono text-xs mb-2" style={{color: 'var(--text-muted)'}}>
+                RESPONDERS
+              </label>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {users.filter(user => user.id !== commanderId).map(user => (
+                  <label key={user.id} className="flex items-center gap-2 text-sm cursor-pointer" style={{color: 'var(--text-secondary)'}}>
+                    <input
+                      type="checkbox"
+                      checked={responderIds.includes(user.id)}
+                      onChange={() => toggleResponder(user.id)}
+                    />
+                    {getAssigneeLabel(user)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex-1 py-2 rounded font-mono text-xs tracking-wider transition-all hover:opacity-80 flex items-center justify-center gap-2"
+                style={{background: 'var(--accent-cyan)', color: 'var(--bg-primary)'}}
+              >
+                {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+                SAVE
+              </button>
+              <button
+                onClick={() => setEditing(false)}
+                disabled={saving}
+                className="flex-1 py-2 rounded font-mono text-xs tracking-wider transition-all hover:opacity-80"
+                style={{background: 'var(--bg-card)', color: 'var(--text-secondary)', border: '1px solid var(--glass-border)'}}
+              >
+                CANCEL
+              </button>
+            </div>
+          </div>
+        )
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Crown className="w-4 h-4" style={{color: 'var(--accent-amber)'}} />
+            <span className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>COMMANDER</span>
+            <span className="text-sm" style={{color: commander ? 'var(--text-primary)' : 'var(--text-muted)'}}>
+              {commander ? getAssigneeLabel(commander) : 'Unassigned'}
+            </span>
+          </div>
+          {responders.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {responders.map(responder => (
+                <span
+                  key={responder.user_id}
+                  className="font-mono text-xs px-2 py-1 rounded"
+                  style={{background: 'var(--bg-card)', color: 'var(--text-secondary)', border: '1px solid var(--glass-border)'}}
+                >
+                  {getAssigneeLabel(responder)}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>NO ADDITIONAL RESPONDERS</p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="font-mono text-xs mt-3" style={{color: 'var(--status-critical)'}}>{error}</p>
+      )}
+    </div>
+  );
+}
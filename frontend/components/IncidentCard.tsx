@@ -3,7 +3,8 @@
 import Link from 'next/link';
 import { Incident } from '@/types/incident';
 import { getSeverityColor, getStatusColor, formatRelativeTime } from '@/lib/utils';
-import { AlertTriangle, Clock, Server, Activity, TrendingUp, ArrowRight } from 'lucide-react';
+import { getAssigneeLabel } from '@/lib/incident-assignments';
+import { AlertTriangle, Clock, Server, Activity, TrendingUp, ArrowRight, Users } from 'lucide-react';
 
 interface IncidentCardProps {
   incident: Incident;
@@ -12,6 +13,8 @@ interface IncidentCardProps {
 export function IncidentCard({ incident }: IncidentCardProps) {
   const severityColor = getSeverityColor(incident.severity);
   const statusColor = getStatusColor(incident.status);
+  const commander = incident.assignees?.find(a => a.role === 'commander');
+  const responders = incident.assignees?.filter(a => a.role === 'responder') || [];
 
   const getSeverityGradient = (severity: string) => {
     switch (severity) {
@@ -44,6 +47,19 @@ export function IncidentCard({ incident }: IncidentCardProps) {
               <span className={`px-3 py-1 rounded-full text-xs font-semibold ${statusColor}`}>
                 {incident.status.toUpperCase()}
               </span>
+              {incident.analysis_status === 'pending' && (
+                <span
+                  className="px-3 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800"
+                  title="The analysis workflow could not be started yet and will be retried"
+                >
+                  Analysis pending
+                </span>
+              )}
+              {incident.analysis_status === 'failed' && (
+                <span className="px-3 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+                  Analysis failed
+                </span>
+              )}
             </div>
             <p className="text-gray-800 font-semibold mb-3 text-lg">{incident.title}</p>
             <div className="flex items-center gap-6 text-sm text-gray-600">
@@ -60,6 +76,16 @@ export function IncidentCard({ incident }: IncidentCardProps) {
                 <span>{incident.context.region}</span>
               </div>
             </div>
+            <div className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+              <Users className="w-4 h-4 text-gray-400" />
+              <span>
+                <span className="font-medium">IC:</span>{' '}
+                {commander ? getAssigneeLabel(commander) : 'Unassigned'}
+                {responders.length > 0 && (
+                  <span className="text-gray-500"> · {responders.map(getAssigneeLabel).join(', ')}</span>
+                )}
+              </span>
+            </div>
           </div>
           <div className="flex flex-col items-end gap-2">
             <AlertTriangle className={`w-8 h-8 ${
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IncidentLogLine } from '@/types/incident';
+import { getIncidentLogs } from '@/lib/api';
+import { Loader2, Search, Terminal } from 'lucide-react';
+
+interface IncidentLogViewerProps {
+  incidentId: string;
+  // Total lines received, from the incident; hides the viewer when there are none
+  logCount: number;
+}
+
+const LEVELS = ['FATAL', 'ERROR', 'WARN', 'INFO', 'DEBUG'] as const;
+
+const LEVEL_COLORS: Record<string, string> = {
+  FATAL: 'var(--status-critical)',
+  ERROR: 'var(--status-critical)',
+  WARN: 'var(--accent-amber)',
+  INFO: 'var(--accent-cyan)',
+  DEBUG: 'var(--text-muted)',
+  TRACE: 'var(--text-muted)'
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function IncidentLogViewer({ incidentId, logCount }: IncidentLogViewerProps) {
+  const [lines, setLines] = useState<IncidentLogLine[]>([]);
+  const [matched, setMatched] = useState(0);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [levels, setLevels] = useState<string[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (logCount === 0) return;
+
+    async function loadLogs() {
+      setLoading(true);
+      try {
+        const page = await getIncidentLogs(incidentId, { level: levels, q: search });
+        setLines(page.lines);
+        setMatched(page.matched);
+        setNextCursor(page.next_cursor);
+        setError(null);
+      } catch (err) {
+        setError((err as Error).message || 'Failed to load logs');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadLogs();
+  }, [incidentId, logCount, levels, search]);
+
+  if (logCount === 0) {
+    return null;
+  }
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await getIncidentLogs(incidentId, { level: levels, q: search, after: nextCursor });
+      setLines(prev => [...prev, ...page.lines]);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load logs');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const toggleLevel = (level: string) => {
+    setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+  };
+
+  const filtered = levels.length > 0 || search !== '';
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Terminal className="w-5 h-5" style={{color: 'var(--accent-cyan)'}} />
+        <h2 className="text-lg font-bold font-mono tracking-wider" style={{color: 'var(--text-primary)'}}>
+          SYSTEM LOGS
+        </h2>
+        <span className="ml-auto font-mono text-xs" style={{color: 'var(--text-muted)'}}>
+          {filtered ? `${matched} OF ${logCount} LINES` : `${logCount} LINES`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div className="relative flex-1 min-w-48">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2" style={{color: 'var(--text-muted)'}} />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search logs..."
+            maxLength={200}
+            className="w-full pl-9 pr-3 py-2 rounded font-mono text-xs"
+            style={{background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-primary)'}}
+          />
+        </div>
+        {LEVELS.map(level => {
+          const active = levels.includes(level);
+          return (
+            <button
+              key={level}
+              onClick={() => toggleLevel(level)}
+              className="px-2 py-1 rounded font-mono text-xs tracking-wider transition-all hover:opacity-80"
+              style={{
+                background: active ? LEVEL_COLORS[level] : 'var(--bg-card)',
+                color: active ? 'var(--bg-primary)' : LEVEL_COLORS[level],
+                border: `1px solid ${LEVEL_COLORS[level]}`
+              }}
+            >
+              {level}
+            </button>
+          );
+        })}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin" style={{color: 'var(--accent-cyan)'}} />
+        </div>
+      ) : error ? (
+        <p className="font-mono text-xs" style={{color: 'var(--status-critical)'}}>{error}</p>
+      ) : lines.length === 0 ? (
+        <p className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>NO MATCHING LINES</p>
+      ) : (
+        <div className="terminal-block max-h-[32rem] overflow-y-auto">
+          {lines.map(line => (
+            <code key={line.line_number} className="block mb-1 whitespace-pre-wrap break-all" style={{color: 'var(--accent-cyan-glow)'}}>
+              <span style={{color: 'var(--text-muted)'}}>[{String(line.line_number).padStart(3, '0')}]</span>{' '}
+              {line.level && (
+                <span style={{color: LEVEL_COLORS[line.level]}}>{line.level.padEnd(5)} </span>
+              )}
+              {line.message}
+            </code>
+          ))}
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <button
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="w-full mt-4 py-2 rounded font-mono text-xs tracking-wider transition-all hover:opacity-80 flex items-center justify-center gap-2"
+          style={{background: 'var(--bg-card)', color: 'var(--accent-cyan)', border: '1px solid var(--glass-border)'}}
+        >
+          {loadingMore && <Loader2 className="w-3 h-3 animate-spin" />}
+          LOAD MORE LINES
+        </button>
+      )}
+    </div>
+  );
+}
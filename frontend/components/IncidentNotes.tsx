@@ -0,0 +1,282 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AtSign, Loader2, MessageSquare, Pencil, Send, Trash2 } from 'lucide-react';
+import { AssignableUser, IncidentNote } from '@/types/incident';
+import { createIncidentNote, deleteIncidentNote, getIncidentNotes, updateIncidentNote } from '@/lib/api';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+
+interface IncidentNotesProps {
+  incidentId: string;
+  currentUser: { id: string; role: string; isPlatformAdmin: boolean } | null;
+  // Called after a note is added so the timeline can refresh
+  onNoteAdded?: () => void;
+}
+
+/**
+ * Handle inserted for an @mention: the email local part when unique, else the full email
+ */
+function mentionHandle(user: AssignableUser, users: AssignableUser[]): string {
+  const local = user.email.split('@')[0];
+  const clashes = users.filter(u => u.email.split('@')[0].toLowerCase() === local.toLowerCase());
+  return clashes.length > 1 ? user.email : local;
+}
+
+export function IncidentNotes({ incidentId, currentUser, onNoteAdded }: IncidentNotesProps) {
+  const [notes, setNotes] = useState<IncidentNote[]>([]);
+  const [users, setUsers] = useState<AssignableUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const canWrite = !!currentUser && (currentUser.isPlatformAdmin || currentUser.role !== 'viewer');
+
+  useEffect(() => {
+    async function loadNotes() {
+      try {
+        const data = await getIncidentNotes(incidentId);
+        setNotes(data.notes);
+        setUsers(data.users);
+        setError(null);
+      } catch (err) {
+        setError((err as Error).message || 'Failed to load notes');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadNotes();
+  }, [incidentId]);
+
+  const mentionSuggestions = mentionQuery === null ? [] : users
+    .filter(u =>
+      u.email.toLowerCase().includes(mentionQuery.toLowerCase()) ||
+      (u.name || '').toLowerCase().includes(mentionQuery.toLowerCase())
+    )
+    .slice(0, 5);
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const match = value.slice(0, caret).match(/(?:^|\s)@([\w.+-]*)$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (user: AssignableUser) => {
+    const caret = textareaRef.current?.selectionStart ?? draft.length;
+    const before = draft.slice(0, caret).replace(/@([\w.+-]*)$/, `@${mentionHandle(user, users)} `);
+    setDraft(before + draft.slice(caret));
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleSubmit = async () => {
+    if (!draft.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const note = await createIncidentNote(incidentId, draft);
+      setNotes(prev => [...prev, note]);
+      setDraft('');
+      onNoteAdded?.();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to add note');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSaveEdit = async (noteId: string) => {
+    if (!editDraft.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const note = await updateIncidentNote(incidentId, noteId, editDraft);
+      setNotes(prev => prev.map(n => n.id === noteId ? note : n));
+      setEditingId(null);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to update note');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (noteId: string) => {
+    if (!confirm('Delete this note?')) return;
+    setError(null);
+    try {
+      await deleteIncidentNote(incidentId, noteId);
+      setNotes(prev => prev.filter(n => n.id !== noteId));
+    } catch (err) {
+      setError((err as Error).message || 'Failed to delete note');
+    }
+  };
+
+  const canEditNote = (note: IncidentNote) => !!currentUser && note.author?.id === currentUser.id;
+  const canDeleteNote = (note: IncidentNote) => !!currentUser && (
+    currentUser.isPlatformAdmin || currentUser.role === 'admin' || note.author?.id === currentUser.id
+  );
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <MessageSquare className="w-5 h-5" style={{color: 'var(--accent-cyan)'}} />
+        <h2 className="text-lg font-bold font-mono tracking-wider" style={{color: 'var(--text-primary)'}}>
+          INVESTIGATION NOTES
+        </h2>
+        <span className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>
+          ({notes.length})
+        </span>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin" style={{color: 'var(--accent-cyan)'}} />
+        </div>
+      ) : notes.length === 0 ? (
+        <p className="font-mono text-xs mb-4" style={{color: 'var(--text-muted)'}}>
+          NO NOTES YET - RECORD FINDINGS FOR THE TEAM AND THE POST-MORTEM
+        </p>
+      ) : (
+        <div className="space-y-4 mb-6">
+          {notes.map(note => (
+            <div key={note.id} className="p-4 rounded" style={{background: 'var(--bg-card)', border: '1px solid var(--glass-border)'}}>
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="font-mono text-xs" style={{color: 'var(--text-tertiary)'}}>
+                  <span style={{color: 'var(--accent-cyan)'}}>
+                    {note.author ? (note.author.name || note.author.email) : 'Deleted user'}
+                  </span>
+                  {' · '}
+                  <span title={formatDate(note.created_at)}>{formatRelativeTime(note.created_at)}</span>
+                  {note.updated_at !== note.created_at && ' (edited)'}
+                </div>
+                {editingId !== note.id && (
+                  <div className="flex items-center gap-2">
+                    {canEditNote(note) && (
+                      <button
+                        onClick={() => { setEditingId(note.id); setEditDraft(note.body); }}
+                        className="transition-all hover:opacity-80"
+                        style={{color: 'var(--text-tertiary)'}}
+                        title="Edit note"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    {canDeleteNote(note) && (
+                      <button
+                        onClick={() => handleDelete(note.id)}
+                        className="transition-all hover:opacity-80"
+                        style={{color: 'var(--status-critical)'}}
+                        title="Delete note"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {editingId === note.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editDraft}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                    rows={4}
+                    className="w-full px-3 py-2 rounded font-mono text-sm"
+                    style={{background: 'var(--bg-primary)', color: 'var(--text-primary)', border: '1px solid var(--glass-border)'}}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleSaveEdit(note.id)}
+                      disabled={submitting}
+                      className="px-3 py-1 rounded font-mono text-xs tracking-wider transition-all hover:opacity-80"
+                      style={{background: 'var(--accent-cyan)', color: 'var(--bg-primary)'}}
+                    >
+                      SAVE
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 rounded font-mono text-xs tracking-wider transition-all hover:opacity-80"
+                      style={{background: 'var(--bg-card)', color: 'var(--text-secondary)', border: '1px solid var(--glass-border)'}}
+                    >
+                      CANCEL
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <MarkdownRenderer content={note.body} />
+              )}
+
+              {note.mentions.length > 0 && editingId !== note.id && (
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <AtSign className="w-3 h-3" style={{color: 'var(--text-muted)'}} />
+                  {note.mentions.map(m => (
+                    <span key={m.id} className="font-mono text-xs px-2 py-0.5 rounded" style={{
+                      background: 'rgba(6, 182, 212, 0.1)',
+                      color: 'var(--accent-cyan)'
+                    }}>
+                      {m.name || m.email}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canWrite && (
+        <div className="relative">
+          <textarea
+            ref={textareaRef}
+            value={draft}
+            onChange={(e) => handleDraftChange(e.target.value)}
+            placeholder="Add a finding... Markdown supported, @mention teammates"
+            rows={4}
+            className="w-full px-3 py-2 rounded font-mono text-sm"
+            style={{background: 'var(--bg-card)', color: 'var(--text-primary)', border: '1px solid var(--glass-border)'}}
+          />
+          {mentionSuggestions.length > 0 && (
+            <div className="absolute left-0 right-0 z-10 rounded overflow-hidden" style={{
+              background: 'var(--bg-elevated)',
+              border: '1px solid var(--glass-border)'
+            }}>
+              {mentionSuggestions.map(user => (
+                <button
+                  key={user.id}
+                  onClick={() => insertMention(user)}
+                  className="block w-full text-left px-3 py-2 text-sm transition-all hover:opacity-80"
+                  style={{color: 'var(--text-secondary)'}}
+                >
+                  {user.name || user.email}
+                  <span className="ml-2 font-mono text-xs" style={{color: 'var(--text-muted)'}}>{user.email}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end mt-2">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || !draft.trim()}
+              className="btn-primary flex items-center gap-2"
+              style={{opacity: submitting || !draft.trim() ? 0.5 : 1}}
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              ADD NOTE
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="font-mono text-xs mt-3" style={{color: 'var(--status-critical)'}}>{error}</p>
+      )}
+    </div>
+  );
+}
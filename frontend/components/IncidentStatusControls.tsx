@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Incident } from '@/types/incident';
+import { transitionIncident } from '@/lib/api';
+import {
+  IncidentAction,
+  INCIDENT_TRANSITIONS,
+  getAvailableActions
+} from '@/lib/incident-lifecycle';
+
+interface IncidentStatusControlsProps {
+  incident: Pick<Incident, 'id' | 'status' | 'acknowledged_at'>;
+  onTransition: (updated: Pick<Incident, 'id' | 'status' | 'acknowledged_at' | 'resolved_at' | 'closed_at'>) => void;
+  compact?: boolean;
+}
+
+const ACTION_COLORS: Record<IncidentAction, string> = {
+  acknowledge: 'var(--accent-cyan)',
+  investigate: 'var(--status-medium)',
+  resolve: 'var(--status-resolved)',
+  close: 'var(--text-tertiary)',
+  reopen: 'var(--status-high)'
+};
+
+export function IncidentStatusControls({ incident, onTransition, compact = false }: IncidentStatusControlsProps) {
+  const [pendingAction, setPendingAction] = useState<IncidentAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const actions = getAvailableActions(incident);
+
+  if (actions.length === 0) {
+    return null;
+  }
+
+  const handleAction = async (action: IncidentAction) => {
+    setPendingAction(action);
+    setError(null);
+    try {
+      const updated = await transitionIncident(incident.id, action);
+      onTransition(updated);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to update status');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 flex-wrap">
+        {actions.map(action => (
+          <button
+            key={action}
+            onClick={() => handleAction(action)}
+            disabled={pendingAction !== null}
+            className={`flex items-center gap-1 rounded font-mono tracking-wider transition-all hover:opacity-80 ${
+              compact ? 'px-2 py-1 text-[0.625rem]' : 'px-3 py-2 text-xs'
+            }`}
+            style={{
+              background: 'var(--bg-card)',
+              color: ACTION_COLORS[action],
+              border: `1px solid ${ACTION_COLORS[action]}`,
+              opacity: pendingAction && pendingAction !== action ? 0.5 : 1
+            }}
+          >
+            {pendingAction === action && <Loader2 className="w-3 h-3 animate-spin" />}
+            {INCIDENT_TRANSITIONS[action].label.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      {error && (
+        <span className="font-mono text-xs" style={{color: 'var(--status-critical)'}}>
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,80 +1,155 @@
 'use client';
 
-import { Incident } from '@/types/incident';
+import { useEffect, useState } from 'react';
+import { IncidentTimelineEvent } from '@/types/incident';
+import { getIncidentEvents } from '@/lib/api';
 import { formatDate, formatRelativeTime } from '@/lib/utils';
-import { Clock, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+import {
+  AlertCircle,
+  Ban,
+  Bell,
+  CheckCircle,
+  Clock,
+  Copy,
+  HeartPulse,
+  Layers,
+  Loader2,
+  MessageSquare,
+  NotebookPen,
+  Play,
+  Route,
+  Sparkles,
+  Users,
+  Wrench,
+  XCircle
+} from 'lucide-react';
 
 interface IncidentTimelineProps {
-  incident: Incident;
+  incidentId: string;
+  // Bump to reload from the first page (e.g. after a status change)
+  refreshKey?: number;
 }
 
-export function IncidentTimeline({ incident }: IncidentTimelineProps) {
-  const timelineEvents = [
-    {
-      time: incident.timestamp,
-      type: 'detected',
-      title: 'Incident Detected',
-      description: `Incident ${incident.id} detected for service ${incident.service}`,
-      icon: AlertCircle,
-      color: 'text-red-500',
-    },
-    {
-      time: new Date(new Date(incident.timestamp).getTime() + 5 * 60000).toISOString(),
-      type: 'investigating',
-      title: 'Investigation Started',
-      description: 'SRE team began investigating root cause',
-      icon: Clock,
-      color: 'text-yellow-500',
-    },
-    {
-      time: new Date(new Date(incident.timestamp).getTime() + 15 * 60000).toISOString(),
-      type: 'analyzing',
-      title: 'AI Analysis Complete',
-      description: 'AI agent completed analysis and proposed fixes',
-      icon: CheckCircle,
-      color: 'text-blue-500',
-    },
-    ...(incident.status === 'resolved' ? [{
-      time: new Date(new Date(incident.timestamp).getTime() + 30 * 60000).toISOString(),
-      type: 'resolved',
-      title: 'Incident Resolved',
-      description: 'Service restored to normal operation',
-      icon: CheckCircle,
-      color: 'text-green-500',
-    }] : []),
-  ];
+const EVENT_STYLES: Record<string, { icon: typeof Clock; color: string }> = {
+  incident_created: { icon: AlertCircle, color: 'var(--status-critical)' },
+  duplicate_received: { icon: Copy, color: 'var(--text-tertiary)' },
+  alert_grouped: { icon: Layers, color: 'var(--accent-amber)' },
+  routing_applied: { icon: Route, color: 'var(--accent-purple)' },
+  kestra_triggered: { icon: Play, color: 'var(--accent-cyan)' },
+  kestra_trigger_failed: { icon: XCircle, color: 'var(--status-critical)' },
+  kestra_finished: { icon: CheckCircle, color: 'var(--accent-cyan)' },
+  kestra_cancelled: { icon: Ban, color: 'var(--accent-amber)' },
+  analysis_saved: { icon: Sparkles, color: 'var(--accent-magenta)' },
+  status_changed: { icon: Bell, color: 'var(--status-medium)' },
+  recovery_received: { icon: HeartPulse, color: 'var(--accent-emerald)' },
+  assignment_changed: { icon: Users, color: 'var(--accent-amber)' },
+  note_added: { icon: NotebookPen, color: 'var(--accent-cyan)' },
+  remediation_executed: { icon: Wrench, color: 'var(--accent-emerald)' },
+  slack_notified: { icon: MessageSquare, color: 'var(--accent-purple)' }
+};
+
+const DEFAULT_STYLE = { icon: Clock, color: 'var(--text-muted)' };
+
+export function IncidentTimeline({ incidentId, refreshKey = 0 }: IncidentTimelineProps) {
+  const [events, setEvents] = useState<IncidentTimelineEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadEvents() {
+      try {
+        const page = await getIncidentEvents(incidentId);
+        setEvents(page.events);
+        setNextCursor(page.next_cursor);
+        setError(null);
+      } catch (err) {
+        setError((err as Error).message || 'Failed to load timeline');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadEvents();
+  }, [incidentId, refreshKey]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await getIncidentEvents(incidentId, nextCursor);
+      setEvents(prev => [...prev, ...page.events]);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load timeline');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   return (
-    <div className="bg-white rounded-lg border border-gray-200 p-6">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4">Incident Timeline</h3>
-      <div className="space-y-4">
-        {timelineEvents.map((event, idx) => {
-          const Icon = event.icon;
-          return (
-            <div key={idx} className="flex gap-4">
-              <div className="flex flex-col items-center">
-                <div className={`p-2 rounded-full bg-gray-100 ${event.color}`}>
-                  <Icon className="w-4 h-4" />
+    <div className="glass-card p-5">
+      <div className="flex items-center gap-3 mb-4">
+        <Clock className="w-5 h-5" style={{color: 'var(--accent-cyan)'}} />
+        <h3 className="text-sm font-bold font-mono tracking-wider" style={{color: 'var(--text-primary)'}}>
+          TIMELINE
+        </h3>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin" style={{color: 'var(--accent-cyan)'}} />
+        </div>
+      ) : error ? (
+        <p className="font-mono text-xs" style={{color: 'var(--status-critical)'}}>{error}</p>
+      ) : events.length === 0 ? (
+        <p className="font-mono text-xs" style={{color: 'var(--text-muted)'}}>NO EVENTS RECORDED</p>
+      ) : (
+        <div className="space-y-4">
+          {events.map((event, idx) => {
+            const { icon: Icon, color } = EVENT_STYLES[event.type] || DEFAULT_STYLE;
+            return (
+              <div key={event.id} className="flex gap-3">
+                <div className="flex flex-col items-center">
+                  <div className="p-1.5 rounded-full" style={{background: 'var(--bg-card)', color}}>
+                    <Icon className="w-3.5 h-3.5" />
+                  </div>
+                  {idx < events.length - 1 && (
+                    <div className="w-px flex-1 mt-2" style={{background: 'var(--glass-border)'}} />
+                  )}
                 </div>
-                {idx < timelineEvents.length - 1 && (
-                  <div className="w-0.5 h-full bg-gray-200 mt-2" />
-                )}
-              </div>
-              <div className="flex-1 pb-4">
-                <div className="flex items-center justify-between mb-1">
-                  <h4 className="font-semibold text-gray-900">{event.title}</h4>
-                  <span className="text-sm text-gray-500">
-                    {formatRelativeTime(event.time)}
-                  </span>
+                <div className="flex-1 pb-2 min-w-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <h4 className="text-sm font-semibold" style={{color: 'var(--text-primary)'}}>
+                      {event.title}
+                    </h4>
+                    <span className="font-mono text-xs shrink-0" style={{color: 'var(--text-muted)'}}>
+                      {formatRelativeTime(event.occurred_at)}
+                    </span>
+                  </div>
+                  <div className="font-mono text-xs" style={{color: 'var(--text-tertiary)'}}>
+                    {formatDate(event.occurred_at)}
+                    {event.actor && ` · ${event.actor.name || event.actor.email}`}
+                  </div>
                 </div>
-                <p className="text-sm text-gray-600">{event.description}</p>
-                <span className="text-xs text-gray-400">{formatDate(event.time)}</span>
               </div>
-            </div>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <button
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="w-full mt-4 py-2 rounded font-mono text-xs tracking-wider transition-all hover:opacity-80 flex items-center justify-center gap-2"
+          style={{background: 'var(--bg-card)', color: 'var(--accent-cyan)', border: '1px solid var(--glass-border)'}}
+        >
+          {loadingMore && <Loader2 className="w-3 h-3 animate-spin" />}
+          LOAD OLDER EVENTS
+        </button>
+      )}
     </div>
   );
 }
-
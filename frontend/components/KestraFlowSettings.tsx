@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+type FlowField = 'namespace' | 'flow_id' | 'webhook_key' | 'tenant';
+
+type FlowOverrides = Partial<Record<FlowField, string>>;
+
+const FIELDS: { key: FlowField; label: string; placeholder: string }[] = [
+  { key: 'namespace', label: 'Namespace', placeholder: 'incident.response' },
+  { key: 'flow_id', label: 'Flow ID', placeholder: 'incident-handler' },
+  { key: 'webhook_key', label: 'Webhook key', placeholder: 'incident-webhook-key' },
+  { key: 'tenant', label: 'Tenant', placeholder: 'main' }
+];
+
+const inputStyle = {
+  background: 'var(--bg-card)',
+  border: '1px solid var(--glass-border)',
+  color: 'var(--text-primary)'
+};
+
+export function KestraFlowSettings() {
+  const [overrides, setOverrides] = useState<FlowOverrides | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    async function loadSettings() {
+      const response = await fetch('/api/organizations/settings');
+      if (response.ok) {
+        const settings = await response.json();
+        setOverrides(settings.kestra);
+      }
+    }
+
+    loadSettings();
+  }, []);
+
+  if (!overrides) {
+    return null;
+  }
+
+  async function save() {
+    setSaving(true);
+    setMessage('');
+
+    try {
+      // Empty fields are sent as null, which falls back to the global setting
+      const kestra = Object.fromEntries(
+        FIELDS.map(({ key }) => [key, overrides![key]?.trim() || null])
+      );
+
+      const response = await fetch('/api/organizations/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kestra })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to save Kestra settings');
+        return;
+      }
+
+      setOverrides(data.kestra);
+      setMessage('Saved');
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="glass-card p-6">
+      <h2 className="text-xl font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
+        Kestra Workflow
+      </h2>
+      <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Run this organization&apos;s analyses on its own Kestra flow. Leave a field empty to use the platform
+        setting (the defaults are shown). Set the tenant to <code>none</code> for Kestra servers without tenants.
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-6">
+        {FIELDS.map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>
+              {label}
+            </label>
+            <input
+              type="text"
+              value={overrides[key] || ''}
+              onChange={(e) => setOverrides({ ...overrides, [key]: e.target.value })}
+              placeholder={placeholder}
+              className="w-full px-3 py-2 rounded-lg text-sm font-mono"
+              style={inputStyle}
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={save}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium"
+        style={{
+          background: saving ? 'var(--bg-card)' : 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))',
+          color: saving ? 'var(--text-muted)' : 'white'
+        }}
+      >
+        {saving && <Loader2 className="w-5 h-5 animate-spin" />}
+        Save
+      </button>
+      {message && (
+        <p className="text-sm mt-3 font-mono" style={{ color: message === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
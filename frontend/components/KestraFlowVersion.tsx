@@ -0,0 +1,289 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, RotateCcw, ArrowUpCircle } from 'lucide-react';
+
+interface DiffHunk {
+  old_start: number;
+  new_start: number;
+  lines: { type: 'same' | 'added' | 'removed'; text: string }[];
+}
+
+interface FlowBackup {
+  id: string;
+  revision: number;
+  reason: 'upgrade' | 'rollback';
+  created_at: string;
+}
+
+interface FlowVersionReport {
+  namespace: string;
+  flow_id: string;
+  tenant: string;
+  status: 'missing' | 'current' | 'outdated';
+  bundled: { hash: string };
+  deployed: { revision: number; hash: string } | null;
+  diff: DiffHunk[];
+  backups: FlowBackup[];
+}
+
+interface BackupReview {
+  backup: FlowBackup;
+  deployed_revision: number | null;
+  diff: DiffHunk[];
+}
+
+const STATUS_LABELS: Record<FlowVersionReport['status'], { label: string; color: string }> = {
+  current: { label: 'Up to date', color: 'var(--accent-emerald)' },
+  outdated: { label: 'Differs from bundled', color: 'var(--accent-amber)' },
+  missing: { label: 'Not deployed', color: 'var(--status-critical)' }
+};
+
+const LINE_STYLES = {
+  same: { prefix: ' ', color: 'var(--text-muted)' },
+  added: { prefix: '+', color: 'var(--accent-emerald)' },
+  removed: { prefix: '-', color: 'var(--status-critical)' }
+};
+
+function DiffView({ hunks }: { hunks: DiffHunk[] }) {
+  if (hunks.length === 0) {
+    return (
+      <p className="text-sm" style={{ color: 'var(--text-muted)' }}>No differences.</p>
+    );
+  }
+
+  return (
+    <pre
+      className="text-xs font-mono p-4 rounded-lg overflow-auto max-h-96"
+      style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)' }}
+    >
+      {hunks.map((hunk) => (
+        <div key={`${hunk.old_start}-${hunk.new_start}`} className="mb-2">
+          <div style={{ color: 'var(--accent-cyan)' }}>
+            @@ -{hunk.old_start} +{hunk.new_start} @@
+          </div>
+          {hunk.lines.map((line, index) => (
+            <div key={index} style={{ color: LINE_STYLES[line.type].color }}>
+              {LINE_STYLES[line.type].prefix} {line.text}
+            </div>
+          ))}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function KestraFlowVersion() {
+  const [report, setReport] = useState<FlowVersionReport | null>(null);
+  const [review, setReview] = useState<BackupReview | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const loadReport = useCallback(async () => {
+    const response = await fetch('/api/setup/kestra/flow');
+    if (response.ok) {
+      setReport(await response.json());
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (!report) {
+    return null;
+  }
+
+  const deployedRevision = report.deployed?.revision ?? null;
+
+  async function change(url: string, action: string, done: string) {
+    setBusy(action);
+    setMessage('');
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision: deployedRevision })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || `Failed to ${action} the flow`);
+        if (response.status === 409) {
+          setReview(null);
+          await loadReport();
+        }
+        return;
+      }
+
+      setReview(null);
+      setMessage(`${done} (revision ${data.revision})`);
+      await loadReport();
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function upgrade() {
+    const target = deployedRevision === null ? 'Deploy the bundled flow?' : `Replace revision ${deployedRevision} with the bundled flow? It will be backed up first.`;
+    if (!confirm(target)) return;
+    change('/api/setup/kestra/flow/upgrade', 'upgrade', 'Upgraded');
+  }
+
+  async function reviewBackup(backup: FlowBackup) {
+    setBusy(`review-${backup.id}`);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/setup/kestra/flow/backups/${backup.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to load the backup');
+        return;
+      }
+
+      setReview(data);
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function rollback(backup: BackupReview['backup']) {
+    if (!confirm(`Roll back to revision ${backup.revision}? The deployed flow will be backed up first.`)) return;
+    change(`/api/setup/kestra/flow/backups/${backup.id}/rollback`, 'roll back', 'Rolled back');
+  }
+
+  const status = STATUS_LABELS[report.status];
+
+  return (
+    <div className="glass-card p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold" style={{ color: 'var(--text-primary)' }}>
+          Incident Flow Version
+        </h2>
+        <span className="text-xs font-mono px-2 py-1 rounded" style={{ color: status.color, border: `1px solid ${status.color}` }}>
+          {status.label}
+        </span>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4 mb-6 text-sm">
+        <div>
+          <div className="font-mono text-xs mb-1" style={{ color: 'var(--text-muted)' }}>FLOW</div>
+          <div className="font-mono" style={{ color: 'var(--text-secondary)' }}>
+            {report.namespace}/{report.flow_id}
+          </div>
+        </div>
+        <div>
+          <div className="font-mono text-xs mb-1" style={{ color: 'var(--text-muted)' }}>DEPLOYED</div>
+          <div className="font-mono" style={{ color: 'var(--text-secondary)' }}>
+            {report.deployed ? `rev ${report.deployed.revision} · ${report.deployed.hash}` : '—'}
+          </div>
+        </div>
+        <div>
+          <div className="font-mono text-xs mb-1" style={{ color: 'var(--text-muted)' }}>BUNDLED</div>
+          <div className="font-mono" style={{ color: 'var(--text-secondary)' }}>{report.bundled.hash}</div>
+        </div>
+      </div>
+
+      {report.status === 'outdated' && (
+        <div className="mb-6">
+          <h3 className="font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>
+            Deployed → bundled
+          </h3>
+          <DiffView hunks={report.diff} />
+        </div>
+      )}
+
+      {report.status !== 'current' && (
+        <button
+          onClick={upgrade}
+          disabled={!!busy}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium mb-6"
+          style={{
+            background: busy ? 'var(--bg-card)' : 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))',
+            color: busy ? 'var(--text-muted)' : 'white'
+          }}
+        >
+          {busy === 'upgrade' ? <Loader2 className="w-5 h-5 animate-spin" /> : <ArrowUpCircle className="w-5 h-5" />}
+          {report.deployed ? 'Upgrade to bundled version' : 'Deploy bundled version'}
+        </button>
+      )}
+
+      {report.backups.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>
+            Backups
+          </h3>
+          <div className="space-y-2">
+            {report.backups.map((backup) => (
+              <div
+                key={backup.id}
+                className="flex items-center justify-between p-3 rounded-lg text-sm"
+                style={{
+                  background: 'var(--bg-card)',
+                  border: review?.backup.id === backup.id ? '1px solid var(--accent-cyan)' : '1px solid var(--glass-border)'
+                }}
+              >
+                <span className="font-mono" style={{ color: 'var(--text-secondary)' }}>
+                  rev {backup.revision} · before {backup.reason} · {new Date(backup.created_at).toLocaleString()}
+                </span>
+                <button
+                  onClick={() => reviewBackup(backup)}
+                  disabled={!!busy}
+                  className="flex items-center gap-1 text-xs font-mono"
+                  style={{ color: 'var(--accent-cyan)' }}
+                >
+                  {busy === `review-${backup.id}` && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Review
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {review && (
+        <div className="mt-6">
+          <h3 className="font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>
+            Deployed → backup (rev {review.backup.revision})
+          </h3>
+          {review.deployed_revision !== deployedRevision ? (
+            <p className="text-sm" style={{ color: 'var(--accent-amber)' }}>
+              The deployed flow changed since this page loaded. Reload before rolling back.
+            </p>
+          ) : (
+            <>
+              <DiffView hunks={review.diff} />
+              <button
+                onClick={() => rollback(review.backup)}
+                disabled={!!busy || review.diff.length === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium mt-4"
+                style={{
+                  background: 'var(--bg-card)',
+                  border: '1px solid var(--glass-border)',
+                  color: busy || review.diff.length === 0 ? 'var(--text-muted)' : 'var(--text-primary)'
+                }}
+              >
+                {busy === 'roll back' ? <Loader2 className="w-5 h-5 animate-spin" /> : <RotateCcw className="w-5 h-5" />}
+                Roll back to revision {review.backup.revision}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p className="text-sm mt-3 font-mono" style={{ color: message.startsWith('Upgraded') || message.startsWith('Rolled back') ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+
+type Bucket = 'ingest' | 'analyze';
+
+type RateLimits = Record<Bucket, { limit: number; window_seconds: number }>;
+
+const BUCKET_LABELS: Record<Bucket, string> = {
+  ingest: 'Webhook ingestion',
+  analyze: 'AI analysis'
+};
+
+export function OrganizationQuotas({ organizationId }: { organizationId: string }) {
+  const [rateLimits, setRateLimits] = useState<RateLimits | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    async function loadRateLimits() {
+      const response = await fetch(`/api/admin/organizations/${organizationId}/rate-limits`);
+      const data = await response.json();
+      if (response.ok) {
+        setRateLimits(data.rate_limits);
+      } else {
+        setMessage(data.error || 'Failed to load quotas');
+      }
+    }
+
+    loadRateLimits();
+  }, [organizationId]);
+
+  function updatePolicy(bucket: Bucket, field: 'limit' | 'window_seconds', value: string) {
+    setRateLimits(prev => prev && { ...prev, [bucket]: { ...prev[bucket], [field]: Number(value) } });
+  }
+
+  async function saveRateLimits() {
+    setSaving(true);
+    setMessage('');
+    try {
+      const response = await fetch(`/api/admin/organizations/${organizationId}/rate-limits`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rate_limits: rateLimits })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to save quotas');
+        return;
+      }
+
+      setRateLimits(data.rate_limits);
+      setMessage('Saved');
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!rateLimits) {
+    return message
+      ? <p className="text-sm" style={{ color: 'var(--status-critical)' }}>{message}</p>
+      : <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'var(--accent-cyan)' }} />;
+  }
+
+  const inputStyle = {
+    background: 'var(--bg-primary)',
+    border: '1px solid var(--glass-border)',
+    color: 'var(--text-primary)'
+  };
+
+  return (
+    <div className="space-y-3">
+      {(Object.keys(BUCKET_LABELS) as Bucket[]).map(bucket => (
+        <div key={bucket} className="flex items-center gap-3 text-sm flex-wrap">
+          <span className="w-40" style={{ color: 'var(--text-secondary)' }}>{BUCKET_LABELS[bucket]}</span>
+          <input
+            type="number"
+            min={1}
+            value={rateLimits[bucket].limit}
+            onChange={(e) => updatePolicy(bucket, 'limit', e.target.value)}
+            className="px-3 py-1.5 rounded-lg w-28 font-mono"
+            style={inputStyle}
+          />
+          <span style={{ color: 'var(--text-muted)' }}>requests per</span>
+          <input
+            type="number"
+            min={1}
+            value={rateLimits[bucket].window_seconds}
+            onChange={(e) => updatePolicy(bucket, 'window_seconds', e.target.value)}
+            className="px-3 py-1.5 rounded-lg w-28 font-mono"
+            style={inputStyle}
+          />
+          <span style={{ color: 'var(--text-muted)' }}>seconds</span>
+        </div>
+      ))}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={saveRateLimits}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium"
+          style={{ background: 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))', color: 'white' }}
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Quotas
+        </button>
+        {message && (
+          <span className="text-sm font-mono" style={{ color: message === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+            {message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, RefreshCw, RotateCcw, Send, Trash2, X } from 'lucide-react';
+
+type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead' | 'discarded';
+
+interface OutboxEntry {
+  id: string;
+  kind: string;
+  payload: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  created_at: string;
+  delivered_at: string | null;
+  incident: { external_id: string; title: string } | null;
+}
+
+const STATUS_COLORS: Record<OutboxStatus, string> = {
+  pending: 'var(--accent-amber)',
+  processing: 'var(--accent-cyan)',
+  delivered: 'var(--accent-emerald)',
+  dead: 'var(--status-critical)',
+  discarded: 'var(--text-muted)'
+};
+
+const KIND_LABELS: Record<string, string> = {
+  kestra_trigger: 'Kestra trigger',
+  slack_notification: 'Slack',
+  webhook: 'Webhook'
+};
+
+function canAct(entry: OutboxEntry) {
+  return entry.status === 'pending' || entry.status === 'dead';
+}
+
+export function OutboxEntries() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [canView, setCanView] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<OutboxStatus | ''>('');
+  const [reloadCount, setReloadCount] = useState(0);
+  const [selected, setSelected] = useState<OutboxEntry | null>(null);
+  const [acting, setActing] = useState<'retry' | 'discard' | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    async function loadEntries() {
+      try {
+        const response = await fetch(`/api/organizations/outbox${status ? `?status=${status}` : ''}`);
+        if (response.ok) {
+          const data = await response.json();
+          setEntries(data.entries);
+          setCanView(true);
+        }
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadEntries();
+  }, [status, reloadCount]);
+
+  async function runAction(entry: OutboxEntry, action: 'retry' | 'discard') {
+    setActing(action);
+    setError('');
+    try {
+      const response = await fetch(`/api/organizations/outbox/${entry.id}/${action}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || `Failed to ${action} entry`);
+        return;
+      }
+
+      if (action === 'retry' && !data.attempt.delivered) {
+        setError(data.attempt.error || 'Delivery failed');
+      }
+      setSelected(null);
+      setReloadCount(count => count + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setActing(null);
+    }
+  }
+
+  if (loading || !canView) {
+    return null;
+  }
+
+  return (
+    <div className="glass-card p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Send className="w-5 h-5" style={{ color: 'var(--accent-cyan)' }} />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--text-primary)' }}>
+            Outbound Queue
+          </h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as OutboxStatus | '')}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-primary)' }}
+          >
+            <option value="">All statuses</option>
+            <option value="pending">Pending</option>
+            <option value="processing">Processing</option>
+            <option value="delivered">Delivered</option>
+            <option value="dead">Dead</option>
+            <option value="discarded">Discarded</option>
+          </select>
+          <button
+            onClick={() => setReloadCount(count => count + 1)}
+            className="p-2 rounded-lg"
+            style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)' }}
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />
+          </button>
+        </div>
+      </div>
+      <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Kestra triggers, Slack messages and outbound webhooks. Failed sends are retried with backoff; entries that
+        run out of attempts are dead until you retry or discard them.
+      </p>
+
+      {error && (
+        <p className="text-sm mb-4 font-mono" style={{ color: 'var(--status-critical)' }}>{error}</p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--text-muted)' }}>Nothing queued</p>
+      ) : (
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {entries.map(entry => (
+            <button
+              key={entry.id}
+              onClick={() => setSelected(entry)}
+              className="w-full flex items-center gap-4 p-3 rounded-lg text-left text-sm"
+              style={{
+                background: 'var(--bg-card)',
+                border: selected?.id === entry.id ? '1px solid var(--accent-cyan)' : '1px solid var(--glass-border)'
+              }}
+            >
+              <span className="font-mono text-xs w-40 flex-shrink-0" style={{ color: 'var(--text-muted)' }}>
+                {new Date(entry.created_at).toLocaleString()}
+              </span>
+              <span className="font-mono text-xs w-20" style={{ color: STATUS_COLORS[entry.status] }}>
+                {entry.status}
+              </span>
+              <code className="text-xs w-28 truncate" style={{ color: 'var(--accent-magenta)' }}>
+                {KIND_LABELS[entry.kind] || entry.kind}
+              </code>
+              <span className="font-mono text-xs w-12" style={{ color: 'var(--text-muted)' }}>
+                {entry.attempts}/{entry.max_attempts}
+              </span>
+              <span className="flex-1 truncate text-xs" style={{ color: 'var(--text-secondary)' }}>
+                {entry.last_error || entry.incident?.title || ''}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="mt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>
+              {KIND_LABELS[selected.kind] || selected.kind} · {selected.status}
+              {selected.status === 'pending' && ` · next attempt ${new Date(selected.next_attempt_at).toLocaleString()}`}
+            </h3>
+            <div className="flex items-center gap-2">
+              {canAct(selected) && (
+                <>
+                  <button
+                    onClick={() => runAction(selected, 'retry')}
+                    disabled={!!acting}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium"
+                    style={{ background: 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))', color: 'white' }}
+                    title="Attempt delivery now"
+                  >
+                    {acting === 'retry' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    Retry
+                  </button>
+                  <button
+                    onClick={() => runAction(selected, 'discard')}
+                    disabled={!!acting}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium"
+                    style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--status-critical)' }}
+                    title="Stop retrying this entry"
+                  >
+                    {acting === 'discard' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    Discard
+                  </button>
+                </>
+              )}
+              <button onClick={() => setSelected(null)} className="p-2 rounded" title="Close">
+                <X className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />
+              </button>
+            </div>
+          </div>
+
+          {selected.incident && (
+            <div className="flex items-center gap-2 text-sm">
+              <span style={{ color: 'var(--text-muted)' }}>Incident:</span>
+              <Link href={`/incident/${selected.incident.external_id}`} className="font-mono text-xs" style={{ color: 'var(--accent-cyan)' }}>
+                {selected.incident.external_id}
+              </Link>
+              <span className="truncate" style={{ color: 'var(--text-secondary)' }}>{selected.incident.title}</span>
+            </div>
+          )}
+
+          {selected.last_error && (
+            <div>
+              <h4 className="text-xs font-mono mb-2" style={{ color: 'var(--text-muted)' }}>LAST ERROR</h4>
+              <pre className="p-4 rounded-lg overflow-auto text-xs max-h-40 whitespace-pre-wrap" style={{ background: 'var(--bg-card)', color: 'var(--status-critical)' }}>
+                {selected.last_error}
+              </pre>
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-xs font-mono mb-2" style={{ color: 'var(--text-muted)' }}>PAYLOAD</h4>
+              <pre className="p-4 rounded-lg overflow-auto text-xs max-h-80" style={{ background: 'var(--bg-card)', color: 'var(--text-primary)' }}>
+                {JSON.stringify(selected.payload, null, 2)}
+              </pre>
+            </div>
+            <div>
+              <h4 className="text-xs font-mono mb-2" style={{ color: 'var(--text-muted)' }}>RESULT</h4>
+              <pre className="p-4 rounded-lg overflow-auto text-xs max-h-80" style={{ background: 'var(--bg-card)', color: 'var(--text-primary)' }}>
+                {JSON.stringify(selected.result, null, 2)}
+              </pre>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
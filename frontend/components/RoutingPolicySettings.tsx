@@ -0,0 +1,383 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+
+type RoutingAction = 'analyze' | 'notify';
+
+interface RoutingRule {
+  name: string;
+  match: {
+    severity?: string[];
+    service?: string[];
+    source?: string[];
+    tags?: string[];
+    business_hours?: 'inside' | 'outside';
+  };
+  actions: RoutingAction[];
+}
+
+interface RoutingPolicy {
+  rules: RoutingRule[];
+  default_actions: RoutingAction[];
+  business_hours: {
+    timezone: string;
+    days: number[];
+    start: string;
+    end: string;
+  };
+}
+
+// Lists are edited as comma-separated text and split on save
+interface DraftRule {
+  name: string;
+  severity: string[];
+  service: string;
+  source: string;
+  tags: string;
+  business_hours: '' | 'inside' | 'outside';
+  actions: RoutingAction[];
+}
+
+const SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+const ACTION_LABELS: Record<RoutingAction, string> = { analyze: 'Run AI analysis', notify: 'Notify Slack' };
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputStyle = {
+  background: 'var(--bg-card)',
+  border: '1px solid var(--glass-border)',
+  color: 'var(--text-primary)'
+};
+
+function toDraft(rule: RoutingRule): DraftRule {
+  return {
+    name: rule.name,
+    severity: rule.match.severity || [],
+    service: (rule.match.service || []).join(', '),
+    source: (rule.match.source || []).join(', '),
+    tags: (rule.match.tags || []).join(', '),
+    business_hours: rule.match.business_hours || '',
+    actions: rule.actions
+  };
+}
+
+function splitList(value: string): string[] | undefined {
+  const values = value.split(',').map(v => v.trim()).filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function fromDraft(draft: DraftRule): RoutingRule {
+  return {
+    name: draft.name,
+    match: {
+      severity: draft.severity.length > 0 ? draft.severity : undefined,
+      service: splitList(draft.service),
+      source: splitList(draft.source),
+      tags: splitList(draft.tags),
+      business_hours: draft.business_hours || undefined
+    },
+    actions: draft.actions
+  };
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+export function RoutingPolicySettings() {
+  const [rules, setRules] = useState<DraftRule[] | null>(null);
+  const [defaultActions, setDefaultActions] = useState<RoutingAction[]>([]);
+  const [hours, setHours] = useState<RoutingPolicy['business_hours'] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  function applyPolicy(policy: RoutingPolicy) {
+    setRules(policy.rules.map(toDraft));
+    setDefaultActions(policy.default_actions);
+    setHours(policy.business_hours);
+  }
+
+  useEffect(() => {
+    async function loadSettings() {
+      const response = await fetch('/api/organizations/settings');
+      if (response.ok) {
+        const settings = await response.json();
+        applyPolicy(settings.routing);
+      }
+    }
+
+    loadSettings();
+  }, []);
+
+  if (!rules || !hours) {
+    return null;
+  }
+
+  function updateRule(index: number, changes: Partial<DraftRule>) {
+    setRules(current => current && current.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  }
+
+  function moveRule(index: number, offset: number) {
+    setRules(current => {
+      if (!current) return current;
+      const next = [...current];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      return next;
+    });
+  }
+
+  async function save() {
+    setSaving(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/organizations/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          routing: {
+            rules: rules!.map(fromDraft),
+            default_actions: defaultActions,
+            business_hours: hours
+          }
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to save routing policy');
+        return;
+      }
+
+      applyPolicy(data.routing);
+      setMessage('Saved');
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="glass-card p-6">
+      <h2 className="text-xl font-semibold mb-4" style={{ color: 'var(--text-primary)' }}>
+        Incident Routing
+      </h2>
+      <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Decide what happens when an alert opens a new incident. Rules are checked from top to bottom and the first
+        match wins; leave a condition empty to match anything. Tags match the alert&apos;s tags and labels:
+        <code> env</code> matches any value, <code>env:prod</code> only that one.
+      </p>
+
+      <div className="space-y-3 mb-3">
+        {rules.map((rule, index) => (
+          <div key={index} className="p-4 rounded-lg" style={{ background: 'var(--bg-card)' }}>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <span className="font-mono text-xs" style={{ color: 'var(--text-muted)' }}>#{index + 1}</span>
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+                placeholder="Rule name"
+                maxLength={60}
+                className="px-3 py-2 rounded-lg text-sm flex-1 min-w-48"
+                style={inputStyle}
+              />
+              <button
+                onClick={() => moveRule(index, -1)}
+                disabled={index === 0}
+                className="p-2 rounded disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" style={{ color: 'var(--text-secondary)' }} />
+              </button>
+              <button
+                onClick={() => moveRule(index, 1)}
+                disabled={index === rules.length - 1}
+                className="p-2 rounded disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" style={{ color: 'var(--text-secondary)' }} />
+              </button>
+              <button
+                onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                className="p-2 rounded"
+                title="Remove rule"
+              >
+                <Trash2 className="w-4 h-4" style={{ color: 'var(--status-critical)' }} />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mb-3">
+              {SEVERITIES.map(severity => (
+                <label key={severity} className="flex items-center gap-1 text-xs font-mono" style={{ color: 'var(--text-secondary)' }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.severity.includes(severity)}
+                    onChange={() => updateRule(index, { severity: toggle(rule.severity, severity) })}
+                  />
+                  {severity}
+                </label>
+              ))}
+              <select
+                value={rule.business_hours}
+                onChange={(e) => updateRule(index, { business_hours: e.target.value as DraftRule['business_hours'] })}
+                className="px-2 py-1 rounded text-sm"
+                style={inputStyle}
+              >
+                <option value="">Any time</option>
+                <option value="inside">During business hours</option>
+                <option value="outside">Outside business hours</option>
+              </select>
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-2 mb-3">
+              <input
+                type="text"
+                value={rule.service}
+                onChange={(e) => updateRule(index, { service: e.target.value })}
+                placeholder="Services: payment-*, auth-service"
+                className="px-3 py-2 rounded-lg text-sm font-mono"
+                style={inputStyle}
+              />
+              <input
+                type="text"
+                value={rule.source}
+                onChange={(e) => updateRule(index, { source: e.target.value })}
+                placeholder="Sources: datadog, prometheus"
+                className="px-3 py-2 rounded-lg text-sm font-mono"
+                style={inputStyle}
+              />
+              <input
+                type="text"
+                value={rule.tags}
+                onChange={(e) => updateRule(index, { tags: e.target.value })}
+                placeholder="Tags: env:prod, team:payments"
+                className="px-3 py-2 rounded-lg text-sm font-mono"
+                style={inputStyle}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-xs" style={{ color: 'var(--text-muted)' }}>Then:</span>
+              {(Object.keys(ACTION_LABELS) as RoutingAction[]).map(action => (
+                <label key={action} className="flex items-center gap-1 text-sm" style={{ color: 'var(--text-secondary)' }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.actions.includes(action)}
+                    onChange={() => updateRule(index, { actions: toggle(rule.actions, action) })}
+                  />
+                  {ACTION_LABELS[action]}
+                </label>
+              ))}
+              {rule.actions.length === 0 && (
+                <span className="text-xs" style={{ color: 'var(--text-muted)' }}>Store the incident only</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => setRules([
+          ...rules,
+          { name: '', severity: [], service: '', source: '', tags: '', business_hours: '', actions: ['analyze'] }
+        ])}
+        className="flex items-center gap-2 text-sm mb-6"
+        style={{ color: 'var(--accent-cyan)' }}
+      >
+        <Plus className="w-4 h-4" />
+        Add rule
+      </button>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <span className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>When no rule matches:</span>
+        {(Object.keys(ACTION_LABELS) as RoutingAction[]).map(action => (
+          <label key={action} className="flex items-center gap-1 text-sm" style={{ color: 'var(--text-secondary)' }}>
+            <input
+              type="checkbox"
+              checked={defaultActions.includes(action)}
+              onChange={() => setDefaultActions(toggle(defaultActions, action))}
+            />
+            {ACTION_LABELS[action]}
+          </label>
+        ))}
+      </div>
+
+      <h3 className="text-sm font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>
+        Business hours
+      </h3>
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-xs mb-1" style={{ color: 'var(--text-muted)' }}>Time zone</label>
+          <input
+            type="text"
+            value={hours.timezone}
+            onChange={(e) => setHours({ ...hours, timezone: e.target.value })}
+            placeholder="Europe/Berlin"
+            className="px-3 py-2 rounded-lg text-sm font-mono w-48"
+            style={inputStyle}
+          />
+        </div>
+        <div className="flex gap-1">
+          {DAYS.map((day, index) => {
+            const active = hours.days.includes(index);
+            return (
+              <button
+                key={day}
+                onClick={() => setHours({ ...hours, days: toggle(hours.days, index) })}
+                className="px-2 py-2 rounded text-xs font-mono"
+                style={{
+                  background: active ? 'var(--accent-cyan)' : 'var(--bg-card)',
+                  color: active ? 'var(--bg-primary)' : 'var(--text-secondary)',
+                  border: '1px solid var(--glass-border)'
+                }}
+              >
+                {day}
+              </button>
+            );
+          })}
+        </div>
+        <div>
+          <label className="block text-xs mb-1" style={{ color: 'var(--text-muted)' }}>From</label>
+          <input
+            type="time"
+            value={hours.start}
+            onChange={(e) => setHours({ ...hours, start: e.target.value })}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label className="block text-xs mb-1" style={{ color: 'var(--text-muted)' }}>To</label>
+          <input
+            type="time"
+            value={hours.end}
+            onChange={(e) => setHours({ ...hours, end: e.target.value })}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={save}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium"
+        style={{
+          background: saving ? 'var(--bg-card)' : 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))',
+          color: saving ? 'var(--text-muted)' : 'white'
+        }}
+      >
+        {saving && <Loader2 className="w-5 h-5 animate-spin" />}
+        Save
+      </button>
+      {message && (
+        <p className="text-sm mt-3 font-mono" style={{ color: message === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { History, Loader2, RefreshCw, RotateCcw, X } from 'lucide-react';
+
+type Outcome = 'accepted' | 'rejected' | 'failed';
+
+interface Delivery {
+  id: string;
+  request_id: string;
+  source: string;
+  status_code: number;
+  outcome: Outcome;
+  error: string | null;
+  incident_ids: string[];
+  replay_of: string | null;
+  bulk: boolean;
+  received_at: string;
+  headers?: Record<string, string>;
+  body?: string | null;
+  body_truncated?: boolean;
+  response?: Record<string, unknown> | null;
+}
+
+const OUTCOME_COLORS: Record<Outcome, string> = {
+  accepted: 'var(--accent-emerald)',
+  rejected: 'var(--accent-amber)',
+  failed: 'var(--status-critical)'
+};
+
+function prettyBody(body: string | null | undefined) {
+  if (!body) return '';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+// Incident pages are addressed by external ID, which the ingest response carries per alert
+function incidentLinks(delivery: Delivery): string[] {
+  const results = (delivery.response?.results || []) as Array<{ incident_id?: string | null }>;
+  return [...new Set(results.map(r => r.incident_id).filter((id): id is string => !!id))];
+}
+
+export function WebhookDeliveries() {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [canView, setCanView] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [outcome, setOutcome] = useState<Outcome | ''>('');
+  const [reloadCount, setReloadCount] = useState(0);
+  const [selected, setSelected] = useState<Delivery | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [replayResult, setReplayResult] = useState<{ status: number; response: unknown } | null>(null);
+
+  useEffect(() => {
+    async function loadDeliveries() {
+      try {
+        const response = await fetch(`/api/organizations/webhook-deliveries${outcome ? `?outcome=${outcome}` : ''}`);
+        if (response.ok) {
+          const data = await response.json();
+          setDeliveries(data.deliveries);
+          setCanView(true);
+        }
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadDeliveries();
+  }, [outcome, reloadCount]);
+
+  async function openDelivery(delivery: Delivery) {
+    setReplayResult(null);
+    const response = await fetch(`/api/organizations/webhook-deliveries/${delivery.id}`);
+    if (response.ok) {
+      const data = await response.json();
+      setSelected(data.delivery);
+    }
+  }
+
+  async function replayDelivery(delivery: Delivery) {
+    setReplaying(true);
+    setReplayResult(null);
+    try {
+      const response = await fetch(`/api/organizations/webhook-deliveries/${delivery.id}/replay`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setReplayResult({ status: response.status, response: data });
+        return;
+      }
+
+      setReplayResult({ status: data.status, response: data.response });
+      if (data.delivery) {
+        setDeliveries(prev => [data.delivery, ...prev]);
+      }
+    } catch (err) {
+      setReplayResult({ status: 0, response: { error: (err as Error).message } });
+    } finally {
+      setReplaying(false);
+    }
+  }
+
+  if (loading || !canView) {
+    return null;
+  }
+
+  return (
+    <div className="glass-card p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5" style={{ color: 'var(--accent-cyan)' }} />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--text-primary)' }}>
+            Recent Deliveries
+          </h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as Outcome | '')}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-primary)' }}
+          >
+            <option value="">All outcomes</option>
+            <option value="accepted">Accepted</option>
+            <option value="rejected">Rejected</option>
+            <option value="failed">Failed</option>
+          </select>
+          <button
+            onClick={() => setReloadCount(count => count + 1)}
+            className="p-2 rounded-lg"
+            style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)' }}
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />
+          </button>
+        </div>
+      </div>
+      <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Every request sent with one of your keys, including rejected payloads. Open a delivery to see the body
+        and replay it, e.g. after fixing a custom source mapping. Bodies are stored with your redaction rules
+        applied, so a replay ingests the redacted payload.
+      </p>
+
+      {deliveries.length === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--text-muted)' }}>No deliveries yet</p>
+      ) : (
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {deliveries.map(delivery => (
+            <button
+              key={delivery.id}
+              onClick={() => openDelivery(delivery)}
+              className="w-full flex items-center gap-4 p-3 rounded-lg text-left text-sm"
+              style={{
+                background: 'var(--bg-card)',
+                border: selected?.id === delivery.id ? '1px solid var(--accent-cyan)' : '1px solid var(--glass-border)'
+              }}
+            >
+              <span className="font-mono text-xs w-40 flex-shrink-0" style={{ color: 'var(--text-muted)' }}>
+                {new Date(delivery.received_at).toLocaleString()}
+              </span>
+              <span className="font-mono text-xs w-12" style={{ color: OUTCOME_COLORS[delivery.outcome] }}>
+                {delivery.status_code}
+              </span>
+              <code className="text-xs w-28 truncate" style={{ color: 'var(--accent-magenta)' }}>{delivery.source}</code>
+              <span className="flex-1 truncate text-xs" style={{ color: 'var(--text-secondary)' }}>
+                {delivery.replay_of && <RotateCcw className="w-3 h-3 inline mr-1" />}
+                {delivery.error || `${delivery.incident_ids.length} incident${delivery.incident_ids.length === 1 ? '' : 's'}`}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="mt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>
+              {selected.request_id}
+            </h3>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => replayDelivery(selected)}
+                disabled={replaying || selected.body_truncated || selected.bulk}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium"
+                style={{ background: 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))', color: 'white' }}
+                title={selected.bulk
+                  ? 'Bulk imports cannot be replayed'
+                  : selected.body_truncated ? 'Truncated payloads cannot be replayed' : 'Run normalization and ingestion again'}
+              >
+                {replaying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                Replay
+              </button>
+              <button onClick={() => setSelected(null)} className="p-2 rounded" title="Close">
+                <X className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />
+              </button>
+            </div>
+          </div>
+
+          {incidentLinks(selected).length > 0 && (
+            <div className="flex items-center gap-2 text-sm flex-wrap">
+              <span style={{ color: 'var(--text-muted)' }}>Incidents:</span>
+              {incidentLinks(selected).map(id => (
+                <Link key={id} href={`/incident/${id}`} className="font-mono text-xs" style={{ color: 'var(--accent-cyan)' }}>
+                  {id}
+                </Link>
+              ))}
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-xs font-mono mb-2" style={{ color: 'var(--text-muted)' }}>
+                BODY{selected.body_truncated && ' (TRUNCATED)'}
+              </h4>
+              <pre className="p-4 rounded-lg overflow-auto text-xs max-h-80" style={{ background: 'var(--bg-card)', color: 'var(--text-primary)' }}>
+                {prettyBody(selected.body)}
+              </pre>
+            </div>
+            <div>
+              <h4 className="text-xs font-mono mb-2" style={{ color: 'var(--text-muted)' }}>HEADERS</h4>
+              <pre className="p-4 rounded-lg overflow-auto text-xs max-h-80" style={{ background: 'var(--bg-card)', color: 'var(--text-primary)' }}>
+                {JSON.stringify(selected.headers || {}, null, 2)}
+              </pre>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-mono mb-2" style={{ color: 'var(--text-muted)' }}>
+              {replayResult ? `REPLAY RESPONSE (${replayResult.status})` : `RESPONSE (${selected.status_code})`}
+            </h4>
+            <pre className="p-4 rounded-lg overflow-auto text-xs max-h-80" style={{ background: 'var(--bg-card)', color: 'var(--text-primary)' }}>
+              {JSON.stringify(replayResult ? replayResult.response : selected.response, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Ban, Check, Copy, KeyRound, Loader2, Plus, RefreshCw } from 'lucide-react';
+
+interface WebhookKey {
+  id: string;
+  name: string;
+  key: string;
+  source: string | null;
+  is_primary: boolean;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+interface WebhookKeysProps {
+  // Called when the primary key is rotated so the page can show the new one
+  onPrimaryKeyChange: (key: string) => void;
+}
+
+const GRACE_PERIODS = [
+  { label: 'Immediately', hours: 0 },
+  { label: '1 hour', hours: 1 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 168 },
+  { label: '30 days', hours: 720 }
+];
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : 'Never';
+}
+
+function keyStatus(key: WebhookKey): { label: string; color: string } {
+  if (key.revoked_at) {
+    return { label: 'REVOKED', color: 'var(--status-critical)' };
+  }
+  if (key.expires_at) {
+    return new Date(key.expires_at) <= new Date()
+      ? { label: 'EXPIRED', color: 'var(--text-muted)' }
+      : { label: `EXPIRES ${formatTime(key.expires_at)}`, color: 'var(--accent-amber)' };
+  }
+  return { label: 'ACTIVE', color: 'var(--accent-emerald)' };
+}
+
+export function WebhookKeys({ onPrimaryKeyChange }: WebhookKeysProps) {
+  const [keys, setKeys] = useState<WebhookKey[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [source, setSource] = useState('');
+  const [rotatingId, setRotatingId] = useState<string | null>(null);
+  const [graceHours, setGraceHours] = useState(24);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadKeys() {
+      try {
+        const response = await fetch('/api/organizations/webhook-keys');
+        if (response.ok) {
+          const data = await response.json();
+          setKeys(data.keys);
+          setCanManage(true);
+        }
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadKeys();
+  }, []);
+
+  async function createKey() {
+    setBusy(true);
+    setMessage('');
+    try {
+      const response = await fetch('/api/organizations/webhook-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, source: source.trim() || null })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to create key');
+        return;
+      }
+
+      // Primary key first, then newest
+      setKeys(prev => [...prev.filter(k => k.is_primary), data.key, ...prev.filter(k => !k.is_primary)]);
+      setName('');
+      setSource('');
+      setMessage('Saved');
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function rotateKey(key: WebhookKey) {
+    setBusy(true);
+    setMessage('');
+    try {
+      const response = await fetch(`/api/organizations/webhook-keys/${key.id}/rotate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grace_period_hours: graceHours })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to rotate key');
+        return;
+      }
+
+      setKeys(prev => [data.key, ...prev.map(k => k.id === data.previous.id ? data.previous : k)]
+        .sort((a, b) => Number(b.is_primary) - Number(a.is_primary)));
+      if (data.key.is_primary) {
+        onPrimaryKeyChange(data.key.key);
+      }
+      setRotatingId(null);
+      setMessage('Saved');
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revokeKey(key: WebhookKey) {
+    if (!confirm(`Revoke "${key.name}"? Senders using it will be rejected immediately.`)) return;
+
+    const response = await fetch(`/api/organizations/webhook-keys/${key.id}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (response.ok) {
+      setKeys(prev => prev.map(k => k.id === key.id ? data.key : k));
+    } else {
+      setMessage(data.error || 'Failed to revoke key');
+    }
+  }
+
+  function copyKey(key: WebhookKey) {
+    navigator.clipboard.writeText(key.key);
+    setCopied(key.id);
+    setTimeout(() => setCopied(null), 2000);
+  }
+
+  if (loading || !canManage) {
+    return null;
+  }
+
+  const inputStyle = {
+    background: 'var(--bg-card)',
+    border: '1px solid var(--glass-border)',
+    color: 'var(--text-primary)'
+  };
+
+  return (
+    <div className="glass-card p-6 mb-8">
+      <div className="flex items-center gap-3 mb-4">
+        <KeyRound className="w-5 h-5" style={{ color: 'var(--accent-cyan)' }} />
+        <h2 className="text-lg font-semibold" style={{ color: 'var(--text-primary)' }}>
+          Ingestion Keys
+        </h2>
+      </div>
+      <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Give each integration its own key, optionally limited to one source. Rotating a key issues a
+        replacement and keeps the old one working for the grace period so senders can be updated.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        {keys.map(key => {
+          const status = keyStatus(key);
+          const active = status.label === 'ACTIVE' || status.label.startsWith('EXPIRES');
+
+          return (
+            <div
+              key={key.id}
+              className="p-3 rounded-lg"
+              style={{ background: 'var(--bg-card)', border: rotatingId === key.id ? '1px solid var(--accent-cyan)' : '1px solid var(--glass-border)' }}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>{key.name}</span>
+                    {key.is_primary && (
+                      <span className="text-xs font-mono px-2 py-0.5 rounded" style={{ background: 'rgba(6, 182, 212, 0.15)', color: 'var(--accent-cyan)' }}>
+                        PRIMARY
+                      </span>
+                    )}
+                    <span className="text-xs font-mono" style={{ color: status.color }}>{status.label}</span>
+                    <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                      {key.source ? `source=${key.source}` : 'any source'}
+                    </span>
+                  </div>
+                  <code className="text-xs break-all" style={{ color: 'var(--text-secondary)' }}>
+                    {key.key.substring(0, 12)}…{key.key.slice(-4)}
+                  </code>
+                  <div className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+                    Created {formatTime(key.created_at)} · Last used {formatTime(key.last_used_at)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button onClick={() => copyKey(key)} className="p-2 rounded" title="Copy key">
+                    {copied === key.id
+                      ? <Check className="w-4 h-4" style={{ color: 'var(--accent-emerald)' }} />
+                      : <Copy className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />}
+                  </button>
+                  {active && (
+                    <button
+                      onClick={() => setRotatingId(rotatingId === key.id ? null : key.id)}
+                      className="p-2 rounded"
+                      title="Rotate key"
+                    >
+                      <RefreshCw className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />
+                    </button>
+                  )}
+                  {active && !key.is_primary && (
+                    <button onClick={() => revokeKey(key)} className="p-2 rounded" title="Revoke key">
+                      <Ban className="w-4 h-4" style={{ color: 'var(--status-critical)' }} />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {rotatingId === key.id && (
+                <div className="flex items-center gap-3 mt-3">
+                  <label className="text-sm" style={{ color: 'var(--text-secondary)' }}>Keep the old key working for</label>
+                  <select
+                    value={graceHours}
+                    onChange={(e) => setGraceHours(Number(e.target.value))}
+                    className="px-3 py-2 rounded-lg text-sm"
+                    style={inputStyle}
+                  >
+                    {GRACE_PERIODS.map(period => (
+                      <option key={period.hours} value={period.hours}>{period.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => rotateKey(key)}
+                    disabled={busy}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium"
+                    style={{ background: 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))', color: 'white' }}
+                  >
+                    {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                    Rotate
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name (e.g. Prod Alertmanager)"
+          className="px-4 py-2 rounded-lg text-sm flex-1 min-w-[200px]"
+          style={inputStyle}
+        />
+        <input
+          type="text"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="Limit to source (optional)"
+          className="px-4 py-2 rounded-lg text-sm font-mono w-56"
+          style={inputStyle}
+        />
+        <button
+          onClick={createKey}
+          disabled={busy || !name.trim()}
+          className="flex items-center gap-2 text-sm px-3 py-2 rounded-lg transition-all"
+          style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-secondary)' }}
+        >
+          <Plus className="w-4 h-4" />
+          New Key
+        </button>
+        {message && (
+          <span className="text-sm font-mono" style={{ color: message === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+            {message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { WebhookSchema, listSchemaFields } from '@/lib/webhook-schemas';
+
+interface WebhookSchemaFieldsProps {
+  schema: WebhookSchema;
+}
+
+/**
+ * Field reference for a source's payload schema
+ * Rendered from the same schema the ingest endpoint validates against.
+ */
+export function WebhookSchemaFields({ schema }: WebhookSchemaFieldsProps) {
+  const fields = listSchemaFields(schema.schema);
+
+  return (
+    <div className="rounded-lg overflow-x-auto" style={{ background: 'var(--bg-card)' }}>
+      <p className="px-4 pt-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+        {schema.description}. Other fields are accepted and ignored.
+      </p>
+      {fields.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr style={{ color: 'var(--text-muted)' }}>
+              <th className="text-left font-medium px-4 py-2">Field</th>
+              <th className="text-left font-medium px-4 py-2">Type</th>
+              <th className="text-left font-medium px-4 py-2">Description</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(field => (
+              <tr key={field.path} style={{ borderTop: '1px solid var(--glass-border)' }}>
+                <td className="px-4 py-2 font-mono whitespace-nowrap" style={{ color: 'var(--accent-magenta)' }}>
+                  {field.path}
+                  {field.required && <span style={{ color: 'var(--status-critical)' }}> *</span>}
+                </td>
+                <td className="px-4 py-2 font-mono" style={{ color: 'var(--text-secondary)' }}>{field.type}</td>
+                <td className="px-4 py-2" style={{ color: 'var(--text-secondary)' }}>{field.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="px-4 py-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+        <span style={{ color: 'var(--status-critical)' }}>*</span> required
+      </p>
+    </div>
+  );
+}
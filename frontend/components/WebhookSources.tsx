@@ -0,0 +1,345 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Braces, Check, Copy, Eye, Loader2, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+
+interface WebhookSource {
+  id: string;
+  name: string;
+  description: string | null;
+  mapping: Record<string, unknown>;
+  sample_payload: unknown;
+}
+
+interface WebhookSourcesProps {
+  webhookEndpoint: string;
+  webhookKey: string | null;
+}
+
+const EXAMPLE_MAPPING = {
+  title: '{{ $.check.name }} failing on {{ $.check.host }}',
+  service: '$.check.service',
+  severity: '$.check.level',
+  severity_map: { crit: 'CRITICAL', warn: 'MEDIUM', info: 'LOW' },
+  external_id: '$.check.id',
+  logs: '$.check.output_lines',
+  metrics: { response_ms: '$.check.response_ms' },
+  labels: { alertname: '$.check.name', host: '$.check.host' },
+  recovery: { expression: '$.check.state', values: ['ok'] }
+};
+
+const EXAMPLE_PAYLOAD = {
+  check: {
+    id: 'chk-8812',
+    name: 'HTTP health',
+    host: 'web-3',
+    service: 'storefront',
+    level: 'crit',
+    state: 'failing',
+    response_ms: 5021,
+    output_lines: ['GET /healthz timed out after 5000ms']
+  }
+};
+
+const pretty = (value: unknown) => JSON.stringify(value, null, 2);
+
+export function WebhookSources({ webhookEndpoint, webhookKey }: WebhookSourcesProps) {
+  const [sources, setSources] = useState<WebhookSource[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [mappingText, setMappingText] = useState('');
+  const [payloadText, setPayloadText] = useState('');
+  const [preview, setPreview] = useState<{ incident?: unknown; is_recovery?: boolean; error?: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadSources() {
+      try {
+        const response = await fetch('/api/organizations/sources');
+        if (response.ok) {
+          const data = await response.json();
+          setSources(data.sources);
+          setCanManage(data.can_manage);
+        }
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadSources();
+  }, []);
+
+  function openEditor(source: WebhookSource | null) {
+    setEditingId(source ? source.id : 'new');
+    setName(source?.name || '');
+    setDescription(source?.description || '');
+    setMappingText(pretty(source?.mapping || EXAMPLE_MAPPING));
+    setPayloadText(pretty(source?.sample_payload ?? EXAMPLE_PAYLOAD));
+    setPreview(null);
+    setMessage('');
+  }
+
+  function parseEditor(): { mapping: unknown; payload: unknown } | null {
+    try {
+      return { mapping: JSON.parse(mappingText), payload: JSON.parse(payloadText) };
+    } catch (err) {
+      setMessage(`Invalid JSON: ${(err as Error).message}`);
+      return null;
+    }
+  }
+
+  async function runPreview() {
+    const parsed = parseEditor();
+    if (!parsed) return;
+
+    setBusy(true);
+    setMessage('');
+    try {
+      const response = await fetch('/api/organizations/sources/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name || undefined, mapping: parsed.mapping, payload: parsed.payload })
+      });
+      setPreview(await response.json());
+    } catch (err) {
+      setPreview({ error: (err as Error).message });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveSource() {
+    const parsed = parseEditor();
+    if (!parsed) return;
+
+    setBusy(true);
+    setMessage('');
+    try {
+      const isNew = editingId === 'new';
+      const response = await fetch(
+        isNew ? '/api/organizations/sources' : `/api/organizations/sources/${editingId}`,
+        {
+          method: isNew ? 'POST' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...(isNew && { name }),
+            description,
+            mapping: parsed.mapping,
+            sample_payload: parsed.payload
+          })
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to save source');
+        return;
+      }
+
+      setSources(prev => isNew
+        ? [...prev, data.source].sort((a, b) => a.name.localeCompare(b.name))
+        : prev.map(s => s.id === data.source.id ? data.source : s));
+      setEditingId(data.source.id);
+      setMessage('Saved');
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteSource(source: WebhookSource) {
+    if (!confirm(`Delete the "${source.name}" source? Webhooks sent to it will be treated as generic.`)) return;
+
+    const response = await fetch(`/api/organizations/sources/${source.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setSources(prev => prev.filter(s => s.id !== source.id));
+      if (editingId === source.id) setEditingId(null);
+    }
+  }
+
+  function copyUrl(source: WebhookSource) {
+    navigator.clipboard.writeText(`${webhookEndpoint}?source=${source.name}&key=${webhookKey || '<YOUR_WEBHOOK_KEY>'}`);
+    setCopied(source.id);
+    setTimeout(() => setCopied(null), 2000);
+  }
+
+  const inputStyle = {
+    background: 'var(--bg-card)',
+    border: '1px solid var(--glass-border)',
+    color: 'var(--text-primary)'
+  };
+
+  return (
+    <div className="glass-card p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Braces className="w-5 h-5" style={{ color: 'var(--accent-cyan)' }} />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--text-primary)' }}>
+            Custom Sources
+          </h2>
+        </div>
+        {canManage && editingId === null && (
+          <button
+            onClick={() => openEditor(null)}
+            className="flex items-center gap-2 text-sm px-3 py-2 rounded-lg transition-all"
+            style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-secondary)' }}
+          >
+            <Plus className="w-4 h-4" />
+            New Source
+          </button>
+        )}
+      </div>
+      <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Map any tool&apos;s JSON payload onto an incident without reshaping it first. Fields take a path
+        like <code className="px-1 rounded" style={{ background: 'var(--bg-primary)' }}>$.alert.host</code>,
+        a template like <code className="px-1 rounded" style={{ background: 'var(--bg-primary)' }}>{'{{ $.alert.name }} on {{ $.alert.host }}'}</code>,
+        or a literal value.
+      </p>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'var(--accent-cyan)' }} />
+      ) : sources.length === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--text-muted)' }}>No custom sources yet</p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {sources.map(source => (
+            <div
+              key={source.id}
+              className="flex items-center justify-between p-3 rounded-lg"
+              style={{ background: 'var(--bg-card)', border: editingId === source.id ? '1px solid var(--accent-cyan)' : '1px solid var(--glass-border)' }}
+            >
+              <div>
+                <code className="text-sm" style={{ color: 'var(--accent-magenta)' }}>{source.name}</code>
+                {source.description && (
+                  <span className="text-xs ml-3" style={{ color: 'var(--text-muted)' }}>{source.description}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => copyUrl(source)} className="p-2 rounded" title="Copy webhook URL">
+                  {copied === source.id
+                    ? <Check className="w-4 h-4" style={{ color: 'var(--accent-emerald)' }} />
+                    : <Copy className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />}
+                </button>
+                {canManage && (
+                  <>
+                    <button onClick={() => openEditor(source)} className="p-2 rounded" title="Edit mapping">
+                      <Pencil className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />
+                    </button>
+                    <button onClick={() => deleteSource(source)} className="p-2 rounded" title="Delete source">
+                      <Trash2 className="w-4 h-4" style={{ color: 'var(--status-critical)' }} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <div className="space-y-4 mt-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>Name (used as ?source=)</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={editingId !== 'new'}
+                placeholder="uptime-checker"
+                className="px-4 py-2 rounded-lg w-full font-mono text-sm"
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="px-4 py-2 rounded-lg w-full text-sm"
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>Mapping</label>
+              <textarea
+                value={mappingText}
+                onChange={(e) => setMappingText(e.target.value)}
+                rows={16}
+                className="w-full px-3 py-2 rounded-lg font-mono text-xs"
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label className="block text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>Sample payload</label>
+              <textarea
+                value={payloadText}
+                onChange={(e) => setPayloadText(e.target.value)}
+                rows={16}
+                className="w-full px-3 py-2 rounded-lg font-mono text-xs"
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={runPreview}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm"
+              style={{ background: 'var(--bg-card)', border: '1px solid var(--glass-border)', color: 'var(--text-primary)' }}
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              Preview
+            </button>
+            <button
+              onClick={saveSource}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium"
+              style={{ background: 'linear-gradient(135deg, var(--accent-cyan), var(--accent-magenta))', color: 'white' }}
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+            <button
+              onClick={() => setEditingId(null)}
+              className="text-sm px-3 py-2"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              Close
+            </button>
+            {message && (
+              <span className="text-sm font-mono" style={{ color: message === 'Saved' ? 'var(--accent-emerald)' : 'var(--status-critical)' }}>
+                {message}
+              </span>
+            )}
+          </div>
+
+          {preview && (
+            <div>
+              <h3 className="text-sm font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>
+                Normalized incident{preview.is_recovery && ' (recovery: resolves the matching open incident)'}
+              </h3>
+              <pre
+                className="p-4 rounded-lg overflow-x-auto text-xs"
+                style={{ background: 'var(--bg-card)', color: preview.error ? 'var(--status-critical)' : 'var(--text-primary)' }}
+              >
+                {preview.error || pretty(preview.incident)}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
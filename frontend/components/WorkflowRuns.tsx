@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { WorkflowRun } from '@/types/incident';
+import { cancelWorkflowRun, getWorkflowRuns, rerunWorkflowRun } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { ArrowUpRight, ChevronDown, ChevronRight, History, Loader2, RotateCcw, Square } from 'lucide-react';
+
+interface WorkflowRunsProps {
+  incidentId: string;
+  // Bump to reload (e.g. on a realtime change to the incident's runs)
+  refreshKey?: number;
+  // Responders can cancel and re-run; viewers only see the history
+  canControl: boolean;
+  onChange?: () => void;
+}
+
+const TRIGGER_LABELS: Record<WorkflowRun['trigger'], string> = {
+  ingestion: 'INGESTION',
+  manual: 'MANUAL',
+  cli: 'CLI',
+  rerun: 'RE-RUN'
+};
+
+const FINISHED_STATES = ['SUCCESS', 'WARNING', 'FAILED', 'KILLED', 'CANCELLED', 'SKIPPED', 'RETRIED', 'TRIGGER_FAILED'];
+
+function stateColor(state: string) {
+  switch (state) {
+    case 'SUCCESS':
+      return 'var(--status-resolved)';
+    case 'FAILED':
+    case 'TRIGGER_FAILED':
+      return 'var(--status-critical)';
+    case 'WARNING':
+    case 'KILLING':
+    case 'KILLED':
+    case 'CANCELLED':
+      return 'var(--accent-amber)';
+    default:
+      return 'var(--accent-cyan)';
+  }
+}
+
+export function WorkflowRuns({ incidentId, refreshKey = 0, canControl, onChange }: WorkflowRunsProps) {
+  const [runs, setRuns] = useState<WorkflowRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [acting, setActing] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadRuns() {
+      try {
+        setRuns(await getWorkflowRuns(incidentId));
+        setError(null);
+      } catch (err) {
+        setError((err as Error).message || 'Failed to load workflow runs');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadRuns();
+  }, [incidentId, refreshKey]);
+
+  const runAction = async (run: WorkflowRun, action: 'cancel' | 'rerun') => {
+    setActing(run.id);
+    setError(null);
+    try {
+      if (action === 'cancel') {
+        await cancelWorkflowRun(incidentId, run.id);
+      } else {
+        await rerunWorkflowRun(incidentId, run.id);
+      }
+      setRuns(await getWorkflowRuns(incidentId));
+      onChange?.();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setActing(null);
+    }
+  };
+
+  if (loading || (runs.length === 0 && !error)) {
+    return null;
+  }
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-3 mb-5">
+        <History className="w-5 h-5" style={{color: 'var(--accent-cyan)'}} />
+        <h2 className="text-lg font-bold font-mono tracking-wider" style={{color: 'var(--text-primary)'}}>
+          WORKFLOW RUNS
+        </h2>
+      </div>
+
+      {error && (
+        <p className="font-mono text-xs mb-4" style={{color: 'var(--status-critical)'}}>{error}</p>
+      )}
+
+      <div className="space-y-2">
+        {runs.map(run => {
+          const finished = FINISHED_STATES.includes(run.state);
+          const isOpen = expanded === run.id;
+
+          return (
+            <div key={run.id} className="rounded-lg" style={{background: 'var(--bg-card)', border: '1px solid var(--glass-border)'}}>
+              <div className="flex items-center gap-3 p-3">
+                <button
+                  onClick={() => setExpanded(isOpen ? null : run.id)}
+                  className="flex-1 flex items-center gap-3 text-left min-w-0"
+                  disabled={run.task_runs.length === 0 && !run.error}
+                >
+                  {isOpen ? (
+                    <ChevronDown className="w-4 h-4 shrink-0" style={{color: 'var(--text-muted)'}} />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 shrink-0" style={{color: 'var(--text-muted)'}} />
+                  )}
+                  <span className="font-mono text-xs w-28 shrink-0" style={{color: stateColor(run.state)}}>
+                    {run.state}
+                  </span>
+                  <span className="font-mono text-xs w-20 shrink-0" style={{color: 'var(--text-tertiary)'}}>
+                    {TRIGGER_LABELS[run.trigger] || run.trigger}
+                  </span>
+                  <span className="font-mono text-xs truncate" style={{color: 'var(--text-secondary)'}}>
+                    {formatDate(run.started_at || run.created_at)}
+                    {run.duration_seconds !== null && ` · ${Number(run.duration_seconds).toFixed(1)}s`}
+                    {run.triggered_by_user && ` · ${run.triggered_by_user.name || run.triggered_by_user.email}`}
+                  </span>
+                </button>
+
+                {run.url && (
+                  <a
+                    href={run.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-1.5 rounded"
+                    title="View in Kestra"
+                    style={{color: 'var(--accent-cyan)'}}
+                  >
+                    <ArrowUpRight className="w-4 h-4" />
+                  </a>
+                )}
+                {canControl && !finished && run.execution_id && (
+                  <button
+                    onClick={() => runAction(run, 'cancel')}
+                    disabled={acting !== null || run.state === 'KILLING'}
+                    className="p-1.5 rounded"
+                    title="Cancel run"
+                    style={{color: 'var(--status-critical)'}}
+                  >
+                    {acting === run.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Square className="w-4 h-4" />}
+                  </button>
+                )}
+                {canControl && finished && (
+                  <button
+                    onClick={() => runAction(run, 'rerun')}
+                    disabled={acting !== null}
+                    className="p-1.5 rounded"
+                    title="Re-run"
+                    style={{color: 'var(--accent-magenta)'}}
+                  >
+                    {acting === run.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                  </button>
+                )}
+              </div>
+
+              {isOpen && (
+                <div className="px-10 pb-3 space-y-1">
+                  {run.error && (
+                    <p className="font-mono text-xs mb-2" style={{color: 'var(--status-critical)'}}>{run.error}</p>
+                  )}
+                  {run.task_runs.map((task, idx) => (
+                    <div key={`${task.task_id}-${idx}`} className="flex items-center gap-3 font-mono text-xs">
+                      <span className="w-28 shrink-0" style={{color: stateColor(task.state)}}>{task.state}</span>
+                      <span className="flex-1 truncate" style={{color: 'var(--text-secondary)'}}>{task.task_id}</span>
+                      <span style={{color: 'var(--text-muted)'}}>
+                        {task.duration_seconds !== null ? `${task.duration_seconds.toFixed(1)}s` : '—'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LlmRequest, PipelineLlm } from '../analysis-pipeline';
+import { executeBuiltinRun } from '../builtin-analysis';
+
+type Row = Record<string, unknown>;
+
+// In-memory stand-in for the admin client: just the PostgREST calls the engine makes
+const db = vi.hoisted(() => {
+  const tables: Record<string, Row[]> = {};
+
+  class Query implements PromiseLike<{ data: unknown; error: null }> {
+    private filters: Array<(row: Row) => boolean> = [];
+    private action: 'select' | 'insert' | 'upsert' | 'update' = 'select';
+    private rows: Row[] = [];
+    private changes: Row = {};
+    private count: number | null = null;
+    private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+    constructor(private table: string) {}
+
+    select() { return this; }
+    order() { return this; }
+    abortSignal() { return this; }
+    limit(count: number) { this.count = count; return this; }
+    single() { this.mode = 'single'; return this; }
+    maybeSingle() { this.mode = 'maybeSingle'; return this; }
+
+    eq(column: string, value: unknown) {
+      this.filters.push(row => row[column] === value);
+      return this;
+    }
+
+    not(column: string, _operator: 'in', list: string) {
+      const values = list.slice(1, -1).split(',');
+      this.filters.push(row => !values.includes(String(row[column])));
+      return this;
+    }
+
+    insert(rows: Row[]) { this.action = 'insert'; this.rows = rows; return this; }
+    upsert(rows: Row[]) { this.action = 'upsert'; this.rows = rows; return this; }
+    update(changes: Row) { this.action = 'update'; this.changes = changes; return this; }
+
+    then<T1 = { data: unknown; error: null }, T2 = never>(
+      onfulfilled?: ((value: { data: unknown; error: null }) => T1 | PromiseLike<T1>) | null,
+      onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+    ): PromiseLike<T1 | T2> {
+      return Promise.resolve().then(() => ({ data: this.run(), error: null })).then(onfulfilled, onrejected);
+    }
+
+    private run(): unknown {
+      const table = (tables[this.table] ??= []);
+      let result: Row[];
+
+      if (this.action === 'insert' || this.action === 'upsert') {
+        result = this.rows
+          .filter(row => this.action === 'insert' || !table.some(existing => existing.dedupe_key === row.dedupe_key))
+          .map(row => ({ id: crypto.randomUUID(), ...row }));
+        table.push(...result);
+      } else {
+        result = table.filter(row => this.filters.every(filter => filter(row)));
+        if (this.action === 'update') {
+          result.forEach(row => Object.assign(row, this.changes));
+        }
+      }
+
+      if (this.count !== null) result = result.slice(0, this.count);
+      if (this.mode === 'many') return result;
+      if (this.mode === 'single' && result.length !== 1) throw new Error(`Expected one ${this.table} row`);
+      return result[0] ?? null;
+    }
+  }
+
+  return { tables, client: { from: (table: string) => new Query(table) } };
+});
+
+vi.mock('../supabase-admin', () => ({
+  getAdminClient: () => db.client,
+  createAdminClient: () => db.client
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const INCIDENT_ID = '00000000-0000-0000-0000-0000000000aa';
+const EXECUTION_ID = 'builtin-test-run';
+
+const incident = {
+  id: 'INC-1001',
+  organization_id: ORGANIZATION_ID,
+  timestamp: '2024-01-15T10:30:00.000Z',
+  service: 'checkout',
+  severity: 'HIGH',
+  status: 'open',
+  title: 'Checkout error rate above 5%',
+  logs: ['ERROR payment provider timed out'],
+  metrics: { error_rate: 0.07 },
+  context: { region: 'us-east-1' }
+};
+
+const ANALYSIS = {
+  root_cause: 'Payment provider timeouts',
+  root_cause_confidence: 'HIGH',
+  error_clusters: [],
+  impact_analysis: {},
+  proposed_fixes: [],
+  remediation_commands: [],
+  preventive_measures: [],
+  runbook_links: []
+};
+
+// Answers each agent task and keeps the requests it was sent
+function fakeLlm(responses: Partial<Record<LlmRequest['task'], string>> = {}) {
+  const requests: LlmRequest[] = [];
+  const llm: PipelineLlm = {
+    async generate(request) {
+      requests.push(request);
+      const response = responses[request.task];
+      if (response === undefined) {
+        throw new Error(`${request.task} unavailable`);
+      }
+      return response;
+    }
+  };
+  return { llm, requests };
+}
+
+const ALL_TASKS = {
+  ai_agent_analyze: JSON.stringify(ANALYSIS),
+  ai_agent_remediation: '## Immediate Actions\n\nFail over to the backup provider.',
+  ai_agent_documentation: '## Executive Summary\n\nCheckout errors from provider timeouts.'
+};
+
+function seed(analysisExecutionId: string) {
+  for (const table of Object.keys(db.tables)) delete db.tables[table];
+
+  db.tables.incidents = [
+    {
+      id: INCIDENT_ID,
+      external_id: incident.id,
+      organization_id: ORGANIZATION_ID,
+      service: 'checkout',
+      title: incident.title,
+      analysis_status: 'running',
+      analysis_execution_id: analysisExecutionId
+    },
+    {
+      id: '00000000-0000-0000-0000-0000000000bb',
+      external_id: 'INC-0999',
+      organization_id: ORGANIZATION_ID,
+      service: 'checkout',
+      title: 'Checkout latency spike',
+      severity: 'MEDIUM',
+      status: 'resolved',
+      logs: [],
+      metrics: {},
+      created_at: '2024-01-10T08:00:00.000Z'
+    }
+  ];
+  db.tables.workflow_executions = [
+    { organization_id: ORGANIZATION_ID, execution_id: EXECUTION_ID, state: 'CREATED', task_runs: [] }
+  ];
+}
+
+function run() {
+  return db.tables.workflow_executions[0];
+}
+
+function events() {
+  return db.tables.incident_events || [];
+}
+
+describe('executeBuiltinRun', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('stores the analysis and records the timeline events', async () => {
+    seed(EXECUTION_ID);
+    const { llm, requests } = fakeLlm(ALL_TASKS);
+
+    await executeBuiltinRun(incident, EXECUTION_ID, llm);
+
+    expect(requests.map(request => request.task)).toEqual(['ai_agent_analyze', 'ai_agent_remediation', 'ai_agent_documentation']);
+    expect(requests[0].json).toBe(true);
+    expect(requests[0].parts[0]).toContain(incident.title);
+    expect(requests[0].parts[0]).toContain('INC-0999');
+
+    expect(db.tables.ai_analyses).toHaveLength(1);
+    expect(db.tables.ai_analyses[0]).toMatchObject({
+      incident_id: INCIDENT_ID,
+      organization_id: ORGANIZATION_ID,
+      kestra_execution_id: EXECUTION_ID,
+      remediation: ALL_TASKS.ai_agent_remediation,
+      documentation: ALL_TASKS.ai_agent_documentation,
+      confidence_level: 'HIGH'
+    });
+    expect(JSON.parse(db.tables.ai_analyses[0].analysis as string)).toEqual(ANALYSIS);
+
+    expect(events().map(event => [event.event_type, event.dedupe_key])).toEqual([
+      ['kestra_finished', `kestra_finished:${EXECUTION_ID}`],
+      ['analysis_saved', `analysis_saved:${EXECUTION_ID}`]
+    ]);
+    expect(events()[0]).toMatchObject({
+      incident_id: INCIDENT_ID,
+      title: 'AI analysis workflow finished: SUCCESS',
+      details: { execution_id: EXECUTION_ID, state: 'SUCCESS', engine: 'builtin' }
+    });
+    expect(events()[1]).toMatchObject({
+      title: 'AI analysis saved',
+      details: { execution_id: EXECUTION_ID, analysis_id: db.tables.ai_analyses[0].id }
+    });
+
+    expect(db.tables.incidents[0].analysis_status).toBe('completed');
+    expect(run().state).toBe('SUCCESS');
+    expect(run().task_runs).toEqual([
+      'fetch_historical_incidents',
+      'ai_agent_analyze',
+      'parse_ai_analysis',
+      'severity_decision',
+      'ai_agent_remediation',
+      'ai_agent_documentation'
+    ].map(taskId => expect.objectContaining({ task_id: taskId, state: 'SUCCESS' })));
+  });
+
+  it('records a failed run without an analysis when the model keeps failing', async () => {
+    seed(EXECUTION_ID);
+    const { llm, requests } = fakeLlm();
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+
+    const pending = executeBuiltinRun(incident, EXECUTION_ID, llm);
+    await vi.runAllTimersAsync();
+    await pending;
+
+    // Three attempts, as the flow's retry policy allows
+    expect(requests.map(request => request.task)).toEqual(['ai_agent_analyze', 'ai_agent_analyze', 'ai_agent_analyze']);
+    expect(db.tables.ai_analyses).toBeUndefined();
+    expect(events()).toHaveLength(1);
+    expect(events()[0]).toMatchObject({
+      event_type: 'kestra_finished',
+      title: 'AI analysis workflow finished: FAILED',
+      details: { state: 'FAILED', engine: 'builtin', error: 'ai_agent_analyze unavailable' }
+    });
+
+    expect(db.tables.incidents[0].analysis_status).toBe('failed');
+    expect(run()).toMatchObject({ state: 'FAILED', error: 'ai_agent_analyze unavailable' });
+    expect(run().task_runs).toContainEqual(expect.objectContaining({ task_id: 'ai_agent_analyze', state: 'FAILED' }));
+  });
+
+  it('leaves the incident alone when a later run was started', async () => {
+    seed('builtin-later-run');
+    const { llm } = fakeLlm(ALL_TASKS);
+
+    await executeBuiltinRun(incident, EXECUTION_ID, llm);
+
+    expect(db.tables.ai_analyses).toBeUndefined();
+    expect(events()).toEqual([]);
+    expect(db.tables.incidents[0].analysis_status).toBe('running');
+    expect(run().state).toBe('SUCCESS');
+  });
+});
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createIncident, type Organization } from '../supabase-queries';
+
+type Row = Record<string, unknown>;
+
+// In-memory stand-in for the admin client: the idempotency lookup, the audit
+// insert and the group_or_create_incident RPC that createIncident calls
+const db = vi.hoisted(() => {
+  const incidents: Row[] = [];
+
+  function groupOrCreate(args: { p_incident: Row; p_statuses: string[]; p_window_minutes: number | null }) {
+    const incident = args.p_incident;
+    const occurredAt = Date.parse(incident.last_occurrence_at as string);
+
+    if (args.p_window_minutes !== null) {
+      const windowMs = args.p_window_minutes * 60_000;
+      const match = incidents.find(row =>
+        row.organization_id === incident.organization_id &&
+        row.fingerprint === incident.fingerprint &&
+        args.p_statuses.includes(row.status as string) &&
+        Date.parse(row.last_occurrence_at as string) >= occurredAt - windowMs &&
+        Date.parse(row.timestamp as string) <= occurredAt + windowMs
+      );
+      if (match) {
+        match.occurrence_count = (match.occurrence_count as number) + 1;
+        return { grouped: true, incident: match };
+      }
+    }
+
+    const row = { id: crypto.randomUUID(), status: 'open', occurrence_count: 1, ...incident };
+    incidents.push(row);
+    return { grouped: false, incident: row };
+  }
+
+  const client = {
+    from: () => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        single: async () => ({ data: null, error: null }),
+        insert: async () => ({ data: null, error: null })
+      };
+      return query;
+    },
+    rpc: (name: string, args: Parameters<typeof groupOrCreate>[0]) => ({
+      single: async () => name === 'group_or_create_incident'
+        ? { data: groupOrCreate(args), error: null }
+        : { data: null, error: { message: `unexpected rpc ${name}` } }
+    })
+  };
+
+  return { incidents, client };
+});
+
+vi.mock('../db', () => ({ supabase: {} }));
+vi.mock('../supabase-admin', () => ({ getAdminClient: () => db.client }));
+vi.mock('../incident-events', () => ({ recordIncidentEvent: async () => {} }));
+vi.mock('../incident-logs', async importOriginal => ({
+  ...(await importOriginal<typeof import('../incident-logs')>()),
+  storeIncidentLogs: async () => {}
+}));
+
+const organization: Organization = {
+  id: '00000000-0000-0000-0000-000000000001',
+  name: 'Acme',
+  slug: 'acme',
+  webhook_key: 'key'
+};
+
+function alert(externalId: string, timestamp: string): Parameters<typeof createIncident>[0] {
+  return {
+    external_id: externalId,
+    source: 'prometheus',
+    timestamp,
+    service: 'checkout',
+    severity: 'HIGH',
+    status: 'open',
+    title: 'HighErrorRate',
+    logs: [],
+    metrics: {},
+    context: {}
+  };
+}
+
+describe('createIncident', () => {
+  beforeEach(() => {
+    db.incidents.length = 0;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('groups a re-fire into the open incident', async () => {
+    const first = await createIncident(alert('A-1', '2024-01-15T10:00:00.000Z'), organization);
+    const second = await createIncident(alert('A-2', '2024-01-15T10:20:00.000Z'), organization);
+
+    expect(second.outcome).toBe('grouped');
+    expect(second.incident.id).toBe(first.incident.id);
+  });
+
+  it('never groups a backfilled record into a live incident', async () => {
+    const live = await createIncident(alert('A-1', '2024-01-15T10:00:00.000Z'), organization);
+    const backfilled = await createIncident(alert('A-2', '2024-01-15T10:20:00.000Z'), organization, { backfill: true });
+
+    expect(backfilled.outcome).toBe('created');
+    expect(backfilled.incident).toMatchObject({ status: 'resolved', resolved_at: '2024-01-15T10:20:00.000Z' });
+    expect(db.incidents.find(row => row.id === live.incident.id)).toMatchObject({ status: 'open', occurrence_count: 1 });
+  });
+
+  it('groups backfilled records of the same alert into one resolved incident', async () => {
+    const first = await createIncident(alert('A-1', '2024-01-15T10:00:00.000Z'), organization, { backfill: true });
+    const second = await createIncident(alert('A-2', '2024-01-15T10:20:00.000Z'), organization, { backfill: true });
+
+    expect(second.outcome).toBe('grouped');
+    expect(second.incident.id).toBe(first.incident.id);
+    expect(second.incident.occurrence_count).toBe(2);
+  });
+});
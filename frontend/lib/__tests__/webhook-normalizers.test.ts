@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { PayloadValidationError, normalizePayload } from '../webhook-normalizers';
+import cloudwatchAlarm from './fixtures/webhooks/cloudwatch-alarm.json';
+import grafana from './fixtures/webhooks/grafana.json';
+import opsgenieCreate from './fixtures/webhooks/opsgenie-create.json';
+import opsgenieClose from './fixtures/webhooks/opsgenie-close.json';
+import sentryEventAlert from './fixtures/webhooks/sentry-event-alert.json';
+import sentryLegacy from './fixtures/webhooks/sentry-legacy.json';
+import sentryIssueResolved from './fixtures/webhooks/sentry-issue-resolved.json';
+import sentryIssueAssigned from './fixtures/webhooks/sentry-issue-assigned.json';
+
+// Built-in sources never look up custom sources, so no database is needed
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+
+describe('cloudwatch', () => {
+  it('maps an alarm state change', async () => {
+    const [alert] = await normalizePayload('cloudwatch', cloudwatchAlarm, ORGANIZATION_ID);
+
+    expect(alert).toMatchObject({
+      external_id: `CW-checkout-high-cpu-${Date.parse('2024-01-15T10:30:00.000Z')}`,
+      source: 'cloudwatch',
+      is_recovery: false,
+      service: 'checkout',
+      severity: 'HIGH',
+      title: 'checkout-high-cpu',
+      metrics: { metric: 'CPUUtilization', namespace: 'AWS/ECS' }
+    });
+  });
+
+  it('keeps the external ID stable across redeliveries of the same state change', async () => {
+    const [first] = await normalizePayload('cloudwatch', cloudwatchAlarm, ORGANIZATION_ID);
+    const [second] = await normalizePayload('cloudwatch', structuredClone(cloudwatchAlarm), ORGANIZATION_ID);
+    expect(second.external_id).toBe(first.external_id);
+  });
+});
+
+describe('grafana', () => {
+  it('yields one alert per entry', async () => {
+    const alerts = await normalizePayload('grafana', grafana, ORGANIZATION_ID);
+    expect(alerts).toHaveLength(2);
+  });
+
+  it('maps a firing alert', async () => {
+    const [firing] = await normalizePayload('grafana', grafana, ORGANIZATION_ID);
+
+    expect(firing).toMatchObject({
+      external_id: `GRAFANA-HighLatency-5c2e1ab7f3d9e402-${Date.parse('2024-01-15T10:30:00.000Z')}`,
+      source: 'grafana',
+      is_recovery: false,
+      timestamp: '2024-01-15T10:30:00.000Z',
+      service: 'checkout',
+      severity: 'CRITICAL',
+      status: 'open',
+      title: 'p99 latency above 2s',
+      description: 'Checkout p99 latency has been above 2s for 5 minutes',
+      logs: ['Checkout p99 latency has been above 2s for 5 minutes'],
+      metrics: { B: 2.4 }
+    });
+    expect(firing.context).toMatchObject({
+      labels: grafana.alerts[0].labels,
+      value_string: grafana.alerts[0].valueString,
+      dashboard_url: 'https://grafana.example.com/d/checkout',
+      panel_url: 'https://grafana.example.com/d/checkout?viewPanel=4'
+    });
+  });
+
+  it('maps a resolved alert as a recovery with fallbacks', async () => {
+    const [, resolved] = await normalizePayload('grafana', grafana, ORGANIZATION_ID);
+
+    expect(resolved).toMatchObject({
+      is_recovery: true,
+      service: 'Infrastructure',
+      severity: 'MEDIUM',
+      title: 'DiskFull',
+      logs: [],
+      metrics: {}
+    });
+    expect(resolved.description).toBeUndefined();
+  });
+
+  it('keeps the external ID stable across repeats of the same alert', async () => {
+    const [first] = await normalizePayload('grafana', grafana, ORGANIZATION_ID);
+    const [second] = await normalizePayload('grafana', structuredClone(grafana), ORGANIZATION_ID);
+    expect(second.external_id).toBe(first.external_id);
+  });
+
+  it('rejects a payload without alerts', async () => {
+    await expect(normalizePayload('grafana', { ...grafana, alerts: [] }, ORGANIZATION_ID))
+      .rejects.toBeInstanceOf(PayloadValidationError);
+  });
+});
+
+describe('opsgenie', () => {
+  it('maps a created alert', async () => {
+    const [alert] = await normalizePayload('opsgenie', opsgenieCreate, ORGANIZATION_ID);
+
+    expect(alert).toMatchObject({
+      external_id: 'OG-70413a06-38d6-4c85-92b8-5ebc900d42e2',
+      source: 'opsgenie',
+      is_recovery: false,
+      timestamp: '2024-01-15T10:30:00.000Z',
+      service: 'payments',
+      severity: 'CRITICAL',
+      title: 'Payment API error rate above 5%',
+      description: 'Error rate has been above 5% for 10 minutes',
+      logs: ['Error rate has been above 5% for 10 minutes']
+    });
+    expect(alert.context).toMatchObject({
+      labels: { region: 'us-east-1' },
+      tags: ['service:payments', 'env:production'],
+      alias: 'payment-api-error-rate',
+      tiny_id: '1791',
+      alert_source: 'Datadog',
+      teams: ['payments'],
+      action: 'Create'
+    });
+  });
+
+  it('maps a closed alert to a recovery of the same incident', async () => {
+    const [created] = await normalizePayload('opsgenie', opsgenieCreate, ORGANIZATION_ID);
+    const [closed] = await normalizePayload('opsgenie', opsgenieClose, ORGANIZATION_ID);
+
+    expect(closed.external_id).toBe(created.external_id);
+    expect(closed).toMatchObject({
+      is_recovery: true,
+      // The service detail wins over tags, and priorities are case-insensitive
+      service: 'payment-api',
+      severity: 'MEDIUM',
+      logs: []
+    });
+  });
+
+  it('rejects an unknown priority', async () => {
+    const payload = { ...opsgenieCreate, alert: { ...opsgenieCreate.alert, priority: 'P9' } };
+    await expect(normalizePayload('opsgenie', payload, ORGANIZATION_ID))
+      .rejects.toBeInstanceOf(PayloadValidationError);
+  });
+});
+
+describe('sentry', () => {
+  it('maps an alert rule event from an internal integration', async () => {
+    const [alert] = await normalizePayload('sentry', sentryEventAlert, ORGANIZATION_ID);
+
+    expect(alert).toMatchObject({
+      external_id: 'SENTRY-4509123456',
+      source: 'sentry',
+      is_recovery: false,
+      timestamp: '2024-01-15T10:30:00.000Z',
+      service: 'checkout-web',
+      severity: 'CRITICAL',
+      title: "TypeError: Cannot read properties of undefined (reading 'id')",
+      description: 'app/checkout/submit.ts in handleSubmit',
+      logs: ['app/checkout/submit.ts in handleSubmit']
+    });
+    expect(alert.context).toMatchObject({
+      labels: { service: 'checkout-web', environment: 'production' },
+      environment: 'production',
+      url: 'https://sentry.io/organizations/acme/issues/4509123456/',
+      event_id: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+      triggered_rules: ['New errors in production']
+    });
+  });
+
+  it('maps a legacy webhook plugin payload', async () => {
+    const [alert] = await normalizePayload('sentry', sentryLegacy, ORGANIZATION_ID);
+
+    expect(alert).toMatchObject({
+      external_id: 'SENTRY-4509123456',
+      timestamp: '2024-01-15T10:30:00.000Z',
+      service: 'checkout-web',
+      severity: 'MEDIUM',
+      title: 'Payment provider timed out',
+      description: 'app/checkout/submit.ts in handleSubmit'
+    });
+    expect(alert.context).toMatchObject({
+      environment: 'staging',
+      url: 'https://sentry.io/organizations/acme/issues/4509123456/',
+      triggered_rules: ['Slow checkout']
+    });
+  });
+
+  it('maps a resolved issue to a recovery of the event alert', async () => {
+    const [event] = await normalizePayload('sentry', sentryEventAlert, ORGANIZATION_ID);
+    const [resolved] = await normalizePayload('sentry', sentryIssueResolved, ORGANIZATION_ID);
+
+    expect(resolved.external_id).toBe(event.external_id);
+    expect(resolved).toMatchObject({
+      is_recovery: true,
+      service: 'checkout-web',
+      severity: 'HIGH',
+      logs: []
+    });
+  });
+
+  it('skips issue webhooks other than resolved', async () => {
+    await expect(normalizePayload('sentry', sentryIssueAssigned, ORGANIZATION_ID)).resolves.toEqual([]);
+  });
+
+  it('rejects a payload without an event', async () => {
+    await expect(normalizePayload('sentry', { action: 'triggered', data: {} }, ORGANIZATION_ID))
+      .rejects.toThrow('missing event');
+  });
+});
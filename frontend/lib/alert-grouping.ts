@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+
+/**
+ * Alert grouping
+ *
+ * Repeated alerts for the same problem are folded into the open incident that
+ * shares their fingerprint, as long as they arrive within the grouping window.
+ * Configured per organization under `organizations.settings.alert_grouping`.
+ */
+
+export interface AlertGroupingConfig {
+  enabled: boolean;
+  // Sliding window, measured from the incident's last occurrence
+  window_minutes: number;
+  // Alert labels that, with source and service, identify "the same alert"
+  fingerprint_labels: string[];
+}
+
+export const DEFAULT_ALERT_GROUPING: AlertGroupingConfig = {
+  enabled: true,
+  window_minutes: 60,
+  fingerprint_labels: ['alertname']
+};
+
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+
+/**
+ * Resolve the grouping config from organization settings, falling back to defaults
+ */
+export function getAlertGroupingConfig(settings?: Record<string, unknown> | null): AlertGroupingConfig {
+  const raw = (settings?.alert_grouping || {}) as Partial<AlertGroupingConfig>;
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : DEFAULT_ALERT_GROUPING.enabled,
+    window_minutes: typeof raw.window_minutes === 'number' && raw.window_minutes > 0
+      ? Math.min(raw.window_minutes, MAX_WINDOW_MINUTES)
+      : DEFAULT_ALERT_GROUPING.window_minutes,
+    fingerprint_labels: Array.isArray(raw.fingerprint_labels) && raw.fingerprint_labels.length > 0
+      ? raw.fingerprint_labels.filter((l): l is string => typeof l === 'string')
+      : DEFAULT_ALERT_GROUPING.fingerprint_labels
+  };
+}
+
+/**
+ * Validate a (partial) grouping config update from the settings API and merge it over the current config
+ * Throws with a user-facing message when the input is invalid.
+ */
+export function parseAlertGroupingConfig(
+  input: unknown,
+  current: AlertGroupingConfig = DEFAULT_ALERT_GROUPING
+): AlertGroupingConfig {
+  if (!input || typeof input !== 'object') {
+    throw new Error('alert_grouping must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    throw new Error('alert_grouping.enabled must be a boolean');
+  }
+  if (raw.window_minutes !== undefined && (
+    typeof raw.window_minutes !== 'number' ||
+    !Number.isInteger(raw.window_minutes) ||
+    raw.window_minutes < 1 ||
+    raw.window_minutes > MAX_WINDOW_MINUTES
+  )) {
+    throw new Error(`alert_grouping.window_minutes must be an integer between 1 and ${MAX_WINDOW_MINUTES}`);
+  }
+  if (raw.fingerprint_labels !== undefined && (
+    !Array.isArray(raw.fingerprint_labels) ||
+    raw.fingerprint_labels.length === 0 ||
+    !raw.fingerprint_labels.every(l => typeof l === 'string' && /^[\w.-]+$/.test(l))
+  )) {
+    throw new Error('alert_grouping.fingerprint_labels must be a non-empty array of label names');
+  }
+
+  return getAlertGroupingConfig({ alert_grouping: { ...current, ...raw } });
+}
+
+/**
+ * Labels used for fingerprinting a normalized alert
+ * Prometheus-style labels come from context.labels; every source gets an
+ * alertname, defaulting to the incident title.
+ */
+export function getAlertLabels(incident: {
+  title: string;
+  context?: Record<string, unknown>;
+}): Record<string, string> {
+  const contextLabels = (incident.context?.labels || {}) as Record<string, unknown>;
+  const labels: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(contextLabels)) {
+    if (value !== null && value !== undefined) {
+      labels[key] = String(value);
+    }
+  }
+
+  return { alertname: incident.title, ...labels };
+}
+
+/**
+ * Stable fingerprint for an alert: source + service + configured labels
+ */
+export function computeFingerprint(
+  incident: { source: string; service: string; title: string; context?: Record<string, unknown> },
+  config: AlertGroupingConfig
+): string {
+  const labels = getAlertLabels(incident);
+  const parts = [
+    incident.source,
+    incident.service,
+    ...[...config.fingerprint_labels].sort().map(key => `${key}=${labels[key] ?? ''}`)
+  ];
+
+  return crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+}
+
+/**
+ * When an alert fired: its own timestamp, so delayed and retried deliveries
+ * group and date by the alert rather than by arrival
+ * Falls back to `now` when the timestamp is missing or unparseable; alerts
+ * dated in the future (sender clock skew) count as firing now.
+ */
+export function getOccurrenceTime(timestamp: string | null | undefined, now: Date = new Date()): Date {
+  const firedAt = timestamp ? new Date(timestamp) : null;
+  if (!firedAt || isNaN(firedAt.getTime()) || firedAt > now) {
+    return now;
+  }
+  return firedAt;
+}
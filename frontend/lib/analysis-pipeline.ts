@@ -0,0 +1,395 @@
+import type { KestraIncidentData } from './kestra';
+import type { TaskRunSummary } from './workflow-executions';
+
+/**
+ * Built-in analysis pipeline
+ *
+ * The steps of kestra/flows/incident-handler.yml in TypeScript, for
+ * organizations that do not run Kestra: fetch historical incidents, analyze,
+ * parse, severity decision, remediation and documentation, with the flow's
+ * prompts, generation settings and retries. The results have the shape the
+ * flow reports to the completion callback.
+ *
+ * This module has no storage or network access of its own: the LLM and the
+ * history lookup are passed in, so the pipeline runs without any external
+ * service when given a stub LLM (see createStubLlm). Running it for a stored
+ * incident is up to lib/builtin-analysis.ts.
+ */
+
+export type AgentTask = 'ai_agent_analyze' | 'ai_agent_remediation' | 'ai_agent_documentation';
+
+export interface LlmRequest {
+  task: AgentTask;
+  // Text parts of a single user message
+  parts: string[];
+  temperature: number;
+  maxOutputTokens: number;
+  // Ask for a JSON response (responseMimeType application/json)
+  json: boolean;
+  signal: AbortSignal;
+}
+
+export interface PipelineLlm {
+  // Throw to fail the attempt; it is retried with the flow's retry policy
+  generate(request: LlmRequest): Promise<string>;
+}
+
+export interface HistoricalIncident {
+  id: string;
+  external_id: string;
+  title: string;
+  severity: string;
+  status: string;
+  logs: string[] | null;
+  metrics: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface PipelineDeps {
+  llm: PipelineLlm;
+  // Latest incidents of the same organization and service
+  fetchHistory(incident: KestraIncidentData): Promise<HistoricalIncident[]>;
+  // After every task state change, with all task runs so far
+  onTaskRuns?(taskRuns: TaskRunSummary[]): Promise<void>;
+  // Checked before each task and before returning; true stops the run with PipelineCancelledError
+  isCancelled?(): Promise<boolean>;
+  sleep?(ms: number): Promise<void>;
+}
+
+export interface AnalysisReport {
+  root_cause: string;
+  root_cause_confidence: string;
+  error_clusters: unknown[];
+  impact_analysis: Record<string, unknown>;
+  proposed_fixes: unknown[];
+  remediation_commands: unknown[];
+  preventive_measures: unknown[];
+  runbook_links: unknown[];
+  [key: string]: unknown;
+}
+
+// Same fields the flow reports to the completion callback
+export interface PipelineResult {
+  analysis: string;
+  remediation: string;
+  documentation: string;
+  confidence_level: string;
+  task_runs: TaskRunSummary[];
+}
+
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Run cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+// The flow's retry and timeout for each Gemini request
+export const AGENT_RETRY = {
+  maxAttempts: 3,
+  intervalMs: 2000,
+  maxIntervalMs: 30000,
+  timeoutMs: 60000
+};
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// What parse_ai_analysis stores when the response is not the expected JSON
+export const FALLBACK_ANALYSIS: AnalysisReport = {
+  root_cause: 'Unable to parse AI response',
+  root_cause_confidence: 'LOW',
+  error_clusters: [],
+  impact_analysis: { affected_users: 'Unknown', business_impact: 'Unknown', technical_impact: 'Unknown' },
+  proposed_fixes: [],
+  remediation_commands: [],
+  preventive_measures: [],
+  runbook_links: []
+};
+
+const SEVERITY_DECISIONS: Record<string, string> = {
+  LOW: 'AUTO-REMEDIATION: automated remediation can proceed',
+  MEDIUM: 'APPROVAL REQUIRED: human review required before remediation',
+  HIGH: 'IMMEDIATE ESCALATION: on-call team paged, war room initiated (P1)',
+  CRITICAL: 'CRITICAL ESCALATION: all hands alert, executive notification (P0)'
+};
+
+/**
+ * Gemini client for the pipeline, calling the same endpoint as the flow
+ */
+export function createGeminiLlm(apiKey: string, model = GEMINI_MODEL): PipelineLlm {
+  return {
+    async generate({ parts, temperature, maxOutputTokens, json, signal }) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{ parts: parts.map(text => ({ text })) }],
+            generationConfig: {
+              temperature,
+              maxOutputTokens,
+              ...(json && { responseMimeType: 'application/json' })
+            }
+          }),
+          signal
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Gemini responded ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (typeof text !== 'string') {
+        throw new Error('Gemini response has no text');
+      }
+      return text;
+    }
+  };
+}
+
+/**
+ * Canned LLM for running the pipeline without Gemini
+ * `responses` replaces the default text for a task; a function gets the request.
+ */
+export function createStubLlm(
+  responses: Partial<Record<AgentTask, string | ((request: LlmRequest) => string)>> = {}
+): PipelineLlm {
+  const defaults: Record<AgentTask, string> = {
+    ai_agent_analyze: JSON.stringify({
+      ...FALLBACK_ANALYSIS,
+      root_cause: 'Stub analysis: no LLM was called',
+      root_cause_confidence: 'MEDIUM'
+    }),
+    ai_agent_remediation: '## Immediate Actions\n\nStub remediation: no LLM was called.',
+    ai_agent_documentation: '## Executive Summary\n\nStub postmortem: no LLM was called.'
+  };
+
+  return {
+    async generate(request) {
+      const response = responses[request.task] ?? defaults[request.task];
+      return typeof response === 'function' ? response(request) : response;
+    }
+  };
+}
+
+/**
+ * Parse the analysis agent's output like parse_ai_analysis does
+ * Anything other than a JSON object gives the fallback analysis.
+ */
+export function parseAnalysisResponse(text: string): AnalysisReport {
+  try {
+    // JSON mode is a request, not a guarantee: accept a fenced block too
+    const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+    const parsed = JSON.parse(json);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as AnalysisReport;
+    }
+    console.error('Error parsing AI response: not a JSON object');
+  } catch (error) {
+    console.error('Error parsing AI response:', (error as Error).message);
+  }
+  return FALLBACK_ANALYSIS;
+}
+
+function analyzePrompt(incident: KestraIncidentData, history: HistoricalIncident[]): string {
+  const metrics = incident.metrics || {};
+  const context = incident.context || {};
+
+  return `You are an expert SRE AI Agent analyzing a production incident.
+
+## CURRENT INCIDENT
+- ID: ${incident.id}
+- Service: ${incident.service}
+- Severity: ${incident.severity}
+- Title: ${incident.title}
+- Error Rate: ${metrics.error_rate ?? 0}
+- Latency P95: ${metrics.latency_p95_ms ?? 0}ms
+- Region: ${context.region ?? 'unknown'}
+- Host: ${context.host ?? 'unknown'}
+- Version: ${context.version ?? 'unknown'}
+
+## LOGS
+${(incident.logs || []).join('\n')}
+
+## HISTORICAL INCIDENTS (same service)
+${JSON.stringify(history)}
+
+## ANALYSIS REQUIRED
+Provide a comprehensive analysis in JSON format:
+{
+  "root_cause": "Detailed root cause explanation",
+  "root_cause_confidence": "HIGH|MEDIUM|LOW",
+  "error_clusters": [
+    {"pattern": "error pattern", "count": 1, "severity": "HIGH|MEDIUM|LOW"}
+  ],
+  "impact_analysis": {
+    "affected_users": "Estimation of affected users",
+    "business_impact": "Business impact description",
+    "technical_impact": "Technical systems affected"
+  },
+  "proposed_fixes": [
+    {"fix": "specific fix", "priority": "P0|P1|P2", "effort": "HIGH|MEDIUM|LOW", "risk": "HIGH|MEDIUM|LOW"}
+  ],
+  "remediation_commands": [
+    {"command": "safe command only: restart|scale|rollback|health-check", "purpose": "what it does", "safe": true}
+  ],
+  "preventive_measures": ["list of preventive actions"],
+  "runbook_links": ["relevant documentation links"]
+}
+
+Be specific, technical, and actionable. Focus on root cause and immediate fixes.`;
+}
+
+function remediationPrompt(incident: KestraIncidentData, analysis: string): string {
+  return `Based on this incident analysis, provide detailed remediation steps:
+
+INCIDENT: ${incident.id}
+SERVICE: ${incident.service}
+SEVERITY: ${incident.severity}
+ANALYSIS: ${analysis}
+
+Provide:
+1. IMMEDIATE ACTIONS (step-by-step commands)
+2. VERIFICATION STEPS (how to confirm fix worked)
+3. ROLLBACK PROCEDURE (if fix fails)
+4. MONITORING CHECKLIST (what to watch after fix)
+
+Format as markdown with clear sections.`;
+}
+
+function documentationPrompt(incident: KestraIncidentData, analysis: string): string {
+  return `Generate a comprehensive postmortem document:
+
+INCIDENT: ${incident.id}
+SERVICE: ${incident.service}
+SEVERITY: ${incident.severity}
+TITLE: ${incident.title}
+TIMESTAMP: ${incident.timestamp}
+ANALYSIS: ${analysis}
+
+Include:
+1. EXECUTIVE SUMMARY (3-4 sentences)
+2. INCIDENT TIMELINE
+3. ROOT CAUSE ANALYSIS
+4. IMPACT ASSESSMENT
+5. RESOLUTION STEPS
+6. ACTION ITEMS (P0, P1, P2)
+7. LESSONS LEARNED
+8. PREVENTION MEASURES
+
+Format as structured markdown. Use the responder investigation notes that follow as first-hand findings for the timeline, resolution steps and lessons learned.`;
+}
+
+/**
+ * Delay before retry `attempt` (1-based): 2s, 4s, 8s ... capped at 30s
+ */
+export function getAgentRetryDelayMs(attempt: number): number {
+  return Math.min(AGENT_RETRY.intervalMs * 2 ** (attempt - 1), AGENT_RETRY.maxIntervalMs);
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run the pipeline for one incident
+ * Throws the error of the first task that fails for good, or
+ * PipelineCancelledError; `task_runs` so far have been passed to onTaskRuns.
+ */
+export async function runAnalysisPipeline(incident: KestraIncidentData, deps: PipelineDeps): Promise<PipelineResult> {
+  const sleep = deps.sleep || defaultSleep;
+  const taskRuns: TaskRunSummary[] = [];
+
+  async function runTask<T>(taskId: string, task: () => Promise<T>): Promise<T> {
+    if (await deps.isCancelled?.()) {
+      throw new PipelineCancelledError();
+    }
+
+    const taskRun: TaskRunSummary = { task_id: taskId, state: 'RUNNING', duration_seconds: null };
+    taskRuns.push(taskRun);
+    await deps.onTaskRuns?.(taskRuns);
+
+    const started = Date.now();
+    try {
+      const result = await task();
+      taskRun.state = 'SUCCESS';
+      return result;
+    } catch (error) {
+      taskRun.state = 'FAILED';
+      throw error;
+    } finally {
+      taskRun.duration_seconds = (Date.now() - started) / 1000;
+      await deps.onTaskRuns?.(taskRuns);
+    }
+  }
+
+  async function callAgent(request: Omit<LlmRequest, 'signal'>): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await deps.llm.generate({ ...request, signal: AbortSignal.timeout(AGENT_RETRY.timeoutMs) });
+      } catch (error) {
+        if (attempt >= AGENT_RETRY.maxAttempts) {
+          throw error;
+        }
+        console.warn(`${request.task} attempt ${attempt} failed, retrying:`, (error as Error).message);
+        await sleep(getAgentRetryDelayMs(attempt));
+      }
+    }
+  }
+
+  console.log(`Built-in analysis started for incident ${incident.id} (${incident.service}, ${incident.severity})`);
+
+  const history = await runTask('fetch_historical_incidents', () => deps.fetchHistory(incident));
+
+  const analysisResponse = await runTask('ai_agent_analyze', () => callAgent({
+    task: 'ai_agent_analyze',
+    parts: [analyzePrompt(incident, history)],
+    temperature: 0.3,
+    maxOutputTokens: 4000,
+    json: true
+  }));
+
+  const report = await runTask('parse_ai_analysis', async () => parseAnalysisResponse(analysisResponse));
+  const analysis = JSON.stringify(report, null, 2);
+
+  await runTask('severity_decision', async () => {
+    const decision = SEVERITY_DECISIONS[String(incident.severity).toUpperCase()];
+    if (decision) {
+      console.log(`AI DECISION for incident ${incident.id}: ${decision}`);
+    }
+  });
+
+  const remediation = await runTask('ai_agent_remediation', () => callAgent({
+    task: 'ai_agent_remediation',
+    parts: [remediationPrompt(incident, analysis)],
+    temperature: 0.4,
+    maxOutputTokens: 3000,
+    json: false
+  }));
+
+  const documentation = await runTask('ai_agent_documentation', () => callAgent({
+    task: 'ai_agent_documentation',
+    parts: [
+      documentationPrompt(incident, analysis),
+      `RESPONDER NOTES: ${incident.responder_notes || 'No responder notes recorded.'}`
+    ],
+    temperature: 0.4,
+    maxOutputTokens: 4000,
+    json: false
+  }));
+
+  if (await deps.isCancelled?.()) {
+    throw new PipelineCancelledError();
+  }
+
+  console.log(`Built-in analysis complete for incident ${incident.id}`);
+
+  return {
+    analysis,
+    remediation,
+    documentation,
+    confidence_level: typeof report.root_cause_confidence === 'string' ? report.root_cause_confidence : 'MEDIUM',
+    task_runs: taskRuns
+  };
+}
@@ -1,5 +1,15 @@
 import axios, { AxiosError } from 'axios';
-import { Incident, KestraExecution } from '@/types/incident';
+import {
+  AssignableUser,
+  Incident,
+  IncidentAssignee,
+  IncidentLogPage,
+  IncidentNote,
+  IncidentTimelinePage,
+  KestraExecution,
+  WorkflowRun
+} from '@/types/incident';
+import { IncidentAction } from '@/lib/incident-lifecycle';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE || '/api';
 
@@ -27,9 +37,11 @@ function handleApiError(error: unknown): never {
   throw error;
 }
 
-export async function getIncidents(): Promise<Incident[]> {
+export async function getIncidents(filters: { assigned?: 'me' } = {}): Promise<Incident[]> {
   try {
-    const response = await axios.get(`${API_BASE}/incidents`);
+    const response = await axios.get(`${API_BASE}/incidents`, {
+      params: filters.assigned ? { assigned: filters.assigned } : undefined
+    });
     return response.data;
   } catch (error) {
     handleApiError(error);
@@ -48,6 +60,111 @@ export async function getIncident(id: string): Promise<Incident | null> {
   }
 }
 
+export async function transitionIncident(
+  id: string,
+  action: IncidentAction
+): Promise<Pick<Incident, 'id' | 'status' | 'acknowledged_at' | 'resolved_at' | 'closed_at'>> {
+  try {
+    const response = await axios.patch(`${API_BASE}/incidents/${id}`, { action });
+    return response.data.incident;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function getIncidentAssignees(
+  id: string
+): Promise<{ assignees: IncidentAssignee[]; users: AssignableUser[] }> {
+  try {
+    const response = await axios.get(`${API_BASE}/incidents/${id}/assignees`);
+    return response.data;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function updateIncidentAssignees(
+  id: string,
+  commanderId: string | null,
+  responderIds: string[]
+): Promise<IncidentAssignee[]> {
+  try {
+    const response = await axios.put(`${API_BASE}/incidents/${id}/assignees`, {
+      commander_id: commanderId,
+      responder_ids: responderIds
+    });
+    return response.data.assignees;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function getIncidentNotes(
+  id: string
+): Promise<{ notes: IncidentNote[]; users: AssignableUser[] }> {
+  try {
+    const response = await axios.get(`${API_BASE}/incidents/${id}/notes`);
+    return response.data;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function createIncidentNote(id: string, body: string): Promise<IncidentNote> {
+  try {
+    const response = await axios.post(`${API_BASE}/incidents/${id}/notes`, { body });
+    return response.data.note;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function updateIncidentNote(id: string, noteId: string, body: string): Promise<IncidentNote> {
+  try {
+    const response = await axios.patch(`${API_BASE}/incidents/${id}/notes/${noteId}`, { body });
+    return response.data.note;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function deleteIncidentNote(id: string, noteId: string): Promise<void> {
+  try {
+    await axios.delete(`${API_BASE}/incidents/${id}/notes/${noteId}`);
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function getIncidentEvents(id: string, before?: string | null): Promise<IncidentTimelinePage> {
+  try {
+    const response = await axios.get(`${API_BASE}/incidents/${id}/events`, {
+      params: before ? { before } : undefined
+    });
+    return response.data;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function getIncidentLogs(
+  id: string,
+  filters: { level?: string[]; q?: string; after?: number | null } = {}
+): Promise<IncidentLogPage> {
+  try {
+    const response = await axios.get(`${API_BASE}/incidents/${id}/logs`, {
+      params: {
+        ...(filters.level && filters.level.length > 0 && { level: filters.level.join(',') }),
+        ...(filters.q && { q: filters.q }),
+        ...(filters.after && { after: filters.after })
+      }
+    });
+    return response.data;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
 export async function triggerKestraWorkflow(incident: Incident): Promise<KestraExecution> {
   try {
     const response = await axios.post(`${API_BASE}/kestra/trigger`, {
@@ -69,6 +186,32 @@ export async function triggerKestraWorkflow(incident: Incident): Promise<KestraE
   }
 }
 
+export async function getWorkflowRuns(id: string): Promise<WorkflowRun[]> {
+  try {
+    const response = await axios.get(`${API_BASE}/incidents/${id}/executions`);
+    return response.data.runs;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function cancelWorkflowRun(id: string, runId: string): Promise<void> {
+  try {
+    await axios.post(`${API_BASE}/incidents/${id}/executions/${runId}/cancel`);
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
+export async function rerunWorkflowRun(id: string, runId: string): Promise<KestraExecution> {
+  try {
+    const response = await axios.post(`${API_BASE}/incidents/${id}/executions/${runId}/rerun`);
+    return response.data;
+  } catch (error) {
+    handleApiError(error);
+  }
+}
+
 export async function analyzeIncident(incidentId: string): Promise<Response> {
   const incident = await getIncident(incidentId);
   if (!incident) {
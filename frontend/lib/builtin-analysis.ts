@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import { after } from 'next/server';
+import { getAdminClient } from './supabase-admin';
+import { getConfigs } from './system-config';
+import { KestraCallbackPayload, recordAnalysisResult, setAnalysisStatus } from './kestra-callback';
+import type { KestraIncidentData, WorkflowRunContext } from './kestra';
+import {
+  HistoricalIncident,
+  PipelineCancelledError,
+  PipelineLlm,
+  createGeminiLlm,
+  createStubLlm,
+  runAnalysisPipeline
+} from './analysis-pipeline';
+import {
+  ExecutionSummary,
+  TRIGGER_FAILED,
+  WorkflowExecution,
+  recordWorkflowExecution,
+  updateWorkflowExecution
+} from './workflow-executions';
+
+/**
+ * Built-in analysis engine
+ *
+ * Organizations with `settings.analysis_engine = 'builtin'` run the analysis
+ * pipeline (lib/analysis-pipeline.ts) in the app instead of on Kestra. A
+ * trigger records the run and marks the incident as analyzing, then the
+ * pipeline runs in the background once the response is sent (`after`). Its
+ * results are stored like a Kestra callback's, and the run shows up in the
+ * execution history with one task run per pipeline step.
+ *
+ * Set ANALYSIS_LLM to `stub` to run the pipeline with canned responses
+ * instead of Gemini.
+ */
+
+export const ANALYSIS_ENGINES = ['kestra', 'builtin'] as const;
+
+export type AnalysisEngine = typeof ANALYSIS_ENGINES[number];
+
+export const DEFAULT_ANALYSIS_ENGINE: AnalysisEngine = 'kestra';
+
+// Namespace and flow recorded on built-in runs
+export const BUILTIN_FLOW = { namespace: 'builtin', flow_id: 'incident-handler' };
+
+// A built-in run still going after this died with the server instance running it
+export const BUILTIN_RUN_TIMEOUT_MS = 15 * 60 * 1000;
+
+const HISTORY_TIMEOUT_MS = 30000;
+
+/**
+ * Analysis engine from organization settings
+ */
+export function getAnalysisEngine(settings?: Record<string, unknown> | null): AnalysisEngine {
+  const engine = settings?.analysis_engine;
+  return (ANALYSIS_ENGINES as readonly unknown[]).includes(engine) ? engine as AnalysisEngine : DEFAULT_ANALYSIS_ENGINE;
+}
+
+/**
+ * Validate an analysis engine update
+ */
+export function parseAnalysisEngine(input: unknown): AnalysisEngine {
+  if (!(ANALYSIS_ENGINES as readonly unknown[]).includes(input)) {
+    throw new Error(`analysis_engine must be one of: ${ANALYSIS_ENGINES.join(', ')}`);
+  }
+  return input as AnalysisEngine;
+}
+
+export function isBuiltinRun(run: Pick<WorkflowExecution, 'namespace'>): boolean {
+  return run.namespace === BUILTIN_FLOW.namespace;
+}
+
+async function getPipelineLlm(): Promise<PipelineLlm> {
+  const configs = await getConfigs(['ANALYSIS_LLM', 'GEMINI_API_KEY']);
+
+  if (configs.ANALYSIS_LLM === 'stub') {
+    return createStubLlm();
+  }
+  if (!configs.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY is not configured. Set it in system config or environment variables.');
+  }
+  return createGeminiLlm(configs.GEMINI_API_KEY);
+}
+
+/**
+ * Latest incidents of the same organization and service, as fetch_historical_incidents queries them
+ */
+async function fetchHistory(incident: KestraIncidentData): Promise<HistoricalIncident[]> {
+  const { data, error } = await getAdminClient()
+    .from('incidents')
+    .select('id, external_id, title, severity, status, logs, metrics, created_at')
+    .eq('organization_id', incident.organization_id!)
+    .eq('service', incident.service)
+    .order('created_at', { ascending: false })
+    .limit(5)
+    .abortSignal(AbortSignal.timeout(HISTORY_TIMEOUT_MS));
+
+  if (error) {
+    throw new Error(`Failed to fetch historical incidents: ${error.message}`);
+  }
+  return (data || []) as HistoricalIncident[];
+}
+
+async function getRunState(organizationId: string, executionId: string): Promise<string | null> {
+  const { data } = await getAdminClient()
+    .from('workflow_executions')
+    .select('state')
+    .eq('organization_id', organizationId)
+    .eq('execution_id', executionId)
+    .maybeSingle();
+
+  return data?.state || null;
+}
+
+/**
+ * Run the pipeline for a started run and store its results
+ * Results are only saved if the incident is still waiting for this run. The
+ * model is passed in, so tests can run the pipeline with a fake one.
+ */
+export async function executeBuiltinRun(
+  incident: KestraIncidentData & { organization_id: string },
+  executionId: string,
+  llm: PipelineLlm
+): Promise<void> {
+  const organizationId = incident.organization_id;
+  const startedAt = Date.now();
+  const finished = () => ({ ended_at: new Date().toISOString(), duration_seconds: (Date.now() - startedAt) / 1000 });
+
+  const base = { execution_id: executionId, incident_id: incident.id, organization_id: organizationId };
+  let payload: KestraCallbackPayload;
+  let failure: string | null = null;
+
+  await updateWorkflowExecution(organizationId, executionId, { state: 'RUNNING' });
+
+  try {
+    const result = await runAnalysisPipeline(incident, {
+      llm,
+      fetchHistory,
+      onTaskRuns: taskRuns => updateWorkflowExecution(organizationId, executionId, { task_runs: taskRuns }),
+      // The cancel route marks the run KILLING; the pipeline stops before its next task
+      isCancelled: async () => await getRunState(organizationId, executionId) === 'KILLING'
+    });
+
+    payload = {
+      ...base,
+      state: 'SUCCESS',
+      analysis: result.analysis,
+      remediation: result.remediation,
+      documentation: result.documentation,
+      confidence_level: result.confidence_level
+    };
+  } catch (error) {
+    if (error instanceof PipelineCancelledError) {
+      await updateWorkflowExecution(organizationId, executionId, { state: 'KILLED', ...finished() });
+      return;
+    }
+
+    console.error(`Built-in analysis failed for incident ${incident.id}:`, error);
+    failure = (error as Error).message;
+    payload = { ...base, state: 'FAILED' };
+  }
+
+  let current = false;
+
+  try {
+    const { data: stored, error } = await getAdminClient()
+      .from('incidents')
+      .select('id, analysis_execution_id')
+      .eq('external_id', incident.id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    // A later run was started for this incident; its result wins
+    current = !!stored && (!stored.analysis_execution_id || stored.analysis_execution_id === executionId);
+
+    if (current) {
+      await recordAnalysisResult(stored!.id, payload, { engine: 'builtin', ...(failure && { error: failure }) });
+    }
+
+    await updateWorkflowExecution(organizationId, executionId, { state: payload.state, error: failure, ...finished() });
+  } catch (error) {
+    console.error(`Error saving built-in analysis for incident ${incident.id}:`, error);
+    payload.state = 'FAILED';
+    await updateWorkflowExecution(organizationId, executionId, {
+      state: 'FAILED',
+      error: `Saving results failed: ${(error as Error).message}`,
+      ...finished()
+    });
+  }
+
+  // Last, so subscribers that reload on this change see the saved analysis
+  if (current) {
+    await setAnalysisStatus(organizationId, incident.id, payload.state === 'SUCCESS' ? 'completed' : 'failed');
+  }
+}
+
+/**
+ * Start the built-in pipeline for an incident
+ * Returns like triggerKestraWorkflowDirect; the run itself happens after the
+ * current request's response is sent, so this must be called while handling a request.
+ */
+export async function triggerBuiltinAnalysis(
+  incident: KestraIncidentData & { organization_id: string },
+  run: WorkflowRunContext
+) {
+  const organizationId = incident.organization_id;
+  let llm: PipelineLlm;
+
+  try {
+    llm = await getPipelineLlm();
+  } catch (error) {
+    console.error('Built-in analysis trigger error:', (error as Error).message);
+
+    const runId = run.recordFailure === false ? null : await recordWorkflowExecution({
+      organizationId,
+      incidentExternalId: incident.id,
+      executionId: null,
+      trigger: run.trigger,
+      triggeredBy: run.triggeredBy,
+      rerunOf: run.rerunOf,
+      flow: BUILTIN_FLOW,
+      state: TRIGGER_FAILED,
+      error: (error as Error).message
+    });
+
+    return {
+      executionId: null,
+      status: 'FAILED',
+      success: false,
+      error: (error as Error).message,
+      runId
+    };
+  }
+
+  const executionId = `builtin-${crypto.randomUUID()}`;
+
+  console.log('Starting built-in analysis:', { incidentId: incident.id, organizationId, executionId });
+
+  await setAnalysisStatus(organizationId, incident.id, 'running', executionId);
+
+  const runId = await recordWorkflowExecution({
+    organizationId,
+    incidentExternalId: incident.id,
+    executionId,
+    trigger: run.trigger,
+    triggeredBy: run.triggeredBy,
+    rerunOf: run.rerunOf,
+    flow: BUILTIN_FLOW,
+    state: 'CREATED'
+  });
+
+  after(async () => {
+    try {
+      await executeBuiltinRun(incident, executionId, llm);
+    } catch (error) {
+      console.error(`Built-in analysis run ${executionId} crashed:`, error);
+    }
+  });
+
+  return {
+    executionId,
+    status: 'CREATED',
+    success: true,
+    runId
+  };
+}
+
+/**
+ * Fail a built-in run that has not finished within BUILTIN_RUN_TIMEOUT_MS
+ * Its server instance stopped before the run could report. Returns the stored
+ * changes (none while the run may still be going), like syncWorkflowExecution.
+ */
+export async function expireBuiltinRun(run: WorkflowExecution): Promise<Partial<ExecutionSummary>> {
+  if (!run.execution_id || Date.now() - new Date(run.created_at).getTime() < BUILTIN_RUN_TIMEOUT_MS) {
+    return {};
+  }
+
+  const summary: Partial<ExecutionSummary> = {
+    state: 'FAILED',
+    ended_at: new Date().toISOString(),
+    error: 'The run stopped without reporting a result'
+  };
+  await updateWorkflowExecution(run.organization_id, run.execution_id, summary);
+
+  const { error } = await getAdminClient()
+    .from('incidents')
+    .update({ analysis_status: 'failed', analysis_updated_at: new Date().toISOString() })
+    .eq('id', run.incident_id)
+    .eq('analysis_execution_id', run.execution_id)
+    .eq('analysis_status', 'running');
+
+  if (error) {
+    console.error('Error updating analysis status:', error);
+  }
+
+  return summary;
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { RedactionRecord } from './redaction';
 
 if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
   throw new Error('NEXT_PUBLIC_SUPABASE_URL environment variable is required');
@@ -24,12 +25,29 @@ export interface Incident {
   status: 'open' | 'investigating' | 'resolved' | 'closed';
   title: string;
   description?: string;
+  // First lines only; the full log is in incident_logs
   logs: string[];
+  log_count: number;
   metrics: Record<string, any>;
   context: Record<string, any>;
   created_at: string;
   updated_at: string;
+  acknowledged_at?: string;
+  acknowledged_by?: string;
   resolved_at?: string;
+  resolved_by?: string;
+  closed_at?: string;
+  closed_by?: string;
+  fingerprint?: string;
+  occurrence_count: number;
+  last_occurrence_at?: string;
+  recovered_at?: string;
+  // What ingest redaction replaced, by rule
+  redactions?: RedactionRecord[];
+  // Latest AI analysis run, updated by the trigger and the Kestra callback
+  analysis_status?: 'pending' | 'running' | 'completed' | 'failed' | null;
+  analysis_execution_id?: string | null;
+  analysis_updated_at?: string | null;
 }
 
 export interface AIAnalysis {
@@ -0,0 +1,41 @@
+import { IncidentAssignee, AssigneeRole } from '@/types/incident';
+
+// Embedded select for incident_assignments (user_id disambiguates from assigned_by)
+export const ASSIGNMENT_SELECT = 'user_id, role, assigned_at, user:user_id (name, email)';
+
+interface AssignedUser {
+  name: string | null;
+  email: string;
+}
+
+interface AssignmentRow {
+  user_id: string;
+  role: AssigneeRole;
+  assigned_at?: string;
+  user?: AssignedUser | AssignedUser[] | null;
+}
+
+/**
+ * Map incident_assignments rows to API assignees, commander first
+ */
+export function toIncidentAssignees(rows: AssignmentRow[] | null | undefined): IncidentAssignee[] {
+  return (rows || [])
+    .map(row => {
+      const user = Array.isArray(row.user) ? row.user[0] : row.user;
+      return {
+        user_id: row.user_id,
+        name: user?.name ?? null,
+        email: user?.email ?? '',
+        role: row.role,
+        assigned_at: row.assigned_at
+      };
+    })
+    .sort((a, b) => (a.role === b.role ? 0 : a.role === 'commander' ? -1 : 1));
+}
+
+/**
+ * Display name for an assignee in notifications and timeline titles
+ */
+export function getAssigneeLabel(assignee: Pick<IncidentAssignee, 'name' | 'email'>): string {
+  return assignee.name || assignee.email;
+}
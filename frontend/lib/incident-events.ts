@@ -0,0 +1,95 @@
+import { getAdminClient } from './supabase-admin';
+
+export type IncidentEventType =
+  | 'incident_created'
+  | 'duplicate_received'
+  | 'alert_grouped'
+  | 'routing_applied'
+  | 'kestra_triggered'
+  | 'kestra_trigger_failed'
+  | 'kestra_finished'
+  | 'kestra_cancelled'
+  | 'analysis_saved'
+  | 'status_changed'
+  | 'recovery_received'
+  | 'assignment_changed'
+  | 'note_added'
+  | 'remediation_executed'
+  | 'slack_notified';
+
+export interface IncidentEvent {
+  id: string;
+  incident_id: string;
+  organization_id: string;
+  event_type: IncidentEventType;
+  title: string;
+  details: Record<string, unknown>;
+  actor_id: string | null;
+  occurred_at: string;
+}
+
+export interface RecordIncidentEventInput {
+  incidentId: string;
+  organizationId: string;
+  type: IncidentEventType;
+  title: string;
+  details?: Record<string, unknown>;
+  actorId?: string | null;
+  occurredAt?: string;
+  // Events sharing a dedupe key are only recorded once (e.g. polled execution results)
+  dedupeKey?: string;
+}
+
+/**
+ * Record an event on an incident's timeline
+ * Uses the admin client so it works from webhooks and background jobs.
+ * Failures are logged and swallowed - the timeline must never break the caller.
+ */
+export async function recordIncidentEvent(input: RecordIncidentEventInput): Promise<void> {
+  try {
+    const row = {
+      incident_id: input.incidentId,
+      organization_id: input.organizationId,
+      event_type: input.type,
+      title: input.title,
+      details: input.details || {},
+      actor_id: input.actorId || null,
+      occurred_at: input.occurredAt || new Date().toISOString(),
+      dedupe_key: input.dedupeKey || null
+    };
+
+    const query = getAdminClient().from('incident_events');
+    const { error } = input.dedupeKey
+      ? await query.upsert([row], { onConflict: 'dedupe_key', ignoreDuplicates: true })
+      : await query.insert([row]);
+
+    if (error) {
+      console.error(`Error recording incident event ${input.type}:`, error);
+    }
+  } catch (error) {
+    console.error(`Error recording incident event ${input.type}:`, error);
+  }
+}
+
+/**
+ * Record an event for an incident identified by its external ID
+ * For callers (Kestra, remediation) that only know the external incident ID
+ */
+export async function recordIncidentEventByExternalId(
+  externalId: string,
+  input: Omit<RecordIncidentEventInput, 'incidentId'>
+): Promise<void> {
+  const { data: incident, error } = await getAdminClient()
+    .from('incidents')
+    .select('id')
+    .eq('external_id', externalId)
+    .eq('organization_id', input.organizationId)
+    .maybeSingle();
+
+  if (error || !incident) {
+    console.warn(`Cannot record ${input.type} event: incident ${externalId} not found`);
+    return;
+  }
+
+  await recordIncidentEvent({ ...input, incidentId: incident.id });
+}
@@ -0,0 +1,112 @@
+/**
+ * Incident lifecycle state machine
+ *
+ * Shared by the transition API and the status controls in the UI, so it must
+ * stay free of server-only imports.
+ */
+
+export type IncidentStatus = 'open' | 'investigating' | 'resolved' | 'closed';
+
+export type IncidentAction = 'acknowledge' | 'investigate' | 'resolve' | 'close' | 'reopen';
+
+export interface IncidentLifecycleState {
+  status: IncidentStatus;
+  acknowledged_at?: string | null;
+}
+
+interface TransitionRule {
+  from: IncidentStatus[];
+  to: IncidentStatus;
+  label: string;
+}
+
+export const INCIDENT_TRANSITIONS: Record<IncidentAction, TransitionRule> = {
+  acknowledge: { from: ['open'], to: 'open', label: 'Acknowledge' },
+  investigate: { from: ['open'], to: 'investigating', label: 'Investigate' },
+  resolve: { from: ['open', 'investigating'], to: 'resolved', label: 'Resolve' },
+  close: { from: ['resolved'], to: 'closed', label: 'Close' },
+  reopen: { from: ['resolved', 'closed'], to: 'open', label: 'Reopen' }
+};
+
+export const INCIDENT_ACTIONS = Object.keys(INCIDENT_TRANSITIONS) as IncidentAction[];
+
+export function isIncidentAction(value: unknown): value is IncidentAction {
+  // Own keys only: `in` would also accept inherited names such as "toString"
+  return typeof value === 'string' && Object.hasOwn(INCIDENT_TRANSITIONS, value);
+}
+
+/**
+ * Check whether an action is legal for the incident's current state
+ */
+export function canApplyAction(incident: IncidentLifecycleState, action: IncidentAction): boolean {
+  const rule = INCIDENT_TRANSITIONS[action];
+  if (!rule.from.includes(incident.status)) {
+    return false;
+  }
+
+  // Acknowledging twice is a no-op, not a transition
+  if (action === 'acknowledge' && incident.acknowledged_at) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * List the actions available from the incident's current state
+ */
+export function getAvailableActions(incident: IncidentLifecycleState): IncidentAction[] {
+  return INCIDENT_ACTIONS.filter(action => canApplyAction(incident, action));
+}
+
+/**
+ * Compute the column updates for applying an action
+ * Throws if the transition is not allowed from the current state
+ */
+export function planTransition(
+  incident: IncidentLifecycleState,
+  action: IncidentAction,
+  // null for system transitions (e.g. auto-resolve from a recovery notification)
+  userId: string | null,
+  now: Date = new Date()
+): { status: IncidentStatus; updates: Record<string, string | null> } {
+  if (!canApplyAction(incident, action)) {
+    throw new Error(`Cannot ${action} an incident that is ${incident.status}`);
+  }
+
+  const timestamp = now.toISOString();
+  const to = INCIDENT_TRANSITIONS[action].to;
+  const updates: Record<string, string | null> = { status: to };
+
+  switch (action) {
+    case 'acknowledge':
+    case 'investigate':
+      if (!incident.acknowledged_at) {
+        updates.acknowledged_at = timestamp;
+        updates.acknowledged_by = userId;
+      }
+      break;
+    case 'resolve':
+      updates.resolved_at = timestamp;
+      updates.resolved_by = userId;
+      // System resolves (no user) don't count as an acknowledgement
+      if (!incident.acknowledged_at && userId) {
+        updates.acknowledged_at = timestamp;
+        updates.acknowledged_by = userId;
+      }
+      break;
+    case 'close':
+      updates.closed_at = timestamp;
+      updates.closed_by = userId;
+      break;
+    case 'reopen':
+      updates.resolved_at = null;
+      updates.resolved_by = null;
+      updates.closed_at = null;
+      updates.closed_by = null;
+      updates.recovered_at = null;
+      break;
+  }
+
+  return { status: to, updates };
+}
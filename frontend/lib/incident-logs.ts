@@ -0,0 +1,169 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getAdminClient } from './supabase-admin';
+
+/**
+ * Incident log storage
+ *
+ * Full logs live in `incident_logs`, one row per line with its line number and
+ * the level and timestamp parsed from the line. `incidents.logs` keeps only the
+ * first LOG_PREVIEW_LINES lines so incident lists and AI prompts stay small;
+ * the rest is read a page at a time through GET /api/incidents/:id/logs.
+ */
+
+export const LOG_LEVELS = ['FATAL', 'ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export const LOG_PREVIEW_LINES = 20;
+// Lines past this are dropped at ingest; log_count still reports how many arrived
+export const MAX_STORED_LOG_LINES = 10000;
+export const MAX_LOG_LINE_LENGTH = 8192;
+// Preview lines are also cut shorter, since they are inlined into every incident response
+const MAX_PREVIEW_LINE_LENGTH = 1000;
+
+export interface IncidentLogLine {
+  line_number: number;
+  level: LogLevel | null;
+  logged_at: string | null;
+  message: string;
+}
+
+export interface IncidentLogPage {
+  lines: IncidentLogLine[];
+  // Lines matching the filters from the cursor on; on the first page, all matching lines
+  matched: number;
+  // Line number to pass as `after` for the next page
+  next_cursor: number | null;
+}
+
+export interface IncidentLogQuery {
+  level?: LogLevel[];
+  search?: string;
+  after?: number;
+  limit: number;
+}
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  fatal: 'FATAL', critical: 'FATAL', crit: 'FATAL', emerg: 'FATAL',
+  error: 'ERROR', err: 'ERROR',
+  warning: 'WARN', warn: 'WARN',
+  info: 'INFO', notice: 'INFO',
+  debug: 'DEBUG',
+  trace: 'TRACE'
+};
+
+// First level keyword in the line: "ERROR: ...", "[warn] ...", "level=info ...", {"level":"debug"}
+const LEVEL_PATTERN = /\b(fatal|critical|crit|emerg|error|err|warning|warn|info|notice|debug|trace)\b/i;
+
+// Leading ISO 8601 timestamp, optionally bracketed: "2024-01-15T10:30:00Z", "[2024-01-15 10:30:00,123]"
+const TIMESTAMP_PATTERN = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d{1,9})?)(Z|[+-]\d{2}:?\d{2})?/;
+
+function truncate(line: string, maxLength: number): string {
+  return line.length > maxLength ? `${line.slice(0, maxLength)}…` : line;
+}
+
+/**
+ * Parse the level and timestamp out of a raw log line
+ * Timestamps without a zone are read as UTC.
+ */
+export function parseLogLine(line: string, lineNumber: number): IncidentLogLine {
+  const level = line.slice(0, 200).match(LEVEL_PATTERN);
+
+  let loggedAt: string | null = null;
+  const timestamp = line.match(TIMESTAMP_PATTERN);
+  if (timestamp) {
+    const [, dateTime, zone] = timestamp;
+    const parsed = new Date(`${dateTime.replace(' ', 'T').replace(',', '.')}${zone || 'Z'}`);
+    if (!isNaN(parsed.getTime())) {
+      loggedAt = parsed.toISOString();
+    }
+  }
+
+  return {
+    line_number: lineNumber,
+    level: level ? LEVEL_ALIASES[level[1].toLowerCase()] : null,
+    logged_at: loggedAt,
+    message: truncate(line, MAX_LOG_LINE_LENGTH)
+  };
+}
+
+/**
+ * The preview of incoming logs kept on the incident row
+ * log_count is set by storeIncidentLogs, together with the stored lines.
+ */
+export function toLogPreview(logs: string[]): { logs: string[] } {
+  return {
+    logs: logs.slice(0, LOG_PREVIEW_LINES).map(line => truncate(line, MAX_PREVIEW_LINE_LENGTH))
+  };
+}
+
+/**
+ * Store an incident's full logs in incident_logs and set its log_count (service role)
+ * Lines are numbered from 1; anything past MAX_STORED_LOG_LINES is dropped.
+ * One database call (store_incident_logs), so either both are written or neither is.
+ */
+export async function storeIncidentLogs(
+  incidentId: string,
+  logs: string[],
+  client: SupabaseClient = getAdminClient()
+): Promise<void> {
+  const lines = logs.slice(0, MAX_STORED_LOG_LINES).map((line, index) => parseLogLine(line, index + 1));
+
+  const { error } = await client.rpc('store_incident_logs', {
+    p_incident_id: incidentId,
+    p_lines: lines,
+    p_log_count: logs.length
+  });
+
+  if (error) {
+    console.error('Error storing incident logs:', error);
+    throw error;
+  }
+}
+
+// Escape LIKE wildcards so a search for "100%" matches literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Read one page of an incident's log lines, oldest first
+ * Uses the caller's client so RLS applies.
+ */
+export async function queryIncidentLogs(
+  client: SupabaseClient,
+  incidentId: string,
+  { level, search, after, limit }: IncidentLogQuery
+): Promise<IncidentLogPage> {
+  let query = client
+    .from('incident_logs')
+    .select('line_number, level, logged_at, message', { count: 'exact' })
+    .eq('incident_id', incidentId)
+    .order('line_number', { ascending: true })
+    .limit(limit + 1);
+
+  if (level && level.length > 0) {
+    query = query.in('level', level);
+  }
+  if (search) {
+    query = query.ilike('message', `%${escapeLike(search)}%`);
+  }
+  if (after) {
+    query = query.gt('line_number', after);
+  }
+
+  const { data, count, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const lines = (data || []).slice(0, limit) as IncidentLogLine[];
+  const hasMore = (data || []).length > limit;
+
+  return {
+    lines,
+    matched: count ?? lines.length,
+    next_cursor: hasMore ? lines[lines.length - 1].line_number : null
+  };
+}
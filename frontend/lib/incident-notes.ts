@@ -0,0 +1,106 @@
+import { getAdminClient } from './supabase-admin';
+
+// Embedded select for incident_notes (author_id disambiguates the users join)
+export const NOTE_SELECT = 'id, body, mentions, author_id, created_at, updated_at, author:author_id (name, email)';
+
+// @jane or @jane@company.com
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+interface NoteAuthor {
+  name: string | null;
+  email: string;
+}
+
+interface NoteRow {
+  id: string;
+  body: string;
+  mentions: string[] | null;
+  author_id: string | null;
+  created_at: string;
+  updated_at: string;
+  author?: NoteAuthor | NoteAuthor[] | null;
+}
+
+/**
+ * Resolve @mentions in a note body to organization user IDs
+ * Matches a full email first, then the email's local part.
+ */
+export function extractMentions(
+  body: string,
+  users: Array<{ id: string; email: string }>
+): string[] {
+  const mentioned = new Set<string>();
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const handle = match[1].toLowerCase().replace(/\.+$/, '');
+    const user = users.find(u => u.email.toLowerCase() === handle)
+      || users.find(u => u.email.toLowerCase().split('@')[0] === handle);
+    if (user) {
+      mentioned.add(user.id);
+    }
+  }
+
+  return [...mentioned];
+}
+
+/**
+ * Map an incident_notes row to the API shape, resolving mention IDs to users
+ */
+export function toIncidentNote(
+  row: NoteRow,
+  users: Array<{ id: string; name: string | null; email: string }>
+) {
+  const author = Array.isArray(row.author) ? row.author[0] : row.author;
+  return {
+    id: row.id,
+    body: row.body,
+    author: author && row.author_id ? { id: row.author_id, name: author.name, email: author.email } : null,
+    mentions: (row.mentions || [])
+      .map(id => users.find(u => u.id === id))
+      .filter((u): u is { id: string; name: string | null; email: string } => !!u)
+      .map(u => ({ id: u.id, name: u.name, email: u.email })),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+/**
+ * Format an incident's notes as plain text for postmortem generation
+ * Returns null when there are no notes so callers can omit the section.
+ */
+export async function getNotesForPostmortem(externalId: string, organizationId: string): Promise<string | null> {
+  const supabase = getAdminClient();
+
+  const { data: incident } = await supabase
+    .from('incidents')
+    .select('id')
+    .eq('external_id', externalId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (!incident) {
+    return null;
+  }
+
+  const { data: notes, error } = await supabase
+    .from('incident_notes')
+    .select(NOTE_SELECT)
+    .eq('incident_id', incident.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching incident notes for postmortem:', error);
+    return null;
+  }
+
+  if (!notes || notes.length === 0) {
+    return null;
+  }
+
+  return (notes as NoteRow[])
+    .map(note => {
+      const author = Array.isArray(note.author) ? note.author[0] : note.author;
+      return `[${note.created_at}] ${author?.name || author?.email || 'Unknown'}:\n${note.body}`;
+    })
+    .join('\n\n');
+}
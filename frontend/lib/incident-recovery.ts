@@ -0,0 +1,191 @@
+import { getAdminClient } from './supabase-admin';
+import { Incident } from './db';
+import { Organization } from './supabase-queries';
+import { computeFingerprint, getAlertGroupingConfig } from './alert-grouping';
+import { planTransition } from './incident-lifecycle';
+import { recordIncidentEvent } from './incident-events';
+
+/**
+ * Auto-resolve from recovery notifications
+ *
+ * Recovery payloads (Alertmanager `resolved`, CloudWatch `OK`, Datadog
+ * recoveries, PagerDuty `incident.resolve`) resolve the matching open incident
+ * instead of opening a new one. Configured per organization under
+ * `organizations.settings.auto_resolve`.
+ */
+
+export interface AutoResolveConfig {
+  enabled: boolean;
+  // Only flag the incident as recovered; a responder confirms the resolve
+  require_confirmation: boolean;
+}
+
+export const DEFAULT_AUTO_RESOLVE: AutoResolveConfig = {
+  enabled: true,
+  require_confirmation: false
+};
+
+export type RecoveryOutcome = 'resolved' | 'pending_confirmation' | 'ignored' | 'no_match';
+
+export function getAutoResolveConfig(settings?: Record<string, unknown> | null): AutoResolveConfig {
+  const raw = (settings?.auto_resolve || {}) as Partial<AutoResolveConfig>;
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : DEFAULT_AUTO_RESOLVE.enabled,
+    require_confirmation: typeof raw.require_confirmation === 'boolean'
+      ? raw.require_confirmation
+      : DEFAULT_AUTO_RESOLVE.require_confirmation
+  };
+}
+
+/**
+ * Validate a (partial) auto-resolve config update and merge it over the current config
+ */
+export function parseAutoResolveConfig(
+  input: unknown,
+  current: AutoResolveConfig = DEFAULT_AUTO_RESOLVE
+): AutoResolveConfig {
+  if (!input || typeof input !== 'object') {
+    throw new Error('auto_resolve must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  for (const key of ['enabled', 'require_confirmation']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      throw new Error(`auto_resolve.${key} must be a boolean`);
+    }
+  }
+
+  return getAutoResolveConfig({ auto_resolve: { ...current, ...raw } });
+}
+
+/**
+ * Find the open incident a recovery refers to
+ * Matches the external ID first, then the alert fingerprint.
+ */
+async function findRecoveredIncident(
+  organization: Organization,
+  recovery: { external_id: string; source: string; service: string; title: string; context?: Record<string, unknown> }
+): Promise<Incident | null> {
+  const adminClient = getAdminClient();
+
+  const { data: byExternalId } = await adminClient
+    .from('incidents')
+    .select('*')
+    .eq('organization_id', organization.id)
+    .eq('external_id', recovery.external_id)
+    .in('status', ['open', 'investigating'])
+    .maybeSingle();
+
+  if (byExternalId) {
+    return byExternalId as Incident;
+  }
+
+  const fingerprint = computeFingerprint(recovery, getAlertGroupingConfig(organization.settings));
+
+  const { data: byFingerprint } = await adminClient
+    .from('incidents')
+    .select('*')
+    .eq('organization_id', organization.id)
+    .eq('fingerprint', fingerprint)
+    .in('status', ['open', 'investigating'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (byFingerprint as Incident) || null;
+}
+
+/**
+ * Apply a recovery notification to the matching open incident
+ */
+export async function applyRecovery(
+  organization: Organization,
+  recovery: { external_id: string; source: string; service: string; title: string; context?: Record<string, unknown> }
+): Promise<{ outcome: RecoveryOutcome; incident: Incident | null }> {
+  const config = getAutoResolveConfig(organization.settings);
+
+  if (!config.enabled) {
+    return { outcome: 'ignored', incident: null };
+  }
+
+  const incident = await findRecoveredIncident(organization, recovery);
+
+  if (!incident) {
+    return { outcome: 'no_match', incident: null };
+  }
+
+  const adminClient = getAdminClient();
+  const now = new Date();
+
+  if (config.require_confirmation) {
+    const { data: flagged, error } = await adminClient
+      .from('incidents')
+      .update({ recovered_at: now.toISOString() })
+      .eq('id', incident.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: organization.id,
+      type: 'recovery_received',
+      title: `Recovery reported by ${recovery.source}, awaiting confirmation`,
+      details: { source: recovery.source, external_id: recovery.external_id }
+    });
+
+    return { outcome: 'pending_confirmation', incident: flagged as Incident };
+  }
+
+  const transition = planTransition(incident, 'resolve', null, now);
+
+  // Guard on the current status so a concurrent human transition wins
+  const { data: resolved, error } = await adminClient
+    .from('incidents')
+    .update({ ...transition.updates, recovered_at: now.toISOString() })
+    .eq('id', incident.id)
+    .eq('status', incident.status)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!resolved) {
+    return { outcome: 'no_match', incident: null };
+  }
+
+  await adminClient.from('audit_log').insert([{
+    incident_id: incident.id,
+    organization_id: organization.id,
+    action: 'status_changed',
+    details: {
+      action: 'resolve',
+      old_status: incident.status,
+      new_status: transition.status,
+      auto_resolved: true,
+      source: recovery.source
+    }
+  }]);
+
+  await recordIncidentEvent({
+    incidentId: incident.id,
+    organizationId: organization.id,
+    type: 'status_changed',
+    title: `Auto-resolved: recovery reported by ${recovery.source}`,
+    details: {
+      action: 'resolve',
+      old_status: incident.status,
+      new_status: transition.status,
+      auto_resolved: true,
+      source: recovery.source
+    }
+  });
+
+  return { outcome: 'resolved', incident: resolved as Incident };
+}
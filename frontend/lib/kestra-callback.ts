@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import { getConfigs } from './system-config';
+import { getAdminClient } from './supabase-admin';
+import { recordIncidentEvent } from './incident-events';
+
+/**
+ * Kestra completion callbacks
+ *
+ * Every triggered execution gets a callback URL and a bearer token in its
+ * `incident_data.callback` input. When the flow finishes (or fails) it POSTs
+ * its results to POST /api/kestra/callback, which stores the analysis and
+ * updates the incident's `analysis_status`, so nothing depends on a browser
+ * tab watching the execution.
+ *
+ * The token is `<callback id>.<expiry>.<signature>`, an HMAC under
+ * KESTRA_CALLBACK_SECRET of the organization, incident, callback ID and expiry.
+ * Kestra only assigns the execution ID once the trigger returns, so the random
+ * callback ID is signed instead and stored on the execution's
+ * `workflow_executions` row: a token is only accepted for that one execution,
+ * and not after it expires.
+ */
+
+export type AnalysisStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export const CALLBACK_STATES = ['SUCCESS', 'FAILED'] as const;
+
+export type CallbackState = typeof CALLBACK_STATES[number];
+
+export interface KestraCallback {
+  url: string;
+  token: string;
+}
+
+export interface KestraCallbackPayload {
+  execution_id: string;
+  incident_id: string;
+  organization_id: string;
+  state: CallbackState;
+  analysis?: unknown;
+  remediation?: unknown;
+  documentation?: unknown;
+  confidence_level?: string;
+}
+
+const CONFIDENCE_LEVELS = ['HIGH', 'MEDIUM', 'LOW'];
+
+// Covers the flow's own retries; executions still running after this can't report back
+export const CALLBACK_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+function signCallback(secret: string, organizationId: string, incidentId: string, callbackId: string, expiresAt: number): string {
+  return crypto.createHmac('sha256', secret)
+    .update(`${organizationId}:${incidentId}:${callbackId}:${expiresAt}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Callback URL and token for an execution; null when KESTRA_CALLBACK_SECRET is not set
+ * `id` must be stored with the execution it is passed to (see recordWorkflowExecution).
+ */
+export async function createKestraCallback(
+  organizationId: string,
+  incidentId: string,
+  now: Date = new Date()
+): Promise<(KestraCallback & { id: string }) | null> {
+  const configs = await getConfigs(['KESTRA_CALLBACK_URL', 'KESTRA_CALLBACK_SECRET']);
+
+  if (!configs.KESTRA_CALLBACK_SECRET) {
+    console.warn('KESTRA_CALLBACK_SECRET is not configured; Kestra results will not be reported back');
+    return null;
+  }
+
+  const id = crypto.randomUUID();
+  const expiresAt = Math.floor(now.getTime() / 1000) + CALLBACK_TOKEN_TTL_SECONDS;
+
+  return {
+    id,
+    url: configs.KESTRA_CALLBACK_URL
+      || `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/kestra/callback`,
+    token: `${id}.${expiresAt}.${signCallback(configs.KESTRA_CALLBACK_SECRET, organizationId, incidentId, id, expiresAt)}`
+  };
+}
+
+/**
+ * Check a callback's bearer token against the incident and execution it reports on
+ * Returns why the token was rejected, or null when it is valid.
+ */
+export async function verifyKestraCallback(
+  token: string,
+  payload: Pick<KestraCallbackPayload, 'organization_id' | 'incident_id' | 'execution_id'>,
+  now: Date = new Date()
+): Promise<string | null> {
+  const { KESTRA_CALLBACK_SECRET: secret } = await getConfigs(['KESTRA_CALLBACK_SECRET']);
+  if (!secret) {
+    return 'Invalid callback token';
+  }
+
+  const [callbackId, expiry, signature] = token.trim().toLowerCase().split('.');
+  const expiresAt = Number(expiry);
+  if (!callbackId || !signature || !Number.isInteger(expiresAt)) {
+    return 'Invalid callback token';
+  }
+
+  const expected = Buffer.from(signCallback(secret, payload.organization_id, payload.incident_id, callbackId, expiresAt), 'utf8');
+  const provided = Buffer.from(signature, 'utf8');
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return 'Invalid callback token';
+  }
+
+  if (expiresAt * 1000 < now.getTime()) {
+    return 'Callback token has expired';
+  }
+
+  const { data: run, error } = await getAdminClient()
+    .from('workflow_executions')
+    .select('execution_id')
+    .eq('organization_id', payload.organization_id)
+    .eq('callback_id', callbackId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!run || run.execution_id !== payload.execution_id) {
+    return 'Callback token is not valid for this execution';
+  }
+
+  return null;
+}
+
+/**
+ * Validate a callback body; returns an error message or the payload
+ */
+export function parseKestraCallback(body: unknown): { payload?: KestraCallbackPayload; error?: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Body must be a JSON object' };
+  }
+
+  const raw = body as Record<string, unknown>;
+  for (const field of ['execution_id', 'incident_id', 'organization_id'] as const) {
+    if (typeof raw[field] !== 'string' || !raw[field]) {
+      return { error: `${field} is required` };
+    }
+  }
+  if (!(CALLBACK_STATES as readonly unknown[]).includes(raw.state)) {
+    return { error: `state must be one of: ${CALLBACK_STATES.join(', ')}` };
+  }
+
+  return { payload: raw as unknown as KestraCallbackPayload };
+}
+
+/**
+ * Agent output as markdown: Gemini responses are unwrapped to their text
+ */
+export function toAnalysisText(output: unknown): string | null {
+  if (output === null || output === undefined || output === '') return null;
+  if (typeof output === 'string') return output;
+
+  const candidates = (output as { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> }).candidates;
+  const text = candidates?.[0]?.content?.parts?.[0]?.text;
+  return text || JSON.stringify(output);
+}
+
+/**
+ * Store (or replace) an incident's AI analysis from a finished execution (service role)
+ * Returns the analysis row ID and whether an earlier analysis was replaced.
+ */
+export async function saveKestraAnalysis(
+  incidentId: string,
+  payload: KestraCallbackPayload
+): Promise<{ id: string; replaced: boolean }> {
+  const supabase = getAdminClient();
+
+  const { data: existing } = await supabase
+    .from('ai_analyses')
+    .select('id')
+    .eq('incident_id', incidentId)
+    .eq('organization_id', payload.organization_id)
+    .maybeSingle();
+
+  const confidence = String(payload.confidence_level || '').toUpperCase();
+  const row = {
+    incident_id: incidentId,
+    organization_id: payload.organization_id,
+    kestra_execution_id: payload.execution_id,
+    analysis: toAnalysisText(payload.analysis),
+    remediation: toAnalysisText(payload.remediation),
+    documentation: toAnalysisText(payload.documentation),
+    confidence_level: CONFIDENCE_LEVELS.includes(confidence) ? confidence : 'MEDIUM'
+  };
+
+  const { data, error } = existing
+    ? await supabase.from('ai_analyses').update(row).eq('id', existing.id).select('id').single()
+    : await supabase.from('ai_analyses').insert([row]).select('id').single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { id: data.id, replaced: !!existing };
+}
+
+/**
+ * Record a finished execution on the incident's timeline and store its analysis on success
+ * Returns the analysis row ID, if one was saved. Safe to repeat: events are deduplicated.
+ */
+export async function recordAnalysisResult(
+  incidentId: string,
+  payload: KestraCallbackPayload,
+  details: Record<string, unknown> = {}
+): Promise<string | null> {
+  await recordIncidentEvent({
+    incidentId,
+    organizationId: payload.organization_id,
+    type: 'kestra_finished',
+    title: `AI analysis workflow finished: ${payload.state}`,
+    details: { execution_id: payload.execution_id, state: payload.state, ...details },
+    dedupeKey: `kestra_finished:${payload.execution_id}`
+  });
+
+  if (payload.state !== 'SUCCESS') {
+    return null;
+  }
+
+  const saved = await saveKestraAnalysis(incidentId, payload);
+
+  await recordIncidentEvent({
+    incidentId,
+    organizationId: payload.organization_id,
+    type: 'analysis_saved',
+    title: saved.replaced ? 'AI analysis updated' : 'AI analysis saved',
+    details: { execution_id: payload.execution_id, analysis_id: saved.id },
+    dedupeKey: `analysis_saved:${payload.execution_id}`
+  });
+
+  return saved.id;
+}
+
+/**
+ * Set an incident's analysis state (service role)
+ * `running` also records which execution the incident is waiting for.
+ */
+export async function setAnalysisStatus(
+  organizationId: string,
+  externalId: string,
+  status: AnalysisStatus,
+  executionId?: string | null
+): Promise<void> {
+  const updates: Record<string, string | null> = {
+    analysis_status: status,
+    analysis_updated_at: new Date().toISOString()
+  };
+  if (executionId !== undefined) {
+    updates.analysis_execution_id = executionId;
+  }
+
+  const { error } = await getAdminClient()
+    .from('incidents')
+    .update(updates)
+    .eq('external_id', externalId)
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    console.error('Error updating analysis status:', error);
+  }
+}
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { getAdminClient } from './supabase-admin';
+import { getKestraClient } from './kestra';
+import { getDeployedFlow, getWorkflowYaml, uploadFlow } from './kestra-setup';
+import { DiffHunk, diffHunks } from './text-diff';
+
+/**
+ * Kestra flow versions
+ *
+ * Compares the incident flow deployed in Kestra (global flow coordinates)
+ * with the version bundled with the app. Replacing the deployed flow is an
+ * explicit step from /setup: the source being replaced is saved in
+ * `kestra_flow_backups` first, and any backup can be rolled back to.
+ * Each replacement only goes ahead if the deployed revision is the one the
+ * admin reviewed.
+ */
+
+export type FlowVersionStatus = 'missing' | 'current' | 'outdated';
+
+export type FlowBackupReason = 'upgrade' | 'rollback';
+
+export interface FlowBackup {
+  id: string;
+  namespace: string;
+  flow_id: string;
+  tenant: string;
+  revision: number;
+  reason: FlowBackupReason;
+  created_by: string | null;
+  created_at: string;
+}
+
+export const FLOW_BACKUP_SELECT = 'id, namespace, flow_id, tenant, revision, reason, created_by, created_at';
+
+const MAX_BACKUPS_LISTED = 20;
+
+export interface FlowVersionReport {
+  namespace: string;
+  flow_id: string;
+  tenant: string;
+  status: FlowVersionStatus;
+  bundled: { hash: string };
+  deployed: { revision: number; hash: string } | null;
+  // From the deployed source to the bundled one; empty unless outdated
+  diff: DiffHunk[];
+  backups: FlowBackup[];
+}
+
+export interface FlowChangeResult {
+  success: boolean;
+  // The deployed flow is not at the revision the change was based on
+  conflict?: boolean;
+  error?: string;
+  revision?: number;
+  backup_id?: string | null;
+}
+
+// Whitespace at line ends and around the file is not a difference
+function normalizeSource(source: string): string {
+  return source.replace(/[ \t]+$/gm, '').trim();
+}
+
+/**
+ * Short content hash of a flow source, to tell versions apart at a glance
+ */
+export function hashFlowSource(source: string): string {
+  return crypto.createHash('sha256').update(normalizeSource(source), 'utf8').digest('hex').slice(0, 12);
+}
+
+async function listFlowBackups(flow: { namespace: string; flow_id: string; tenant: string }): Promise<FlowBackup[]> {
+  const { data, error } = await getAdminClient()
+    .from('kestra_flow_backups')
+    .select(FLOW_BACKUP_SELECT)
+    .eq('tenant', flow.tenant)
+    .eq('namespace', flow.namespace)
+    .eq('flow_id', flow.flow_id)
+    .order('created_at', { ascending: false })
+    .limit(MAX_BACKUPS_LISTED);
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as FlowBackup[];
+}
+
+/**
+ * Deployed and bundled flow versions, the diff between them and the saved backups
+ */
+export async function getFlowVersionReport(): Promise<FlowVersionReport> {
+  const { flow } = await getKestraClient();
+  const bundled = getWorkflowYaml(flow);
+  const deployed = await getDeployedFlow(flow.namespace, flow.flow_id);
+
+  const status: FlowVersionStatus = !deployed
+    ? 'missing'
+    : normalizeSource(deployed.source) === normalizeSource(bundled) ? 'current' : 'outdated';
+
+  return {
+    namespace: flow.namespace,
+    flow_id: flow.flow_id,
+    tenant: flow.tenant,
+    status,
+    bundled: { hash: hashFlowSource(bundled) },
+    deployed: deployed && { revision: deployed.revision, hash: hashFlowSource(deployed.source) },
+    diff: status === 'outdated' ? diffHunks(normalizeSource(deployed!.source), normalizeSource(bundled)) : [],
+    backups: await listFlowBackups(flow)
+  };
+}
+
+/**
+ * Replace the deployed flow with `source`, saving the deployed one first
+ * `expectedRevision` is the revision the admin reviewed (null: not deployed).
+ */
+async function replaceFlow(
+  source: string,
+  expectedRevision: number | null,
+  reason: FlowBackupReason,
+  userId: string
+): Promise<FlowChangeResult> {
+  const { flow } = await getKestraClient();
+  const deployed = await getDeployedFlow(flow.namespace, flow.flow_id);
+
+  if ((deployed?.revision ?? null) !== expectedRevision) {
+    return {
+      success: false,
+      conflict: true,
+      error: 'The deployed flow changed since it was compared. Reload and review the diff again.'
+    };
+  }
+
+  let backupId: string | null = null;
+
+  if (deployed) {
+    const { data, error } = await getAdminClient()
+      .from('kestra_flow_backups')
+      .insert([{
+        namespace: flow.namespace,
+        flow_id: flow.flow_id,
+        tenant: flow.tenant,
+        revision: deployed.revision,
+        source: deployed.source,
+        reason,
+        created_by: userId
+      }])
+      .select('id')
+      .single();
+
+    // No backup, no change
+    if (error) {
+      throw error;
+    }
+    backupId = data.id;
+  }
+
+  const upload = await uploadFlow(flow.namespace, flow.flow_id, source, expectedRevision);
+
+  return { ...upload, backup_id: backupId };
+}
+
+/**
+ * Deploy the bundled flow over the reviewed revision
+ */
+export async function upgradeFlow(expectedRevision: number | null, userId: string): Promise<FlowChangeResult> {
+  const { flow } = await getKestraClient();
+  return replaceFlow(getWorkflowYaml(flow), expectedRevision, 'upgrade', userId);
+}
+
+async function getFlowBackup(
+  flow: { namespace: string; flow_id: string; tenant: string },
+  backupId: string
+): Promise<(FlowBackup & { source: string }) | null> {
+  const { data, error } = await getAdminClient()
+    .from('kestra_flow_backups')
+    .select(`${FLOW_BACKUP_SELECT}, source`)
+    .eq('id', backupId)
+    .eq('tenant', flow.tenant)
+    .eq('namespace', flow.namespace)
+    .eq('flow_id', flow.flow_id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as (FlowBackup & { source: string }) | null;
+}
+
+/**
+ * What rolling back to a backup would change: the diff from the deployed source to the backup
+ * Null when there is no such backup for the configured flow.
+ */
+export async function getFlowBackupDiff(
+  backupId: string
+): Promise<{ backup: FlowBackup; deployed_revision: number | null; diff: DiffHunk[] } | null> {
+  const { flow } = await getKestraClient();
+  const backup = await getFlowBackup(flow, backupId);
+  if (!backup) {
+    return null;
+  }
+
+  const { source, ...summary } = backup;
+  const deployed = await getDeployedFlow(flow.namespace, flow.flow_id);
+
+  return {
+    backup: summary,
+    deployed_revision: deployed?.revision ?? null,
+    diff: diffHunks(normalizeSource(deployed?.source || ''), normalizeSource(source))
+  };
+}
+
+/**
+ * Deploy a saved backup over the reviewed revision
+ * Null when there is no such backup for the configured flow.
+ */
+export async function rollbackFlow(
+  backupId: string,
+  expectedRevision: number | null,
+  userId: string
+): Promise<FlowChangeResult | null> {
+  const { flow } = await getKestraClient();
+  const backup = await getFlowBackup(flow, backupId);
+  if (!backup) {
+    return null;
+  }
+
+  return replaceFlow(backup.source, expectedRevision, 'rollback', userId);
+}
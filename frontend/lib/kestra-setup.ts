@@ -1,64 +1,6 @@
-import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-import { getConfig, getConfigs } from './system-config';
-
-interface KestraConfig {
-  url: string;
-  username?: string;
-  password?: string;
-}
-
-// Cached config for sync functions
-let cachedConfig: KestraConfig | null = null;
-
-/**
- * Get Kestra config from database (with env fallback)
- */
-async function getKestraConfigAsync(): Promise<KestraConfig> {
-  const configs = await getConfigs(['KESTRA_URL', 'KESTRA_USERNAME', 'KESTRA_PASSWORD']);
-  
-  cachedConfig = {
-    url: configs.KESTRA_URL || process.env.KESTRA_URL || 'http://localhost:8080',
-    username: configs.KESTRA_USERNAME || process.env.KESTRA_USERNAME,
-    password: configs.KESTRA_PASSWORD || process.env.KESTRA_PASSWORD
-  };
-  
-  return cachedConfig;
-}
-
-/**
- * Get Kestra config synchronously (uses cached value or env vars)
- */
-function getKestraConfig(): KestraConfig {
-  if (cachedConfig) {
-    return cachedConfig;
-  }
-  // Fallback to env vars if cache not populated
-  return {
-    url: process.env.KESTRA_URL || 'http://localhost:8080',
-    username: process.env.KESTRA_USERNAME,
-    password: process.env.KESTRA_PASSWORD
-  };
-}
-
-function getAuthHeader(): Record<string, string> {
-  const config = getKestraConfig();
-  if (config.username && config.password) {
-    const credentials = Buffer.from(`${config.username}:${config.password}`).toString('base64');
-    return { 'Authorization': `Basic ${credentials}` };
-  }
-  return {};
-}
-
-async function getAuthHeaderAsync(): Promise<Record<string, string>> {
-  const config = await getKestraConfigAsync();
-  if (config.username && config.password) {
-    const credentials = Buffer.from(`${config.username}:${config.password}`).toString('base64');
-    return { 'Authorization': `Basic ${credentials}` };
-  }
-  return {};
-}
+import { getConfig } from './system-config';
+import { KestraFlowConfig, getKestraClient } from './kestra';
+import { BUNDLED_FLOW_YAML } from './kestra-flow-bundle';
 
 /**
  * Check if Kestra is accessible
@@ -68,14 +10,10 @@ export async function checkKestraConnection(): Promise<{
   version?: string;
   error?: string;
 }> {
-  const config = await getKestraConfigAsync();
-  const authHeader = await getAuthHeaderAsync();
-  
+  const client = await getKestraClient();
+
   try {
-    const response = await axios.get(`${config.url}/api/v1/plugins`, {
-      headers: authHeader,
-      timeout: 5000
-    });
+    const response = await client.request('GET', '/plugins', { timeout: 5000 });
     
     return {
       connected: true,
@@ -93,17 +31,10 @@ export async function checkKestraConnection(): Promise<{
  * Check if a namespace exists
  */
 export async function checkNamespaceExists(namespace: string): Promise<boolean> {
-  const config = await getKestraConfigAsync();
-  const authHeader = await getAuthHeaderAsync();
-  
+  const client = await getKestraClient();
+
   try {
-    await axios.get(
-      `${config.url}/api/v1/flows/${namespace}`,
-      {
-        headers: authHeader,
-        timeout: 5000
-      }
-    );
+    await client.request('GET', `/flows/${namespace}`, { timeout: 5000 });
     return true;
   } catch {
     return false;
@@ -111,19 +42,16 @@ export async function checkNamespaceExists(namespace: string): Promise<boolean>
 }
 
 /**
- * Check if a flow exists
+ * Check if a flow exists (defaults to the globally configured incident flow)
  */
-export async function checkFlowExists(namespace: string, flowId: string): Promise<boolean> {
-  const config = await getKestraConfigAsync();
-  const authHeader = await getAuthHeaderAsync();
-  
+export async function checkFlowExists(namespace?: string, flowId?: string): Promise<boolean> {
+  const client = await getKestraClient();
+
   try {
-    const response = await axios.get(
-      `${config.url}/api/v1/flows/${namespace}/${flowId}`,
-      {
-        headers: authHeader,
-        timeout: 5000
-      }
+    const response = await client.request(
+      'GET',
+      `/flows/${namespace ?? client.flow.namespace}/${flowId ?? client.flow.flow_id}`,
+      { timeout: 5000 }
     );
     return response.status === 200;
   } catch {
@@ -131,53 +59,70 @@ export async function checkFlowExists(namespace: string, flowId: string): Promis
   }
 }
 
+export interface DeployedFlow {
+  // Kestra increments the revision on every change to the flow
+  revision: number;
+  source: string;
+}
+
 /**
- * Upload or update a flow
+ * The flow as deployed in Kestra (global connection and tenant); null when it does not exist
+ */
+export async function getDeployedFlow(namespace: string, flowId: string): Promise<DeployedFlow | null> {
+  const client = await getKestraClient();
+
+  try {
+    const { data } = await client.request('GET', `/flows/${namespace}/${flowId}`, {
+      params: { source: true },
+      timeout: 5000
+    });
+    return { revision: data.revision, source: data.source || '' };
+  } catch (error) {
+    if ((error as { response?: { status?: number } }).response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a flow, or replace it while it is still at `expectedRevision`
+ * `expectedRevision` null means the flow must not exist yet. Anything else is
+ * a conflict, so a flow changed in Kestra is never overwritten unseen. (Kestra
+ * has no conditional update: a change between the check and the write still wins.)
  */
 export async function uploadFlow(
   namespace: string,
   flowId: string,
-  yamlContent: string
-): Promise<{ success: boolean; error?: string }> {
-  const config = await getKestraConfigAsync();
-  const authHeader = await getAuthHeaderAsync();
-  
+  yamlContent: string,
+  expectedRevision: number | null
+): Promise<{ success: boolean; revision?: number; conflict?: boolean; error?: string }> {
+  const client = await getKestraClient();
+  const options = { data: yamlContent, headers: { 'Content-Type': 'application/x-yaml' } };
+
   try {
-    // Try to create or update the flow
-    await axios.post(
-      `${config.url}/api/v1/flows/import`,
-      yamlContent,
-      {
-        headers: {
-          ...authHeader,
-          'Content-Type': 'application/x-yaml'
-        },
-        timeout: 10000
-      }
-    );
-    
-    return { success: true };
-  } catch (error: any) {
-    // If import fails, try PUT for update
-    try {
-      await axios.put(
-        `${config.url}/api/v1/flows/${namespace}/${flowId}`,
-        yamlContent,
-        {
-          headers: {
-            ...authHeader,
-            'Content-Type': 'application/x-yaml'
-          },
-          timeout: 10000
-        }
-      );
-      return { success: true };
-    } catch (putError: any) {
+    const deployed = await getDeployedFlow(namespace, flowId);
+
+    if ((deployed?.revision ?? null) !== expectedRevision) {
       return {
         success: false,
-        error: putError.response?.data?.message || putError.message || 'Failed to upload flow'
+        conflict: true,
+        error: deployed
+          ? `The deployed flow is at revision ${deployed.revision}, not ${expectedRevision ?? 'missing'}`
+          : 'The flow no longer exists in Kestra'
       };
     }
+
+    const { data } = deployed
+      ? await client.request('PUT', `/flows/${namespace}/${flowId}`, options)
+      : await client.request('POST', '/flows', options);
+
+    return { success: true, revision: data.revision };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message || 'Failed to upload flow'
+    };
   }
 }
 
@@ -189,22 +134,15 @@ export async function setKVSecret(
   key: string,
   value: string
 ): Promise<{ success: boolean; error?: string }> {
-  const config = await getKestraConfigAsync();
-  const authHeader = await getAuthHeaderAsync();
-  
+  const client = await getKestraClient();
+
   try {
     // Kestra KV Store API
-    await axios.put(
-      `${config.url}/api/v1/namespaces/${namespace}/kv/${key}`,
-      value,
-      {
-        headers: {
-          ...authHeader,
-          'Content-Type': 'text/plain'
-        },
-        timeout: 5000
-      }
-    );
+    await client.request('PUT', `/namespaces/${namespace}/kv/${key}`, {
+      data: value,
+      headers: { 'Content-Type': 'text/plain' },
+      timeout: 5000
+    });
     
     return { success: true };
   } catch (error: any) {
@@ -222,17 +160,10 @@ export async function getKVSecret(
   namespace: string,
   key: string
 ): Promise<{ exists: boolean; value?: string; error?: string }> {
-  const config = await getKestraConfigAsync();
-  const authHeader = await getAuthHeaderAsync();
-  
+  const client = await getKestraClient();
+
   try {
-    const response = await axios.get(
-      `${config.url}/api/v1/namespaces/${namespace}/kv/${key}`,
-      {
-        headers: authHeader,
-        timeout: 5000
-      }
-    );
+    const response = await client.request('GET', `/namespaces/${namespace}/kv/${key}`, { timeout: 5000 });
     
     return { exists: true, value: response.data };
   } catch (error: any) {
@@ -247,16 +178,14 @@ export async function getKVSecret(
 }
 
 /**
- * Configure all required KV secrets for Kestra
+ * Configure all required KV secrets for Kestra in the flow's namespace
  * Gets values from system_config (Supabase) with env fallback
  */
-export async function configureKVSecrets(): Promise<{
+export async function configureKVSecrets(namespace: string): Promise<{
   success: boolean;
   configured: string[];
   failed: string[];
 }> {
-  const namespace = 'incident.response';
-  
   // Get GEMINI_API_KEY from system config
   const geminiKey = await getConfig('GEMINI_API_KEY');
   
@@ -291,81 +220,16 @@ export async function configureKVSecrets(): Promise<{
 }
 
 /**
- * Get the incident-handler workflow YAML content
+ * Get the incident-handler workflow YAML, retargeted at the configured coordinates
+ * The flow id, namespace and webhook trigger key in the file are replaced with the
+ * configured ones, so the uploaded flow is the one the app triggers. The YAML is
+ * kestra/flows/incident-handler.yml, bundled by `npm run sync:flow`.
  */
-export function getWorkflowYaml(): string {
-  // Try to read from file system
-  try {
-    const workflowPath = path.join(process.cwd(), '..', 'kestra', 'flows', 'incident-handler.yml');
-    if (fs.existsSync(workflowPath)) {
-      return fs.readFileSync(workflowPath, 'utf-8');
-    }
-  } catch (error) {
-    console.log('Could not read workflow file from filesystem');
-  }
-  
-  // Return embedded workflow
-  return `id: incident-handler
-namespace: incident.response
-
-description: |
-  Production-ready AI-powered incident analysis and remediation workflow.
-
-labels:
-  env: production
-  team: sre
-
-inputs:
-  - id: incident_data
-    type: JSON
-    description: Incident details from webhook
-    required: true
-
-tasks:
-  - id: log_incident
-    type: io.kestra.plugin.core.log.Log
-    message: |
-      ========================================
-      📢 INCIDENT RECEIVED
-      ========================================
-      ID: {{ inputs.incident_data.id }}
-      Service: {{ inputs.incident_data.service }}
-      Severity: {{ inputs.incident_data.severity }}
-      Title: {{ inputs.incident_data.title }}
-      Organization: {{ inputs.incident_data.organization_id }}
-      ========================================
-
-  - id: ai_agent_analyze
-    type: io.kestra.plugin.core.http.Request
-    uri: "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key={{ kv('GEMINI_API_KEY') }}"
-    method: POST
-    contentType: application/json
-    timeout: PT60S
-    body: |
-      {
-        "contents": [{"parts": [{"text": "Analyze this incident: {{ inputs.incident_data.title }} for service {{ inputs.incident_data.service }}. Severity: {{ inputs.incident_data.severity }}. Provide root cause and remediation."}]}],
-        "generationConfig": {"temperature": 0.3, "maxOutputTokens": 2000}
-      }
-
-  - id: log_completion
-    type: io.kestra.plugin.core.log.Log
-    message: |
-      ✅ INCIDENT ANALYSIS COMPLETE
-      Incident ID: {{ inputs.incident_data.id }}
-
-triggers:
-  - id: webhook
-    type: io.kestra.plugin.core.trigger.Webhook
-    key: incident-webhook-key
-
-outputs:
-  - id: incident_id
-    type: STRING
-    value: "{{ inputs.incident_data.id }}"
-  - id: execution_id
-    type: STRING
-    value: "{{ execution.id }}"
-`;
+export function getWorkflowYaml(flow: KestraFlowConfig): string {
+  return BUNDLED_FLOW_YAML
+    .replace(/^id: .*$/m, `id: ${flow.flow_id}`)
+    .replace(/^namespace: .*$/m, `namespace: ${flow.namespace}`)
+    .replace(/^(\s+key: )incident-webhook-key$/m, `$1${flow.webhook_key}`);
 }
 
 /**
@@ -390,17 +254,36 @@ export async function runKestraSetup(): Promise<{
     return { success: false, steps };
   }
   
-  // Step 2: Upload workflow
-  const workflowYaml = getWorkflowYaml();
-  const uploadResult = await uploadFlow('incident.response', 'incident-handler', workflowYaml);
-  steps.push({
-    step: 'Upload Workflow',
-    success: uploadResult.success,
-    error: uploadResult.error
-  });
+  // Step 2: Upload the workflow under the globally configured namespace and flow ID.
+  // A deployed flow is left alone: upgrading it is a separate, reviewed step.
+  const { flow } = await getKestraClient();
+  try {
+    const deployed = await getDeployedFlow(flow.namespace, flow.flow_id);
+
+    if (deployed) {
+      steps.push({
+        step: 'Upload Workflow',
+        success: true,
+        details: {
+          skipped: 'Flow already deployed; compare and upgrade it from the setup page',
+          revision: deployed.revision
+        }
+      });
+    } else {
+      const uploadResult = await uploadFlow(flow.namespace, flow.flow_id, getWorkflowYaml(flow), null);
+      steps.push({
+        step: 'Upload Workflow',
+        success: uploadResult.success,
+        details: uploadResult.revision ? { revision: uploadResult.revision } : undefined,
+        error: uploadResult.error
+      });
+    }
+  } catch (error) {
+    steps.push({ step: 'Upload Workflow', success: false, error: (error as Error).message });
+  }
   
   // Step 3: Configure KV secrets
-  const kvResult = await configureKVSecrets();
+  const kvResult = await configureKVSecrets(flow.namespace);
   steps.push({
     step: 'Configure KV Secrets',
     success: kvResult.success,
@@ -412,7 +295,7 @@ export async function runKestraSetup(): Promise<{
   });
   
   // Step 4: Verify workflow exists
-  const flowExists = await checkFlowExists('incident.response', 'incident-handler');
+  const flowExists = await checkFlowExists(flow.namespace, flow.flow_id);
   steps.push({
     step: 'Verify Workflow',
     success: flowExists,
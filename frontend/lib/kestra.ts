@@ -1,5 +1,18 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
 import { getConfigs } from './system-config';
+import { getOrganizationSettings } from './organizations';
+import { createKestraCallback, setAnalysisStatus } from './kestra-callback';
+import { recordIncidentEventByExternalId } from './incident-events';
+import { OutboxAttempt, OutboxHandler, sendViaOutbox } from './outbox';
+import { AnalysisEngine, BUILTIN_FLOW, getAnalysisEngine, triggerBuiltinAnalysis } from './builtin-analysis';
+import {
+  ExecutionSummary,
+  TRIGGER_FAILED,
+  WorkflowTrigger,
+  recordWorkflowExecution,
+  summarizeExecution,
+  updateWorkflowExecution
+} from './workflow-executions';
 
 export interface KestraIncidentData {
   id: string;
@@ -12,123 +25,445 @@ export interface KestraIncidentData {
   metrics: Record<string, any>;
   context: Record<string, any>;
   organization_id?: string; // Required for multi-tenancy
+  responder_notes?: string;
 }
 
 /**
- * Get Kestra config from system config (with env fallback)
+ * Workflow input for a stored incident
  */
-async function getKestraConfig() {
-  const configs = await getConfigs(['KESTRA_URL', 'KESTRA_USERNAME', 'KESTRA_PASSWORD']);
+export function toKestraIncidentData(incident: {
+  external_id: string;
+  organization_id: string;
+  timestamp: string;
+  service: string;
+  severity: string;
+  status: string;
+  title: string;
+  logs?: string[] | null;
+  metrics?: Record<string, unknown> | null;
+  context?: Record<string, unknown> | null;
+}): KestraIncidentData & { organization_id: string } {
   return {
-    url: configs.KESTRA_URL || process.env.KESTRA_URL,
-    username: configs.KESTRA_USERNAME || process.env.KESTRA_USERNAME,
-    password: configs.KESTRA_PASSWORD || process.env.KESTRA_PASSWORD
+    id: incident.external_id,
+    timestamp: incident.timestamp,
+    service: incident.service,
+    severity: incident.severity,
+    status: incident.status,
+    title: incident.title,
+    logs: incident.logs || [],
+    metrics: incident.metrics || {},
+    context: incident.context || {},
+    organization_id: incident.organization_id
   };
 }
 
+// Who or what started a run, for the execution history
+export interface WorkflowRunContext {
+  trigger: WorkflowTrigger;
+  triggeredBy?: string | null;
+  // workflow_executions row being re-run
+  rerunOf?: string | null;
+  // false when the caller records failed triggers itself (the outbox, once retries run out)
+  recordFailure?: boolean;
+}
+
 /**
- * Trigger Kestra workflow for incident analysis
- * Uses webhook endpoint with optional basic auth
+ * Where the incident workflow lives in Kestra
+ * Resolved per organization (`organizations.settings.kestra`), then from
+ * system_config (KESTRA_NAMESPACE, KESTRA_FLOW_ID, KESTRA_WEBHOOK_KEY,
+ * KESTRA_TENANT), then these defaults.
  */
-export async function triggerKestraWorkflowDirect(incident: KestraIncidentData) {
-  const config = await getKestraConfig();
+export interface KestraFlowConfig {
+  namespace: string;
+  flow_id: string;
+  // Key of the flow's Webhook trigger
+  webhook_key: string;
+  // API path segment (/api/v1/<tenant>/...); "none" for servers without tenants
+  tenant: string;
+}
 
-  if (!config.url) {
-    throw new Error('KESTRA_URL is not configured. Set it in system config or environment variables.');
+export type KestraFlowOverrides = Partial<KestraFlowConfig>;
+
+export const DEFAULT_KESTRA_FLOW: KestraFlowConfig = {
+  namespace: 'incident.response',
+  flow_id: 'incident-handler',
+  webhook_key: 'incident-webhook-key',
+  tenant: 'main'
+};
+
+const FLOW_FIELD_PATTERNS: Record<keyof KestraFlowConfig, { pattern: RegExp; description: string }> = {
+  namespace: { pattern: /^[a-z0-9][a-z0-9._-]{0,149}$/i, description: 'letters, digits, dots, - or _' },
+  flow_id: { pattern: /^[a-z0-9][a-z0-9._-]{0,99}$/i, description: 'letters, digits, dots, - or _' },
+  webhook_key: { pattern: /^[\w.-]{1,255}$/, description: 'letters, digits, dots, - or _' },
+  tenant: { pattern: /^[\w-]{1,100}$/, description: 'letters, digits, - or _ ("none" for no tenant)' }
+};
+
+/**
+ * Per-organization overrides from organization settings; unset fields use the global config
+ */
+export function getKestraOverrides(settings?: Record<string, unknown> | null): KestraFlowOverrides {
+  const raw = (settings?.kestra || {}) as Record<string, unknown>;
+  const overrides: KestraFlowOverrides = {};
+
+  for (const field of Object.keys(FLOW_FIELD_PATTERNS) as Array<keyof KestraFlowConfig>) {
+    if (typeof raw[field] === 'string') {
+      overrides[field] = raw[field] as string;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Validate a (partial) overrides update and merge it over the current overrides
+ * A null value removes the override so the global value applies again.
+ */
+export function parseKestraOverrides(
+  input: unknown,
+  current: KestraFlowOverrides = {}
+): KestraFlowOverrides {
+  if (!input || typeof input !== 'object') {
+    throw new Error('kestra must be an object');
+  }
+
+  const result = { ...current };
+
+  for (const [field, value] of Object.entries(input)) {
+    if (!(field in FLOW_FIELD_PATTERNS)) {
+      throw new Error(`Unknown kestra setting: ${field}`);
+    }
+    const key = field as keyof KestraFlowConfig;
+
+    if (value === null) {
+      delete result[key];
+      continue;
+    }
+    const { pattern, description } = FLOW_FIELD_PATTERNS[key];
+    if (typeof value !== 'string' || !pattern.test(value)) {
+      throw new Error(`kestra.${field} must be ${description}`);
+    }
+    result[key] = value;
   }
 
+  return result;
+}
+
+export interface KestraClient {
+  // KESTRA_URL was set; without it requests go to the local default
+  configured: boolean;
+  baseUrl: string;
+  flow: KestraFlowConfig;
+  // API URL for a tenant-scoped path, e.g. apiUrl('/executions/abc')
+  apiUrl(path: string): string;
+  uiUrl(path: string): string;
+  request<T = any>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, options?: AxiosRequestConfig): Promise<AxiosResponse<T>>;
+}
+
+/**
+ * Build the Kestra client for an organization, or for the global flow when none is given
+ * Connection settings are global; flow coordinates and tenant can be overridden per organization.
+ */
+export async function getKestraClient(organizationId?: string): Promise<KestraClient> {
+  const configs = await getConfigs([
+    'KESTRA_URL',
+    'KESTRA_USERNAME',
+    'KESTRA_PASSWORD',
+    'KESTRA_NAMESPACE',
+    'KESTRA_FLOW_ID',
+    'KESTRA_WEBHOOK_KEY',
+    'KESTRA_TENANT'
+  ]);
+
+  const overrides = organizationId ? getKestraOverrides(await getOrganizationSettings(organizationId)) : {};
+
+  const flow: KestraFlowConfig = {
+    namespace: overrides.namespace ?? configs.KESTRA_NAMESPACE ?? DEFAULT_KESTRA_FLOW.namespace,
+    flow_id: overrides.flow_id ?? configs.KESTRA_FLOW_ID ?? DEFAULT_KESTRA_FLOW.flow_id,
+    webhook_key: overrides.webhook_key ?? configs.KESTRA_WEBHOOK_KEY ?? DEFAULT_KESTRA_FLOW.webhook_key,
+    tenant: overrides.tenant ?? configs.KESTRA_TENANT ?? DEFAULT_KESTRA_FLOW.tenant
+  };
+
+  const baseUrl = (configs.KESTRA_URL || 'http://localhost:8080').replace(/\/+$/, '');
+  const tenantSegment = flow.tenant === 'none' ? '' : `/${flow.tenant}`;
+  const auth = configs.KESTRA_USERNAME && configs.KESTRA_PASSWORD
+    ? { username: configs.KESTRA_USERNAME, password: configs.KESTRA_PASSWORD }
+    : undefined;
+
+  const apiUrl = (path: string) => `${baseUrl}/api/v1${tenantSegment}${path}`;
+
+  return {
+    configured: !!configs.KESTRA_URL,
+    baseUrl,
+    flow,
+    apiUrl,
+    uiUrl: (path: string) => `${baseUrl}/ui${tenantSegment}${path}`,
+    request(method, path, options = {}) {
+      return axios.request({
+        method,
+        url: apiUrl(path),
+        timeout: 10000,
+        ...options,
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        ...(auth && { auth })
+      });
+    }
+  };
+}
+
+/**
+ * Trigger Kestra workflow for incident analysis
+ * Uses the flow's webhook trigger with optional basic auth. The execution gets
+ * a callback to report its results, and the incident is marked as analyzing.
+ * Every attempt is recorded in the execution history; failed ones unless
+ * `run.recordFailure` is false.
+ */
+export async function triggerKestraWorkflowDirect(incident: KestraIncidentData, run: WorkflowRunContext) {
   // Validate organization_id is present
   if (!incident.organization_id) {
     throw new Error('organization_id is required in incident data for Kestra workflow');
   }
 
-  const namespace = 'incident.response';
-  const flowId = 'incident-handler';
-  const webhookKey = 'incident-webhook-key';
+  const client = await getKestraClient(incident.organization_id);
 
-  const triggerUrl = `${config.url}/api/v1/executions/webhook/${namespace}/${flowId}/${webhookKey}`;
+  if (!client.configured) {
+    throw new Error('KESTRA_URL is not configured. Set it in system config or environment variables.');
+  }
+
+  const { namespace, flow_id: flowId, webhook_key: webhookKey } = client.flow;
+  const triggerPath = `/executions/webhook/${namespace}/${flowId}/${webhookKey}`;
 
-  console.log('Triggering Kestra workflow:', { 
-    triggerUrl, 
-    namespace, 
-    flowId, 
+  console.log('Triggering Kestra workflow:', {
+    namespace,
+    flowId,
+    tenant: client.flow.tenant,
     incidentId: incident.id,
     organizationId: incident.organization_id
   });
 
-  const axiosConfig: any = {
-    headers: { 'Content-Type': 'application/json' },
-    timeout: 15000
-  };
+  try {
+    const callback = await createKestraCallback(incident.organization_id, incident.id);
 
-  // Add auth if credentials provided
-  if (config.username && config.password) {
-    axiosConfig.auth = {
-      username: config.username,
-      password: config.password
-    };
-  }
+    const { data } = await client.request('POST', triggerPath, {
+      data: { incident_data: { ...incident, ...(callback && { callback: { url: callback.url, token: callback.token } }) } },
+      timeout: 15000
+    });
 
-  try {
-    const response = await axios.post(
-      triggerUrl,
-      { incident_data: incident },
-      axiosConfig
-    );
+    await setAnalysisStatus(incident.organization_id, incident.id, 'running', data.id || null);
+
+    const runId = await recordWorkflowExecution({
+      organizationId: incident.organization_id,
+      incidentExternalId: incident.id,
+      executionId: data.id || null,
+      trigger: run.trigger,
+      triggeredBy: run.triggeredBy,
+      rerunOf: run.rerunOf,
+      flow: client.flow,
+      state: data.state?.current || 'CREATED',
+      callbackId: callback?.id
+    });
 
     return {
-      executionId: response.data.id || `exec-${Date.now()}`,
-      status: response.data.state?.current || 'RUNNING',
-      success: true
+      executionId: data.id || `exec-${Date.now()}`,
+      status: data.state?.current || 'RUNNING',
+      success: true,
+      runId
     };
   } catch (error: any) {
     console.error('Kestra trigger error:', error.message);
-    
+
+    const runId = run.recordFailure === false ? null : await recordWorkflowExecution({
+      organizationId: incident.organization_id,
+      incidentExternalId: incident.id,
+      executionId: null,
+      trigger: run.trigger,
+      triggeredBy: run.triggeredBy,
+      rerunOf: run.rerunOf,
+      flow: client.flow,
+      state: TRIGGER_FAILED,
+      error: error.message
+    });
+
     // Return partial success - incident is saved, workflow trigger failed
     return {
       executionId: null,
       status: 'FAILED',
       success: false,
-      error: error.message
+      error: error.message,
+      runId
     };
   }
 }
 
 /**
- * Get execution status from Kestra
+ * Start the incident analysis on the organization's engine
+ * Kestra by default; organizations set to the built-in engine run the
+ * pipeline in the app. Both record the run and return the same result.
  */
-export async function getKestraExecutionStatus(executionId: string) {
-  const config = await getKestraConfig();
+export async function triggerAnalysisWorkflow(
+  incident: KestraIncidentData & { organization_id: string },
+  run: WorkflowRunContext
+) {
+  const engine: AnalysisEngine = getAnalysisEngine(await getOrganizationSettings(incident.organization_id));
 
-  if (!config.url) {
-    throw new Error('KESTRA_URL is not configured. Set it in system config or environment variables.');
-  }
+  const result = engine === 'builtin'
+    ? await triggerBuiltinAnalysis(incident, run)
+    : await triggerKestraWorkflowDirect(incident, run);
 
-  const statusUrl = `${config.url}/api/v1/executions/${executionId}`;
+  return { ...result, engine };
+}
 
-  const axiosConfig: any = {
-    headers: { 'Content-Type': 'application/json' },
-    timeout: 10000
-  };
+export type KestraTriggerPayload = {
+  incident: KestraIncidentData & { organization_id: string };
+  // What started the analysis, for the timeline and execution history
+  trigger: WorkflowTrigger;
+  routing_rule?: string | null;
+};
 
-  if (config.username && config.password) {
-    axiosConfig.auth = {
-      username: config.username,
-      password: config.password
-    };
+/**
+ * Record a trigger that failed for good in the execution history, on the
+ * organization's current engine
+ */
+async function recordTriggerFailure(
+  incident: KestraIncidentData & { organization_id: string },
+  run: WorkflowRunContext,
+  error: string
+): Promise<string | null> {
+  const engine = getAnalysisEngine(await getOrganizationSettings(incident.organization_id));
+  const flow = engine === 'builtin' ? BUILTIN_FLOW : (await getKestraClient(incident.organization_id)).flow;
+
+  return recordWorkflowExecution({
+    organizationId: incident.organization_id,
+    incidentExternalId: incident.id,
+    executionId: null,
+    trigger: run.trigger,
+    triggeredBy: run.triggeredBy,
+    rerunOf: run.rerunOf,
+    flow,
+    state: TRIGGER_FAILED,
+    error
+  });
+}
+
+/**
+ * Outbox handler for analysis triggers
+ * While retries remain the incident's analysis is pending; once they run out it has
+ * failed. Failed attempts share one TRIGGER_FAILED history row, written when the entry is dead.
+ */
+export const KESTRA_TRIGGER_HANDLER: OutboxHandler<KestraTriggerPayload> = {
+  async deliver({ incident, trigger, routing_rule: routingRule }) {
+    const result = await triggerAnalysisWorkflow(incident, { trigger, recordFailure: false });
+    if (!result.success) {
+      throw new Error(result.error || 'Kestra workflow trigger failed');
+    }
+
+    await recordIncidentEventByExternalId(incident.id, {
+      organizationId: incident.organization_id,
+      type: 'kestra_triggered',
+      title: 'AI analysis workflow triggered',
+      details: { execution_id: result.executionId, trigger, routing_rule: routingRule, engine: result.engine }
+    });
+
+    return { execution_id: result.executionId, engine: result.engine };
+  },
+
+  async onFailure(entry, error, willRetry) {
+    const { incident, trigger } = entry.payload;
+
+    await setAnalysisStatus(incident.organization_id, incident.id, willRetry ? 'pending' : 'failed');
+
+    if (!willRetry) {
+      await recordTriggerFailure(incident, { trigger }, error.message);
+    }
+
+    // Only the first failure and the final one go on the timeline, not every retry
+    if (entry.attempts > 1 && willRetry) return;
+
+    await recordIncidentEventByExternalId(incident.id, {
+      organizationId: incident.organization_id,
+      type: 'kestra_trigger_failed',
+      title: willRetry
+        ? 'AI analysis workflow failed to start, retrying'
+        : `AI analysis workflow failed to start after ${entry.attempts} attempts`,
+      details: { trigger, error: error.message, outbox_id: entry.id, will_retry: willRetry }
+    });
   }
+};
 
+/**
+ * Start the analysis workflow through the outbox, so a failed trigger is retried
+ */
+export async function queueKestraWorkflow(
+  payload: KestraTriggerPayload,
+  incidentId: string
+): Promise<OutboxAttempt> {
+  return sendViaOutbox(
+    {
+      kind: 'kestra_trigger',
+      organizationId: payload.incident.organization_id,
+      incidentId,
+      payload
+    },
+    KESTRA_TRIGGER_HANDLER
+  );
+}
+
+/**
+ * Fetch a raw execution from Kestra, in the organization's tenant
+ */
+export async function getKestraExecution(executionId: string, organizationId?: string) {
+  const client = await getKestraClient(organizationId);
+  const { data: execution } = await client.request('GET', `/executions/${encodeURIComponent(executionId)}`, { timeout: 5000 });
+  return { execution, client };
+}
+
+/**
+ * Get execution status from Kestra
+ */
+export async function getKestraExecutionStatus(executionId: string, organizationId?: string) {
   try {
-    const response = await axios.get(statusUrl, axiosConfig);
+    const { execution } = await getKestraExecution(executionId, organizationId);
     return {
-      id: response.data.id,
-      state: response.data.state?.current,
-      outputs: response.data.outputs || {},
-      startDate: response.data.state?.startDate,
-      endDate: response.data.state?.endDate
+      id: execution.id,
+      state: execution.state?.current,
+      outputs: execution.outputs || {},
+      startDate: execution.state?.startDate,
+      endDate: execution.state?.endDate
     };
   } catch (error: any) {
     console.error('Kestra status check error:', error.message);
     throw error;
   }
 }
+
+/**
+ * Refresh an execution's history row from Kestra
+ * `overrides` win over what Kestra reports (the completion callback runs
+ * before Kestra marks the execution finished). If Kestra cannot be reached,
+ * only the overrides are stored.
+ */
+export async function syncWorkflowExecution(
+  organizationId: string,
+  executionId: string,
+  overrides: Partial<ExecutionSummary> = {}
+): Promise<Partial<ExecutionSummary>> {
+  let summary: Partial<ExecutionSummary> = {};
+
+  try {
+    const { execution } = await getKestraExecution(executionId, organizationId);
+    summary = summarizeExecution(execution);
+  } catch (error) {
+    console.warn(`Could not refresh execution ${executionId} from Kestra:`, (error as Error).message);
+  }
+
+  const merged = { ...summary, ...overrides };
+  await updateWorkflowExecution(organizationId, executionId, merged);
+  return merged;
+}
+
+/**
+ * Ask Kestra to kill a running execution, in the organization's tenant
+ */
+export async function killKestraExecution(executionId: string, organizationId: string): Promise<void> {
+  const client = await getKestraClient(organizationId);
+  await client.request('DELETE', `/executions/${encodeURIComponent(executionId)}/kill`);
+}
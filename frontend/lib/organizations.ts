@@ -383,3 +383,45 @@ export async function removeUserFromOrganization(userId: string): Promise<boolea
   return !error;
 }
 
+
+/**
+ * Get an organization's settings
+ */
+export async function getOrganizationSettings(organizationId: string): Promise<Record<string, unknown>> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Organization not found');
+  }
+
+  return (data.settings || {}) as Record<string, unknown>;
+}
+
+/**
+ * Merge top-level keys into an organization's settings
+ * The merge happens in the database (merge_organization_settings), so
+ * concurrent updates of different keys don't overwrite each other.
+ */
+export async function updateOrganizationSettings(
+  organizationId: string,
+  updates: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc('merge_organization_settings', {
+    p_organization_id: organizationId,
+    p_patch: updates
+  });
+
+  if (error) {
+    throw new Error(`Failed to update organization settings: ${error.message}`);
+  }
+
+  return (data || {}) as Record<string, unknown>;
+}
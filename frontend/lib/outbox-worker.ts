@@ -0,0 +1,141 @@
+import { getAdminClient } from './supabase-admin';
+import { KESTRA_TRIGGER_HANDLER } from './kestra';
+import { SLACK_NOTIFICATION_HANDLER } from './slack';
+import {
+  OutboxAttempt,
+  OutboxEntry,
+  OutboxHandler,
+  OutboxKind,
+  OUTBOX_SELECT,
+  attemptOutboxEntry,
+  claimOutboxEntry,
+  listDueOutboxEntries
+} from './outbox';
+
+/**
+ * Outbox worker
+ *
+ * Retries due outbox entries with the handler for their kind. Run on a
+ * schedule through /api/outbox/process; admins can also retry an entry
+ * right away or discard it.
+ */
+
+export type WebhookOutboxPayload = {
+  url: string;
+  method?: 'POST' | 'PUT';
+  headers?: Record<string, string>;
+  body: unknown;
+};
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Outbox handler for outbound webhooks; any non-2xx response is a failure
+ */
+export const WEBHOOK_HANDLER: OutboxHandler<WebhookOutboxPayload> = {
+  async deliver({ url, method = 'POST', headers = {}, body }) {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+
+    return { status_code: response.status };
+  }
+};
+
+const OUTBOX_HANDLERS: Record<OutboxKind, OutboxHandler> = {
+  kestra_trigger: KESTRA_TRIGGER_HANDLER,
+  slack_notification: SLACK_NOTIFICATION_HANDLER,
+  webhook: WEBHOOK_HANDLER
+};
+
+export const DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * Attempt every due entry once, oldest first
+ * Entries claimed by another worker in the meantime are skipped.
+ */
+export async function processOutbox(limit = DEFAULT_BATCH_SIZE): Promise<OutboxAttempt[]> {
+  const entries = await listDueOutboxEntries(limit);
+  const attempts: OutboxAttempt[] = [];
+
+  for (const entry of entries) {
+    const claimed = await claimOutboxEntry(entry);
+    if (!claimed) continue;
+
+    attempts.push(await attemptOutboxEntry(claimed, OUTBOX_HANDLERS[claimed.kind]));
+  }
+
+  return attempts;
+}
+
+// Only these can be retried or discarded by an admin
+export const ACTIONABLE_OUTBOX_STATUSES = ['pending', 'dead'];
+
+/**
+ * Attempt a pending or dead entry now (admin)
+ * A dead entry gets a fresh set of attempts. Null when a worker took the entry first.
+ */
+export async function retryOutboxEntry(entry: OutboxEntry): Promise<OutboxAttempt | null> {
+  let current: OutboxEntry | null = entry;
+
+  if (entry.status === 'dead') {
+    const { data, error } = await getAdminClient()
+      .from('outbox')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+      .eq('id', entry.id)
+      .eq('status', 'dead')
+      .select(OUTBOX_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    current = data as OutboxEntry | null;
+  }
+
+  const claimed = current && await claimOutboxEntry(current);
+  if (!claimed) {
+    return null;
+  }
+
+  return attemptOutboxEntry(claimed, OUTBOX_HANDLERS[claimed.kind]);
+}
+
+/**
+ * Stop retrying a pending or dead entry (admin); its handler treats it as finally failed
+ * Null when a worker took the entry first.
+ */
+export async function discardOutboxEntry(entry: OutboxEntry): Promise<OutboxEntry | null> {
+  const { data, error } = await getAdminClient()
+    .from('outbox')
+    .update({ status: 'discarded', locked_until: null })
+    .eq('id', entry.id)
+    .eq('status', entry.status)
+    .select(OUTBOX_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  // A dead entry already reported its final failure
+  if (entry.status === 'pending') {
+    try {
+      await OUTBOX_HANDLERS[entry.kind].onFailure?.(entry, new Error('Discarded by an admin'), false);
+    } catch (hookError) {
+      console.error(`Outbox ${entry.kind} failure hook failed:`, hookError);
+    }
+  }
+
+  return data as OutboxEntry;
+}
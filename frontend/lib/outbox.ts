@@ -0,0 +1,213 @@
+import { getAdminClient } from './supabase-admin';
+
+/**
+ * Outbox for outbound work
+ *
+ * Kestra triggers, Slack messages and outbound webhooks are written to the
+ * `outbox` table before they are sent, then attempted right away. A failed
+ * attempt is retried with exponential backoff by the outbox worker
+ * (/api/outbox/process, run on a schedule); after `max_attempts` the
+ * entry is dead and stays for an admin to retry or discard.
+ *
+ * What to send and what a failure means for the incident is up to each kind's
+ * handler; this module only stores entries and moves them between states.
+ */
+
+export const OUTBOX_KINDS = ['kestra_trigger', 'slack_notification', 'webhook'] as const;
+
+export type OutboxKind = typeof OUTBOX_KINDS[number];
+
+export type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead' | 'discarded';
+
+export interface OutboxEntry<P = Record<string, unknown>> {
+  id: string;
+  organization_id: string;
+  incident_id: string | null;
+  kind: OutboxKind;
+  payload: P;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+  delivered_at: string | null;
+}
+
+export interface OutboxHandler<P = Record<string, unknown>> {
+  // Throw to fail the attempt; the return value is stored as the entry's result
+  deliver(payload: P): Promise<Record<string, unknown> | void>;
+  // After a failed attempt; `willRetry` is false once the entry is dead (or discarded)
+  onFailure?(entry: OutboxEntry<P>, error: Error, willRetry: boolean): Promise<void>;
+}
+
+export interface OutboxAttempt {
+  entry_id: string | null;
+  delivered: boolean;
+  status: OutboxStatus;
+  result?: Record<string, unknown> | null;
+  error?: string;
+}
+
+export const OUTBOX_SELECT =
+  'id, organization_id, incident_id, kind, payload, status, attempts, max_attempts, next_attempt_at, locked_until, last_error, result, created_at, updated_at, delivered_at';
+
+export const DEFAULT_MAX_ATTEMPTS = 6;
+
+// 30s, 1m, 2m, 4m, 8m ... capped at an hour, with up to 20% jitter
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// How long a worker may hold an entry before another one can take it over
+const LOCK_DURATION_MS = 2 * 60 * 1000;
+
+const MAX_ERROR_LENGTH = 2000;
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt
+ */
+export function getRetryDelayMs(attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (1 + random() * 0.2));
+}
+
+/**
+ * Take an entry for one attempt; null when another worker got there first
+ * Claims are compare-and-set on status and attempts, so two workers never run the same attempt.
+ */
+export async function claimOutboxEntry<P>(entry: OutboxEntry<P>): Promise<OutboxEntry<P> | null> {
+  const { data, error } = await getAdminClient()
+    .from('outbox')
+    .update({
+      status: 'processing',
+      attempts: entry.attempts + 1,
+      locked_until: new Date(Date.now() + LOCK_DURATION_MS).toISOString()
+    })
+    .eq('id', entry.id)
+    .eq('status', entry.status)
+    .eq('attempts', entry.attempts)
+    .select(OUTBOX_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as OutboxEntry<P> | null;
+}
+
+/**
+ * Run one attempt of a claimed entry and record the outcome
+ */
+export async function attemptOutboxEntry<P>(entry: OutboxEntry<P>, handler: OutboxHandler<P>): Promise<OutboxAttempt> {
+  const supabase = getAdminClient();
+
+  try {
+    const result = (await handler.deliver(entry.payload)) || null;
+
+    await supabase
+      .from('outbox')
+      .update({
+        status: 'delivered',
+        result,
+        last_error: null,
+        locked_until: null,
+        delivered_at: new Date().toISOString()
+      })
+      .eq('id', entry.id);
+
+    return { entry_id: entry.id, delivered: true, status: 'delivered', result };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    const willRetry = entry.attempts < entry.max_attempts;
+    const status: OutboxStatus = willRetry ? 'pending' : 'dead';
+
+    console.warn(`Outbox ${entry.kind} ${entry.id} attempt ${entry.attempts}/${entry.max_attempts} failed:`, error.message);
+
+    await supabase
+      .from('outbox')
+      .update({
+        status,
+        last_error: error.message.slice(0, MAX_ERROR_LENGTH),
+        locked_until: null,
+        ...(willRetry && {
+          next_attempt_at: new Date(Date.now() + getRetryDelayMs(entry.attempts)).toISOString()
+        })
+      })
+      .eq('id', entry.id);
+
+    try {
+      await handler.onFailure?.(entry, error, willRetry);
+    } catch (hookError) {
+      console.error(`Outbox ${entry.kind} failure hook failed:`, hookError);
+    }
+
+    return { entry_id: entry.id, delivered: false, status, error: error.message };
+  }
+}
+
+/**
+ * Store outbound work and attempt it immediately
+ * If the entry cannot even be stored, the work is attempted once without a retry.
+ */
+export async function sendViaOutbox<P extends Record<string, unknown>>(
+  input: {
+    kind: OutboxKind;
+    organizationId: string;
+    incidentId?: string | null;
+    payload: P;
+    maxAttempts?: number;
+  },
+  handler: OutboxHandler<P>
+): Promise<OutboxAttempt> {
+  const { data: entry, error } = await getAdminClient()
+    .from('outbox')
+    .insert([{
+      organization_id: input.organizationId,
+      incident_id: input.incidentId || null,
+      kind: input.kind,
+      payload: input.payload,
+      status: 'processing',
+      attempts: 1,
+      max_attempts: input.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      locked_until: new Date(Date.now() + LOCK_DURATION_MS).toISOString()
+    }])
+    .select(OUTBOX_SELECT)
+    .single();
+
+  if (error || !entry) {
+    console.error(`Failed to store ${input.kind} outbox entry, sending without retries:`, error);
+    try {
+      const result = (await handler.deliver(input.payload)) || null;
+      return { entry_id: null, delivered: true, status: 'delivered', result };
+    } catch (err) {
+      return { entry_id: null, delivered: false, status: 'dead', error: (err as Error).message };
+    }
+  }
+
+  return attemptOutboxEntry(entry as OutboxEntry<P>, handler);
+}
+
+/**
+ * Entries whose next attempt is due, oldest first
+ * Includes entries stuck in processing after their lock expired.
+ */
+export async function listDueOutboxEntries(limit: number): Promise<OutboxEntry[]> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await getAdminClient()
+    .from('outbox')
+    .select(OUTBOX_SELECT)
+    .or(`and(status.eq.pending,next_attempt_at.lte.${now}),and(status.eq.processing,locked_until.lt.${now})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as OutboxEntry[];
+}
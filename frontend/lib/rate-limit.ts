@@ -0,0 +1,146 @@
+import { getAdminClient } from './supabase-admin';
+
+/**
+ * Shared rate limiting
+ *
+ * Counters live in Postgres (`rate_limit_counters`, fixed windows) so limits
+ * survive deploys and hold across instances. Each organization has a separate
+ * budget per bucket; platform admins can override the defaults under
+ * `organizations.settings.rate_limits`.
+ */
+
+export type RateLimitBucket = 'ingest' | 'analyze';
+
+export interface RateLimitPolicy {
+  limit: number;
+  window_seconds: number;
+}
+
+export type RateLimitConfig = Record<RateLimitBucket, RateLimitPolicy>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the current window resets
+  reset: number;
+  window_seconds: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  ingest: { limit: 60, window_seconds: 60 },
+  analyze: { limit: 20, window_seconds: 60 }
+};
+
+const BUCKETS = Object.keys(DEFAULT_RATE_LIMITS) as RateLimitBucket[];
+const MAX_LIMIT = 100000;
+const MAX_WINDOW_SECONDS = 24 * 60 * 60;
+
+function isPositiveInteger(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+}
+
+export function getRateLimitConfig(settings?: Record<string, unknown> | null): RateLimitConfig {
+  const raw = (settings?.rate_limits || {}) as Partial<Record<RateLimitBucket, Partial<RateLimitPolicy>>>;
+  const config = {} as RateLimitConfig;
+
+  for (const bucket of BUCKETS) {
+    const policy = raw[bucket] || {};
+    config[bucket] = {
+      limit: isPositiveInteger(policy.limit, MAX_LIMIT) ? policy.limit : DEFAULT_RATE_LIMITS[bucket].limit,
+      window_seconds: isPositiveInteger(policy.window_seconds, MAX_WINDOW_SECONDS)
+        ? policy.window_seconds
+        : DEFAULT_RATE_LIMITS[bucket].window_seconds
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Validate a (partial) rate limit update and merge it over the current config
+ */
+export function parseRateLimitConfig(
+  input: unknown,
+  current: RateLimitConfig = DEFAULT_RATE_LIMITS
+): RateLimitConfig {
+  if (!input || typeof input !== 'object') {
+    throw new Error('rate_limits must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...current };
+
+  for (const [bucket, policy] of Object.entries(raw)) {
+    if (!BUCKETS.includes(bucket as RateLimitBucket)) {
+      throw new Error(`Unknown rate limit bucket: ${bucket}`);
+    }
+    if (!policy || typeof policy !== 'object') {
+      throw new Error(`rate_limits.${bucket} must be an object`);
+    }
+
+    const { limit, window_seconds } = policy as Record<string, unknown>;
+    if (limit !== undefined && !isPositiveInteger(limit, MAX_LIMIT)) {
+      throw new Error(`rate_limits.${bucket}.limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    if (window_seconds !== undefined && !isPositiveInteger(window_seconds, MAX_WINDOW_SECONDS)) {
+      throw new Error(`rate_limits.${bucket}.window_seconds must be an integer between 1 and ${MAX_WINDOW_SECONDS}`);
+    }
+
+    merged[bucket] = { ...current[bucket as RateLimitBucket], ...(policy as object) };
+  }
+
+  return getRateLimitConfig({ rate_limits: merged });
+}
+
+/**
+ * Count one request against an organization's bucket
+ * Fails open when the counter cannot be reached, so a database hiccup does
+ * not drop alerts.
+ */
+export async function consumeRateLimit(
+  organizationId: string,
+  bucket: RateLimitBucket,
+  policy: RateLimitPolicy
+): Promise<RateLimitResult> {
+  const { data, error } = await getAdminClient().rpc('consume_rate_limit', {
+    p_organization_id: organizationId,
+    p_bucket: bucket,
+    p_limit: policy.limit,
+    p_window_seconds: policy.window_seconds
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    console.warn(`Rate limit check failed for ${bucket}, allowing request:`, error?.message);
+    return {
+      allowed: true,
+      limit: policy.limit,
+      remaining: policy.limit,
+      reset: policy.window_seconds,
+      window_seconds: policy.window_seconds
+    };
+  }
+
+  return {
+    allowed: row.allowed,
+    limit: policy.limit,
+    remaining: row.remaining,
+    reset: Math.max(0, Math.ceil((new Date(row.reset_at).getTime() - Date.now()) / 1000)),
+    window_seconds: policy.window_seconds
+  };
+}
+
+/**
+ * `RateLimit-*` headers (IETF draft), plus `Retry-After` when rejected
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    'RateLimit-Policy': `${result.limit};w=${result.window_seconds}`,
+    ...(!result.allowed && { 'Retry-After': String(result.reset) })
+  };
+}
@@ -0,0 +1,436 @@
+import crypto from 'crypto';
+import vm from 'vm';
+import { getConfig } from './system-config';
+
+/**
+ * PII and secret redaction
+ *
+ * Incident titles, descriptions, logs, metrics and context are scrubbed at ingest,
+ * before they are stored and before they reach Gemini or Kestra. Each built-in detector
+ * can mask or hash its matches, and organizations can add their own patterns.
+ * Configured per organization under `organizations.settings.redaction`.
+ */
+
+export const REDACTION_DETECTORS = ['bearer_token', 'jwt', 'aws_key', 'email', 'credit_card', 'ip_address'] as const;
+
+export type RedactionDetector = typeof REDACTION_DETECTORS[number];
+
+export type RedactionAction = 'off' | 'mask' | 'hash';
+
+export interface CustomRedactionRule {
+  name: string;
+  pattern: string;
+  // Patterns always match globally; this adds the `i` flag
+  ignore_case: boolean;
+  action: Exclude<RedactionAction, 'off'>;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  detectors: Record<RedactionDetector, RedactionAction>;
+  custom_rules: CustomRedactionRule[];
+}
+
+// What was redacted from an incident, stored in `incidents.redactions`; never the values
+export interface RedactionRecord {
+  rule: string;
+  action: Exclude<RedactionAction, 'off'>;
+  count: number;
+  // JSON pointers into the incident, e.g. /logs/3 or /context/labels/user
+  fields: string[];
+}
+
+export const DEFAULT_REDACTION: RedactionConfig = {
+  enabled: true,
+  detectors: {
+    bearer_token: 'mask',
+    jwt: 'mask',
+    aws_key: 'mask',
+    email: 'mask',
+    credit_card: 'mask',
+    // Hashed so the same address still correlates across log lines
+    ip_address: 'hash'
+  },
+  custom_rules: []
+};
+
+const MAX_CUSTOM_RULES = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_RECORDED_FIELDS = 20;
+// Custom patterns run under a time limit so one slow pattern can't stall ingestion
+const CUSTOM_RULE_TIMEOUT_MS = 50;
+
+interface Detector {
+  rule: string;
+  pattern: RegExp;
+  action: Exclude<RedactionAction, 'off'>;
+  // Rejects matches that only look like the target, e.g. digit runs failing the Luhn check
+  accept?: (match: string) => boolean;
+  // Organization-supplied; run in a sandbox with a time limit
+  custom?: boolean;
+}
+
+// Credit card numbers are 13-19 digits that pass the Luhn checksum
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+}
+
+/**
+ * Reason a custom pattern may backtrack catastrophically, or null when it looks safe
+ * Rejects backreferences and quantified groups that contain a quantifier or an
+ * alternation, e.g. (a+)+ or (a|ab)*.
+ */
+function unsafePatternReason(pattern: string): string | null {
+  if (/\\(?:[1-9]|k<)/.test(pattern)) {
+    return 'backreferences are not allowed';
+  }
+
+  // Per open group: whether it contains a quantifier or an alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeats = groups.pop() ?? false;
+      const next = pattern[i + 1];
+      if (repeats && (next === '*' || next === '+' || next === '?' || next === '{')) {
+        return 'quantified groups must not contain quantifiers or alternations';
+      }
+      if (repeats && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((char === '*' || char === '+' || char === '{' || char === '|' || (char === '?' && pattern[i - 1] !== '(')) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return null;
+}
+
+// Ordered so tokens are replaced whole before narrower detectors see their parts.
+// A capture group limits the replacement to the secret, keeping e.g. the "Bearer " prefix.
+const BUILT_IN_DETECTORS: Record<RedactionDetector, RegExp[]> = {
+  bearer_token: [/\bBearer\s+([A-Za-z0-9\-._~+/]+=*)/gi],
+  jwt: [/\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g],
+  aws_key: [
+    /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    /aws_secret_access_key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/gi
+  ],
+  email: [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+  credit_card: [/\b\d(?:[ -]?\d){12,18}\b/g],
+  ip_address: [
+    /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+    /\b(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}\b/g
+  ]
+};
+
+export function getRedactionConfig(settings?: Record<string, unknown> | null): RedactionConfig {
+  const raw = (settings?.redaction || {}) as Partial<RedactionConfig>;
+  const detectors = { ...DEFAULT_REDACTION.detectors };
+
+  for (const detector of REDACTION_DETECTORS) {
+    const action = raw.detectors?.[detector];
+    if (action === 'off' || action === 'mask' || action === 'hash') {
+      detectors[detector] = action;
+    }
+  }
+
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : DEFAULT_REDACTION.enabled,
+    detectors,
+    custom_rules: Array.isArray(raw.custom_rules) ? raw.custom_rules : DEFAULT_REDACTION.custom_rules
+  };
+}
+
+/**
+ * Validate a (partial) redaction config update and merge it over the current config
+ * Custom patterns are compiled here so a bad regex is rejected when saved, not at ingest.
+ */
+export function parseRedactionConfig(
+  input: unknown,
+  current: RedactionConfig = DEFAULT_REDACTION
+): RedactionConfig {
+  if (!input || typeof input !== 'object') {
+    throw new Error('redaction must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    throw new Error('redaction.enabled must be a boolean');
+  }
+
+  if (raw.detectors !== undefined) {
+    if (!raw.detectors || typeof raw.detectors !== 'object') {
+      throw new Error('redaction.detectors must be an object');
+    }
+    for (const [detector, action] of Object.entries(raw.detectors)) {
+      if (!(REDACTION_DETECTORS as readonly string[]).includes(detector)) {
+        throw new Error(`Unknown redaction detector: ${detector}`);
+      }
+      if (action !== 'off' && action !== 'mask' && action !== 'hash') {
+        throw new Error(`redaction.detectors.${detector} must be one of off, mask, hash`);
+      }
+    }
+  }
+
+  let customRules = current.custom_rules;
+  if (raw.custom_rules !== undefined) {
+    if (!Array.isArray(raw.custom_rules) || raw.custom_rules.length > MAX_CUSTOM_RULES) {
+      throw new Error(`redaction.custom_rules must be an array of at most ${MAX_CUSTOM_RULES} rules`);
+    }
+
+    const names = new Set<string>();
+    customRules = raw.custom_rules.map((rule: Record<string, unknown>, index) => {
+      const at = `redaction.custom_rules[${index}]`;
+      if (typeof rule?.name !== 'string' || !/^[a-z0-9_-]{1,40}$/.test(rule.name)) {
+        throw new Error(`${at}.name must be 1-40 lowercase letters, digits, - or _`);
+      }
+      if ((REDACTION_DETECTORS as readonly string[]).includes(rule.name) || names.has(rule.name)) {
+        throw new Error(`${at}.name "${rule.name}" is already in use`);
+      }
+      names.add(rule.name);
+      if (typeof rule.pattern !== 'string' || !rule.pattern || rule.pattern.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`${at}.pattern must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`);
+      }
+      try {
+        new RegExp(rule.pattern, 'g');
+      } catch (error) {
+        throw new Error(`${at}.pattern is invalid: ${(error as Error).message}`);
+      }
+      if (new RegExp(rule.pattern).test('')) {
+        throw new Error(`${at}.pattern must not match an empty string`);
+      }
+      const unsafe = unsafePatternReason(rule.pattern);
+      if (unsafe) {
+        throw new Error(`${at}.pattern is too complex: ${unsafe}`);
+      }
+      if (rule.action !== 'mask' && rule.action !== 'hash') {
+        throw new Error(`${at}.action must be mask or hash`);
+      }
+      return { name: rule.name, pattern: rule.pattern, ignore_case: rule.ignore_case === true, action: rule.action };
+    });
+  }
+
+  return getRedactionConfig({
+    redaction: {
+      enabled: raw.enabled ?? current.enabled,
+      detectors: { ...current.detectors, ...(raw.detectors as object || {}) },
+      custom_rules: customRules
+    }
+  });
+}
+
+function buildDetectors(config: RedactionConfig, hashKey: string | null): Detector[] {
+  const detectors: Detector[] = [];
+  // Without a hash secret, hashing falls back to masking rather than an unkeyed digest
+  const effective = (action: Exclude<RedactionAction, 'off'>) => (action === 'hash' && !hashKey ? 'mask' : action);
+
+  for (const detector of REDACTION_DETECTORS) {
+    const configured = config.detectors[detector];
+    if (configured === 'off') continue;
+    const action = effective(configured);
+    for (const pattern of BUILT_IN_DETECTORS[detector]) {
+      detectors.push({
+        rule: detector,
+        pattern,
+        action,
+        ...(detector === 'credit_card' && { accept: passesLuhn })
+      });
+    }
+  }
+
+  for (const rule of config.custom_rules) {
+    // Rules saved before complexity checks existed are re-checked here
+    const unsafe = unsafePatternReason(rule.pattern);
+    if (unsafe) {
+      console.warn(`Skipping redaction rule ${rule.name}: ${unsafe}`);
+      continue;
+    }
+    try {
+      detectors.push({
+        rule: rule.name,
+        pattern: new RegExp(rule.pattern, rule.ignore_case ? 'gi' : 'g'),
+        action: effective(rule.action),
+        custom: true
+      });
+    } catch (error) {
+      // Validated on save; a pattern that no longer compiles is skipped rather than failing ingestion
+      console.warn(`Skipping redaction rule ${rule.name}:`, (error as Error).message);
+    }
+  }
+
+  return detectors;
+}
+
+/**
+ * Key for hash-mode redaction in one organization
+ * Derived from the server-side REDACTION_HASH_SECRET, so hashes of guessable values
+ * (IPs, emails) can't be brute-forced from the organization ID, and equal values only
+ * correlate within an organization. Null when no secret is configured.
+ */
+export async function getRedactionHashKey(organizationId: string): Promise<string | null> {
+  const secret = await getConfig('REDACTION_HASH_SECRET');
+  if (!secret) {
+    console.warn('REDACTION_HASH_SECRET is not configured; hash redaction falls back to masking');
+    return null;
+  }
+  return crypto.createHmac('sha256', secret).update(organizationId).digest('hex');
+}
+
+/**
+ * Replacement for a redacted value
+ */
+function replacement(rule: string, action: Exclude<RedactionAction, 'off'>, value: string, hashKey: string | null): string {
+  if (action === 'mask' || !hashKey) {
+    return `[REDACTED:${rule}]`;
+  }
+  const digest = crypto.createHmac('sha256', hashKey).update(value).digest('hex').slice(0, 12);
+  return `[${rule}:${digest}]`;
+}
+
+/**
+ * Build a redactor for one organization's config
+ * Records every replacement, by rule, under the JSON pointer it was made at.
+ */
+function createRedactor(config: RedactionConfig, hashKey: string | null) {
+  const detectors = buildDetectors(config, hashKey);
+  const records = new Map<string, RedactionRecord>();
+  // Custom rules that timed out; they mask every further field they would have scanned
+  const timedOut = new Set<string>();
+  let sandbox: vm.Context | null = null;
+  const replaceScript = new vm.Script('input.replace(pattern, replacer)');
+
+  function record(detector: Detector, pointer: string) {
+    const entry = records.get(detector.rule) || { rule: detector.rule, action: detector.action, count: 0, fields: [] };
+    entry.count++;
+    if (!entry.fields.includes(pointer) && entry.fields.length < MAX_RECORDED_FIELDS) {
+      entry.fields.push(pointer);
+    }
+    records.set(detector.rule, entry);
+  }
+
+  function redact(text: string, pointer: string): string {
+    let result = text;
+    for (const detector of detectors) {
+      const replacer = (match: string, group?: unknown) => {
+        if (detector.accept && !detector.accept(match)) {
+          return match;
+        }
+
+        const secret = typeof group === 'string' ? group : match;
+        record(detector, pointer);
+        return match.replace(secret, replacement(detector.rule, detector.action, secret, hashKey));
+      };
+
+      if (!detector.custom) {
+        result = result.replace(detector.pattern, replacer);
+        continue;
+      }
+
+      // Fail closed: a field a timed-out rule can't scan is masked whole
+      if (!timedOut.has(detector.rule)) {
+        sandbox ??= vm.createContext({});
+        Object.assign(sandbox, { input: result, pattern: detector.pattern, replacer });
+        try {
+          result = replaceScript.runInContext(sandbox, { timeout: CUSTOM_RULE_TIMEOUT_MS });
+          continue;
+        } catch (error) {
+          console.warn(`Redaction rule ${detector.rule} timed out:`, (error as Error).message);
+          timedOut.add(detector.rule);
+        }
+      }
+      record(detector, pointer);
+      result = `[REDACTED:${detector.rule}]`;
+    }
+    return result;
+  }
+
+  return { redact, records: () => [...records.values()] };
+}
+
+/**
+ * Redact free text, e.g. a raw webhook body kept in the delivery log
+ */
+export function redactText(text: string, config: RedactionConfig, hashKey: string | null): string {
+  return config.enabled ? createRedactor(config, hashKey).redact(text, '') : text;
+}
+
+/**
+ * Redact an incident's title, description, logs, metrics and context
+ * Returns the redacted fields and a record per rule of how many values were replaced and where.
+ */
+export function redactIncidentFields<T extends {
+  title?: string;
+  description?: string;
+  logs?: string[];
+  metrics?: Record<string, unknown>;
+  context?: Record<string, unknown>;
+}>(
+  incident: T,
+  config: RedactionConfig,
+  hashKey: string | null
+): { incident: T; redactions: RedactionRecord[] } {
+  if (!config.enabled) {
+    return { incident, redactions: [] };
+  }
+
+  const { redact, records } = createRedactor(config, hashKey);
+
+  function redactValue(value: unknown, pointer: string): unknown {
+    if (typeof value === 'string') {
+      return redact(value, pointer);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => redactValue(item, `${pointer}/${index}`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, redactValue(item, `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`)])
+      );
+    }
+    return value;
+  }
+
+  const redacted = { ...incident };
+  if (typeof incident.title === 'string') {
+    redacted.title = redact(incident.title, '/title');
+  }
+  if (typeof incident.description === 'string') {
+    redacted.description = redact(incident.description, '/description');
+  }
+  if (Array.isArray(incident.logs)) {
+    redacted.logs = redactValue(incident.logs, '/logs') as string[];
+  }
+  if (incident.metrics) {
+    redacted.metrics = redactValue(incident.metrics, '/metrics') as T['metrics'];
+  }
+  if (incident.context) {
+    redacted.context = redactValue(incident.context, '/context') as T['context'];
+  }
+
+  return { incident: redacted, redactions: records() };
+}
@@ -0,0 +1,339 @@
+/**
+ * Auto-analysis routing policy
+ *
+ * Decides what happens when an alert opens a new incident: start the AI
+ * analysis workflow, send a Slack notification, both, or nothing. Rules are
+ * checked in order and the first match wins; when none match the default
+ * actions apply. Configured per organization under `organizations.settings.routing`.
+ */
+
+export const ROUTING_ACTIONS = ['analyze', 'notify'] as const;
+
+export type RoutingAction = typeof ROUTING_ACTIONS[number];
+
+const SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] as const;
+
+type Severity = typeof SEVERITIES[number];
+
+// Every condition present must hold; a missing or empty condition matches anything
+export interface RoutingMatch {
+  severity?: Severity[];
+  // Service names, `*` matches any characters: "payment-*"
+  service?: string[];
+  source?: string[];
+  // All must be present on the alert: "env" matches any value, "env:prod" only that one
+  tags?: string[];
+  business_hours?: 'inside' | 'outside';
+}
+
+export interface RoutingRule {
+  name: string;
+  match: RoutingMatch;
+  // Empty: do nothing beyond storing the incident
+  actions: RoutingAction[];
+}
+
+export interface BusinessHours {
+  // IANA zone, e.g. Europe/Berlin
+  timezone: string;
+  // 0 = Sunday ... 6 = Saturday
+  days: number[];
+  // HH:MM, 24-hour; an end before the start spans midnight
+  start: string;
+  end: string;
+}
+
+export interface RoutingPolicy {
+  rules: RoutingRule[];
+  default_actions: RoutingAction[];
+  business_hours: BusinessHours;
+}
+
+export interface RoutingDecision {
+  // Name of the rule that fired; null when the default actions applied
+  rule: string | null;
+  actions: RoutingAction[];
+}
+
+// Matches the behaviour before routing was configurable: analyze new HIGH/CRITICAL incidents
+export const DEFAULT_ROUTING: RoutingPolicy = {
+  rules: [
+    { name: 'High severity', match: { severity: ['CRITICAL', 'HIGH'] }, actions: ['analyze'] }
+  ],
+  default_actions: [],
+  business_hours: {
+    timezone: 'UTC',
+    days: [1, 2, 3, 4, 5],
+    start: '09:00',
+    end: '17:00'
+  }
+};
+
+const MAX_RULES = 50;
+const MAX_MATCH_VALUES = 20;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function getRoutingConfig(settings?: Record<string, unknown> | null): RoutingPolicy {
+  const raw = (settings?.routing || {}) as Partial<RoutingPolicy>;
+  const hours = (raw.business_hours || {}) as Partial<BusinessHours>;
+
+  return {
+    rules: Array.isArray(raw.rules) ? raw.rules : DEFAULT_ROUTING.rules,
+    default_actions: Array.isArray(raw.default_actions) ? raw.default_actions : DEFAULT_ROUTING.default_actions,
+    business_hours: {
+      timezone: typeof hours.timezone === 'string' ? hours.timezone : DEFAULT_ROUTING.business_hours.timezone,
+      days: Array.isArray(hours.days) ? hours.days : DEFAULT_ROUTING.business_hours.days,
+      start: typeof hours.start === 'string' ? hours.start : DEFAULT_ROUTING.business_hours.start,
+      end: typeof hours.end === 'string' ? hours.end : DEFAULT_ROUTING.business_hours.end
+    }
+  };
+}
+
+function parseActions(input: unknown, at: string): RoutingAction[] {
+  if (!Array.isArray(input) || !input.every(a => (ROUTING_ACTIONS as readonly unknown[]).includes(a))) {
+    throw new Error(`${at} must be an array of: ${ROUTING_ACTIONS.join(', ')}`);
+  }
+  return ROUTING_ACTIONS.filter(action => input.includes(action));
+}
+
+function parseStringList(input: unknown, at: string): string[] | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (
+    !Array.isArray(input) ||
+    input.length > MAX_MATCH_VALUES ||
+    !input.every(value => typeof value === 'string' && value.trim() && value.length <= 100)
+  ) {
+    throw new Error(`${at} must be an array of at most ${MAX_MATCH_VALUES} non-empty strings`);
+  }
+  const values = input.map((value: string) => value.trim());
+  return values.length > 0 ? values : undefined;
+}
+
+function parseRule(input: unknown, index: number): RoutingRule {
+  const at = `routing.rules[${index}]`;
+  if (!input || typeof input !== 'object') {
+    throw new Error(`${at} must be an object`);
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.name !== 'string' || !raw.name.trim() || raw.name.length > 60) {
+    throw new Error(`${at}.name must be 1-60 characters`);
+  }
+
+  const rawMatch = (raw.match ?? {}) as Record<string, unknown>;
+  if (typeof rawMatch !== 'object') {
+    throw new Error(`${at}.match must be an object`);
+  }
+
+  const match: RoutingMatch = {};
+
+  if (rawMatch.severity !== undefined && rawMatch.severity !== null) {
+    if (!Array.isArray(rawMatch.severity) || !rawMatch.severity.every(s => (SEVERITIES as readonly unknown[]).includes(s))) {
+      throw new Error(`${at}.match.severity must be an array of: ${SEVERITIES.join(', ')}`);
+    }
+    if (rawMatch.severity.length > 0) {
+      match.severity = SEVERITIES.filter(s => (rawMatch.severity as unknown[]).includes(s));
+    }
+  }
+
+  for (const key of ['service', 'source', 'tags'] as const) {
+    const values = parseStringList(rawMatch[key], `${at}.match.${key}`);
+    if (values) {
+      match[key] = values;
+    }
+  }
+
+  if (rawMatch.business_hours !== undefined && rawMatch.business_hours !== null) {
+    if (rawMatch.business_hours !== 'inside' && rawMatch.business_hours !== 'outside') {
+      throw new Error(`${at}.match.business_hours must be inside or outside`);
+    }
+    match.business_hours = rawMatch.business_hours;
+  }
+
+  return { name: raw.name.trim(), match, actions: parseActions(raw.actions, `${at}.actions`) };
+}
+
+function parseBusinessHours(input: unknown, current: BusinessHours): BusinessHours {
+  if (!input || typeof input !== 'object') {
+    throw new Error('routing.business_hours must be an object');
+  }
+
+  const raw = { ...current, ...(input as Partial<BusinessHours>) };
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: raw.timezone });
+  } catch {
+    throw new Error(`routing.business_hours.timezone "${raw.timezone}" is not a known time zone`);
+  }
+  if (
+    !Array.isArray(raw.days) ||
+    raw.days.length === 0 ||
+    !raw.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+  ) {
+    throw new Error('routing.business_hours.days must be a non-empty array of weekdays (0 = Sunday ... 6 = Saturday)');
+  }
+  if (typeof raw.start !== 'string' || !TIME_PATTERN.test(raw.start) || typeof raw.end !== 'string' || !TIME_PATTERN.test(raw.end)) {
+    throw new Error('routing.business_hours.start and end must be HH:MM (24-hour)');
+  }
+  if (raw.start === raw.end) {
+    throw new Error('routing.business_hours.start and end must differ');
+  }
+
+  return {
+    timezone: raw.timezone,
+    days: [...new Set(raw.days)].sort((a, b) => a - b),
+    start: raw.start,
+    end: raw.end
+  };
+}
+
+/**
+ * Validate a (partial) routing policy update and merge it over the current policy
+ * `rules` replaces the whole rule list, since rule order decides which one fires.
+ */
+export function parseRoutingConfig(
+  input: unknown,
+  current: RoutingPolicy = DEFAULT_ROUTING
+): RoutingPolicy {
+  if (!input || typeof input !== 'object') {
+    throw new Error('routing must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  let rules = current.rules;
+
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules) || raw.rules.length > MAX_RULES) {
+      throw new Error(`routing.rules must be an array of at most ${MAX_RULES} rules`);
+    }
+    rules = raw.rules.map(parseRule);
+
+    const names = new Set<string>();
+    for (const rule of rules) {
+      if (names.has(rule.name)) {
+        throw new Error(`routing.rules: duplicate rule name "${rule.name}"`);
+      }
+      names.add(rule.name);
+    }
+  }
+
+  return {
+    rules,
+    default_actions: raw.default_actions !== undefined
+      ? parseActions(raw.default_actions, 'routing.default_actions')
+      : current.default_actions,
+    business_hours: raw.business_hours !== undefined
+      ? parseBusinessHours(raw.business_hours, current.business_hours)
+      : current.business_hours
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a moment falls inside the organization's business hours, in its time zone
+ */
+export function isWithinBusinessHours(hours: BusinessHours, at: Date): boolean {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: hours.timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+  } catch {
+    // Validated on save; an unknown zone counts as outside business hours
+    return false;
+  }
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const day = WEEKDAYS.indexOf(part('weekday'));
+  const minutes = Number(part('hour')) * 60 + Number(part('minute'));
+  const start = toMinutes(hours.start);
+  const end = toMinutes(hours.end);
+
+  if (start < end) {
+    return hours.days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the part after midnight belongs to the previous day's shift
+  return (hours.days.includes(day) && minutes >= start)
+    || (hours.days.includes((day + 6) % 7) && minutes < end);
+}
+
+/**
+ * Tags on a normalized alert, lowercased: context.tags as given (Datadog, Opsgenie)
+ * plus context.labels as key:value (Prometheus, Grafana, Sentry)
+ */
+export function getAlertTags(context?: Record<string, unknown>): string[] {
+  const tags = new Set<string>();
+
+  if (Array.isArray(context?.tags)) {
+    for (const tag of context.tags) {
+      if (typeof tag === 'string') tags.add(tag.toLowerCase());
+    }
+  }
+
+  const labels = context?.labels;
+  if (labels && typeof labels === 'object' && !Array.isArray(labels)) {
+    for (const [key, value] of Object.entries(labels)) {
+      if (value !== null && value !== undefined) {
+        tags.add(`${key}:${value}`.toLowerCase());
+      }
+    }
+  }
+
+  return [...tags];
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(value);
+}
+
+function matchesTag(wanted: string, tags: string[]): boolean {
+  const tag = wanted.toLowerCase();
+  return tag.includes(':')
+    ? tags.includes(tag)
+    : tags.some(t => t === tag || t.startsWith(`${tag}:`));
+}
+
+/**
+ * Pick the actions for a new incident: the first matching rule's, else the defaults
+ */
+export function evaluateRoutingPolicy(
+  policy: RoutingPolicy,
+  incident: { severity: string; service: string; source: string; context?: Record<string, unknown> },
+  at: Date = new Date()
+): RoutingDecision {
+  const tags = getAlertTags(incident.context);
+  let insideHours: boolean | undefined;
+
+  for (const rule of policy.rules) {
+    const { severity, service, source, tags: wantedTags, business_hours: businessHours } = rule.match;
+
+    if (severity?.length && !severity.includes(incident.severity as Severity)) continue;
+    if (service?.length && !service.some(pattern => matchesPattern(pattern, incident.service))) continue;
+    if (source?.length && !source.some(s => s.toLowerCase() === incident.source.toLowerCase())) continue;
+    if (wantedTags?.length && !wantedTags.every(tag => matchesTag(tag, tags))) continue;
+    if (businessHours) {
+      insideHours ??= isWithinBusinessHours(policy.business_hours, at);
+      if ((businessHours === 'inside') !== insideHours) continue;
+    }
+
+    return { rule: rule.name, actions: rule.actions };
+  }
+
+  return { rule: null, actions: policy.default_actions };
+}
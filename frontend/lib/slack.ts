@@ -1,4 +1,7 @@
 import { Incident } from '@/types/incident';
+import { recordIncidentEvent, recordIncidentEventByExternalId } from './incident-events';
+import { getAssigneeLabel } from './incident-assignments';
+import { OutboxHandler, sendViaOutbox } from './outbox';
 
 interface SlackMessage {
   channel?: string;
@@ -9,31 +12,112 @@ interface SlackMessage {
 
 const SLACK_WEBHOOK_URL = process.env.SLACK_WEBHOOK_URL;
 
+async function postToSlack(message: SlackMessage): Promise<void> {
+  if (!SLACK_WEBHOOK_URL) {
+    throw new Error('SLACK_WEBHOOK_URL not configured');
+  }
+
+  const response = await fetch(SLACK_WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Slack API error: ${response.statusText}`);
+  }
+}
+
 /**
  * Send a notification to Slack
  */
 export async function sendSlackNotification(message: SlackMessage): Promise<boolean> {
-  if (!SLACK_WEBHOOK_URL) {
-    console.warn('SLACK_WEBHOOK_URL not configured');
+  try {
+    await postToSlack(message);
+    return true;
+  } catch (error) {
+    console.error('Failed to send Slack notification:', error);
     return false;
   }
+}
 
-  try {
-    const response = await fetch(SLACK_WEBHOOK_URL, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(message)
-    });
-
-    if (!response.ok) {
-      throw new Error(`Slack API error: ${response.statusText}`);
+/**
+ * Record a Slack notification on the incident timeline
+ */
+async function recordSlackEvent(
+  incident: Pick<Incident, 'id' | 'internal_id' | 'organization_id'>,
+  notification: string,
+  delivered: boolean
+): Promise<void> {
+  if (!incident.organization_id) return;
+
+  const event = {
+    organizationId: incident.organization_id,
+    type: 'slack_notified' as const,
+    title: delivered ? `Slack notified: ${notification}` : `Slack notification failed: ${notification}`,
+    details: { notification, delivered }
+  };
+
+  if (incident.internal_id) {
+    await recordIncidentEvent({ ...event, incidentId: incident.internal_id });
+  } else {
+    await recordIncidentEventByExternalId(incident.id, event);
+  }
+}
+
+type SlackOutboxPayload = {
+  // Only what the timeline event needs
+  incident: Pick<Incident, 'id' | 'internal_id' | 'organization_id'>;
+  notification: string;
+  message: SlackMessage;
+};
+
+/**
+ * Outbox handler for Slack messages; the timeline shows the delivery, or the
+ * failure once retries run out
+ */
+export const SLACK_NOTIFICATION_HANDLER: OutboxHandler<SlackOutboxPayload> = {
+  async deliver({ incident, notification, message }) {
+    // Queued before Slack was unconfigured: dropped, not retried
+    if (!SLACK_WEBHOOK_URL) {
+      return;
     }
 
-    return true;
-  } catch (error) {
-    console.error('Failed to send Slack notification:', error);
+    await postToSlack(message);
+    await recordSlackEvent(incident, notification, true);
+  },
+
+  async onFailure(entry, _error, willRetry) {
+    if (!willRetry) {
+      await recordSlackEvent(entry.payload.incident, entry.payload.notification, false);
+    }
+  }
+};
+
+/**
+ * Send a message about an incident through the outbox, so failed sends are retried
+ * Returns whether the first attempt was delivered. Without SLACK_WEBHOOK_URL
+ * nothing is sent or recorded: Slack is optional.
+ */
+async function deliverSlackMessage(incident: Incident, notification: string, message: SlackMessage): Promise<boolean> {
+  if (!SLACK_WEBHOOK_URL || !incident.organization_id) {
     return false;
   }
+
+  const { delivered } = await sendViaOutbox(
+    {
+      kind: 'slack_notification',
+      organizationId: incident.organization_id,
+      incidentId: incident.internal_id || null,
+      payload: {
+        incident: { id: incident.id, internal_id: incident.internal_id, organization_id: incident.organization_id },
+        notification,
+        message
+      }
+    },
+    SLACK_NOTIFICATION_HANDLER
+  );
+  return delivered;
 }
 
 /**
@@ -67,6 +151,8 @@ export function formatIncidentMessage(incident: Incident, type: 'created' | 'res
   };
 
   const incidentUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/incident/${incident.id}`;
+  const commander = incident.assignees?.find(a => a.role === 'commander');
+  const responders = incident.assignees?.filter(a => a.role === 'responder') || [];
 
   return {
     text: `${typeEmoji[type]} ${typeText[type]}: ${incident.title}`,
@@ -97,6 +183,14 @@ export function formatIncidentMessage(incident: Incident, type: 'created' | 'res
           {
             type: 'mrkdwn',
             text: `*Status:*\n${incident.status.toUpperCase()}`
+          },
+          {
+            type: 'mrkdwn',
+            text: `*Commander:*\n${commander ? getAssigneeLabel(commander) : '_Unassigned_'}`
+          },
+          {
+            type: 'mrkdwn',
+            text: `*Responders:*\n${responders.length > 0 ? responders.map(getAssigneeLabel).join(', ') : '_None_'}`
           }
         ]
       },
@@ -165,7 +259,7 @@ export function formatIncidentMessage(incident: Incident, type: 'created' | 'res
  */
 export async function notifyIncidentCreated(incident: Incident): Promise<boolean> {
   const message = formatIncidentMessage(incident, 'created');
-  return sendSlackNotification(message);
+  return deliverSlackMessage(incident, 'incident created', message);
 }
 
 /**
@@ -173,7 +267,7 @@ export async function notifyIncidentCreated(incident: Incident): Promise<boolean
  */
 export async function notifyIncidentResolved(incident: Incident): Promise<boolean> {
   const message = formatIncidentMessage(incident, 'resolved');
-  return sendSlackNotification(message);
+  return deliverSlackMessage(incident, 'incident resolved', message);
 }
 
 /**
@@ -181,7 +275,53 @@ export async function notifyIncidentResolved(incident: Incident): Promise<boolea
  */
 export async function notifyIncidentEscalated(incident: Incident): Promise<boolean> {
   const message = formatIncidentMessage(incident, 'escalated');
-  return sendSlackNotification(message);
+  return deliverSlackMessage(incident, 'incident escalated', message);
+}
+
+/**
+ * Send incident assignee change notification
+ */
+export async function notifyAssignmentChanged(
+  incident: Incident,
+  change: { commander: string | null; previous_commander: string | null; added: string[]; removed: string[] }
+): Promise<boolean> {
+  const incidentUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/incident/${incident.id}`;
+  const lines: string[] = [];
+
+  if (change.commander !== change.previous_commander) {
+    lines.push(change.commander
+      ? `*Incident commander:* ${change.commander}${change.previous_commander ? ` (was ${change.previous_commander})` : ''}`
+      : `*Incident commander:* _Unassigned_ (was ${change.previous_commander})`);
+  }
+  if (change.added.length > 0) {
+    lines.push(`*Added:* ${change.added.join(', ')}`);
+  }
+  if (change.removed.length > 0) {
+    lines.push(`*Removed:* ${change.removed.join(', ')}`);
+  }
+
+  const message: SlackMessage = {
+    text: `Assignees updated for ${incident.id}`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: ':busts_in_silhouette: Incident Assignees Updated',
+          emoji: true
+        }
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `<${incidentUrl}|*${incident.id}*> ${incident.title}\n${lines.join('\n')}`
+        }
+      }
+    ]
+  };
+
+  return deliverSlackMessage(incident, 'assignees updated', message);
 }
 
 /**
@@ -224,7 +364,7 @@ export async function notifyAIAnalysisComplete(incident: Incident, analysisUrl:
     ]
   };
 
-  return sendSlackNotification(message);
+  return deliverSlackMessage(incident, 'AI analysis complete', message);
 }
 
 /**
@@ -273,5 +413,5 @@ export async function notifyRemediationAction(
     ]
   };
 
-  return sendSlackNotification(message);
+  return deliverSlackMessage(incident, `remediation ${status.toLowerCase()}`, message);
 }
@@ -1,5 +1,8 @@
 import { supabase, Incident, AIAnalysis } from './db';
 import { getAdminClient } from './supabase-admin';
+import { recordIncidentEvent } from './incident-events';
+import { computeFingerprint, getAlertGroupingConfig, getOccurrenceTime } from './alert-grouping';
+import { storeIncidentLogs, toLogPreview } from './incident-logs';
 
 // Organization type for webhook validation
 export interface Organization {
@@ -12,25 +15,6 @@ export interface Organization {
   updated_at?: string;
 }
 
-// Organization management
-export async function getOrganizationByWebhookKey(webhookKey: string): Promise<Organization> {
-  // Use admin client to bypass RLS for webhook key lookup
-  const adminClient = getAdminClient();
-  
-  const { data, error } = await adminClient
-    .from('organizations')
-    .select('*')
-    .eq('webhook_key', webhookKey)
-    .single();
-
-  if (error) {
-    console.error('Error fetching organization:', error);
-    throw new Error('Invalid webhook key');
-  }
-
-  return data as Organization;
-}
-
 export async function getOrganizations() {
   const { data, error } = await supabase
     .from('organizations')
@@ -107,25 +91,26 @@ export async function getIncidentById(id: string, organizationId?: string) {
   return data as Incident;
 }
 
+export interface CreateIncidentResult {
+  incident: Incident;
+  // duplicate: same external_id already ingested; grouped: folded into an open incident by fingerprint
+  outcome: 'created' | 'duplicate' | 'grouped';
+}
+
+export interface CreateIncidentOptions {
+  // Historical import: the incident is stored resolved as of the alert's time,
+  // and only earlier records of the import (already resolved) are grouped into
+  backfill?: boolean;
+}
+
 export async function createIncident(
-  incident: Omit<Incident, 'id' | 'created_at' | 'updated_at' | 'organization_id'>,
-  webhookKey: string
-) {
+  incident: Omit<Incident, 'id' | 'created_at' | 'updated_at' | 'organization_id' | 'occurrence_count' | 'log_count'>,
+  organization: Organization,
+  options: CreateIncidentOptions = {}
+): Promise<CreateIncidentResult> {
   // Use admin client to bypass RLS for webhook ingestion
   const adminClient = getAdminClient();
 
-  // Look up organization by webhook key (using admin client)
-  const { data: organization, error: orgError } = await adminClient
-    .from('organizations')
-    .select('*')
-    .eq('webhook_key', webhookKey)
-    .single();
-
-  if (orgError || !organization) {
-    console.error('Error fetching organization:', orgError);
-    throw new Error('Invalid webhook key');
-  }
-
   // Check for idempotency - don't create duplicate incidents
   const { data: existingIncident } = await adminClient
     .from('incidents')
@@ -141,23 +126,78 @@ export async function createIncident(
       .select('*')
       .eq('id', existingIncident.id)
       .single();
-    return fullIncident as Incident;
+
+    await recordIncidentEvent({
+      incidentId: existingIncident.id,
+      organizationId: organization.id,
+      type: 'duplicate_received',
+      title: 'Duplicate alert received',
+      details: { source: incident.source, external_id: incident.external_id }
+    });
+
+    return { incident: fullIncident as Incident, outcome: 'duplicate' };
   }
 
+  // Alert grouping - fold re-fires of the same alert into the open incident
+  const grouping = getAlertGroupingConfig(organization.settings);
+  const fingerprint = computeFingerprint(incident, grouping);
+  const occurredAt = getOccurrenceTime(incident.timestamp);
+
+  // Only a preview of the logs goes on the incident row; the full log is stored line by line below
   const incidentWithOrg = {
     ...incident,
-    organization_id: organization.id
+    ...toLogPreview(incident.logs || []),
+    organization_id: organization.id,
+    fingerprint,
+    last_occurrence_at: occurredAt.toISOString(),
+    ...(options.backfill && { status: 'resolved' as const, resolved_at: occurredAt.toISOString() })
   };
 
-  const { data, error } = await adminClient
-    .from('incidents')
-    .insert([incidentWithOrg])
-    .select()
-    .single();
-
-  if (error) {
+  // Lookup and insert run in one locked transaction, so concurrent re-fires can't both create an incident
+  const { data: result, error } = await adminClient
+    .rpc('group_or_create_incident', {
+      p_incident: incidentWithOrg,
+      // A backfilled record only joins earlier records of the import, never a live incident
+      p_statuses: options.backfill ? ['resolved', 'closed'] : ['open', 'investigating'],
+      p_window_minutes: grouping.enabled ? grouping.window_minutes : null
+    })
+    .single<{ grouped: boolean; incident: Incident }>();
+
+  if (error || !result) {
     console.error('Error creating incident:', error);
-    throw error;
+    throw error || new Error('Failed to create incident');
+  }
+
+  if (result.grouped) {
+    const groupedIncident = result.incident;
+
+    await recordIncidentEvent({
+      incidentId: groupedIncident.id,
+      organizationId: organization.id,
+      type: 'alert_grouped',
+      title: `Repeated alert grouped (occurrence ${groupedIncident.occurrence_count})`,
+      details: {
+        source: incident.source,
+        external_id: incident.external_id,
+        occurrence_count: groupedIncident.occurrence_count
+      }
+    });
+
+    return { incident: groupedIncident, outcome: 'grouped' };
+  }
+
+  const data = result.incident;
+
+  try {
+    await storeIncidentLogs(data.id, incident.logs || []);
+  } catch (logError) {
+    // Fail the request rather than keep an incident without its logs; the sender's
+    // retry then creates it again instead of finding a duplicate
+    const { error: cleanupError } = await adminClient.from('incidents').delete().eq('id', data.id);
+    if (cleanupError) {
+      console.error('Error removing incident after failed log storage:', cleanupError);
+    }
+    throw logError;
   }
 
   // Audit log (using admin client)
@@ -165,10 +205,20 @@ export async function createIncident(
     incident_id: data.id,
     organization_id: organization.id,
     action: 'incident_created',
-    details: { source: incident.source }
+    details: { source: incident.source, ...(options.backfill && { backfill: true }) }
   }]);
 
-  return data as Incident;
+  await recordIncidentEvent({
+    incidentId: data.id,
+    organizationId: organization.id,
+    type: 'incident_created',
+    title: options.backfill ? `Incident backfilled from ${incident.source}` : `Incident ingested from ${incident.source}`,
+    details: { source: incident.source, severity: data.severity, service: data.service, ...(options.backfill && { backfill: true }) },
+    // Backfilled incidents appear on the timeline when they happened
+    occurredAt: options.backfill ? occurredAt.toISOString() : data.created_at
+  });
+
+  return { incident: data as Incident, outcome: 'created' };
 }
 
 export async function updateIncidentStatus(
@@ -1,5 +1,6 @@
 import { createAdminClient } from './supabase-admin';
 import { generateInviteCode, generateWebhookKey, generateSlug } from './organizations';
+import { storeIncidentLogs, toLogPreview } from './incident-logs';
 
 /**
  * Execute raw SQL using Supabase's RPC
@@ -295,11 +296,23 @@ export async function createSampleIncidents(organizationId: string): Promise<{
     }
   ];
   
-  const { error } = await supabase.from('incidents').insert(sampleIncidents);
+  const { data: created, error } = await supabase
+    .from('incidents')
+    .insert(sampleIncidents.map(incident => ({ ...incident, ...toLogPreview(incident.logs) })))
+    .select('id, external_id');
   
   if (error) {
     return { success: false, error: error.message };
   }
+
+  try {
+    for (const row of created || []) {
+      const sample = sampleIncidents.find(incident => incident.external_id === row.external_id);
+      await storeIncidentLogs(row.id, sample?.logs || [], supabase);
+    }
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
   
   return { success: true, count: sampleIncidents.length };
 }
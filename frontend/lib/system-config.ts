@@ -8,7 +8,15 @@ export type ConfigKey =
   | 'KESTRA_URL'
   | 'KESTRA_USERNAME'
   | 'KESTRA_PASSWORD'
-  | 'GEMINI_API_KEY';
+  | 'KESTRA_NAMESPACE'
+  | 'KESTRA_FLOW_ID'
+  | 'KESTRA_WEBHOOK_KEY'
+  | 'KESTRA_TENANT'
+  | 'KESTRA_CALLBACK_URL'
+  | 'KESTRA_CALLBACK_SECRET'
+  | 'GEMINI_API_KEY'
+  | 'ANALYSIS_LLM'
+  | 'REDACTION_HASH_SECRET';
 
 /**
  * Get a configuration value from the database
@@ -183,14 +191,30 @@ function getEnvFallback(key: ConfigKey): string | null {
       return process.env.KESTRA_USERNAME || null;
     case 'KESTRA_PASSWORD':
       return process.env.KESTRA_PASSWORD || null;
+    case 'KESTRA_NAMESPACE':
+      return process.env.KESTRA_NAMESPACE || null;
+    case 'KESTRA_FLOW_ID':
+      return process.env.KESTRA_FLOW_ID || null;
+    case 'KESTRA_WEBHOOK_KEY':
+      return process.env.KESTRA_WEBHOOK_KEY || null;
+    case 'KESTRA_TENANT':
+      return process.env.KESTRA_TENANT || null;
+    case 'KESTRA_CALLBACK_URL':
+      return process.env.KESTRA_CALLBACK_URL || null;
+    case 'KESTRA_CALLBACK_SECRET':
+      return process.env.KESTRA_CALLBACK_SECRET || null;
     case 'GEMINI_API_KEY':
       return process.env.GEMINI_API_KEY || null;
+    case 'ANALYSIS_LLM':
+      return process.env.ANALYSIS_LLM || null;
+    case 'REDACTION_HASH_SECRET':
+      return process.env.REDACTION_HASH_SECRET || null;
     default:
       return null;
   }
 }
 
 function isSecretKey(key: ConfigKey): boolean {
-  return ['KESTRA_PASSWORD', 'GEMINI_API_KEY', 'KESTRA_USERNAME'].includes(key);
+  return ['KESTRA_PASSWORD', 'GEMINI_API_KEY', 'KESTRA_USERNAME', 'KESTRA_WEBHOOK_KEY', 'KESTRA_CALLBACK_SECRET', 'REDACTION_HASH_SECRET'].includes(key);
 }
 
@@ -0,0 +1,99 @@
+/**
+ * Line diff
+ *
+ * Longest-common-subsequence diff of two texts, line by line. Meant for
+ * config-sized texts (a few thousand lines at most).
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffHunk {
+  // 1-based first line in the old and new text
+  old_start: number;
+  new_start: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Every line of both texts, in order, marked as kept, added or removed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Changed lines grouped with `context` unchanged lines around them, like a unified diff
+ */
+export function diffHunks(oldText: string, newText: string, context = 3): DiffHunk[] {
+  const lines = diffLines(oldText, newText);
+  const hunks: DiffHunk[] = [];
+
+  let oldLine = 1;
+  let newLine = 1;
+  let current: DiffHunk | null = null;
+  // Unchanged lines since the last change in the current hunk
+  let trailing = 0;
+
+  lines.forEach((line, index) => {
+    if (line.type !== 'same') {
+      if (!current) {
+        const start = Math.max(0, index - context);
+        const leading = lines.slice(start, index);
+        current = { old_start: oldLine - leading.length, new_start: newLine - leading.length, lines: leading };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+      trailing = 0;
+    } else if (current) {
+      if (trailing < context * 2) {
+        current.lines.push(line);
+        trailing++;
+      } else {
+        // Too far from the next change: close the hunk after `context` lines
+        current.lines.splice(current.lines.length - (trailing - context));
+        current = null;
+      }
+    }
+
+    if (line.type !== 'added') oldLine++;
+    if (line.type !== 'removed') newLine++;
+  });
+
+  const last = hunks[hunks.length - 1];
+  if (current && last && trailing > context) {
+    last.lines.splice(last.lines.length - (trailing - context));
+  }
+
+  return hunks;
+}
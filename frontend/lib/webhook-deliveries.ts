@@ -0,0 +1,125 @@
+import { getAdminClient } from './supabase-admin';
+
+/**
+ * Webhook delivery log
+ *
+ * Every ingest request that can be attributed to an organization is stored
+ * with its body, redacted headers and outcome, so rejected payloads can be
+ * inspected and replayed. Bodies are stored after the organization's PII
+ * redaction, never in the original, so replays ingest the redacted payload. Rate-limited requests are not stored. A bulk
+ * import is stored as one delivery, which can be inspected but not replayed.
+ */
+
+export type DeliveryOutcome = 'accepted' | 'rejected' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  request_id: string;
+  source: string;
+  webhook_key_id: string | null;
+  status_code: number;
+  outcome: DeliveryOutcome;
+  error: string | null;
+  incident_ids: string[];
+  replay_of: string | null;
+  bulk: boolean;
+  received_at: string;
+  // Only loaded for a single delivery
+  headers?: Record<string, string>;
+  body?: string | null;
+  body_truncated?: boolean;
+  response?: Record<string, unknown> | null;
+}
+
+export const WEBHOOK_DELIVERY_SELECT =
+  'id, request_id, source, webhook_key_id, status_code, outcome, error, incident_ids, replay_of, bulk, received_at';
+
+export const WEBHOOK_DELIVERY_DETAIL_SELECT = `${WEBHOOK_DELIVERY_SELECT}, headers, body, body_truncated, response`;
+
+export const DELIVERY_RETENTION_DAYS = 14;
+
+// Larger bodies are stored truncated and cannot be replayed
+export const MAX_STORED_BODY_LENGTH = 256 * 1024;
+
+const REDACTED_HEADERS = ['x-webhook-key', 'authorization', 'proxy-authorization', 'cookie', 'x-api-key'];
+
+/**
+ * Copy request headers, masking credentials
+ */
+export function redactHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = REDACTED_HEADERS.includes(name.toLowerCase()) ? '[REDACTED]' : value;
+  });
+  return result;
+}
+
+export function deliveryOutcome(statusCode: number): DeliveryOutcome {
+  if (statusCode >= 500) return 'failed';
+  if (statusCode >= 400) return 'rejected';
+  return 'accepted';
+}
+
+/**
+ * Persist one delivery; logging never fails the webhook
+ */
+export async function recordDelivery(delivery: {
+  organizationId: string;
+  requestId: string;
+  source: string;
+  webhookKeyId: string | null;
+  headers: Record<string, string>;
+  body: string;
+  statusCode: number;
+  response: Record<string, unknown>;
+  replayOf?: string;
+  bulk?: boolean;
+}): Promise<string | null> {
+  const adminClient = getAdminClient();
+
+  const results = Array.isArray(delivery.response.results) ? delivery.response.results : [];
+  const incidentIds = results
+    .map((result: { internal_id?: string | null }) => result.internal_id)
+    .filter((id): id is string => typeof id === 'string');
+  const error = typeof delivery.response.error === 'string'
+    ? [delivery.response.error, delivery.response.details].filter(Boolean).join(': ')
+    : null;
+
+  const { data, error: insertError } = await adminClient
+    .from('webhook_deliveries')
+    .insert([{
+      organization_id: delivery.organizationId,
+      request_id: delivery.requestId,
+      source: delivery.source,
+      webhook_key_id: delivery.webhookKeyId,
+      headers: delivery.headers,
+      body: delivery.body.slice(0, MAX_STORED_BODY_LENGTH),
+      body_truncated: delivery.body.length > MAX_STORED_BODY_LENGTH,
+      status_code: delivery.statusCode,
+      outcome: deliveryOutcome(delivery.statusCode),
+      error,
+      incident_ids: incidentIds,
+      response: delivery.response,
+      replay_of: delivery.replayOf || null,
+      bulk: delivery.bulk || false
+    }])
+    .select('id')
+    .single();
+
+  if (insertError) {
+    console.warn(`[${delivery.requestId}] Failed to record webhook delivery:`, insertError.message);
+    return null;
+  }
+
+  // Opportunistically sweep deliveries past the retention period
+  if (Math.random() < 0.05) {
+    const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await adminClient
+      .from('webhook_deliveries')
+      .delete()
+      .eq('organization_id', delivery.organizationId)
+      .lt('received_at', cutoff.toISOString());
+  }
+
+  return data.id;
+}
@@ -0,0 +1,255 @@
+import { createIncident, Organization } from './supabase-queries';
+import { queueKestraWorkflow, toKestraIncidentData } from './kestra';
+import { recordIncidentEvent } from './incident-events';
+import { applyRecovery } from './incident-recovery';
+import { NormalizedAlert, PayloadValidationError, normalizePayload } from './webhook-normalizers';
+import { getRedactionConfig, getRedactionHashKey, redactIncidentFields } from './redaction';
+import { RoutingDecision, RoutingPolicy, evaluateRoutingPolicy, getRoutingConfig } from './routing-policy';
+import { notifyIncidentCreated } from './slack';
+
+/**
+ * Webhook ingestion pipeline
+ *
+ * Normalizes and redacts an authenticated payload, then applies each alert:
+ * recoveries resolve incidents, everything else creates or groups one. Shared
+ * by the ingest endpoint and delivery replays.
+ */
+
+// Alertmanager, Grafana and PagerDuty batch alerts; cap the work done per request
+export const MAX_BATCH_SIZE = 100;
+
+export interface IngestResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export interface IngestOptions {
+  // Historical import: incidents are stored resolved, recoveries are ignored
+  // and nothing is routed (no analysis workflow, no notification)
+  backfill?: boolean;
+}
+
+/**
+ * Apply one normalized alert: resolve on recovery, otherwise create or group an incident
+ */
+async function processAlert(
+  alert: NormalizedAlert,
+  organization: Organization,
+  requestId: string,
+  routing: RoutingPolicy,
+  options: IngestOptions
+) {
+  const { is_recovery: isRecovery, ...normalizedIncident } = alert;
+
+  // A historical recovery must not resolve a live incident; backfilled incidents are stored resolved anyway
+  if (isRecovery && options.backfill) {
+    return {
+      success: true as const,
+      recovery: true,
+      outcome: 'ignored' as const,
+      incident_id: null,
+      internal_id: null
+    };
+  }
+
+  // Recovery notifications resolve the matching open incident instead of creating one
+  if (isRecovery) {
+    const { outcome, incident: recovered } = await applyRecovery(organization, normalizedIncident);
+    console.log(`[${requestId}] Recovery notification:`, {
+      outcome,
+      incident_id: recovered?.external_id,
+      organization: organization.name
+    });
+
+    return {
+      success: true as const,
+      recovery: true,
+      outcome,
+      incident_id: recovered?.external_id || null,
+      internal_id: recovered?.id || null
+    };
+  }
+
+  // Create incident (includes idempotency check)
+  console.log(`[${requestId}] Creating incident:`, {
+    external_id: normalizedIncident.external_id,
+    service: normalizedIncident.service,
+    severity: normalizedIncident.severity,
+    organization: organization.name
+  });
+
+  const { incident, outcome } = await createIncident(normalizedIncident, organization, { backfill: options.backfill });
+
+  // Duplicates and grouped re-fires attach to an existing incident
+  const isDuplicate = outcome !== 'created';
+
+  // New incidents go through the org's routing policy; backfills only store
+  let routingDecision: RoutingDecision | null = null;
+  let kestraResult: { triggered: boolean; execution_id: string | null; retrying?: boolean } | null = null;
+  let notified: boolean | null = null;
+
+  if (!options.backfill && !isDuplicate) {
+    routingDecision = evaluateRoutingPolicy(routing, incident);
+    const { rule, actions } = routingDecision;
+
+    await recordIncidentEvent({
+      incidentId: incident.id,
+      organizationId: incident.organization_id,
+      type: 'routing_applied',
+      title: rule
+        ? `Routing rule "${rule}" matched: ${actions.join(', ') || 'no action'}`
+        : `No routing rule matched, default: ${actions.join(', ') || 'no action'}`,
+      details: { rule, actions }
+    });
+
+    if (actions.includes('analyze')) {
+      // Goes through the outbox: a failed trigger is retried and the incident shows analysis pending
+      const attempt = await queueKestraWorkflow(
+        {
+          incident: toKestraIncidentData(incident),
+          trigger: 'ingestion',
+          routing_rule: rule
+        },
+        incident.id
+      );
+      console.log(`[${requestId}] Kestra workflow trigger:`, attempt);
+
+      kestraResult = {
+        triggered: attempt.delivered,
+        execution_id: (attempt.result?.execution_id as string | undefined) || null,
+        ...(!attempt.delivered && { retrying: attempt.status === 'pending' })
+      };
+    }
+
+    if (actions.includes('notify')) {
+      // Records its own slack_notified timeline event
+      notified = await notifyIncidentCreated({
+        id: incident.external_id,
+        internal_id: incident.id,
+        organization_id: incident.organization_id,
+        timestamp: incident.timestamp,
+        service: incident.service,
+        severity: incident.severity,
+        status: incident.status,
+        title: incident.title,
+        description: incident.description,
+        logs: incident.logs || [],
+        metrics: incident.metrics || {},
+        context: incident.context || {}
+      });
+    }
+  }
+
+  return {
+    success: true as const,
+    incident_id: incident.external_id,
+    internal_id: incident.id,
+    organization_id: incident.organization_id,
+    severity: incident.severity,
+    is_duplicate: isDuplicate,
+    grouped: outcome === 'grouped',
+    occurrence_count: incident.occurrence_count,
+    ...(routingDecision && { routing: routingDecision }),
+    ...(notified !== null && { notified }),
+    ...(kestraResult && { kestra: kestraResult })
+  };
+}
+
+/**
+ * Normalize a payload and apply every alert in it
+ * Returns the HTTP status and response body for the sender.
+ */
+export async function ingestPayload(
+  organization: Organization,
+  source: string,
+  payload: unknown,
+  requestId: string,
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  let alerts: NormalizedAlert[];
+  try {
+    alerts = await normalizePayload(source, payload, organization.id);
+  } catch (error) {
+    console.warn(`[${requestId}] Payload normalization failed:`, (error as Error).message);
+    return {
+      status: 400,
+      body: {
+        error: 'Invalid payload format',
+        details: (error as Error).message,
+        ...(error instanceof PayloadValidationError && { errors: error.issues }),
+        request_id: requestId
+      }
+    };
+  }
+
+  // Nothing to apply, e.g. a Sentry issue webhook for an action other than resolved
+  if (alerts.length === 0) {
+    return {
+      status: 200,
+      body: { success: true, ignored: true, request_id: requestId, alert_count: 0, failed: 0, results: [] }
+    };
+  }
+
+  if (alerts.length > MAX_BATCH_SIZE) {
+    return {
+      status: 400,
+      body: {
+        error: 'Batch too large',
+        details: `Maximum ${MAX_BATCH_SIZE} alerts per request`,
+        request_id: requestId
+      }
+    };
+  }
+
+  // Redact before anything is stored or fingerprinted, so recoveries still match their incident
+  const redaction = getRedactionConfig(organization.settings);
+  const hashKey = await getRedactionHashKey(organization.id);
+  const routing = getRoutingConfig(organization.settings);
+
+  // Process sequentially so alerts of the same rule in one batch group together
+  const outcomes = [];
+  for (const [index, alert] of alerts.entries()) {
+    try {
+      const { incident: redacted, redactions } = redactIncidentFields(alert, redaction, hashKey);
+      outcomes.push(await processAlert({ ...redacted, redactions }, organization, requestId, routing, options));
+    } catch (error) {
+      console.error(`[${requestId}] Failed to process alert ${index}:`, error);
+      outcomes.push({
+        success: false as const,
+        external_id: alert.external_id,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  const results = outcomes.map((result, index) => ({ index, ...result }));
+  const failed = outcomes.filter(r => !r.success).length;
+
+  if (failed === outcomes.length) {
+    return {
+      status: 500,
+      body: {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' && 'error' in outcomes[0] ? outcomes[0].error : undefined,
+        request_id: requestId,
+        results
+      }
+    };
+  }
+
+  // Top-level fields describe the first processed alert so single-alert clients keep working
+  const first = outcomes.find(r => r.success) || outcomes[0];
+  const anyCreated = outcomes.some(r => r.success && 'is_duplicate' in r && !r.is_duplicate);
+
+  return {
+    status: anyCreated ? 201 : 200,
+    body: {
+      ...first,
+      success: true,
+      request_id: requestId,
+      alert_count: outcomes.length,
+      failed,
+      results
+    }
+  };
+}
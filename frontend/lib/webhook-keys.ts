@@ -0,0 +1,79 @@
+import { getAdminClient } from './supabase-admin';
+import { Organization } from './supabase-queries';
+
+/**
+ * Webhook ingestion keys
+ *
+ * An organization can hold several named keys, each optionally limited to one
+ * source. The primary key is mirrored to `organizations.webhook_key` for the
+ * setup screens. Rotating a key issues a replacement and keeps the old key
+ * valid until its grace period ends.
+ */
+
+export interface WebhookKey {
+  id: string;
+  name: string;
+  key: string;
+  source: string | null;
+  is_primary: boolean;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+export const WEBHOOK_KEY_SELECT = 'id, name, key, source, is_primary, created_at, last_used_at, expires_at, revoked_at';
+
+export const DEFAULT_GRACE_PERIOD_HOURS = 24;
+export const MAX_GRACE_PERIOD_HOURS = 30 * 24;
+
+// Avoid a write per webhook; last_used_at is refreshed at most this often
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isWebhookKeyActive(key: Pick<WebhookKey, 'revoked_at' | 'expires_at'>, now: Date = new Date()): boolean {
+  return !key.revoked_at && (!key.expires_at || new Date(key.expires_at) > now);
+}
+
+/**
+ * Authenticate an ingestion key and load its organization
+ * Returns null for unknown, revoked or expired keys.
+ */
+export async function resolveWebhookKey(
+  key: string
+): Promise<{ organization: Organization; webhookKey: WebhookKey } | null> {
+  const adminClient = getAdminClient();
+
+  const { data, error } = await adminClient
+    .from('webhook_keys')
+    .select(`${WEBHOOK_KEY_SELECT}, organization:organization_id (*)`)
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || !isWebhookKeyActive(data)) {
+    return null;
+  }
+
+  const { organization: embedded, ...webhookKey } = data;
+  const organization = (Array.isArray(embedded) ? embedded[0] : embedded) as Organization | null;
+
+  if (!organization) {
+    return null;
+  }
+
+  if (!webhookKey.last_used_at || Date.now() - new Date(webhookKey.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    const { error: touchError } = await adminClient
+      .from('webhook_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', webhookKey.id);
+
+    if (touchError) {
+      console.warn('Failed to update webhook key last_used_at:', touchError.message);
+    }
+  }
+
+  return { organization, webhookKey: webhookKey as WebhookKey };
+}
@@ -0,0 +1,480 @@
+import { Incident } from './db';
+import { BUILT_IN_SOURCES, applyMapping, getWebhookSource } from './webhook-sources';
+import { ValidationIssue, WEBHOOK_SCHEMAS, getWebhookSchema, validatePayload } from './webhook-schemas';
+
+/**
+ * Webhook payload normalizers
+ *
+ * Turn each monitoring tool's payload into IncidentScribe alerts. Batch
+ * sources (Alertmanager, Grafana, PagerDuty) yield one alert per entry.
+ * Built-in payloads are checked against their schema first, so normalizers
+ * only throw for problems a schema cannot express.
+ */
+
+// Valid severity values
+const VALID_SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * A payload that does not match its source's schema
+ */
+export class PayloadValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    super(`Invalid ${source} payload: ${issues[0].message}${issues.length > 1 ? ` (and ${issues.length - 1} more)` : ''}`);
+    this.name = 'PayloadValidationError';
+    this.issues = issues;
+  }
+}
+
+export type NormalizedAlert = Omit<Incident, 'id' | 'created_at' | 'updated_at' | 'organization_id' | 'occurrence_count' | 'log_count'> & {
+  is_recovery: boolean;
+};
+
+// Webhook payload interfaces
+interface DatadogWebhook {
+  id: string;
+  title: string;
+  body: string;
+  date: number | string;
+  priority: string;
+  // Arrays, or the comma-separated string Datadog's $TAGS variable expands to
+  tags: string[] | string;
+  alert_transition?: string;
+}
+
+interface PagerDutyWebhook {
+  messages: Array<{
+    id: string;
+    event: string;
+    incident: {
+      id?: string;
+      title: string;
+      urgency: string;
+      service: { name: string };
+      created_at: string;
+    };
+  }>;
+}
+
+interface CloudWatchAlarm {
+  AlarmName: string;
+  NewStateValue: string;
+  NewStateReason: string;
+  StateChangeTime: string;
+  AlarmDescription?: string;
+  Trigger: {
+    MetricName: string;
+    Namespace: string;
+    Dimensions?: Array<{ name: string; value: string }>;
+  };
+}
+
+interface PrometheusAlert {
+  alerts: Array<{
+    status: string;
+    fingerprint?: string;
+    labels: Record<string, string>;
+    annotations: Record<string, string>;
+    startsAt: string;
+    endsAt?: string;
+  }>;
+}
+
+interface GrafanaWebhook {
+  status: string;
+  orgId?: number;
+  alerts: Array<{
+    status: string;
+    fingerprint?: string;
+    labels: Record<string, string>;
+    annotations: Record<string, string>;
+    startsAt: string;
+    endsAt?: string;
+    generatorURL?: string;
+    dashboardURL?: string;
+    panelURL?: string;
+    silenceURL?: string;
+    values?: Record<string, number> | null;
+    valueString?: string;
+  }>;
+}
+
+interface OpsgenieWebhook {
+  action: string;
+  alert: {
+    alertId: string;
+    message: string;
+    description?: string;
+    alias?: string;
+    tinyId?: string;
+    entity?: string;
+    source?: string;
+    priority?: string;
+    tags?: string[];
+    teams?: string[];
+    details?: Record<string, string>;
+    createdAt?: number;
+  };
+}
+
+// Sentry issue alert (internal integration), legacy webhook plugin, or issue resource webhook
+interface SentryWebhook {
+  action?: string;
+  data?: {
+    event?: SentryEvent & { issue_id?: string; web_url?: string };
+    issue?: { id: string; title: string; culprit?: string; level?: string; project?: { slug?: string } };
+    triggered_rule?: string;
+  };
+  // Legacy webhook plugin fields
+  id?: string;
+  project?: string;
+  project_name?: string;
+  project_slug?: string;
+  level?: string;
+  culprit?: string;
+  message?: string;
+  url?: string;
+  triggering_rules?: string[];
+  event?: SentryEvent;
+}
+
+interface SentryEvent {
+  event_id?: string;
+  title?: string;
+  message?: string;
+  level?: string;
+  culprit?: string;
+  environment?: string;
+  project?: number | string;
+  timestamp?: number | string;
+  datetime?: string;
+  tags?: Array<[string, string]>;
+}
+
+interface GenericWebhook {
+  id?: string;
+  title: string;
+  service: string;
+  severity?: string;
+  description?: string;
+  logs?: string[];
+  metrics?: Record<string, unknown>;
+  context?: Record<string, unknown>;
+  timestamp?: string;
+  status?: string;
+}
+
+// Datadog prefixes titles with the monitor transition, e.g. "[Recovered] High CPU"
+const DATADOG_TRANSITION_PREFIX = /^\[(Triggered|Re-Triggered|Recovered|Warn|No Data)\]\s*/i;
+
+function normalizeDatadog(payload: DatadogWebhook) {
+  const tags = typeof payload.tags === 'string'
+    ? payload.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+    : payload.tags || [];
+  const service = tags.find(t => t.startsWith('service:'))?.split(':')[1] || 'unknown';
+  const severity = (payload.priority === 'normal' ? 'MEDIUM' : 'HIGH') as 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  const isRecovery = payload.alert_transition?.toLowerCase() === 'recovered' ||
+    /^\[Recovered\]/i.test(payload.title || '');
+
+  return {
+    external_id: `DD-${payload.id}`,
+    source: 'datadog' as const,
+    is_recovery: isRecovery,
+    timestamp: new Date(Number(payload.date) * 1000).toISOString(),
+    service,
+    severity,
+    status: 'open' as const,
+    // Strip the transition prefix so triggers and recoveries share a fingerprint
+    title: (payload.title || '').replace(DATADOG_TRANSITION_PREFIX, '') || 'Datadog Alert',
+    description: payload.body,
+    logs: payload.body ? [payload.body] : [],
+    metrics: {},
+    context: { tags }
+  };
+}
+
+function normalizePagerDuty(payload: PagerDutyWebhook) {
+  return payload.messages.map(normalizePagerDutyMessage);
+}
+
+function normalizePagerDutyMessage(message: PagerDutyWebhook['messages'][number]) {
+  const severity = (message.incident.urgency === 'high' ? 'HIGH' : 'MEDIUM') as 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+  return {
+    // Key on the PagerDuty incident so trigger and resolve messages match
+    external_id: `PD-${message.incident.id || message.id}`,
+    source: 'pagerduty' as const,
+    is_recovery: message.event === 'incident.resolve' || message.event === 'incident.resolved',
+    timestamp: message.incident.created_at || new Date().toISOString(),
+    service: message.incident.service?.name || 'unknown',
+    severity,
+    status: 'open' as const,
+    title: message.incident.title || 'PagerDuty Incident',
+    logs: [] as string[],
+    metrics: {},
+    context: { urgency: message.incident.urgency, event: message.event }
+  };
+}
+
+function normalizeCloudWatch(payload: CloudWatchAlarm) {
+  const severity = (payload.NewStateValue === 'ALARM' ? 'HIGH' : 'MEDIUM') as 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  const service = payload.Trigger?.Dimensions?.find(d => d.name === 'ServiceName')?.value || 'cloudwatch';
+
+  return {
+    // Key on the state change so SNS redeliveries of it are recognized as duplicates
+    external_id: `CW-${payload.AlarmName}-${Date.parse(payload.StateChangeTime) || Date.now()}`,
+    source: 'cloudwatch' as const,
+    is_recovery: payload.NewStateValue === 'OK',
+    timestamp: payload.StateChangeTime || new Date().toISOString(),
+    service,
+    severity,
+    status: 'open' as const,
+    title: payload.AlarmName || 'CloudWatch Alarm',
+    description: payload.NewStateReason,
+    logs: payload.NewStateReason ? [payload.NewStateReason] : [],
+    metrics: { 
+      metric: payload.Trigger?.MetricName, 
+      namespace: payload.Trigger?.Namespace 
+    },
+    context: { alarm_description: payload.AlarmDescription || '' }
+  };
+}
+
+function normalizePrometheus(payload: PrometheusAlert) {
+  return payload.alerts.map(normalizePrometheusAlert);
+}
+
+function normalizePrometheusAlert(alert: PrometheusAlert['alerts'][number], index: number) {
+  const severityLabel = alert.labels?.severity?.toUpperCase();
+  const severity = (VALID_SEVERITIES.includes(severityLabel) ? severityLabel : 'MEDIUM') as 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+  return {
+    // Alertmanager's per-alert fingerprint and startsAt are stable across firing and
+    // resolved notifications; fall back to the batch position for bare payloads
+    external_id: `PROM-${alert.labels?.alertname || 'unknown'}-${alert.fingerprint || index}-${Date.parse(alert.startsAt) || Date.now()}`,
+    source: 'prometheus' as const,
+    is_recovery: alert.status === 'resolved',
+    timestamp: alert.startsAt || new Date().toISOString(),
+    service: alert.labels?.service || alert.labels?.job || 'prometheus',
+    severity,
+    status: 'open' as const,
+    title: alert.annotations?.summary || alert.labels?.alertname || 'Prometheus Alert',
+    description: alert.annotations?.description,
+    logs: alert.annotations?.description ? [alert.annotations.description] : [],
+    metrics: {},
+    context: { labels: alert.labels, annotations: alert.annotations, ends_at: alert.endsAt }
+  };
+}
+
+// Map a source-specific severity or priority label onto IncidentScribe severities
+const SEVERITY_ALIASES: Record<string, 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW'> = {
+  critical: 'CRITICAL', crit: 'CRITICAL', fatal: 'CRITICAL', p1: 'CRITICAL',
+  high: 'HIGH', error: 'HIGH', major: 'HIGH', p2: 'HIGH',
+  medium: 'MEDIUM', warning: 'MEDIUM', warn: 'MEDIUM', moderate: 'MEDIUM', p3: 'MEDIUM',
+  low: 'LOW', minor: 'LOW', info: 'LOW', debug: 'LOW', p4: 'LOW', p5: 'LOW'
+};
+
+function mapSeverity(value?: string): 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' {
+  return SEVERITY_ALIASES[value?.toLowerCase() || ''] || 'MEDIUM';
+}
+
+function normalizeGrafana(payload: GrafanaWebhook) {
+  return payload.alerts.map(normalizeGrafanaAlert);
+}
+
+function normalizeGrafanaAlert(alert: GrafanaWebhook['alerts'][number], index: number) {
+  const labels = alert.labels || {};
+  const annotations = alert.annotations || {};
+
+  return {
+    external_id: `GRAFANA-${labels.alertname || 'unknown'}-${alert.fingerprint || index}-${Date.parse(alert.startsAt) || Date.now()}`,
+    source: 'grafana' as const,
+    is_recovery: alert.status === 'resolved',
+    timestamp: alert.startsAt || new Date().toISOString(),
+    service: labels.service || labels.job || labels.grafana_folder || 'grafana',
+    severity: mapSeverity(labels.severity || labels.priority),
+    status: 'open' as const,
+    title: annotations.summary || labels.alertname || 'Grafana Alert',
+    description: annotations.description,
+    logs: annotations.description ? [annotations.description] : [],
+    metrics: alert.values || {},
+    context: {
+      labels,
+      annotations,
+      value_string: alert.valueString,
+      generator_url: alert.generatorURL,
+      dashboard_url: alert.dashboardURL,
+      panel_url: alert.panelURL,
+      silence_url: alert.silenceURL
+    }
+  };
+}
+
+function normalizeOpsgenie(payload: OpsgenieWebhook) {
+  const alert = payload.alert;
+
+  const tags = alert.tags || [];
+  const details = alert.details || {};
+  const tagService = tags.find(t => t.startsWith('service:'))?.split(':')[1];
+
+  return {
+    external_id: `OG-${alert.alertId}`,
+    source: 'opsgenie' as const,
+    is_recovery: payload.action?.toLowerCase() === 'close',
+    timestamp: alert.createdAt ? new Date(alert.createdAt).toISOString() : new Date().toISOString(),
+    service: details.service || tagService || alert.entity || alert.teams?.[0] || 'opsgenie',
+    severity: mapSeverity(alert.priority),
+    status: 'open' as const,
+    title: alert.message || 'Opsgenie Alert',
+    description: alert.description,
+    logs: alert.description ? [alert.description] : [],
+    metrics: {},
+    context: {
+      labels: details,
+      tags,
+      alias: alert.alias,
+      tiny_id: alert.tinyId,
+      entity: alert.entity,
+      alert_source: alert.source,
+      teams: alert.teams || [],
+      action: payload.action
+    }
+  };
+}
+
+function normalizeSentry(payload: SentryWebhook) {
+  // Issue resource webhooks only matter when the issue is resolved; other
+  // actions (assigned, ignored, archived, ...) are acknowledged and skipped
+  const issue = payload.data?.issue;
+  if (issue) {
+    if (payload.action !== 'resolved') {
+      return null;
+    }
+
+    return {
+      external_id: `SENTRY-${issue.id}`,
+      source: 'sentry' as const,
+      is_recovery: true,
+      timestamp: new Date().toISOString(),
+      service: issue.project?.slug || 'sentry',
+      severity: mapSeverity(issue.level),
+      status: 'open' as const,
+      title: issue.title,
+      logs: [] as string[],
+      metrics: {},
+      context: { action: payload.action }
+    };
+  }
+
+  const integrationEvent = payload.data?.event;
+  const event: SentryEvent = integrationEvent || payload.event || {};
+  const issueId = integrationEvent?.issue_id || payload.id;
+
+  if (!issueId && !event.event_id) {
+    throw new Error('Invalid Sentry payload: missing event');
+  }
+
+  const labels = Object.fromEntries(event.tags || []) as Record<string, string>;
+  const culprit = event.culprit || payload.culprit;
+  const level = event.level || payload.level;
+  const eventTime = event.datetime || (typeof event.timestamp === 'number'
+    ? new Date(event.timestamp * 1000).toISOString()
+    : event.timestamp);
+
+  return {
+    // Key on the Sentry issue so repeat events and the resolve webhook match
+    external_id: `SENTRY-${issueId || event.event_id}`,
+    source: 'sentry' as const,
+    is_recovery: false,
+    timestamp: eventTime || new Date().toISOString(),
+    service: labels.service || payload.project_slug || payload.project_name || payload.project || 'sentry',
+    severity: mapSeverity(level),
+    status: 'open' as const,
+    title: event.title || payload.message || event.message || 'Sentry Issue',
+    description: culprit,
+    logs: culprit ? [culprit] : [],
+    metrics: {},
+    context: {
+      labels,
+      level,
+      environment: event.environment || labels.environment,
+      url: integrationEvent?.web_url || payload.url,
+      event_id: event.event_id,
+      triggered_rules: payload.data?.triggered_rule ? [payload.data.triggered_rule] : payload.triggering_rules || []
+    }
+  };
+}
+
+function normalizeGeneric(payload: GenericWebhook) {
+  // Normalize and validate severity
+  let severityRaw = payload.severity?.toUpperCase() || 'MEDIUM';
+  if (!VALID_SEVERITIES.includes(severityRaw)) {
+    severityRaw = 'MEDIUM';
+  }
+  const severity = severityRaw as 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+  return {
+    external_id: payload.id || `GEN-${Date.now()}`,
+    source: 'generic' as const,
+    is_recovery: payload.status?.toLowerCase() === 'resolved',
+    timestamp: payload.timestamp || new Date().toISOString(),
+    service: payload.service,
+    severity,
+    status: 'open' as const,
+    title: payload.title,
+    description: payload.description,
+    logs: payload.logs || [],
+    metrics: payload.metrics || {},
+    context: payload.context || {}
+  };
+}
+
+/**
+ * Normalize a payload for a built-in source or an organization's custom source
+ * Unknown source names fall back to the generic format.
+ */
+export async function normalizePayload(
+  source: string,
+  payload: unknown,
+  organizationId: string
+): Promise<NormalizedAlert[]> {
+  const sourceName = source.toLowerCase();
+  const customSource = BUILT_IN_SOURCES.includes(sourceName)
+    ? null
+    : await getWebhookSource(organizationId, sourceName);
+
+  // Custom sources are validated by their field mapping instead
+  if (!customSource) {
+    const schema = getWebhookSchema(sourceName) || WEBHOOK_SCHEMAS.generic;
+    const issues = validatePayload(schema, payload);
+    if (issues.length > 0) {
+      throw new PayloadValidationError(schema.name, issues);
+    }
+  }
+
+  switch (sourceName) {
+    case 'datadog':
+      return [normalizeDatadog(payload as DatadogWebhook)];
+    case 'pagerduty':
+      return normalizePagerDuty(payload as PagerDutyWebhook);
+    case 'cloudwatch':
+      return [normalizeCloudWatch(payload as CloudWatchAlarm)];
+    case 'prometheus':
+      return normalizePrometheus(payload as PrometheusAlert);
+    case 'grafana':
+      return normalizeGrafana(payload as GrafanaWebhook);
+    case 'opsgenie':
+      return [normalizeOpsgenie(payload as OpsgenieWebhook)];
+    case 'sentry': {
+      const alert = normalizeSentry(payload as SentryWebhook);
+      return alert ? [alert] : [];
+    }
+    case 'generic':
+      return [normalizeGeneric(payload as GenericWebhook)];
+    default:
+      return [customSource
+        ? applyMapping(customSource.name, customSource.mapping, payload)
+        : normalizeGeneric(payload as GenericWebhook)];
+  }
+}
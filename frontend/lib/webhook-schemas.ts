@@ -0,0 +1,616 @@
+/**
+ * Webhook payload schemas
+ *
+ * Runtime descriptions of each built-in source's payload. The ingest pipeline
+ * validates against them before normalizing, and the docs page and webhooks
+ * test console render their fields and examples, so all three stay in sync.
+ * Unknown fields are always allowed: monitoring tools add fields freely.
+ */
+
+export type SchemaType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface SchemaNode {
+  type: SchemaType | SchemaType[];
+  description?: string;
+  // Object nodes
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  // Schema for every value of a map-like object, e.g. label sets
+  values?: SchemaNode;
+  // Array nodes
+  items?: SchemaNode;
+  minItems?: number;
+  // String nodes
+  enum?: string[];
+  ignoreCase?: boolean;
+  format?: 'date-time' | 'numeric';
+  // Shown with any error on this node
+  hint?: string;
+}
+
+export interface WebhookSchema {
+  source: string;
+  name: string;
+  description: string;
+  schema: SchemaNode;
+  example: Record<string, unknown>;
+}
+
+export interface ValidationIssue {
+  // JSON pointer (RFC 6901) to the offending value, '' for the payload itself
+  pointer: string;
+  expected: string;
+  actual: string;
+  message: string;
+  hint?: string;
+}
+
+export interface SchemaField {
+  path: string;
+  type: string;
+  required: boolean;
+  description?: string;
+}
+
+// Large batches can fail the same way thousands of times; the first few are enough to fix it
+export const MAX_VALIDATION_ISSUES = 20;
+
+const stringMap = (description: string): SchemaNode => ({
+  type: 'object',
+  description,
+  values: { type: 'string' }
+});
+
+const ALERTMANAGER_ALERT_PROPERTIES: Record<string, SchemaNode> = {
+  status: { type: 'string', enum: ['firing', 'resolved'], description: 'Resolved alerts resolve the matching incident' },
+  labels: {
+    type: 'object',
+    description: 'alertname, severity, service or job are used for the incident',
+    values: { type: 'string' },
+    hint: 'Label values must be strings; quote numeric labels'
+  },
+  annotations: stringMap('summary becomes the title, description the first log line'),
+  startsAt: { type: 'string', format: 'date-time', description: 'When the alert started firing' },
+  endsAt: { type: 'string', format: 'date-time' },
+  fingerprint: { type: 'string', description: 'Keeps firing and resolved notifications on one incident' }
+};
+
+export const WEBHOOK_SCHEMAS: Record<string, WebhookSchema> = {
+  datadog: {
+    source: 'datadog',
+    name: 'Datadog',
+    description: 'Datadog Webhooks integration using the default payload template',
+    schema: {
+      type: 'object',
+      required: ['id', 'title', 'date'],
+      properties: {
+        id: { type: ['string', 'number'], description: 'Alert ID ($ALERT_ID), used for the incident external ID' },
+        title: { type: 'string', description: 'Alert title ($ALERT_TITLE); a [Recovered] prefix marks a recovery' },
+        body: { type: 'string', description: 'Alert message ($TEXT_ONLY_MSG)' },
+        date: {
+          type: ['number', 'string'],
+          format: 'numeric',
+          description: 'Unix timestamp in seconds ($DATE)'
+        },
+        priority: { type: 'string', description: '$PRIORITY; "normal" maps to MEDIUM, anything else to HIGH' },
+        tags: {
+          type: ['array', 'string'],
+          items: { type: 'string' },
+          description: 'Array or comma-separated $TAGS; a service:<name> tag sets the incident service'
+        },
+        alert_transition: { type: 'string', description: 'Recovered marks a recovery ($ALERT_TRANSITION)' }
+      }
+    },
+    example: {
+      id: '7284915623',
+      title: 'High CPU Usage Alert',
+      body: 'CPU usage exceeded 90% on prod-server-1',
+      date: 1705314600,
+      priority: 'normal',
+      tags: ['service:api', 'env:production'],
+      alert_transition: 'Triggered'
+    }
+  },
+  pagerduty: {
+    source: 'pagerduty',
+    name: 'PagerDuty',
+    description: 'PagerDuty generic webhook (v2) with one or more messages',
+    schema: {
+      type: 'object',
+      required: ['messages'],
+      properties: {
+        messages: {
+          type: 'array',
+          minItems: 1,
+          description: 'One incident per message',
+          hint: 'Configure a generic v2 webhook; Events API payloads (event_action, routing_key) are for sending alerts to PagerDuty',
+          items: {
+            type: 'object',
+            required: ['event', 'incident'],
+            properties: {
+              id: { type: 'string' },
+              event: { type: 'string', description: 'incident.resolve marks a recovery' },
+              incident: {
+                type: 'object',
+                required: ['title'],
+                properties: {
+                  id: { type: 'string', description: 'Keeps trigger and resolve messages on one incident' },
+                  title: { type: 'string' },
+                  urgency: { type: 'string', enum: ['high', 'low'], description: '"high" maps to HIGH, "low" to MEDIUM' },
+                  service: {
+                    type: 'object',
+                    properties: { name: { type: 'string', description: 'Becomes the incident service' } }
+                  },
+                  created_at: { type: 'string', format: 'date-time' }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    example: {
+      messages: [
+        {
+          id: 'msg-01H8X3',
+          event: 'incident.trigger',
+          incident: {
+            id: 'PT4KHLK',
+            title: 'Database connection failure',
+            urgency: 'high',
+            service: { name: 'db-primary' },
+            created_at: '2024-01-15T10:30:00.000Z'
+          }
+        }
+      ]
+    }
+  },
+  cloudwatch: {
+    source: 'cloudwatch',
+    name: 'CloudWatch',
+    description: 'CloudWatch alarm state change, as published to SNS (the Message field, parsed)',
+    schema: {
+      type: 'object',
+      required: ['AlarmName', 'NewStateValue'],
+      properties: {
+        AlarmName: { type: 'string', description: 'Becomes the incident title' },
+        AlarmDescription: { type: ['string', 'null'] },
+        NewStateValue: {
+          type: 'string',
+          enum: ['ALARM', 'OK', 'INSUFFICIENT_DATA'],
+          description: 'ALARM maps to HIGH; OK marks a recovery'
+        },
+        NewStateReason: { type: 'string', description: 'Becomes the description and first log line' },
+        StateChangeTime: { type: 'string', format: 'date-time' },
+        Trigger: {
+          type: 'object',
+          properties: {
+            MetricName: { type: 'string' },
+            Namespace: { type: 'string' },
+            Dimensions: {
+              type: 'array',
+              description: 'A ServiceName dimension sets the incident service',
+              items: {
+                type: 'object',
+                required: ['name', 'value'],
+                properties: { name: { type: 'string' }, value: { type: 'string' } }
+              }
+            }
+          }
+        }
+      }
+    },
+    example: {
+      AlarmName: 'High-Error-Rate-API',
+      AlarmDescription: 'Error rate exceeded 5% threshold',
+      NewStateValue: 'ALARM',
+      NewStateReason: 'Threshold Crossed: 1 datapoint [7.2] was greater than the threshold (5.0)',
+      StateChangeTime: '2024-01-15T10:30:00.000Z',
+      Trigger: {
+        MetricName: 'ErrorRate',
+        Namespace: 'AWS/ApplicationELB',
+        Dimensions: [{ name: 'ServiceName', value: 'api' }]
+      }
+    }
+  },
+  prometheus: {
+    source: 'prometheus',
+    name: 'Prometheus Alertmanager',
+    description: 'Alertmanager webhook receiver (version 4) with one or more alerts',
+    schema: {
+      type: 'object',
+      required: ['alerts'],
+      properties: {
+        status: { type: 'string', enum: ['firing', 'resolved'] },
+        alerts: {
+          type: 'array',
+          minItems: 1,
+          description: 'One incident per alert',
+          items: {
+            type: 'object',
+            required: ['status', 'labels', 'startsAt'],
+            properties: ALERTMANAGER_ALERT_PROPERTIES
+          }
+        }
+      }
+    },
+    example: {
+      status: 'firing',
+      alerts: [
+        {
+          status: 'firing',
+          labels: {
+            alertname: 'HighMemoryUsage',
+            severity: 'warning',
+            instance: 'prod-api-1:9090'
+          },
+          annotations: {
+            summary: 'High memory usage detected',
+            description: 'Memory usage is above 85%'
+          },
+          startsAt: '2024-01-15T10:30:00.000Z',
+          fingerprint: 'b4c2a1e07f3d9e10'
+        }
+      ]
+    }
+  },
+  grafana: {
+    source: 'grafana',
+    name: 'Grafana Alerting',
+    description: 'Grafana unified alerting webhook contact point',
+    schema: {
+      type: 'object',
+      required: ['alerts'],
+      properties: {
+        status: { type: 'string', enum: ['firing', 'resolved'] },
+        orgId: { type: 'number' },
+        alerts: {
+          type: 'array',
+          minItems: 1,
+          description: 'One incident per alert',
+          items: {
+            type: 'object',
+            required: ['status', 'labels', 'startsAt'],
+            properties: {
+              ...ALERTMANAGER_ALERT_PROPERTIES,
+              values: {
+                type: ['object', 'null'],
+                values: { type: 'number' },
+                description: 'Query values, stored as incident metrics'
+              },
+              valueString: { type: 'string' },
+              generatorURL: { type: 'string' },
+              dashboardURL: { type: 'string' },
+              panelURL: { type: 'string' },
+              silenceURL: { type: 'string' }
+            }
+          }
+        }
+      }
+    },
+    example: {
+      receiver: 'incidentscribe',
+      status: 'firing',
+      orgId: 1,
+      alerts: [
+        {
+          status: 'firing',
+          labels: {
+            alertname: 'HighLatency',
+            severity: 'critical',
+            service: 'checkout',
+            grafana_folder: 'Production'
+          },
+          annotations: {
+            summary: 'p99 latency above 2s',
+            description: 'Checkout p99 latency has been above 2s for 5 minutes'
+          },
+          startsAt: '2024-01-15T10:30:00.000Z',
+          fingerprint: '5c2e1ab7f3d9e402',
+          values: { B: 2.4 },
+          dashboardURL: 'https://grafana.example.com/d/checkout'
+        }
+      ]
+    }
+  },
+  opsgenie: {
+    source: 'opsgenie',
+    name: 'Opsgenie',
+    description: 'Opsgenie Webhook integration with alert description and details enabled',
+    schema: {
+      type: 'object',
+      required: ['action', 'alert'],
+      properties: {
+        action: { type: 'string', description: 'Close marks a recovery' },
+        alert: {
+          type: 'object',
+          required: ['alertId', 'message'],
+          properties: {
+            alertId: { type: 'string', description: 'Used for the incident external ID' },
+            message: { type: 'string', description: 'Becomes the incident title' },
+            description: { type: 'string' },
+            alias: { type: 'string' },
+            tinyId: { type: 'string' },
+            entity: { type: 'string' },
+            source: { type: 'string' },
+            priority: { type: 'string', enum: ['P1', 'P2', 'P3', 'P4', 'P5'], ignoreCase: true, description: 'P1 maps to CRITICAL, P2 to HIGH, P3 to MEDIUM' },
+            tags: { type: 'array', items: { type: 'string' }, description: 'A service:<name> tag sets the incident service' },
+            teams: { type: 'array', items: { type: 'string' } },
+            details: {
+              ...stringMap('A service detail sets the incident service'),
+              hint: 'Enable "Add Alert Details to Payload" in the integration'
+            },
+            createdAt: { type: 'number', description: 'Unix timestamp in milliseconds' }
+          }
+        }
+      }
+    },
+    example: {
+      action: 'Create',
+      alert: {
+        alertId: '70413a06-38d6-4c85-92b8-5ebc900d42e2',
+        message: 'Payment API error rate above 5%',
+        description: 'Error rate has been above 5% for 10 minutes',
+        alias: 'payment-api-error-rate',
+        tinyId: '1791',
+        entity: 'payment-api',
+        priority: 'P1',
+        tags: ['service:payment-api', 'env:production'],
+        teams: ['payments'],
+        details: { region: 'us-east-1' },
+        createdAt: 1705314600000
+      }
+    }
+  },
+  sentry: {
+    source: 'sentry',
+    name: 'Sentry',
+    description: 'Sentry internal integration (alert rule action or issue webhook), or the legacy Webhooks plugin',
+    schema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', description: 'Issue webhooks are only accepted for "resolved"' },
+        data: {
+          type: 'object',
+          properties: {
+            event: {
+              type: 'object',
+              properties: {
+                event_id: { type: 'string' },
+                issue_id: { type: ['string', 'number'], description: 'Keeps repeat events on one incident' },
+                title: { type: 'string' },
+                level: { type: 'string', description: 'fatal maps to CRITICAL, error to HIGH, warning to MEDIUM' },
+                culprit: { type: 'string' },
+                environment: { type: 'string' },
+                web_url: { type: 'string' },
+                tags: {
+                  type: 'array',
+                  description: 'A service tag sets the incident service',
+                  items: { type: 'array', items: { type: 'string' } },
+                  hint: 'Tags are [key, value] pairs'
+                },
+                timestamp: { type: ['number', 'string'] },
+                datetime: { type: 'string', format: 'date-time' }
+              }
+            },
+            issue: {
+              type: 'object',
+              required: ['id', 'title'],
+              properties: {
+                id: { type: ['string', 'number'] },
+                title: { type: 'string' },
+                level: { type: 'string' },
+                project: { type: 'object', properties: { slug: { type: 'string' } } }
+              }
+            },
+            triggered_rule: { type: 'string' }
+          }
+        },
+        id: { type: ['string', 'number'], description: 'Legacy plugin: issue ID' },
+        project_slug: { type: 'string', description: 'Legacy plugin: sets the incident service' },
+        level: { type: 'string' },
+        message: { type: 'string' },
+        culprit: { type: 'string' },
+        url: { type: 'string' },
+        triggering_rules: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    example: {
+      action: 'triggered',
+      data: {
+        event: {
+          event_id: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+          issue_id: '4509123456',
+          title: "TypeError: Cannot read properties of undefined (reading 'id')",
+          level: 'error',
+          culprit: 'app/checkout/submit.ts in handleSubmit',
+          environment: 'production',
+          web_url: 'https://sentry.io/organizations/acme/issues/4509123456/',
+          tags: [['service', 'checkout-web'], ['environment', 'production']],
+          datetime: '2024-01-15T10:30:00.000Z'
+        },
+        triggered_rule: 'New errors in production'
+      }
+    }
+  },
+  generic: {
+    source: 'generic',
+    name: 'Generic / Custom',
+    description: 'IncidentScribe format, for scripts and tools without a built-in source',
+    schema: {
+      type: 'object',
+      required: ['title', 'service'],
+      properties: {
+        id: { type: 'string', description: 'External ID; resending the same ID is idempotent' },
+        title: { type: 'string' },
+        service: { type: 'string' },
+        severity: { type: 'string', enum: ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'], ignoreCase: true, description: 'Defaults to MEDIUM' },
+        description: { type: 'string' },
+        status: { type: 'string', description: '"resolved" marks a recovery' },
+        timestamp: { type: 'string', format: 'date-time', description: 'Defaults to the time of receipt' },
+        logs: {
+          type: 'array',
+          items: { type: 'string' },
+          hint: 'Send logs as an array of lines, e.g. ["line 1", "line 2"]'
+        },
+        metrics: { type: 'object' },
+        context: { type: 'object' }
+      }
+    },
+    example: {
+      id: 'custom-alert-001',
+      title: 'Custom Alert',
+      description: 'A custom incident from your monitoring system',
+      severity: 'HIGH',
+      service: 'my-service',
+      logs: ['Error: Connection timeout', 'Retrying...'],
+      metrics: {
+        error_rate: 0.15,
+        latency_ms: 500
+      },
+      context: {
+        host: 'server-1',
+        region: 'us-east-1'
+      }
+    }
+  }
+};
+
+export function getWebhookSchema(source: string): WebhookSchema | null {
+  return WEBHOOK_SCHEMAS[source.toLowerCase()] || null;
+}
+
+function typeOf(value: unknown): SchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'undefined';
+}
+
+// Keep enum values and short strings readable; long values only matter by type
+function describeValue(value: unknown): string {
+  const type = typeOf(value);
+  if (type === 'string' && (value as string).length <= 40) return JSON.stringify(value);
+  if (type === 'number' || type === 'boolean') return `${type} ${value}`;
+  return type;
+}
+
+function describeType(node: SchemaNode): string {
+  const types = Array.isArray(node.type) ? node.type : [node.type];
+  const described = types.map(type => {
+    if (type === 'array' && node.items) return `array of ${describeType(node.items)}`;
+    if (type === 'object' && node.values) return `object of ${describeType(node.values)}`;
+    if (type === 'string' && node.enum) return node.enum.map(option => JSON.stringify(option)).join(' | ');
+    if (type === 'string' && node.format === 'date-time') return 'string (ISO 8601 date-time)';
+    if (type === 'string' && node.format === 'numeric') return 'numeric string';
+    return type;
+  });
+  return described.join(' or ');
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function issue(pointer: string, expected: string, actual: string, hint?: string): ValidationIssue {
+  const at = pointer || 'payload';
+  const message = actual === 'missing'
+    ? `${at} is required (${expected})`
+    : `${at}: expected ${expected}, got ${actual}`;
+  return { pointer, expected, actual, message, ...(hint && { hint }) };
+}
+
+function validateNode(node: SchemaNode, value: unknown, pointer: string, issues: ValidationIssue[]) {
+  if (issues.length >= MAX_VALIDATION_ISSUES) return;
+
+  const types = Array.isArray(node.type) ? node.type : [node.type];
+  const actualType = typeOf(value);
+
+  if (!types.includes(actualType as SchemaType)) {
+    let hint = node.hint;
+    if (!hint && actualType === 'string' && types.includes('number') && !isNaN(Number(value))) {
+      hint = 'Send the value as a JSON number, not a quoted string';
+    }
+    issues.push(issue(pointer, describeType(node), describeValue(value), hint));
+    return;
+  }
+
+  if (actualType === 'string') {
+    const text = value as string;
+    const matches = (option: string) => node.ignoreCase ? option.toLowerCase() === text.toLowerCase() : option === text;
+    if (node.enum && !node.enum.some(matches)) {
+      issues.push(issue(pointer, `one of ${node.enum.join(', ')}`, describeValue(value), node.hint));
+    } else if (node.format === 'date-time' && isNaN(Date.parse(text))) {
+      issues.push(issue(pointer, 'ISO 8601 date-time', describeValue(value), node.hint || 'e.g. 2024-01-15T10:30:00Z'));
+    } else if (node.format === 'numeric' && (!text.trim() || isNaN(Number(text)))) {
+      issues.push(issue(pointer, 'number', describeValue(value), node.hint || 'Send the value as a JSON number'));
+    }
+    return;
+  }
+
+  if (actualType === 'array') {
+    const items = value as unknown[];
+    if (node.minItems && items.length < node.minItems) {
+      issues.push(issue(pointer, `at least ${node.minItems} item${node.minItems === 1 ? '' : 's'}`, 'empty array', node.hint));
+    }
+    if (node.items) {
+      items.forEach((item, index) => validateNode(node.items!, item, `${pointer}/${index}`, issues));
+    }
+    return;
+  }
+
+  if (actualType === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of node.required || []) {
+      if (object[key] === undefined) {
+        const child = node.properties?.[key];
+        issues.push(issue(`${pointer}/${escapePointer(key)}`, child ? describeType(child) : 'a value', 'missing', child?.hint));
+      }
+    }
+    for (const [key, child] of Object.entries(node.properties || {})) {
+      if (object[key] !== undefined) {
+        validateNode(child, object[key], `${pointer}/${escapePointer(key)}`, issues);
+      }
+    }
+    if (node.values) {
+      for (const [key, child] of Object.entries(object)) {
+        validateNode({ ...node.values, hint: node.values.hint || node.hint }, child, `${pointer}/${escapePointer(key)}`, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a payload against a schema
+ * Returns every problem found (up to MAX_VALIDATION_ISSUES); an empty array means valid.
+ */
+export function validatePayload(schema: WebhookSchema, payload: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateNode(schema.schema, payload, '', issues);
+  return issues;
+}
+
+/**
+ * Flatten a schema into documented fields, e.g. `alerts[].labels`
+ */
+export function listSchemaFields(node: SchemaNode, prefix = ''): SchemaField[] {
+  const fields: SchemaField[] = [];
+
+  for (const [key, child] of Object.entries(node.properties || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    fields.push({
+      path,
+      type: describeType(child),
+      required: node.required?.includes(key) || false,
+      description: child.description
+    });
+
+    if (child.properties) {
+      fields.push(...listSchemaFields(child, path));
+    } else if (child.items?.properties) {
+      fields.push(...listSchemaFields(child.items, `${path}[]`));
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { getAdminClient } from './supabase-admin';
+
+/**
+ * Webhook signature verification
+ *
+ * Organizations can register signing secrets, either one for all sources
+ * (`*`) or per source. A secret that applies to the request's source makes a
+ * valid HMAC-SHA256 signature mandatory. Supported schemes:
+ * - generic: `X-Signature: sha256=<hex>` over `<timestamp>.<body>` with `X-Signature-Timestamp`
+ * - Sentry: `Sentry-Hook-Signature` over the body (`Sentry-Hook-Timestamp` is not signed and is ignored)
+ * - PagerDuty v3: `X-PagerDuty-Signature: v1=<hex>[,v1=<hex>]` over the body
+ * - Grafana: `X-Grafana-Alerting-Signature` over `<timestamp>:<body>` (or the body when unsigned time)
+ *
+ * Each accepted request is claimed once as a nonce to block replays: the
+ * signature when it covers a timestamp, otherwise the body digest. Only signed
+ * timestamps are trusted for the tolerance check and the nonce lifetime.
+ */
+
+export const DEFAULT_SECRET_SOURCE = '*';
+
+// Signed timestamps must be within this many seconds of the server clock
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Without a signed timestamp a captured request stays valid, so its nonce is kept for a year
+const UNTIMED_NONCE_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export type SignatureScheme = 'generic' | 'sentry' | 'pagerduty' | 'grafana';
+
+export type SignatureResult =
+  | { valid: true; scheme: SignatureScheme; nonce: string; expiresAt: Date }
+  | { valid: false; error: string };
+
+/**
+ * Generate a signing secret for senders that let us choose it
+ */
+export function generateSigningSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+function hmacHex(secret: string, message: string): string {
+  return crypto.createHmac('sha256', secret).update(message, 'utf8').digest('hex');
+}
+
+function safeEqualHex(expected: string, provided: string): boolean {
+  const a = Buffer.from(expected, 'utf8');
+  const b = Buffer.from(provided.trim().toLowerCase(), 'utf8');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Parse a Unix timestamp header (seconds, or milliseconds from some senders)
+ */
+function parseTimestamp(value: string): number | null {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return null;
+  return parsed > 1e12 ? Math.floor(parsed / 1000) : Math.floor(parsed);
+}
+
+function checkTolerance(timestamp: number, now: number): string | null {
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return `Signature timestamp outside the ${SIGNATURE_TOLERANCE_SECONDS}s tolerance window`;
+  }
+  return null;
+}
+
+/**
+ * Accept a verified request
+ * `signedTimestamp` must be covered by the signature: it bounds how long the
+ * request could be replayed. Without one, the body itself is the nonce.
+ */
+function accepted(scheme: SignatureScheme, signature: string, signedTimestamp: number | null, rawBody: string, now: number): SignatureResult {
+  if (signedTimestamp) {
+    return {
+      valid: true,
+      scheme,
+      nonce: `${scheme}:${signature.toLowerCase()}`,
+      expiresAt: new Date(now + SIGNATURE_TOLERANCE_SECONDS * 2 * 1000)
+    };
+  }
+
+  return {
+    valid: true,
+    scheme,
+    nonce: `${scheme}:body:${crypto.createHash('sha256').update(rawBody, 'utf8').digest('hex')}`,
+    expiresAt: new Date(now + UNTIMED_NONCE_TTL_SECONDS * 1000)
+  };
+}
+
+/**
+ * Verify the request signature against the secret
+ */
+export function verifySignature(
+  secret: string,
+  headers: Headers,
+  rawBody: string,
+  now: number = Date.now()
+): SignatureResult {
+  const generic = headers.get('x-signature');
+  if (generic) {
+    const timestamp = parseTimestamp(headers.get('x-signature-timestamp') || '');
+    if (!timestamp) {
+      return { valid: false, error: 'Missing or invalid X-Signature-Timestamp header' };
+    }
+    const toleranceError = checkTolerance(timestamp, now);
+    if (toleranceError) return { valid: false, error: toleranceError };
+
+    const signature = generic.replace(/^sha256=/i, '');
+    if (!safeEqualHex(hmacHex(secret, `${headers.get('x-signature-timestamp')}.${rawBody}`), signature)) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+    return accepted('generic', signature, timestamp, rawBody, now);
+  }
+
+  const sentry = headers.get('sentry-hook-signature');
+  if (sentry) {
+    // Sentry-Hook-Timestamp is not covered by the signature, so anyone can change it
+    if (!safeEqualHex(hmacHex(secret, rawBody), sentry)) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+    return accepted('sentry', sentry, null, rawBody, now);
+  }
+
+  const pagerduty = headers.get('x-pagerduty-signature');
+  if (pagerduty) {
+    // PagerDuty sends one signature per active secret during rotation
+    const expected = hmacHex(secret, rawBody);
+    const match = pagerduty
+      .split(',')
+      .map(s => s.trim().replace(/^v1=/, ''))
+      .find(s => safeEqualHex(expected, s));
+
+    if (!match) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+    return accepted('pagerduty', match, null, rawBody, now);
+  }
+
+  const grafana = headers.get('x-grafana-alerting-signature');
+  if (grafana) {
+    const timestampHeader = headers.get('x-grafana-alerting-timestamp');
+    const timestamp = timestampHeader ? parseTimestamp(timestampHeader) : null;
+    if (timestamp) {
+      const toleranceError = checkTolerance(timestamp, now);
+      if (toleranceError) return { valid: false, error: toleranceError };
+    }
+
+    const message = timestampHeader ? `${timestampHeader}:${rawBody}` : rawBody;
+    if (!safeEqualHex(hmacHex(secret, message), grafana)) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+    return accepted('grafana', grafana, timestamp, rawBody, now);
+  }
+
+  return { valid: false, error: 'Missing signature header' };
+}
+
+/**
+ * Signing secret for a source: the source-specific secret, else the org default
+ */
+export async function getSigningSecret(organizationId: string, source: string): Promise<string | null> {
+  const { data, error } = await getAdminClient()
+    .from('webhook_signing_secrets')
+    .select('source, secret')
+    .eq('organization_id', organizationId)
+    .in('source', [source, DEFAULT_SECRET_SOURCE]);
+
+  if (error) {
+    throw error;
+  }
+
+  const specific = data?.find(row => row.source === source);
+  const fallback = data?.find(row => row.source === DEFAULT_SECRET_SOURCE);
+  return (specific || fallback)?.secret || null;
+}
+
+/**
+ * Claim a nonce; false when it was already used (a replay)
+ */
+export async function claimNonce(organizationId: string, nonce: string, expiresAt: Date): Promise<boolean> {
+  const adminClient = getAdminClient();
+
+  const { error } = await adminClient
+    .from('webhook_nonces')
+    .insert([{ organization_id: organizationId, nonce, expires_at: expiresAt.toISOString() }]);
+
+  if (error) {
+    // Primary key (organization_id, nonce)
+    if (error.code === '23505') {
+      const { data: existing } = await adminClient
+        .from('webhook_nonces')
+        .select('expires_at')
+        .eq('organization_id', organizationId)
+        .eq('nonce', nonce)
+        .maybeSingle();
+
+      // An expired nonce that has not been swept yet can be reclaimed
+      if (existing && new Date(existing.expires_at) < new Date()) {
+        await adminClient
+          .from('webhook_nonces')
+          .update({ expires_at: expiresAt.toISOString() })
+          .eq('organization_id', organizationId)
+          .eq('nonce', nonce);
+        return true;
+      }
+      return false;
+    }
+    throw error;
+  }
+
+  // Opportunistically sweep expired nonces for this organization
+  if (Math.random() < 0.05) {
+    await adminClient
+      .from('webhook_nonces')
+      .delete()
+      .eq('organization_id', organizationId)
+      .lt('expires_at', new Date().toISOString());
+  }
+
+  return true;
+}
+
+/**
+ * Release a claimed nonce so the sender can retry after a server error
+ */
+export async function releaseNonce(organizationId: string, nonce: string): Promise<void> {
+  await getAdminClient()
+    .from('webhook_nonces')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('nonce', nonce);
+}
+
+export type RequestSignatureCheck =
+  | { ok: true; claimed: { organizationId: string; nonce: string } | null }
+  | { ok: false; status: 401 | 409; error: string; details: string };
+
+/**
+ * Enforce the organization's signing secret for a source, if it has one
+ * The accepted signature's nonce is claimed; release it when the request
+ * later fails with a server error.
+ */
+export async function checkRequestSignature(
+  organizationId: string,
+  source: string,
+  headers: Headers,
+  rawBody: string
+): Promise<RequestSignatureCheck> {
+  const signingSecret = await getSigningSecret(organizationId, source);
+  if (!signingSecret) {
+    return { ok: true, claimed: null };
+  }
+
+  const verification = verifySignature(signingSecret, headers, rawBody);
+  if (!verification.valid) {
+    return { ok: false, status: 401, error: 'Invalid signature', details: verification.error };
+  }
+
+  if (!await claimNonce(organizationId, verification.nonce, verification.expiresAt)) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'Replay detected',
+      details: 'This request has already been accepted; re-sign it with a new timestamp, or change the body for schemes without one'
+    };
+  }
+
+  return { ok: true, claimed: { organizationId, nonce: verification.nonce } };
+}
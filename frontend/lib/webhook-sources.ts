@@ -0,0 +1,296 @@
+import { getAdminClient } from './supabase-admin';
+
+/**
+ * Custom webhook sources
+ *
+ * Organizations describe how to turn an arbitrary JSON payload into an
+ * incident with a declarative mapping, then send to `?source=<name>`.
+ *
+ * Mapping values are expressions evaluated against the payload:
+ * - `$.path.to[0].field` - JSONPath-style lookup (`[*]` maps over arrays)
+ * - `"{{ $.host }} is down"` - template, each `{{ }}` is replaced with a lookup
+ * - anything else is a literal
+ */
+
+export type Severity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface WebhookSourceMapping {
+  title: string;
+  service: string;
+  severity?: string;
+  // Source severity value (case-insensitive) -> IncidentScribe severity
+  severity_map?: Record<string, Severity>;
+  external_id?: string;
+  description?: string;
+  timestamp?: string;
+  logs?: string;
+  // A single expression resolving to an object, or one expression per key
+  metrics?: string | Record<string, string>;
+  context?: string | Record<string, string>;
+  labels?: string | Record<string, string>;
+  // The payload is a recovery when the expression resolves to one of these values
+  recovery?: { expression: string; values: string[] };
+}
+
+export interface WebhookSource {
+  id: string;
+  name: string;
+  description: string | null;
+  mapping: WebhookSourceMapping;
+  sample_payload: unknown;
+  created_at: string;
+  updated_at: string;
+}
+
+export const WEBHOOK_SOURCE_SELECT = 'id, name, description, mapping, sample_payload, created_at, updated_at';
+
+// Names handled by the built-in normalizers cannot be reused
+export const BUILT_IN_SOURCES = ['datadog', 'pagerduty', 'cloudwatch', 'prometheus', 'grafana', 'opsgenie', 'sentry', 'generic'];
+
+const SEVERITIES: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+const STRING_FIELDS = ['title', 'service', 'severity', 'external_id', 'description', 'timestamp', 'logs'] as const;
+const OBJECT_FIELDS = ['metrics', 'context', 'labels'] as const;
+
+/**
+ * Split a path expression into segments: `$.a["b c"][0][*]` -> ['a', 'b c', 0, '*']
+ */
+function parsePath(expression: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\*\]|\.\*|\[["']([^"']*)["']\]/y;
+  let rest = expression.trim().slice(1);
+
+  while (rest.length > 0) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid path expression: ${expression}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else if (match[3] !== undefined) segments.push(match[3]);
+    else segments.push('*');
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Resolve a `$`-rooted path against the payload
+ */
+export function evaluatePath(payload: unknown, expression: string): unknown {
+  let values: unknown[] = [payload];
+  let wildcard = false;
+
+  for (const segment of parsePath(expression)) {
+    const next: unknown[] = [];
+    for (const value of values) {
+      if (value === null || value === undefined) continue;
+      if (segment === '*') {
+        wildcard = true;
+        if (Array.isArray(value)) next.push(...value);
+        else if (typeof value === 'object') next.push(...Object.values(value));
+      } else if (typeof segment === 'number') {
+        if (Array.isArray(value)) next.push(value[segment]);
+      } else if (typeof value === 'object') {
+        next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+    values = next;
+  }
+
+  return wildcard ? values.filter(v => v !== undefined) : values[0];
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Evaluate a mapping expression: path, `{{ }}` template or literal
+ */
+export function evaluateExpression(payload: unknown, expression: string): unknown {
+  const trimmed = expression.trim();
+
+  if (trimmed.startsWith('$')) {
+    return evaluatePath(payload, trimmed);
+  }
+
+  if (expression.includes('{{')) {
+    return expression.replace(/\{\{\s*(\$[^}]*?)\s*\}\}/g, (_, path) => stringify(evaluatePath(payload, path)));
+  }
+
+  return expression;
+}
+
+function evaluateObject(payload: unknown, expression: string | Record<string, string> | undefined): Record<string, unknown> {
+  if (!expression) return {};
+
+  if (typeof expression === 'string') {
+    const value = evaluateExpression(payload, expression);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, valueExpression] of Object.entries(expression)) {
+    const value = evaluateExpression(payload, valueExpression);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function resolveSeverity(value: unknown, severityMap: Record<string, Severity> = {}): Severity {
+  const raw = stringify(value).trim();
+
+  const mapped = Object.entries(severityMap).find(([key]) => key.toLowerCase() === raw.toLowerCase());
+  if (mapped) return mapped[1];
+
+  const upper = raw.toUpperCase() as Severity;
+  return SEVERITIES.includes(upper) ? upper : 'MEDIUM';
+}
+
+/**
+ * Validate a custom source name
+ * Throws with a user-facing message when the name is invalid.
+ */
+export function validateSourceName(name: unknown): string {
+  if (typeof name !== 'string' || !/^[a-z0-9][a-z0-9_-]{1,49}$/.test(name)) {
+    throw new Error('name must be 2-50 lowercase letters, digits, dashes or underscores');
+  }
+  if (BUILT_IN_SOURCES.includes(name)) {
+    throw new Error(`"${name}" is a built-in source`);
+  }
+  return name;
+}
+
+/**
+ * Validate a mapping from the API
+ * Throws with a user-facing message when the mapping is invalid.
+ */
+export function parseMapping(input: unknown): WebhookSourceMapping {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('mapping must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  for (const field of ['title', 'service']) {
+    if (typeof raw[field] !== 'string' || !(raw[field] as string).trim()) {
+      throw new Error(`mapping.${field} is required`);
+    }
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      throw new Error(`mapping.${field} must be an expression string`);
+    }
+  }
+
+  for (const field of OBJECT_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || typeof value === 'string') continue;
+    if (typeof value !== 'object' || Array.isArray(value) || !Object.values(value as object).every(v => typeof v === 'string')) {
+      throw new Error(`mapping.${field} must be an expression or an object of expressions`);
+    }
+  }
+
+  if (raw.severity_map !== undefined) {
+    if (typeof raw.severity_map !== 'object' || Array.isArray(raw.severity_map) || !raw.severity_map) {
+      throw new Error('mapping.severity_map must be an object');
+    }
+    for (const [key, value] of Object.entries(raw.severity_map)) {
+      if (!SEVERITIES.includes(value as Severity)) {
+        throw new Error(`mapping.severity_map.${key} must be one of ${SEVERITIES.join(', ')}`);
+      }
+    }
+  }
+
+  if (raw.recovery !== undefined) {
+    const recovery = raw.recovery as Record<string, unknown>;
+    if (
+      !recovery || typeof recovery !== 'object' ||
+      typeof recovery.expression !== 'string' ||
+      !Array.isArray(recovery.values) || !recovery.values.every(v => typeof v === 'string')
+    ) {
+      throw new Error('mapping.recovery must be { expression, values: string[] }');
+    }
+  }
+
+  // Surface path syntax errors at save time rather than at ingestion
+  const expressions = [
+    ...STRING_FIELDS.map(field => raw[field] as string | undefined),
+    ...OBJECT_FIELDS.flatMap(field => {
+      const value = raw[field];
+      return typeof value === 'string' ? [value] : Object.values((value || {}) as Record<string, string>);
+    }),
+    (raw.recovery as { expression?: string } | undefined)?.expression
+  ];
+  for (const expression of expressions) {
+    if (expression) evaluateExpression({}, expression);
+  }
+
+  return raw as unknown as WebhookSourceMapping;
+}
+
+/**
+ * Normalize a payload with a custom source mapping
+ */
+export function applyMapping(name: string, mapping: WebhookSourceMapping, payload: unknown) {
+  const title = stringify(evaluateExpression(payload, mapping.title)).trim();
+  const service = stringify(evaluateExpression(payload, mapping.service)).trim();
+
+  if (!title) {
+    throw new Error('Mapped title is empty');
+  }
+  if (!service) {
+    throw new Error('Mapped service is empty');
+  }
+
+  const externalId = mapping.external_id ? stringify(evaluateExpression(payload, mapping.external_id)).trim() : '';
+  const logs = mapping.logs ? evaluateExpression(payload, mapping.logs) : undefined;
+  const timestamp = mapping.timestamp ? evaluateExpression(payload, mapping.timestamp) : undefined;
+  const parsedTime = typeof timestamp === 'number'
+    // Treat small numbers as epoch seconds
+    ? new Date(timestamp < 1e12 ? timestamp * 1000 : timestamp)
+    : timestamp ? new Date(String(timestamp)) : null;
+  const description = mapping.description ? stringify(evaluateExpression(payload, mapping.description)) : undefined;
+  const labels = evaluateObject(payload, mapping.labels);
+  const recoveryValue = mapping.recovery ? stringify(evaluateExpression(payload, mapping.recovery.expression)) : null;
+
+  return {
+    external_id: externalId ? `${name}-${externalId}` : `${name}-${Date.now()}`,
+    source: name,
+    is_recovery: recoveryValue !== null &&
+      mapping.recovery!.values.some(v => v.toLowerCase() === recoveryValue.toLowerCase()),
+    timestamp: parsedTime && !isNaN(parsedTime.getTime()) ? parsedTime.toISOString() : new Date().toISOString(),
+    service,
+    severity: resolveSeverity(mapping.severity ? evaluateExpression(payload, mapping.severity) : undefined, mapping.severity_map),
+    status: 'open' as const,
+    title,
+    description: description || undefined,
+    logs: Array.isArray(logs) ? logs.map(stringify) : logs !== undefined && logs !== '' ? [stringify(logs)] : [],
+    metrics: evaluateObject(payload, mapping.metrics),
+    context: {
+      ...evaluateObject(payload, mapping.context),
+      ...(Object.keys(labels).length > 0 && { labels })
+    }
+  };
+}
+
+/**
+ * Load a custom source by name for webhook ingestion (no user context)
+ */
+export async function getWebhookSource(organizationId: string, name: string): Promise<WebhookSource | null> {
+  const { data } = await getAdminClient()
+    .from('webhook_sources')
+    .select(WEBHOOK_SOURCE_SELECT)
+    .eq('organization_id', organizationId)
+    .eq('name', name)
+    .maybeSingle();
+
+  return (data as WebhookSource) || null;
+}
@@ -0,0 +1,194 @@
+import { getAdminClient } from './supabase-admin';
+import type { KestraFlowConfig } from './kestra';
+
+/**
+ * Workflow execution history
+ *
+ * Every Kestra trigger for an incident (ingestion, manual, CLI, re-run) gets
+ * a `workflow_executions` row, including triggers that failed before Kestra
+ * created an execution. A trigger retried through the outbox gets one row:
+ * its execution, or a single failure once the retries run out. Rows are updated from Kestra and from the completion
+ * callback with state, timing and a per-task summary.
+ */
+
+export const WORKFLOW_TRIGGERS = ['ingestion', 'manual', 'cli', 'rerun'] as const;
+
+export type WorkflowTrigger = typeof WORKFLOW_TRIGGERS[number];
+
+// Not a Kestra state: the trigger request failed, so there is no execution
+export const TRIGGER_FAILED = 'TRIGGER_FAILED';
+
+// Kestra states after which an execution no longer changes
+export const TERMINAL_EXECUTION_STATES = ['SUCCESS', 'WARNING', 'FAILED', 'KILLED', 'CANCELLED', 'SKIPPED', 'RETRIED', TRIGGER_FAILED];
+
+export interface TaskRunSummary {
+  task_id: string;
+  state: string;
+  duration_seconds: number | null;
+}
+
+export interface ExecutionSummary {
+  state: string;
+  started_at: string | null;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  task_runs: TaskRunSummary[];
+  error: string | null;
+}
+
+export interface WorkflowExecution extends ExecutionSummary {
+  id: string;
+  incident_id: string;
+  organization_id: string;
+  execution_id: string | null;
+  trigger: WorkflowTrigger;
+  triggered_by: string | null;
+  rerun_of: string | null;
+  namespace: string;
+  flow_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const WORKFLOW_EXECUTION_SELECT =
+  'id, incident_id, organization_id, execution_id, trigger, triggered_by, rerun_of, namespace, flow_id, state, started_at, ended_at, duration_seconds, task_runs, error, created_at, updated_at';
+
+export function isTerminalState(state: string): boolean {
+  return TERMINAL_EXECUTION_STATES.includes(state);
+}
+
+/**
+ * Seconds in an ISO 8601 duration as Kestra reports them (PT1M21.19S -> 81.19)
+ */
+export function parseIsoDuration(duration: string | null | undefined): number | null {
+  const match = duration?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds] = match;
+  return Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+}
+
+interface KestraState {
+  current?: string;
+  startDate?: string;
+  endDate?: string;
+  duration?: string;
+}
+
+/**
+ * Summarize a raw Kestra execution for storage
+ */
+export function summarizeExecution(execution: {
+  state?: KestraState;
+  taskRunList?: Array<{ taskId: string; state?: KestraState }>;
+}): ExecutionSummary {
+  const state = execution.state?.current || 'UNKNOWN';
+  const taskRuns = (execution.taskRunList || []).map(run => ({
+    task_id: run.taskId,
+    state: run.state?.current || 'UNKNOWN',
+    duration_seconds: parseIsoDuration(run.state?.duration)
+  }));
+
+  const failedTasks = taskRuns.filter(run => run.state === 'FAILED').map(run => run.task_id);
+
+  return {
+    state,
+    started_at: execution.state?.startDate || null,
+    ended_at: isTerminalState(state) ? execution.state?.endDate || null : null,
+    duration_seconds: parseIsoDuration(execution.state?.duration),
+    task_runs: taskRuns,
+    error: failedTasks.length > 0 ? `Failed tasks: ${failedTasks.join(', ')}` : null
+  };
+}
+
+/**
+ * Record a trigger for an incident identified by its external ID (service role)
+ * Returns the row ID; failures are logged and never break the trigger.
+ */
+export async function recordWorkflowExecution(input: {
+  organizationId: string;
+  incidentExternalId: string;
+  executionId: string | null;
+  trigger: WorkflowTrigger;
+  triggeredBy?: string | null;
+  rerunOf?: string | null;
+  flow: Pick<KestraFlowConfig, 'namespace' | 'flow_id'>;
+  state: string;
+  error?: string | null;
+  // Binds the execution's callback token to this row (see lib/kestra-callback.ts)
+  callbackId?: string | null;
+}): Promise<string | null> {
+  const supabase = getAdminClient();
+
+  const { data: incident } = await supabase
+    .from('incidents')
+    .select('id')
+    .eq('external_id', input.incidentExternalId)
+    .eq('organization_id', input.organizationId)
+    .maybeSingle();
+
+  if (!incident) {
+    console.warn(`Cannot record workflow execution: incident ${input.incidentExternalId} not found`);
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const failed = input.state === TRIGGER_FAILED;
+
+  const { data, error } = await supabase
+    .from('workflow_executions')
+    .insert([{
+      incident_id: incident.id,
+      organization_id: input.organizationId,
+      execution_id: input.executionId,
+      trigger: input.trigger,
+      triggered_by: input.triggeredBy || null,
+      rerun_of: input.rerunOf || null,
+      namespace: input.flow.namespace,
+      flow_id: input.flow.flow_id,
+      state: input.state,
+      started_at: failed ? null : now,
+      ended_at: failed ? now : null,
+      error: input.error || null,
+      callback_id: input.callbackId || null
+    }])
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error recording workflow execution:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+/**
+ * Store the latest state of an execution (service role)
+ * Summary fields that are undefined are left unchanged. A running state never
+ * replaces a finished one: the callback can finish a run before Kestra does.
+ */
+export async function updateWorkflowExecution(
+  organizationId: string,
+  executionId: string,
+  summary: Partial<ExecutionSummary>
+): Promise<void> {
+  const updates = Object.fromEntries(Object.entries(summary).filter(([, value]) => value !== undefined));
+  if (Object.keys(updates).length === 0) return;
+
+  let query = getAdminClient()
+    .from('workflow_executions')
+    .update(updates)
+    .eq('organization_id', organizationId)
+    .eq('execution_id', executionId);
+
+  if (summary.state && !isTerminalState(summary.state)) {
+    query = query.not('state', 'in', `(${TERMINAL_EXECUTION_STATES.join(',')})`);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    console.error('Error updating workflow execution:', error);
+  }
+}
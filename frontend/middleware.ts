@@ -37,8 +37,8 @@ export async function middleware(request: NextRequest) {
   // Setup paths require platform admin
   const isSetupPath = request.nextUrl.pathname === '/setup' || request.nextUrl.pathname.startsWith('/setup/')
 
-  // Webhook paths (authenticated via webhook key, not user session)
-  const webhookPaths = ['/api/webhooks']
+  // Webhook paths (authenticated via webhook key, callback token or cron secret, not user session)
+  const webhookPaths = ['/api/webhooks', '/api/kestra/callback', '/api/outbox/process']
   const isWebhookPath = webhookPaths.some(path => request.nextUrl.pathname.startsWith(path))
 
   // Setup API paths (can be accessed for initial setup)
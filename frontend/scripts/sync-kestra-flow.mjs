@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+/**
+ * Copy kestra/flows/incident-handler.yml into lib/kestra-flow-bundle.ts
+ *
+ * The app uploads the bundled flow from /setup, and a deployment built from
+ * the frontend directory alone cannot read files outside it. Runs before
+ * `dev` and `build`; when the flow file is not there (frontend-only checkout)
+ * the committed bundle is kept.
+ */
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = join(root, '..', 'kestra', 'flows', 'incident-handler.yml');
+const target = join(root, 'lib', 'kestra-flow-bundle.ts');
+
+if (!existsSync(source)) {
+  console.warn(`${source} not found; keeping the bundled flow in ${target}`);
+  process.exit(0);
+}
+
+const yaml = readFileSync(source, 'utf-8')
+  .replace(/\\/g, '\\\\')
+  .replace(/`/g, '\\`')
+  .replace(/\$\{/g, '\\${');
+
+const content = `// Generated by scripts/sync-kestra-flow.mjs from kestra/flows/incident-handler.yml.
+// Do not edit: change the flow file and run \`npm run sync:flow\`.
+
+export const BUNDLED_FLOW_YAML = \`${yaml}\`;
+`;
+
+const current = existsSync(target) ? readFileSync(target, 'utf-8') : null;
+if (current !== content) {
+  writeFileSync(target, content);
+  console.log(`Updated ${target}`);
+}
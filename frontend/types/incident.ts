@@ -16,7 +16,23 @@ export interface Incident {
   status: 'open' | 'resolved' | 'investigating' | 'closed';
   title: string;
   description?: string;
+  // Preview of the first lines; page through the rest with getIncidentLogs
   logs: string[];
+  log_count?: number;
+  created_at?: string;
+  updated_at?: string;
+  acknowledged_at?: string | null;
+  resolved_at?: string | null;
+  closed_at?: string | null;
+  occurrence_count?: number;
+  last_occurrence_at?: string | null;
+  recovered_at?: string | null;
+  // What ingest redaction replaced, by rule; the values themselves are not kept
+  redactions?: Array<{ rule: string; action: 'mask' | 'hash'; count: number; fields: string[] }>;
+  assignees?: IncidentAssignee[];
+  // Latest AI analysis run; results arrive through the Kestra callback
+  analysis_status?: 'pending' | 'running' | 'completed' | 'failed' | null;
+  analysis_execution_id?: string | null;
   ai_analysis?: {
     analysis?: string;
     remediation?: string;
@@ -61,6 +77,23 @@ export interface Incident {
   };
 }
 
+export type AssigneeRole = 'commander' | 'responder';
+
+export interface IncidentAssignee {
+  user_id: string;
+  name: string | null;
+  email: string;
+  role: AssigneeRole;
+  assigned_at?: string;
+}
+
+export interface AssignableUser {
+  id: string;
+  name: string | null;
+  email: string;
+  role: string;
+}
+
 export interface IncidentAnalysis {
   error_clusters?: Array<{
     pattern: string;
@@ -99,3 +132,59 @@ export interface KestraExecution {
   message?: string;
 }
 
+
+export interface WorkflowRun {
+  id: string;
+  execution_id: string | null;
+  trigger: 'ingestion' | 'manual' | 'cli' | 'rerun';
+  triggered_by_user: { name: string | null; email: string } | null;
+  rerun_of: string | null;
+  namespace: string;
+  flow_id: string;
+  // Kestra state, or TRIGGER_FAILED when no execution was created
+  state: string;
+  started_at: string | null;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  task_runs: Array<{ task_id: string; state: string; duration_seconds: number | null }>;
+  error: string | null;
+  created_at: string;
+  url: string | null;
+}
+
+export interface IncidentTimelineEvent {
+  id: string;
+  type: string;
+  title: string;
+  details: Record<string, unknown>;
+  actor: { id: string; name: string | null; email: string } | null;
+  occurred_at: string;
+}
+
+export interface IncidentTimelinePage {
+  events: IncidentTimelineEvent[];
+  next_cursor: string | null;
+}
+
+export interface IncidentLogLine {
+  line_number: number;
+  level: 'FATAL' | 'ERROR' | 'WARN' | 'INFO' | 'DEBUG' | 'TRACE' | null;
+  logged_at: string | null;
+  message: string;
+}
+
+export interface IncidentLogPage {
+  lines: IncidentLogLine[];
+  total: number;
+  matched: number;
+  next_cursor: number | null;
+}
+
+export interface IncidentNote {
+  id: string;
+  body: string;
+  author: { id: string; name: string | null; email: string } | null;
+  mentions: Array<{ id: string; name: string | null; email: string }>;
+  created_at: string;
+  updated_at: string;
+}